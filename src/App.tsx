@@ -1,118 +1,266 @@
 // src/App.tsx
 
-import { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { Canvas, useLoader, useThree } from '@react-three/fiber';
+import { useEffect, useRef, useState, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
+import { Canvas, useThree } from '@react-three/fiber';
 import { Environment, TransformControls, OrbitControls } from '@react-three/drei';
-import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
 import * as THREE from 'three';
-import * as BufferGeometryUtils from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 
-import { Layout, Button, Collapse, Radio, Typography, Spin, Alert } from 'antd';
-import { UploadOutlined } from '@ant-design/icons';
+import { Layout, Button, Collapse, Radio, Typography, Spin, Alert, Upload, Dropdown, Space, Tooltip, Segmented, Slider, Checkbox } from 'antd';
+import { UploadOutlined, DownloadOutlined, UndoOutlined, RedoOutlined, FolderOpenOutlined, SaveOutlined } from '@ant-design/icons';
 import './App.css';
 
-import WasmSolverService from './services/WasmSolverService';
+import WasmSolverService, {
+  DEFAULT_SOLVER_SETTINGS, SolverError, type ConstraintIssue, type SolverSettings, type SolveStats,
+} from './services/WasmSolverService';
+import { useHistory } from './hooks/useHistory';
+import HandleMarkers from './components/HandleMarkers';
+import RegionSelectionController, { type RegionSelectionPhase } from './components/RegionSelectionController';
+import SelectionOverlay from './components/SelectionOverlay';
+import HandleGroupPanel, { type GizmoMode } from './components/HandleGroupPanel';
+import SolverPanel from './components/SolverPanel';
+import TimelinePanel from './components/TimelinePanel';
+import ConstraintIssueList from './components/ConstraintIssueList';
+import QualityPanel from './components/QualityPanel';
+import CagePanel from './components/CagePanel';
+import CageView from './components/CageView';
+import SkeletonPanel, { type SkeletonTool } from './components/SkeletonPanel';
+import SkeletonView, { type SkeletonJoint } from './components/SkeletonView';
+import SymmetryPanel from './components/SymmetryPanel';
+import HandleInspector, { type CoordinateFrame, type InspectorEntry } from './components/HandleInspector';
+import MeshDiagnosticsReport from './components/MeshDiagnosticsReport';
+import MeshRepairDialog from './components/MeshRepairDialog';
+import MultiresPanel, { type FrameTime } from './components/MultiresPanel';
+import CollisionPanel from './components/CollisionPanel';
+import ClipPlaneView from './components/ClipPlaneView';
+import type { SelectionShape, SelectionTarget, SelectionTool } from './utils/regionSelection';
+import { cloneHandleGroups, computeGroupTargets, createHandleGroup, getGroupedIndices, pruneHandleGroups, type HandleGroup } from './utils/handleGroups';
+import { importMeshFile, importMeshUrl, MeshImportError, MODEL_FILE_ACCEPT } from './utils/meshImport';
+import { buildSolverMesh, type VertexMapping } from './utils/vertexMapping';
+import {
+  buildDeformedGeometry, downloadBlob, exportAnimation, exportMesh, getAnimationExportFileName, getExportFileName, EXPORT_FORMATS,
+  type AnimationExportFormat, type AnimationFrame, type ExportFormat,
+} from './utils/meshExport';
+import { getAnimationDuration, sampleKeyframes, setKeyframe, type Keyframe, type KeyframeInterpolation } from './utils/keyframes';
+import {
+  loadProjectGeometry, parseProjectFile, restoreProjectState, serializeProject, ProjectFileError, PROJECT_FILE_EXTENSION, type ProjectState,
+} from './utils/projectFile';
+import { DEFAULT_STIFFNESS, MAX_STIFFNESS, MIN_STIFFNESS, getStiffnessColors, paintStiffness } from './utils/stiffness';
+import { getQualityColors, type QualityOverlay } from './utils/qualityOverlay';
+import { computeQualityField } from './geometry/deformationQuality';
+import { buildMeshTopology } from './geometry/meshTopology';
+import { diagnoseMesh, hasMeshIssues, type MeshDiagnostics } from './geometry/meshDiagnostics';
+import { detectCollisions, findSelfIntersections, type CollisionOptions } from './geometry/collision';
+import {
+  getPlaneOffsetUnder, toLocalCollisionPlane, DEFAULT_COLLISION_SETTINGS, type CollisionSettings,
+} from './utils/collisionPlane';
+import { repairGeometry, type MeshRepairOptions } from './utils/meshRepair';
+import { buildVoxelCage, DEFAULT_CAGE_RESOLUTION, type CageMesh } from './geometry/cageBuilder';
+import { parseObjMesh, ObjParseError } from './deformer/objMesh';
+import {
+  bindBones, cloneBones, computeBoneMatrices, computeSkeletonTargets, createBone, getParentMatrix, getSkeletonIndices, removeBoneSubtree,
+  type Bone,
+} from './utils/skeleton';
+import {
+  buildMirrorMap, detectSymmetry, getAxisPlane, reflectPoint, withMirrors, DEFAULT_SYMMETRY_TOLERANCE, type SymmetryMode,
+} from './utils/symmetry';
+import { constrainDragTarget, getDragPlane, toggleDragLock, type DragLock } from './utils/dragConstraint';
+
+const DEFAULT_MODEL_URL = '/model.obj';
+
+const SURFACE_COLOR = new THREE.Color('#d9d9d9');
+const ANCHOR_COLOR = new THREE.Color('#c70000');
+const HANDLE_COLOR = new THREE.Color('#ffc700');
+const ISSUE_COLOR = new THREE.Color('#b37feb');
+const COLLISION_COLOR = new THREE.Color('#fa541c');
+// How far a constraint of weight 0 would fade towards the surface colour, and how small its marker would get.
+const SOFT_FADE = 0.7;
+const SOFT_MARKER_SCALE = 0.5;
 
 const { Sider, Content } = Layout;
 const { Panel } = Collapse;
-const { Title } = Typography;
+const { Title, Text } = Typography;
+
+// Everything an undo/redo step has to put back.
+type EditorSnapshot = {
+  handleIndices: number[];
+  anchorIndices: number[];
+  handlePositions: Map<number, THREE.Vector3>;
+  // Weights of the soft anchors and handles; constraints missing from the map are hard.
+  constraintWeights: Map<number, number>;
+  handleGroups: HandleGroup[];
+  modelMatrix: THREE.Matrix4;
+  // Deformed solver-space positions, or null before a mesh is loaded.
+  vertices: Float32Array | null;
+  stiffness: Float32Array | null;
+  cage: CageMesh | null;
+  cageAnchors: number[];
+  // Local-frame targets of the cage vertices that were dragged.
+  cageTargets: Map<number, THREE.Vector3>;
+  // Deformed cage vertices, or null for the rest cage.
+  cagePose: Float32Array | null;
+  bones: Bone[];
+};
 
 type ModelProps = {
-  onModelLoad: (geometry: THREE.BufferGeometry) => void;
+  geometry: THREE.BufferGeometry | null;
+  vertexMapping: VertexMapping | null;
   handlePositions: Map<number, THREE.Vector3>;
-  anchorIndices?: number[];
+  handleIndices: number[];
+  anchorIndices: number[];
+  // Handles that get a draggable marker; grouped handles are moved through their group's gizmo instead.
+  markerIndices: number[];
+  // Soft constraints are drawn smaller and paler the lower their weight.
+  constraintWeights: Map<number, number>;
+  // Vertices behind the clip plane or on intersecting triangles; painted over the anchors and handles.
+  collisionIndices: number[];
+  // Vertices of the constraint problem the user asked to see; painted over everything else.
+  highlightIndices: number[];
+  // Per-solver-vertex rgb of a heatmap (stiffness or deformation quality) drawn under the anchors and handles, or null for the plain surface.
+  surfaceColors: Float32Array | null;
+  children?: React.ReactNode;
 };
 
 const Model = forwardRef(
   function Model(
-    { onModelLoad, handlePositions, anchorIndices }: ModelProps,
+    {
+      geometry: sourceGeometry, vertexMapping, handlePositions, handleIndices, anchorIndices, markerIndices, constraintWeights, collisionIndices, highlightIndices,
+      surfaceColors, children,
+    }: ModelProps,
     ref: React.Ref<any>
   ) {
-    const obj = useLoader(OBJLoader, '/model.obj');
     const groupRef = useRef<THREE.Group>(null);
+    // Geometry-space frame: vertices, handles and solver positions all live in this group's local space.
+    const frameRef = useRef<THREE.Group>(null);
     const handlesGroupRef = useRef<THREE.Group>(null);
-    const [initialScale, setInitialScale] = useState(0);
-    const modelLoadedRef = useRef(false);
-    const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
 
-    useEffect(() => {
-      if (obj && !modelLoadedRef.current) {
-        obj.traverse((child) => {
-          if (child instanceof THREE.Mesh) {
-            child.geometry.computeVertexNormals();
-            onModelLoad(child.geometry);
-            setGeometry(child.geometry);
-            modelLoadedRef.current = true;
-          }
-        });
+    // The loaded geometry is kept pristine (for export); only this clone gets deformed.
+    const geometry = useMemo(() => {
+      if (!sourceGeometry) return null;
+      const renderGeometry = sourceGeometry.clone();
+      renderGeometry.computeVertexNormals();
+      // Anchors and handles are highlighted on the surface through vertex colours.
+      const colors = new THREE.Float32BufferAttribute(renderGeometry.attributes.position.count * 3, 3);
+      renderGeometry.setAttribute('color', colors);
+      return renderGeometry;
+    }, [sourceGeometry]);
 
-        const bbox = new THREE.Box3().setFromObject(obj);
-        const center = bbox.getCenter(new THREE.Vector3());
-        obj.position.sub(center);
+    const { center, scale } = useMemo(() => {
+      if (!geometry) return { center: new THREE.Vector3(), scale: 0 };
+      geometry.computeBoundingBox();
+      const bbox = geometry.boundingBox!;
+      const size = bbox.getSize(new THREE.Vector3());
+      const maxDim = Math.max(size.x, size.y, size.z);
+      const desiredSize = 5;
+      const scaleFactor = desiredSize / maxDim;
+      return {
+        center: bbox.getCenter(new THREE.Vector3()),
+        scale: isFinite(scaleFactor) ? scaleFactor : 0,
+      };
+    }, [geometry]);
 
-        const size = bbox.getSize(new THREE.Vector3());
-        const maxDim = Math.max(size.x, size.y, size.z);
-        const desiredSize = 5;
-        const scaleFactor = desiredSize / maxDim;
-        
-        if (isFinite(scaleFactor)) {
-          setInitialScale(scaleFactor);
+    useEffect(() => {
+      // A freshly imported model starts without any leftover model transform.
+      groupRef.current?.position.set(0, 0, 0);
+      groupRef.current?.rotation.set(0, 0, 0);
+      return () => geometry?.dispose();
+    }, [geometry]);
+
+    useEffect(() => {
+      if (!geometry || !vertexMapping) return;
+      const colors = geometry.attributes.color as THREE.BufferAttribute;
+      for (let i = 0; i < colors.count; i++) {
+        colors.setXYZ(i, SURFACE_COLOR.r, SURFACE_COLOR.g, SURFACE_COLOR.b);
+      }
+      if (surfaceColors) {
+        for (let index = 0; index < vertexMapping.solverVertexCount; index++) {
+          const [r, g, b] = surfaceColors.subarray(index * 3, index * 3 + 3);
+          vertexMapping.getRenderIndices(index).forEach(renderIndex => colors.setXYZ(renderIndex, r, g, b));
         }
       }
-    }, [obj, onModelLoad]);
+      const shade = new THREE.Color();
+      const paint = (indices: number[], color: THREE.Color, weighted = false) => indices.forEach(index => {
+        // Soft constraints fade towards the surface colour as their weight drops.
+        const weight = weighted ? constraintWeights.get(index) ?? 1 : 1;
+        shade.copy(color).lerp(SURFACE_COLOR, SOFT_FADE * (1 - weight));
+        vertexMapping.getRenderIndices(index).forEach(renderIndex => colors.setXYZ(renderIndex, shade.r, shade.g, shade.b));
+      });
+      paint(anchorIndices, ANCHOR_COLOR, true);
+      paint(handleIndices, HANDLE_COLOR, true);
+      paint(collisionIndices, COLLISION_COLOR);
+      paint(highlightIndices, ISSUE_COLOR);
+      colors.needsUpdate = true;
+    }, [geometry, vertexMapping, anchorIndices, handleIndices, constraintWeights, collisionIndices, highlightIndices, surfaceColors]);
+
+    const handleMarkerPositions = useMemo(() => markerIndices.map(index => {
+      const pos = handlePositions.get(index) ?? new THREE.Vector3();
+      return frameRef.current ? frameRef.current.worldToLocal(pos.clone()) : pos.clone();
+    }), [markerIndices, handlePositions]);
+
+    const handleMarkerScales = useMemo(
+      () => markerIndices.map(index => SOFT_MARKER_SCALE + (1 - SOFT_MARKER_SCALE) * (constraintWeights.get(index) ?? 1)),
+      [markerIndices, constraintWeights]
+    );
 
     useImperativeHandle(ref, () => ({
+      // Indices passed in and out of the model are solver (welded) vertex indices.
       getVertexWorldPosition: (index: number) => {
-        if (!geometry || !groupRef.current) return null;
+        if (!geometry || !vertexMapping || !frameRef.current) return null;
+        const renderIndex = vertexMapping.toRenderIndex(index);
+        if (renderIndex < 0) return null;
         const position = new THREE.Vector3();
-        position.fromBufferAttribute(geometry.attributes.position, index);
-        return groupRef.current.localToWorld(position);
+        position.fromBufferAttribute(geometry.attributes.position, renderIndex);
+        return frameRef.current.localToWorld(position);
       },
       getHandlesGroup: () => handlesGroupRef.current,
-      getModelGroup: () => groupRef.current, 
-      updateVertices: (newVertices: Float64Array) => {
-        if (!geometry) return;
+      getModelGroup: () => groupRef.current,
+      getLocalFrame: () => frameRef.current,
+      getGeometry: () => geometry,
+      getSolverVertices: () => {
+        if (!geometry || !vertexMapping) return null;
+        return vertexMapping.gatherSolverPositions(geometry.attributes.position);
+      },
+      getSolverNormals: () => {
+        if (!geometry || !vertexMapping || !geometry.attributes.normal) return null;
+        return vertexMapping.gatherSolverPositions(geometry.attributes.normal);
+      },
+      updateVertices: (newVertices: Float32Array) => {
+        if (!geometry || !vertexMapping) return;
         
         const positionAttribute = geometry.attributes.position as THREE.BufferAttribute;
-        positionAttribute.copyArray(new Float32Array(newVertices));
-        positionAttribute.needsUpdate = true;
+        vertexMapping.applySolverPositions(newVertices, positionAttribute);
         geometry.computeVertexNormals(); 
       },
-    }));
+    }), [geometry, vertexMapping]);
 
     return (
-      <group ref={groupRef} scale={[initialScale, initialScale, initialScale]}>
-        {initialScale > 0 && <primitive object={obj} />}
-        <group ref={handlesGroupRef}>
-          {Array.from(handlePositions.entries()).map(([index, pos]: [number, THREE.Vector3]) => {
-              const localPos = groupRef.current ? groupRef.current.worldToLocal(pos.clone()) : pos;
-              const isAnchor = anchorIndices?.includes(index);
-              const color = isAnchor ? "#c70000" : "gold";
-              const emissive = isAnchor ? "#ff3d3d" : "#ffc700";
-
-              return (
-                <mesh key={index} position={localPos} userData={{ handleIndex: index }}>
-                  <sphereGeometry args={[0.25, 32, 32]} />
-                  <meshStandardMaterial color={color} emissive={emissive} />
-                </mesh>
-              );
-          })}
+      <group ref={groupRef} scale={[scale, scale, scale]}>
+        <group ref={frameRef} position={[-center.x, -center.y, -center.z]}>
+          {geometry && scale > 0 && (
+            <mesh geometry={geometry}>
+              <meshStandardMaterial vertexColors side={THREE.DoubleSide} />
+            </mesh>
+          )}
+          <group ref={handlesGroupRef}>
+            <HandleMarkers indices={markerIndices} positions={handleMarkerPositions} scales={handleMarkerScales} radius={scale > 0 ? 0.04 / scale : 0.25} />
+          </group>
+          {children}
         </group>
       </group>
     );
   }
 );
 
-function DeformationController({ mode, modelRef, onHandleMove, handleVertexSelected, handleAnchorSelected }: any) {
+function DeformationController({ mode, selectionTool, modelRef, vertexMapping, dragLock, snapStep, onHandleDragStart, onHandleDragEnd, onHandleMove, handleVertexSelected, handleAnchorSelected }: any) {
   const { camera, gl } = useThree();
   const dragState = useRef({
     isDragging: false,
     handleIndex: -1,
-    plane: new THREE.Plane(),
+    // World position of the handle when the drag started; locks and snapping are relative to it.
+    start: new THREE.Vector3(),
   }).current;
 
-  const findNearestVertexIndex = useCallback((worldPoint: THREE.Vector3, geometry: THREE.BufferGeometry, modelGroup: THREE.Group) => {
-    if (!geometry || !modelGroup) return -1;
+  const findNearestVertexIndex = useCallback((worldPoint: THREE.Vector3, geometry: THREE.BufferGeometry, localFrame: THREE.Object3D) => {
+    if (!geometry || !localFrame) return -1;
     
     const vertices = geometry.attributes.position;
     let minDistanceSq = Infinity;
@@ -121,7 +269,7 @@ function DeformationController({ mode, modelRef, onHandleMove, handleVertexSelec
 
     for (let i = 0; i < vertices.count; i++) {
       vertexWorldPos.fromBufferAttribute(vertices, i);
-      modelGroup.localToWorld(vertexWorldPos);
+      localFrame.localToWorld(vertexWorldPos);
       
       const distanceSq = vertexWorldPos.distanceToSquared(worldPoint);
       if (distanceSq < minDistanceSq) {
@@ -143,15 +291,17 @@ function DeformationController({ mode, modelRef, onHandleMove, handleVertexSelec
     const raycaster = new THREE.Raycaster();
     raycaster.setFromCamera(mouse, camera);
 
-    if (mode === 'select') {
+    if (mode === 'select' && selectionTool === 'click') {
       const modelGroup = modelRef.current.getModelGroup();
       if (!modelGroup) return;
       
-      const intersects = raycaster.intersectObject(modelGroup, true);
-      if (intersects.length > 0) {
-        const intersectPoint = intersects[0].point;
-        const geometry = (intersects[0].object as THREE.Mesh).geometry;
-        const vertexIndex = findNearestVertexIndex(intersectPoint, geometry, modelGroup);
+      // Ignore hits on the handle markers; only the surface itself can be picked.
+      const surfaceHit = raycaster.intersectObject(modelGroup, true).find(hit => !hit.object.userData.handleIndices);
+      if (surfaceHit) {
+        const intersectPoint = surfaceHit.point;
+        const geometry = (surfaceHit.object as THREE.Mesh).geometry;
+        const renderIndex = findNearestVertexIndex(intersectPoint, geometry, modelRef.current.getLocalFrame());
+        const vertexIndex = renderIndex !== -1 && vertexMapping ? vertexMapping.toSolverIndex(renderIndex) : -1;
         if (vertexIndex !== -1) {
           if (event.altKey) {
             handleVertexSelected(vertexIndex);
@@ -165,18 +315,19 @@ function DeformationController({ mode, modelRef, onHandleMove, handleVertexSelec
       if (!handlesGroup) return;
       
       const intersects = raycaster.intersectObject(handlesGroup, true);
-      if (intersects.length > 0) {
-        const draggedObject = intersects[0].object;
+      const hit = intersects.find(intersect => intersect.instanceId !== undefined);
+      if (hit) {
+        const markers = hit.object as THREE.InstancedMesh;
+        onHandleDragStart();
         dragState.isDragging = true;
-        dragState.handleIndex = draggedObject.userData.handleIndex;
-        const handleWorldPos = new THREE.Vector3();
-        draggedObject.getWorldPosition(handleWorldPos);
-        const cameraDirection = camera.getWorldDirection(new THREE.Vector3());
-        dragState.plane.setFromNormalAndCoplanarPoint(cameraDirection, handleWorldPos);
+        dragState.handleIndex = markers.userData.handleIndices[hit.instanceId!];
+        const instanceMatrix = new THREE.Matrix4();
+        markers.getMatrixAt(hit.instanceId!, instanceMatrix);
+        dragState.start.setFromMatrixPosition(instanceMatrix).applyMatrix4(markers.matrixWorld);
         gl.domElement.style.cursor = 'grabbing';
       }
     }
-  }, [mode, modelRef, camera, gl.domElement, dragState, findNearestVertexIndex, handleVertexSelected, handleAnchorSelected]);
+  }, [mode, selectionTool, modelRef, vertexMapping, camera, gl.domElement, dragState, findNearestVertexIndex, onHandleDragStart, handleVertexSelected, handleAnchorSelected]);
 
   const onPointerMove = useCallback((event: PointerEvent) => {
     if (!dragState.isDragging || mode !== 'deform') return;
@@ -188,21 +339,23 @@ function DeformationController({ mode, modelRef, onHandleMove, handleVertexSelec
     );
     const raycaster = new THREE.Raycaster();
     raycaster.setFromCamera(mouse, camera);
-    const intersectionPoint = new THREE.Vector3();
-    raycaster.ray.intersectPlane(dragState.plane, intersectionPoint);
+    // The plane follows the lock, which can be switched with the hotkeys in the middle of a drag.
+    const plane = getDragPlane(dragLock, dragState.start, camera.getWorldDirection(new THREE.Vector3()));
+    const intersectionPoint = raycaster.ray.intersectPlane(plane, new THREE.Vector3());
     
     if (intersectionPoint) {
-      onHandleMove(dragState.handleIndex, intersectionPoint);
+      onHandleMove(dragState.handleIndex, constrainDragTarget(dragLock, dragState.start, intersectionPoint, snapStep));
     }
-  }, [camera, gl.domElement, dragState, onHandleMove, mode]);
+  }, [camera, gl.domElement, dragState, onHandleMove, mode, dragLock, snapStep]);
 
   const onPointerUp = useCallback(() => {
     if (dragState.isDragging) {
       dragState.isDragging = false;
       dragState.handleIndex = -1;
       gl.domElement.style.cursor = 'auto';
+      onHandleDragEnd();
     }
-  }, [gl.domElement, dragState]);
+  }, [gl.domElement, dragState, onHandleDragEnd]);
 
   useEffect(() => {
     const canvas = gl.domElement;
@@ -220,7 +373,7 @@ function DeformationController({ mode, modelRef, onHandleMove, handleVertexSelec
 }
 
 function App() {
-  const [mode, setMode] = useState<'view' | 'select' | 'deform'>('view');
+  const [mode, setMode] = useState<'view' | 'select' | 'paint' | 'deform' | 'skeleton' | 'cage'>('view');
   const [handleIndices, setHandleIndices] = useState<number[]>([]);
   const [anchorIndices, setAnchorIndices] = useState<number[]>([]);
   const [handlePositions, setHandlePositions] = useState<Map<number, THREE.Vector3>>(new Map());
@@ -229,47 +382,391 @@ function App() {
   const [loadedGeometry, setLoadedGeometry] = useState<THREE.BufferGeometry | null>(null);
   const [isOrbitEnabled, setIsOrbitEnabled] = useState(true);
   const [transformTarget, setTransformTarget] = useState<THREE.Object3D | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [selectionTool, setSelectionTool] = useState<SelectionTool>('click');
+  const [selectionTarget, setSelectionTarget] = useState<SelectionTarget>('anchor');
+  const [brushRadius, setBrushRadius] = useState(30);
+  const [frontFacingOnly, setFrontFacingOnly] = useState(true);
+  const [selectionShape, setSelectionShape] = useState<SelectionShape | null>(null);
+  const [isRegionRemoval, setIsRegionRemoval] = useState(false);
+  const [handleGroups, setHandleGroups] = useState<HandleGroup[]>([]);
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
+  const [gizmoMode, setGizmoMode] = useState<GizmoMode>('translate');
+  const [solverSettings, setSolverSettings] = useState<SolverSettings>(DEFAULT_SOLVER_SETTINGS);
+  const [solveStats, setSolveStats] = useState<SolveStats | null>(null);
+  const [constraintIssues, setConstraintIssues] = useState<ConstraintIssue[]>([]);
+  const [solveError, setSolveError] = useState<SolverError | null>(null);
+  const [highlightedIssue, setHighlightedIssue] = useState<ConstraintIssue['code'] | null>(null);
+  const [keyframes, setKeyframes] = useState<Keyframe[]>([]);
+  const [keyInterpolation, setKeyInterpolation] = useState<KeyframeInterpolation>('spline');
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [loopPlayback, setLoopPlayback] = useState(true);
+  const [animationFps, setAnimationFps] = useState(24);
+  const [bakeProgress, setBakeProgress] = useState<number | null>(null);
+  const [stiffness, setStiffness] = useState<Float32Array | null>(null);
+  const [constraintWeights, setConstraintWeights] = useState<Map<number, number>>(new Map());
+  const [stiffnessBrushValue, setStiffnessBrushValue] = useState(5);
+  const [qualityOverlay, setQualityOverlay] = useState<QualityOverlay>('none');
+  // Latest solver-space pose shown by the Model (null for the rest pose); drives the quality overlays.
+  const [deformedVertices, setDeformedVertices] = useState<Float32Array | null>(null);
+  const [cage, setCage] = useState<CageMesh | null>(null);
+  const [cageAnchors, setCageAnchors] = useState<number[]>([]);
+  const [cageTargets, setCageTargets] = useState<Map<number, THREE.Vector3>>(new Map());
+  const [cagePose, setCagePose] = useState<Float32Array | null>(null);
+  const [cageResolution, setCageResolution] = useState(DEFAULT_CAGE_RESOLUTION);
+  const [isBindingCage, setIsBindingCage] = useState(false);
+  const [bones, setBones] = useState<Bone[]>([]);
+  const [selectedBoneId, setSelectedBoneId] = useState<string | null>(null);
+  const [skeletonTool, setSkeletonTool] = useState<SkeletonTool>('draw');
+  const [bindRadius, setBindRadius] = useState(0.08);
+  const [symmetryMode, setSymmetryMode] = useState<SymmetryMode>('off');
+  const [symmetryTolerance, setSymmetryTolerance] = useState(DEFAULT_SYMMETRY_TOLERANCE);
+  const [dragLock, setDragLock] = useState<DragLock>('free');
+  const [snapEnabled, setSnapEnabled] = useState(false);
+  const [snapStep, setSnapStep] = useState(0.1);
+  const [inspectorFrame, setInspectorFrame] = useState<CoordinateFrame>('world');
+  // A mesh waiting for the repair dialog; importing is false when the loaded mesh itself is being repaired.
+  const [pendingRepair, setPendingRepair] = useState<{
+    geometry: THREE.BufferGeometry;
+    diagnostics: MeshDiagnostics;
+    importing: boolean;
+  } | null>(null);
+  const [repairOptions, setRepairOptions] = useState<MeshRepairOptions>({
+    removeDegenerateFaces: true,
+    splitNonManifoldVertices: true,
+    removeUnreferencedVertices: true,
+  });
+  const [multiresEnabled, setMultiresEnabled] = useState(false);
+  const [proxyLevels, setProxyLevels] = useState(2);
+  const [proxyVertexCount, setProxyVertexCount] = useState<number | null>(null);
+  const [isBuildingProxy, setIsBuildingProxy] = useState(false);
+  const [frameTime, setFrameTime] = useState<FrameTime | null>(null);
+  const [collisionSettings, setCollisionSettings] = useState<CollisionSettings>(DEFAULT_COLLISION_SETTINGS);
+  // Parent and rest-pose head of the next bone while a chain is being drawn.
+  const [chainTip, setChainTip] = useState<{ parentId: string | null; head: THREE.Vector3 } | null>(null);
 
   const modelRef = useRef<any>(null);
   const transformControlsRef = useRef<any>(null);
   const animationFrameId = useRef<number | null>(null);
-  const latestDragInfo = useRef<{ index: number; pos: THREE.Vector3 } | null>(null);
+  // World-space targets for the handles being dragged (one marker, or every member of a group).
+  const pendingTargets = useRef<Map<number, THREE.Vector3> | null>(null);
+  // The object the handle-group gizmo is attached to; it lives in the model's local frame.
+  const groupPivot = useMemo(() => new THREE.Object3D(), []);
+  // The object the bone rotation gizmo is attached to; it sits on the selected bone's head in the model's local frame.
+  const bonePivot = useMemo(() => new THREE.Object3D(), []);
+  const regionStrokeRecorded = useRef(false);
+  // A project that was opened but whose mesh has not reached the Model and the solver yet.
+  const pendingProject = useRef<ProjectState | null>(null);
+  const playbackFrameId = useRef<number | null>(null);
+  // Bumped whenever the solver state is replaced (new mesh, undo/redo); solves started before that are discarded.
+  const solveGenerationRef = useRef(0);
+  // Bumped by every model import or project open; a load that finishes after a newer one started is dropped.
+  const importGenerationRef = useRef(0);
+  // Set when the deformation model or the stiffness changes; the current pose is re-solved once the new state is rendered.
+  const resolvePoseRef = useRef(false);
+  // True while a handle, group or bone is being dragged, so the solves can go to the proxy.
+  const dragPreviewRef = useRef(false);
+  // Whether the current drag has shown a proxy solve, which needs a full-resolution solve when it ends.
+  const previewedRef = useRef(false);
+  const history = useHistory<EditorSnapshot>();
 
   useEffect(() => {
+    let cancelled = false;
     WasmSolverService.init()
       .then(() => {
-        setWasmReady(true);
+        if (!cancelled) setWasmReady(true);
       })
       .catch(error => {
+        if (cancelled) return;
         console.error("Failed to initialize WasmSolverService:", error);
         setWasmError('Failed to load the core deformation engine. Please try refreshing the page.');
       });
 
     return () => {
+      cancelled = true;
+      setWasmReady(false);
       WasmSolverService.cleanup();
     };
   }, []);
 
+  const stopPlayback = useCallback(() => {
+    if (playbackFrameId.current !== null) cancelAnimationFrame(playbackFrameId.current);
+    playbackFrameId.current = null;
+    setIsPlaying(false);
+  }, []);
+
+  useEffect(() => stopPlayback, [stopPlayback]);
+
+  const { clear: clearHistory } = history;
+  const applyImportedGeometry = useCallback((geometry: THREE.BufferGeometry) => {
+    pendingTargets.current = null;
+    stopPlayback();
+    clearHistory();
+    setHandleIndices([]);
+    setAnchorIndices([]);
+    setHandlePositions(new Map());
+    setConstraintWeights(new Map());
+    setHandleGroups([]);
+    // Keyframes, stiffness, the cage and the skeleton refer to vertex indices or the shape of the previous mesh.
+    setKeyframes([]);
+    setStiffness(null);
+    setCage(null);
+    setCageAnchors([]);
+    setCageTargets(new Map());
+    setCagePose(null);
+    setBones([]);
+    setSelectedBoneId(null);
+    setChainTip(null);
+    setDeformedVertices(null);
+    setPlayhead(0);
+    setLoadedGeometry(geometry);
+  }, [clearHistory, stopPlayback]);
+
+  const importModel = useCallback(async (load: () => Promise<THREE.BufferGeometry>) => {
+    const generation = ++importGenerationRef.current;
+    setIsImporting(true);
+    setFileError(null);
+    try {
+      const geometry = await load();
+      if (importGenerationRef.current !== generation) return;
+      // Problems are reported before the mesh reaches the solver, so it is only loaded once the user has decided.
+      const { vertices, faces } = buildSolverMesh(geometry);
+      const diagnostics = diagnoseMesh(vertices, faces);
+      if (hasMeshIssues(diagnostics)) {
+        setPendingRepair({ geometry, diagnostics, importing: true });
+      } else {
+        applyImportedGeometry(geometry);
+      }
+    } catch (error) {
+      if (importGenerationRef.current !== generation) return;
+      console.error('Failed to import model:', error);
+      setFileError(error instanceof MeshImportError ? error.message : 'The model could not be loaded.');
+    } finally {
+      if (importGenerationRef.current === generation) setIsImporting(false);
+    }
+  }, [applyImportedGeometry]);
+
   useEffect(() => {
-    if (isWasmReady && loadedGeometry) {
-      try {
-        let cleanGeometry: THREE.BufferGeometry;
-        // Using mergeVertices is a robust way to ensure the geometry is indexed and has no duplicate vertices.
-        if (!loadedGeometry.index) {
-          console.warn('Geometry is non-indexed. Merging vertices to create index.');
-        }
-        cleanGeometry = BufferGeometryUtils.mergeVertices(loadedGeometry);
-      
-        const vertices = new Float32Array(cleanGeometry.attributes.position.array);
-        const faces = new Int32Array(cleanGeometry.index!.array);
+    importModel(() => importMeshUrl(DEFAULT_MODEL_URL));
+  }, [importModel]);
+
+  const openProject = async (file: File) => {
+    const generation = ++importGenerationRef.current;
+    setIsImporting(true);
+    setFileError(null);
+    try {
+      const project = parseProjectFile(await file.text());
+      const geometry = await loadProjectGeometry(project);
+      if (importGenerationRef.current !== generation) return;
+      // Validate against the mesh before anything is replaced, so a bad project leaves the current session intact.
+      const state = restoreProjectState(project, buildSolverMesh(geometry).mapping.solverVertexCount);
+      applyImportedGeometry(geometry);
+      pendingProject.current = state;
+      setSolverSettings(state.solverSettings);
+    } catch (error) {
+      if (importGenerationRef.current !== generation) return;
+      console.error('Failed to open project:', error);
+      setFileError(error instanceof ProjectFileError || error instanceof MeshImportError ? error.message : 'The project could not be opened.');
+    } finally {
+      if (importGenerationRef.current === generation) setIsImporting(false);
+    }
+  };
+
+  const repairPendingMesh = () => {
+    if (!pendingRepair) return;
+    try {
+      applyImportedGeometry(repairGeometry(pendingRepair.geometry, repairOptions));
+    } catch (error) {
+      console.error('Failed to repair mesh:', error);
+      setFileError('The mesh could not be repaired.');
+    }
+    setPendingRepair(null);
+  };
+
+  const skipMeshRepair = () => {
+    if (pendingRepair?.importing) applyImportedGeometry(pendingRepair.geometry);
+    setPendingRepair(null);
+  };
+
+  const handleFileDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDraggingFile(false);
+    const file = event.dataTransfer.files[0];
+    if (!file) return;
+    if (file.name.toLowerCase().endsWith('.json')) {
+      openProject(file);
+    } else {
+      importModel(() => importMeshFile(file));
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const deformedGeometry = modelRef.current?.getGeometry();
+    if (!loadedGeometry || !deformedGeometry) return;
+
+    setIsExporting(true);
+    try {
+      const geometry = buildDeformedGeometry(loadedGeometry, deformedGeometry);
+      const blob = await exportMesh(geometry, format, loadedGeometry);
+      downloadBlob(blob, getExportFileName(loadedGeometry.name, format));
+    } catch (error) {
+      console.error(`Failed to export ${format.toUpperCase()}:`, error);
+      setFileError(`Export to ${format.toUpperCase()} failed.`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // The solver works on a position-welded copy of the render geometry; vertexMapping translates between the two.
+  const solverMesh = useMemo(() => loadedGeometry ? buildSolverMesh(loadedGeometry) : null, [loadedGeometry]);
+  const meshDiagonal = useMemo(
+    () => solverMesh ? new THREE.Box3().setFromArray(solverMesh.vertices).getSize(new THREE.Vector3()).length() : 1,
+    [solverMesh]
+  );
+
+  // Mirror vertices are looked up once on the rest mesh, so they stay paired however the model is deformed.
+  const mirrorMap = useMemo(() => {
+    if (!solverMesh || symmetryMode === 'off') return null;
+    const tolerance = symmetryTolerance * meshDiagonal;
+    return symmetryMode === 'auto'
+      ? detectSymmetry(solverMesh.vertices, tolerance)
+      : buildMirrorMap(solverMesh.vertices, getAxisPlane(solverMesh.vertices, symmetryMode), tolerance);
+  }, [solverMesh, symmetryMode, symmetryTolerance, meshDiagonal]);
+  const mirrors = mirrorMap?.mirrors ?? null;
 
-        WasmSolverService.loadMesh(vertices, faces);
-      } catch (error) {
+  useEffect(() => {
+    solveGenerationRef.current++;
+    setSolveStats(null);
+    if (isWasmReady && solverMesh) {
+      WasmSolverService.loadMesh(solverMesh.vertices, solverMesh.faces).catch(error => {
         console.error('Error loading mesh into Wasm solver:', error);
         setWasmError('An error occurred while processing the model.');
-      }
+      });
+    }
+  }, [isWasmReady, solverMesh]);
+
+  // Runs after the effect above, so the service already knows the mesh the indices refer to.
+  useEffect(() => {
+    setConstraintIssues(isWasmReady && solverMesh ? WasmSolverService.validateConstraints(anchorIndices, handleIndices) : []);
+    setSolveError(null);
+  }, [isWasmReady, solverMesh, anchorIndices, handleIndices]);
+
+  // Also after the loadMesh effect: a new mesh starts with uniform stiffness in the solver.
+  useEffect(() => {
+    if (!isWasmReady || !solverMesh) return;
+    WasmSolverService.setStiffness(stiffness).catch(error => {
+      console.error('Failed to update solver stiffness:', error);
+    });
+  }, [isWasmReady, solverMesh, stiffness]);
+
+  // Also after the loadMesh effect, which drops the solver's previous cage.
+  useEffect(() => {
+    if (!isWasmReady || !solverMesh) return;
+    if (!cage) {
+      WasmSolverService.clearCage().catch(error => console.error('Failed to remove the cage:', error));
+      return;
     }
-  }, [isWasmReady, loadedGeometry]);
+    setIsBindingCage(true);
+    WasmSolverService.loadCage(cage.vertices, cage.faces)
+      .catch(error => {
+        console.error('Failed to bind the cage:', error);
+        setFileError('The cage could not be bound to the model.');
+      })
+      .finally(() => setIsBindingCage(false));
+  }, [isWasmReady, solverMesh, cage]);
+
+  // Also after the loadMesh effect, which drops the solver's previous proxy.
+  useEffect(() => {
+    setProxyVertexCount(null);
+    if (!isWasmReady || !solverMesh) return;
+    if (!multiresEnabled) {
+      WasmSolverService.clearProxy().catch(error => console.error('Failed to remove the proxy:', error));
+      return;
+    }
+    let cancelled = false;
+    setIsBuildingProxy(true);
+    WasmSolverService.loadProxy(proxyLevels)
+      .then(count => {
+        if (!cancelled) setProxyVertexCount(count);
+      })
+      .catch(error => console.error('Failed to build the proxy:', error))
+      .finally(() => {
+        if (!cancelled) setIsBuildingProxy(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isWasmReady, solverMesh, multiresEnabled, proxyLevels]);
+
+  // Problems found while dragging (e.g. NaN targets) are shown next to the static ones.
+  const visibleIssues = useMemo(() => {
+    const issues = [...constraintIssues];
+    solveError?.issues.forEach(issue => {
+      if (!issues.some(existing => existing.code === issue.code)) issues.push(issue);
+    });
+    return mode === 'deform' || handleIndices.length > 0 || anchorIndices.length > 0 ? issues : [];
+  }, [constraintIssues, solveError, mode, handleIndices, anchorIndices]);
+
+  const meshDiagnostics = useMemo(
+    () => solverMesh ? diagnoseMesh(solverMesh.vertices, solverMesh.faces) : null,
+    [solverMesh]
+  );
+
+  // Cotangent weights are only needed by the rigidity overlay, so they are built on demand.
+  const solverTopology = useMemo(
+    () => solverMesh && qualityOverlay === 'rigidity' ? buildMeshTopology(solverMesh.vertices, solverMesh.faces) : null,
+    [solverMesh, qualityOverlay]
+  );
+
+  const qualityField = useMemo(() => {
+    if (!solverMesh || qualityOverlay === 'none') return null;
+    return computeQualityField(qualityOverlay, { ...solverMesh, topology: solverTopology }, deformedVertices);
+  }, [solverMesh, solverTopology, qualityOverlay, deformedVertices]);
+
+  // Painting shows the stiffness; otherwise the selected quality overlay, if any.
+  const surfaceColors = useMemo(() => {
+    if (mode === 'paint') return stiffness ? getStiffnessColors(stiffness, SURFACE_COLOR) : null;
+    return qualityField ? getQualityColors(qualityField) : null;
+  }, [mode, stiffness, qualityField]);
+
+  const highlightIndices = useMemo(
+    () => visibleIssues.find(issue => issue.code === highlightedIssue)?.vertices ?? [],
+    [visibleIssues, highlightedIssue]
+  );
+
+  // Triangles that intersect in the rest pose belong to the model, not to the deformation, so they are left alone.
+  const restIntersections = useMemo(
+    () => solverMesh && collisionSettings.selfIntersections ? findSelfIntersections(solverMesh.vertices, solverMesh.faces) : null,
+    [solverMesh, collisionSettings.selfIntersections]
+  );
+
+  // The clip plane in the solver frame, which moves with the model transform.
+  const getCollisionPlane = useCallback(() => {
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    if (!collisionSettings.planeEnabled || !localFrame) return null;
+    return toLocalCollisionPlane(collisionSettings.planeAxis, collisionSettings.planeOffset, localFrame);
+  }, [collisionSettings]);
+
+  // Checked again after every solve; rotating the model only shows up in the report with the next solve.
+  const collisionReport = useMemo(() => {
+    if (!solverMesh || (!collisionSettings.planeEnabled && !collisionSettings.selfIntersections)) return null;
+    return detectCollisions(
+      deformedVertices ?? solverMesh.vertices,
+      solverMesh.faces,
+      getCollisionPlane(),
+      collisionSettings.selfIntersections,
+      restIntersections ?? undefined
+    );
+  }, [solverMesh, deformedVertices, collisionSettings, getCollisionPlane, restIntersections]);
+
+  const collisionIndices = useMemo(
+    () => collisionReport ? [...new Set([...collisionReport.planeVertices, ...collisionReport.intersectionVertices])] : [],
+    [collisionReport]
+  );
 
   useEffect(() => {
     if (modelRef.current) {
@@ -277,6 +774,157 @@ function App() {
     }
   }, [loadedGeometry]);
 
+  const captureSnapshot = useCallback((): EditorSnapshot => {
+    const modelGroup: THREE.Object3D | null = modelRef.current?.getModelGroup();
+    modelGroup?.updateMatrix();
+    return {
+      handleIndices: [...handleIndices],
+      anchorIndices: [...anchorIndices],
+      handlePositions: new Map(Array.from(handlePositions, ([index, pos]) => [index, pos.clone()])),
+      constraintWeights: new Map(constraintWeights),
+      handleGroups: cloneHandleGroups(handleGroups),
+      modelMatrix: modelGroup ? modelGroup.matrix.clone() : new THREE.Matrix4(),
+      vertices: modelRef.current?.getSolverVertices() ?? null,
+      stiffness,
+      cage,
+      cageAnchors: [...cageAnchors],
+      cageTargets: new Map(Array.from(cageTargets, ([index, pos]) => [index, pos.clone()])),
+      cagePose,
+      bones: cloneBones(bones),
+    };
+  }, [handleIndices, anchorIndices, handlePositions, constraintWeights, handleGroups, stiffness, cage, cageAnchors, cageTargets, cagePose, bones]);
+
+  const restoreSnapshot = useCallback((snapshot: EditorSnapshot) => {
+    pendingTargets.current = null;
+    solveGenerationRef.current++;
+
+    const modelGroup: THREE.Object3D | null = modelRef.current?.getModelGroup();
+    if (modelGroup) {
+      snapshot.modelMatrix.decompose(modelGroup.position, modelGroup.quaternion, modelGroup.scale);
+      modelGroup.updateMatrixWorld(true);
+    }
+    if (snapshot.vertices) {
+      modelRef.current?.updateVertices(snapshot.vertices);
+    }
+    setHandleIndices(snapshot.handleIndices);
+    setAnchorIndices(snapshot.anchorIndices);
+    setHandlePositions(snapshot.handlePositions);
+    setConstraintWeights(snapshot.constraintWeights);
+    setHandleGroups(cloneHandleGroups(snapshot.handleGroups));
+    setStiffness(snapshot.stiffness);
+    setDeformedVertices(snapshot.vertices);
+    setCage(snapshot.cage);
+    if (!snapshot.cage) setMode(prev => prev === 'cage' ? 'view' : prev);
+    setCageAnchors(snapshot.cageAnchors);
+    setCageTargets(snapshot.cageTargets);
+    setCagePose(snapshot.cagePose);
+    setBones(cloneBones(snapshot.bones));
+    setChainTip(null);
+
+    WasmSolverService.restoreVertices(snapshot.vertices).catch(error => {
+      console.error('Failed to restore solver state:', error);
+    });
+  }, []);
+
+  // Declared after the loadMesh effect, so the solver already holds the project's mesh when its state is restored.
+  useEffect(() => {
+    const state = pendingProject.current;
+    const modelGroup: THREE.Object3D | null = modelRef.current?.getModelGroup();
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    if (!state || !isWasmReady || !solverMesh || !modelGroup || !localFrame) return;
+    pendingProject.current = null;
+
+    state.modelMatrix.decompose(modelGroup.position, modelGroup.quaternion, modelGroup.scale);
+    modelGroup.updateMatrixWorld(true);
+    restoreSnapshot({
+      handleIndices: state.handleIndices,
+      anchorIndices: state.anchorIndices,
+      handlePositions: new Map(Array.from(state.constraintPositions, ([index, pos]) => [index, localFrame.localToWorld(pos.clone())])),
+      constraintWeights: state.constraintWeights,
+      handleGroups: state.handleGroups,
+      modelMatrix: state.modelMatrix,
+      vertices: state.vertices,
+      stiffness: state.stiffness,
+      cage: null,
+      cageAnchors: [],
+      cageTargets: new Map(),
+      cagePose: null,
+      bones: [],
+    });
+  }, [isWasmReady, solverMesh, restoreSnapshot]);
+
+  const handleSaveProject = (embed: boolean) => {
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    if (!loadedGeometry || !solverMesh || !localFrame) return;
+
+    const snapshot = captureSnapshot();
+    const text = serializeProject(loadedGeometry, solverMesh.mapping.solverVertexCount, {
+      anchorIndices: snapshot.anchorIndices,
+      handleIndices: snapshot.handleIndices,
+      constraintPositions: new Map(Array.from(snapshot.handlePositions, ([index, pos]) => [index, localFrame.worldToLocal(pos.clone())])),
+      constraintWeights: snapshot.constraintWeights,
+      handleGroups: snapshot.handleGroups,
+      modelMatrix: snapshot.modelMatrix,
+      solverSettings,
+      vertices: snapshot.vertices,
+      stiffness: snapshot.stiffness,
+    }, embed);
+    const baseName = loadedGeometry.name.replace(/\.[^./\\]+$/, '') || 'model';
+    downloadBlob(new Blob([text], { type: 'application/json' }), `${baseName}${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const { record: recordHistory, undo: undoHistory, redo: redoHistory } = history;
+
+  const handleUndo = useCallback(() => {
+    const snapshot = undoHistory(captureSnapshot());
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [undoHistory, captureSnapshot, restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    const snapshot = redoHistory(captureSnapshot());
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [redoHistory, captureSnapshot, restoreSnapshot]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // X / Y / Z lock handle drags to an axis, Shift+X / Y / Z to the plane across it.
+  useEffect(() => {
+    if (mode !== 'deform') return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'x' || key === 'y' || key === 'z') {
+        setDragLock(prev => toggleDragLock(prev, key, event.shiftKey));
+      } else if (key === 'escape') {
+        setDragLock('free');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [mode]);
+
+  const handleTransformStart = useCallback(() => {
+    recordHistory('Transform model', captureSnapshot());
+  }, [recordHistory, captureSnapshot]);
+
   const handleTransformEnd = useCallback(() => {
     if (!modelRef.current) return;
     
@@ -299,22 +947,45 @@ function App() {
         setIsOrbitEnabled(!event.value);
       };
       controls.addEventListener('dragging-changed', handleDraggingChanged);
+      controls.addEventListener('mouseDown', handleTransformStart);
       controls.addEventListener('mouseUp', handleTransformEnd);
 
       return () => {
         controls.removeEventListener('dragging-changed', handleDraggingChanged);
+        controls.removeEventListener('mouseDown', handleTransformStart);
         controls.removeEventListener('mouseUp', handleTransformEnd);
       };
     }
-  }, [transformTarget, handleTransformEnd]);
+  }, [transformTarget, handleTransformStart, handleTransformEnd]);
 
+  // With symmetry on, the clicked vertex and its mirror are toggled together; the mirror follows the clicked vertex's state.
   const handleVertexSelected = (index: number) => {
     if (!modelRef.current) return;
-    const initialPos = modelRef.current.getVertexWorldPosition(index);
-    if (!initialPos) return;
+    const indices = withMirrors([index], mirrors);
+    if (handleIndices.includes(index)) {
+      const removed = indices.filter(i => handleIndices.includes(i));
+      recordHistory('Remove handle', captureSnapshot());
+      setHandleIndices(prev => prev.filter(i => !removed.includes(i)));
+      setHandlePositions(prev => {
+        const newPositions = new Map(prev);
+        removed.forEach(i => newPositions.delete(i));
+        return newPositions;
+      });
+      return;
+    }
+    const added = indices
+      .filter(i => !anchorIndices.includes(i) && !handleIndices.includes(i))
+      .map(i => [i, modelRef.current.getVertexWorldPosition(i)] as [number, THREE.Vector3 | null])
+      .filter((entry): entry is [number, THREE.Vector3] => entry[1] !== null);
+    if (added.length === 0) return;
     
-    setHandleIndices(prev => prev.includes(index) ? prev : [...prev, index]);
-    setHandlePositions(prev => new Map(prev).set(index, initialPos));
+    recordHistory('Add handle', captureSnapshot());
+    setHandleIndices(prev => [...prev, ...added.map(([i]) => i).filter(i => !prev.includes(i))]);
+    setHandlePositions(prev => {
+      const newPositions = new Map(prev);
+      added.forEach(([i, pos]) => newPositions.set(i, pos));
+      return newPositions;
+    });
   };
 
   const handleAnchorSelected = (index: number) => {
@@ -323,101 +994,785 @@ function App() {
         console.warn(`Vertex ${index} is already a handle and cannot be an anchor.`);
         return;
     }
-    const initialPos = modelRef.current.getVertexWorldPosition(index);
-    if (!initialPos) return;
+    const remove = anchorIndices.includes(index);
+    const changed = withMirrors([index], mirrors)
+      .filter(i => !handleIndices.includes(i) && anchorIndices.includes(i) === remove)
+      .map(i => [i, modelRef.current.getVertexWorldPosition(i)] as [number, THREE.Vector3 | null])
+      .filter((entry): entry is [number, THREE.Vector3] => entry[1] !== null);
+    if (changed.length === 0) return;
 
-    setAnchorIndices(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+    recordHistory(remove ? 'Remove anchor' : 'Add anchor', captureSnapshot());
+    const changedIndices = changed.map(([i]) => i);
+    setAnchorIndices(prev => remove
+      ? prev.filter(i => !changedIndices.includes(i))
+      : [...prev, ...changedIndices.filter(i => !prev.includes(i))]);
     setHandlePositions(prev => {
         const newPositions = new Map(prev);
-        newPositions.has(index) ? newPositions.delete(index) : newPositions.set(index, initialPos);
+        changed.forEach(([i, pos]) => remove ? newPositions.delete(i) : newPositions.set(i, pos));
         return newPositions;
     });
   };
   
+  const applyRegionSelection = (regionIndices: number[], remove: boolean) => {
+    if (!modelRef.current) return;
+    const indices = withMirrors(regionIndices, mirrors);
+    const isAnchorTarget = selectionTarget === 'anchor';
+    const targetSet = new Set(isAnchorTarget ? anchorIndices : handleIndices);
+    // A vertex is either an anchor or a handle; region tools never convert one into the other.
+    const otherSet = new Set(isAnchorTarget ? handleIndices : anchorIndices);
+    const changed = indices.filter(index => !otherSet.has(index) && targetSet.has(index) === remove);
+    if (changed.length === 0) return;
+
+    if (!regionStrokeRecorded.current) {
+      regionStrokeRecorded.current = true;
+      const noun = isAnchorTarget ? 'anchors' : 'handles';
+      recordHistory(remove ? `Remove ${noun}` : `Add ${noun}`, captureSnapshot());
+    }
+
+    const setTarget = isAnchorTarget ? setAnchorIndices : setHandleIndices;
+    if (remove) {
+      const removed = new Set(changed);
+      setTarget(prev => prev.filter(index => !removed.has(index)));
+      setHandlePositions(prev => {
+        const newPositions = new Map(prev);
+        removed.forEach(index => newPositions.delete(index));
+        return newPositions;
+      });
+    } else {
+      const added = changed
+        .map(index => [index, modelRef.current.getVertexWorldPosition(index)] as [number, THREE.Vector3 | null])
+        .filter((entry): entry is [number, THREE.Vector3] => entry[1] !== null);
+      setTarget(prev => {
+        const existing = new Set(prev);
+        return [...prev, ...added.map(([index]) => index).filter(index => !existing.has(index))];
+      });
+      setHandlePositions(prev => {
+        const newPositions = new Map(prev);
+        added.forEach(([index, pos]) => newPositions.set(index, pos));
+        return newPositions;
+      });
+    }
+  };
+
+  const handleRegionSelected = (indices: number[], remove: boolean, phase: RegionSelectionPhase) => {
+    if (phase === 'start') {
+      regionStrokeRecorded.current = false;
+      setIsRegionRemoval(remove);
+    }
+    applyRegionSelection(indices, remove);
+  };
+
+  const handleStiffnessPaint = (indices: number[], reset: boolean, phase: RegionSelectionPhase) => {
+    if (phase === 'start') {
+      regionStrokeRecorded.current = false;
+      setIsRegionRemoval(reset);
+    }
+    if (indices.length > 0 && solverMesh) {
+      if (!regionStrokeRecorded.current) {
+        regionStrokeRecorded.current = true;
+        recordHistory(reset ? 'Reset stiffness' : 'Paint stiffness', captureSnapshot());
+      }
+      const value = reset ? DEFAULT_STIFFNESS : stiffnessBrushValue;
+      setStiffness(prev => paintStiffness(prev, solverMesh.mapping.solverVertexCount, indices, value));
+    }
+    // Solve the current pose again with the new weights once the stroke is finished.
+    if (phase === 'end' && regionStrokeRecorded.current) resolvePoseRef.current = true;
+  };
+
+  const resetStiffness = () => {
+    recordHistory('Reset stiffness', captureSnapshot());
+    setStiffness(null);
+    resolvePoseRef.current = true;
+  };
+
   const clearSelection = () => {
+      recordHistory('Clear selection', captureSnapshot());
       setHandleIndices([]);
       setAnchorIndices([]);
       setHandlePositions(new Map());
+      setHandleGroups([]);
   }
 
+  // Handles removed by any means drop out of their groups.
+  useEffect(() => {
+    setHandleGroups(prev => pruneHandleGroups(prev, handleIndices));
+  }, [handleIndices]);
+
+  const groupedIndices = useMemo(() => getGroupedIndices(handleGroups), [handleGroups]);
+  const skeletonIndices = useMemo(() => getSkeletonIndices(bones), [bones]);
+  // Handles driven by a group or a bone have no marker of their own.
+  const markerIndices = useMemo(
+    () => handleIndices.filter(index => !groupedIndices.has(index) && !skeletonIndices.has(index)),
+    [handleIndices, groupedIndices, skeletonIndices]
+  );
+  const activeGroup = handleGroups.find(group => group.id === activeGroupId) ?? null;
+
+  const createGroupFromHandles = () => {
+    const localFrame = modelRef.current?.getLocalFrame();
+    if (!localFrame || markerIndices.length === 0) return;
+
+    recordHistory('Create handle group', captureSnapshot());
+    const positions = markerIndices.map(index => localFrame.worldToLocal((handlePositions.get(index) ?? new THREE.Vector3()).clone()));
+    const group = createHandleGroup(`Group ${handleGroups.length + 1}`, markerIndices, positions);
+    setHandleGroups(prev => [...prev, group]);
+    setActiveGroupId(group.id);
+  };
+
+  const deleteGroup = (id: string) => {
+    recordHistory('Delete handle group', captureSnapshot());
+    setHandleGroups(prev => prev.filter(group => group.id !== id));
+  };
+
+  const renameGroup = (id: string, name: string) => {
+    setHandleGroups(prev => prev.map(group => group.id === id ? { ...group, name } : group));
+  };
+
+  // Put the pivot where the active group currently is whenever another group becomes active (or after undo).
+  useEffect(() => {
+    if (!activeGroup) return;
+    activeGroup.transform.decompose(groupPivot.position, groupPivot.quaternion, groupPivot.scale);
+    groupPivot.updateMatrixWorld(true);
+  }, [activeGroup, groupPivot]);
+
+  const handleGroupGizmoStart = () => {
+    stopPlayback();
+    dragPreviewRef.current = true;
+    if (activeGroup) recordHistory(`Transform ${activeGroup.name}`, captureSnapshot());
+  };
+
+  const handleGroupGizmoChange = () => {
+    const localFrame = modelRef.current?.getLocalFrame();
+    if (!activeGroup || !localFrame) return;
+    groupPivot.updateMatrix();
+    const targets = computeGroupTargets(activeGroup, groupPivot.matrix);
+    targets.forEach(target => localFrame.localToWorld(target));
+    scheduleDeformation(targets);
+  };
+
+  const handleGroupGizmoEnd = () => {
+    finishDragPreview();
+    if (!activeGroup) return;
+    groupPivot.updateMatrix();
+    const transform = groupPivot.matrix.clone();
+    setHandleGroups(prev => prev.map(group => group.id === activeGroup.id ? { ...group, transform } : group));
+  };
+
   const runDeformation = () => {
-    if (!latestDragInfo.current || !isWasmReady) {
+    const targets = pendingTargets.current;
+    if (!targets || !isWasmReady) {
       animationFrameId.current = null;
       return;
     }
-    const { index: draggedIndex, pos: draggedPos } = latestDragInfo.current;
 
-    const allConstraints = new Map<number, THREE.Vector3>();
-    anchorIndices.forEach(anchorIndex => {
-        const anchorPos = handlePositions.get(anchorIndex);
-        if(anchorPos) allConstraints.set(anchorIndex, anchorPos);
-    });
-    
-    handleIndices.forEach(handleIndex => {
-        if (handleIndex === draggedIndex) {
-            allConstraints.set(handleIndex, draggedPos);
+    const localFrame = modelRef.current.getLocalFrame();
+    if (!localFrame) {
+        console.error("Could not get model frame for coordinate conversion.");
+        animationFrameId.current = null;
+        return;
+    }
+
+    // Anchors only appear in the targets during timeline playback.
+    const constrainedAnchors = anchorIndices.filter(index => targets.has(index) || handlePositions.has(index));
+    const constrainedHandles = handleIndices.filter(index => targets.has(index) || handlePositions.has(index));
+    const constrained = [...constrainedAnchors, ...constrainedHandles];
+    const worldTargets = constrained.map(index => targets.get(index) ?? handlePositions.get(index)!);
+    const positions = new Float32Array(worldTargets.length * 3);
+    worldTargets.forEach((worldPos, i) => localFrame.worldToLocal(worldPos.clone()).toArray(positions, i * 3));
+    const weights = getConstraintWeights(constrained);
+    // A proxy solve only approximates the targets, so all of them are kept until the full mesh is solved again.
+    const preview = dragPreviewRef.current && proxyVertexCount !== null;
+    const keptTargets = new Map(constrained.flatMap((index, i) =>
+      preview || constraintWeights.has(index) ? [[index, worldTargets[i]] as const] : []
+    ));
+    previewedRef.current ||= preview;
+
+    animationFrameId.current = null;
+
+    // The service validates the constraints (including NaN targets) and rejects with a SolverError instead of solving.
+    const generation = solveGenerationRef.current;
+    const startTime = performance.now();
+    const solve = preview
+      ? WasmSolverService.deformProxy(constrainedAnchors, constrainedHandles, positions, solverSettings, weights)
+      : WasmSolverService.deform(constrainedAnchors, constrainedHandles, positions, solverSettings, weights, getCollisionOptions());
+    solve
+      .then(result => {
+        // null means a newer drag position superseded this request before it reached the solver.
+        if (result === null || solveGenerationRef.current !== generation) return;
+        applySolvedVertices(result.vertices, localFrame, keptTargets);
+        setFrameTime({ milliseconds: performance.now() - startTime, preview });
+        // The statistics describe the full-resolution solve.
+        if (!preview) setSolveStats(result.stats);
+        setSolveError(null);
+      })
+      .catch(error => {
+        if (solveGenerationRef.current !== generation) return;
+        if (error instanceof SolverError) {
+          setSolveError(error);
         } else {
-            const handlePos = handlePositions.get(handleIndex);
-            if (handlePos) allConstraints.set(handleIndex, handlePos);
+          console.error('Wasm solver failed:', error);
+        }
+      });
+  };
+
+  // Soft constraints only pull on the mesh, so they keep their targets (keptTargets) instead of snapping to the solved vertex.
+  const applySolvedVertices = (newAllVertices: Float32Array, localFrame: THREE.Object3D, keptTargets?: Map<number, THREE.Vector3>) => {
+    modelRef.current.updateVertices(newAllVertices);
+    setDeformedVertices(newAllVertices);
+
+    const newAllConstraintPositionsWorld = new Map<number, THREE.Vector3>();
+    const allConstraintIndices = [...handleIndices, ...anchorIndices];
+
+    allConstraintIndices.forEach(constraintIndex => {
+        const kept = keptTargets?.get(constraintIndex);
+        if (kept) {
+            newAllConstraintPositionsWorld.set(constraintIndex, kept.clone());
+            return;
         }
+        const i = constraintIndex * 3;
+        const localPos = new THREE.Vector3(newAllVertices[i], newAllVertices[i+1], newAllVertices[i+2]);
+        const worldPos = localFrame.localToWorld(localPos.clone());
+        newAllConstraintPositionsWorld.set(constraintIndex, worldPos);
     });
+    setHandlePositions(newAllConstraintPositionsWorld);
+  };
 
-    const indices = new Int32Array(Array.from(allConstraints.keys()));
-    const modelGroup = modelRef.current.getModelGroup();
-    if (!modelGroup) {
-        console.error("Could not get model group for coordinate conversion.");
-        animationFrameId.current = null;
-        return;
+  const handleDragStart = useCallback(() => {
+    stopPlayback();
+    dragPreviewRef.current = true;
+    recordHistory('Move handle', captureSnapshot());
+  }, [stopPlayback, recordHistory, captureSnapshot]);
+
+  // Drags are previewed on the proxy; letting go solves the full mesh once, from the last targets of the drag.
+  const finishDragPreview = () => {
+    dragPreviewRef.current = false;
+    if (!previewedRef.current) return;
+    previewedRef.current = false;
+    scheduleDeformation(pendingTargets.current ?? new Map());
+  };
+
+  const scheduleDeformation = (targets: Map<number, THREE.Vector3>) => {
+    pendingTargets.current = targets;
+    if (!animationFrameId.current) {
+      animationFrameId.current = requestAnimationFrame(runDeformation);
     }
+  };
 
-    const positionsLocal = Array.from(allConstraints.values()).map(worldPos => modelGroup.worldToLocal(worldPos.clone()));
-    const positions = new Float32Array(positionsLocal.flatMap(p => [p.x, p.y, p.z]));
-    
-    const containsInvalidNumbers = (arr: Float32Array | Int32Array) => !arr.every(num => isFinite(num));
-    if (containsInvalidNumbers(indices) || containsInvalidNumbers(positions)) {
-      console.error('FATAL: Invalid numbers (NaN or Infinity) detected in data being sent to WASM!');
-      return; 
+  // Weights are only sent when a constraint is soft, so all-hard poses stay on the wasm solver.
+  const getConstraintWeights = (constrained: number[]): Float32Array | null =>
+    constrained.some(index => constraintWeights.has(index))
+      ? new Float32Array(constrained.map(index => constraintWeights.get(index) ?? 1))
+      : null;
+
+  // Proxy previews skip the contacts; the full solve after the drag resolves them.
+  const getCollisionOptions = (): CollisionOptions | null => {
+    const { resolve, planeEnabled, selfIntersections, maxIterations } = collisionSettings;
+    if (!resolve || (!planeEnabled && !selfIntersections)) return null;
+    return { plane: getCollisionPlane(), selfIntersections, maxIterations };
+  };
+
+  // Switching the contacts on or off, or changing them while they are on, solves the current pose again.
+  const changeCollisionSettings = (settings: CollisionSettings) => {
+    resolvePoseRef.current ||= settings.resolve || collisionSettings.resolve;
+    setCollisionSettings(settings);
+  };
+
+  const placePlaneUnderModel = () => {
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    const vertices: Float32Array | null = modelRef.current?.getSolverVertices();
+    if (!localFrame || !vertices) return;
+    changeCollisionSettings({ ...collisionSettings, planeOffset: getPlaneOffsetUnder(collisionSettings.planeAxis, vertices, localFrame) });
+  };
+
+  const changeSolverSettings = (settings: SolverSettings) => {
+    resolvePoseRef.current ||= settings.model !== solverSettings.model ||
+      settings.rotationSmoothness !== solverSettings.rotationSmoothness ||
+      settings.volumeWeight !== solverSettings.volumeWeight;
+    setSolverSettings(settings);
+  };
+
+  // Switching models (or repainting stiffness, or changing weights) keeps the handles where they are and solves them again.
+  useEffect(() => {
+    if (!resolvePoseRef.current) return;
+    resolvePoseRef.current = false;
+    if (handlePositions.size > 0 && !isPlaying && bakeProgress === null) scheduleDeformation(new Map());
+  });
+
+  // A removed anchor or handle forgets its weight, so picking the vertex again makes a hard constraint.
+  useEffect(() => {
+    const constrained = new Set([...anchorIndices, ...handleIndices]);
+    setConstraintWeights(prev => {
+      const kept = [...prev].filter(([index]) => constrained.has(index));
+      return kept.length === prev.size ? prev : new Map(kept);
+    });
+  }, [anchorIndices, handleIndices]);
+
+  const handleMove = (draggedIndex: number, newPosition: THREE.Vector3) => {
+    const targets = new Map([[draggedIndex, newPosition]]);
+    // The mirror handle gets the dragged target reflected across the plane, in the model's rest frame.
+    const mirror = mirrors?.[draggedIndex] ?? -1;
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    if (mirrorMap && localFrame && mirror >= 0 && mirror !== draggedIndex && handleIndices.includes(mirror)) {
+      const reflected = reflectPoint(localFrame.worldToLocal(newPosition.clone()), mirrorMap.plane);
+      targets.set(mirror, localFrame.localToWorld(reflected));
     }
+    scheduleDeformation(targets);
+  };
 
-    WasmSolverService.setHandles(indices, positions);
-    WasmSolverService.solve(50);
-    const newAllVertices = WasmSolverService.getVertices();
+  // Numeric edits and resets go through handleMove as well, so they solve (and mirror) exactly like a drag.
+  const editConstraintPosition = (index: number, position: THREE.Vector3) => {
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    if (!localFrame) return;
+    stopPlayback();
+    recordHistory(anchorIndices.includes(index) ? 'Move anchor' : 'Move handle', captureSnapshot());
+    handleMove(index, inspectorFrame === 'local' ? localFrame.localToWorld(position.clone()) : position.clone());
+  };
 
-    if (newAllVertices) {
-      modelRef.current.updateVertices(newAllVertices);
+  const resetConstraintPosition = (index: number) => {
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    if (!solverMesh || !localFrame) return;
+    stopPlayback();
+    recordHistory(anchorIndices.includes(index) ? 'Reset anchor' : 'Reset handle', captureSnapshot());
+    handleMove(index, localFrame.localToWorld(new THREE.Vector3().fromArray(solverMesh.vertices, index * 3)));
+  };
 
-      const newAllConstraintPositionsWorld = new Map<number, THREE.Vector3>();
-      const allConstraintIndices = [...handleIndices, ...anchorIndices];
+  // With symmetry on, mirrored constraints get the same weight. Weight 1 makes a constraint hard again.
+  const changeConstraintWeight = (indices: number[], weight: number) => {
+    const changed = withMirrors(indices, mirrors).filter(index => anchorIndices.includes(index) || handleIndices.includes(index));
+    if (changed.every(index => (constraintWeights.get(index) ?? 1) === weight)) return;
+    stopPlayback();
+    recordHistory('Change constraint weight', captureSnapshot());
+    setConstraintWeights(prev => {
+      const next = new Map(prev);
+      changed.forEach(index => weight < 1 ? next.set(index, weight) : next.delete(index));
+      return next;
+    });
+    resolvePoseRef.current = true;
+  };
 
-      allConstraintIndices.forEach(constraintIndex => {
-          const i = constraintIndex * 3;
-          const localPos = new THREE.Vector3(newAllVertices[i], newAllVertices[i+1], newAllVertices[i+2]);
-          const worldPos = modelGroup.localToWorld(localPos.clone());
-          newAllConstraintPositionsWorld.set(constraintIndex, worldPos);
+  // Anchors and the handles that are not driven by a group or a bone, in the inspector's frame.
+  const getInspectorEntries = (): InspectorEntry[] => {
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    const entries: InspectorEntry[] = [];
+    const add = (index: number, kind: InspectorEntry['kind']) => {
+      const position = handlePositions.get(index);
+      if (!position) return;
+      entries.push({
+        index,
+        kind,
+        position: inspectorFrame === 'local' && localFrame ? localFrame.worldToLocal(position.clone()) : position,
+        weight: constraintWeights.get(index) ?? 1,
       });
-      setHandlePositions(newAllConstraintPositionsWorld);
-    } else {
-        console.error('Wasm solver did not return any vertices.');
+    };
+    anchorIndices.forEach(index => add(index, 'anchor'));
+    markerIndices.forEach(index => add(index, 'handle'));
+    return entries;
+  };
+
+  // Cage vertices: anchors stay where the current cage pose has them, dragged vertices go to their targets.
+  const solveCage = (targets: Map<number, THREE.Vector3>, anchors: number[]) => {
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    if (!cage || !localFrame || !isWasmReady || isBindingCage) return;
+
+    const current = cagePose ?? cage.vertices;
+    const handles = [...targets.keys()].filter(index => !anchors.includes(index));
+    const positions = new Float32Array((anchors.length + handles.length) * 3);
+    anchors.forEach((index, i) => positions.set(current.subarray(index * 3, index * 3 + 3), i * 3));
+    handles.forEach((index, i) => targets.get(index)!.toArray(positions, (anchors.length + i) * 3));
+
+    const generation = solveGenerationRef.current;
+    WasmSolverService.deformCage(anchors, handles, positions, solverSettings)
+      .then(result => {
+        if (result === null || solveGenerationRef.current !== generation) return;
+        applySolvedVertices(result.vertices, localFrame);
+        setCagePose(result.cageVertices);
+        setSolveStats(result.stats);
+        setSolveError(null);
+      })
+      .catch(error => {
+        if (solveGenerationRef.current !== generation) return;
+        if (error instanceof SolverError) {
+          setSolveError(error);
+        } else {
+          console.error('Cage solve failed:', error);
+        }
+      });
+  };
+
+  const replaceCage = (next: CageMesh | null, label: string) => {
+    recordHistory(label, captureSnapshot());
+    setCage(next);
+    setCageAnchors([]);
+    setCageTargets(new Map());
+    setCagePose(null);
+    setMode(next ? 'cage' : mode === 'cage' ? 'view' : mode);
+  };
+
+  const buildCage = () => {
+    if (!solverMesh) return;
+    replaceCage(buildVoxelCage(solverMesh.vertices, solverMesh.faces, cageResolution), 'Build cage');
+  };
+
+  const importCage = async (file: File) => {
+    try {
+      const mesh = parseObjMesh(await file.text());
+      if (mesh.faces.length === 0) throw new ObjParseError('The cage has no faces.');
+      replaceCage(mesh, 'Import cage');
+    } catch (error) {
+      console.error('Failed to import cage:', error);
+      setFileError(error instanceof ObjParseError ? `Invalid cage: ${error.message}` : 'The cage could not be loaded.');
     }
+  };
 
-    animationFrameId.current = null;
+  // Puts the cage and the model back into their rest pose and forgets the cage constraints.
+  const resetCagePose = () => {
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    if (!solverMesh || !localFrame) return;
+    recordHistory('Reset cage', captureSnapshot());
+    solveGenerationRef.current++;
+    setCageAnchors([]);
+    setCageTargets(new Map());
+    setCagePose(null);
+    applySolvedVertices(solverMesh.vertices.slice(), localFrame);
+    setDeformedVertices(null);
+    WasmSolverService.restoreVertices(null).catch(error => {
+      console.error('Failed to reset solver state:', error);
+    });
   };
 
-  const handleMove = (draggedIndex: number, newPosition: THREE.Vector3) => {
-    latestDragInfo.current = { index: draggedIndex, pos: newPosition };
-    if (!animationFrameId.current) {
-      animationFrameId.current = requestAnimationFrame(runDeformation);
+  const toggleCageAnchor = (index: number) => {
+    recordHistory(cageAnchors.includes(index) ? 'Remove cage anchor' : 'Add cage anchor', captureSnapshot());
+    setCageAnchors(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+    // A pinned vertex stays where it is now, so it no longer needs a drag target.
+    setCageTargets(prev => {
+      const next = new Map(prev);
+      next.delete(index);
+      return next;
+    });
+  };
+
+  const handleCageDragStart = () => {
+    stopPlayback();
+    recordHistory('Move cage vertex', captureSnapshot());
+  };
+
+  const handleCageDrag = (index: number, position: THREE.Vector3) => {
+    const targets = new Map(cageTargets).set(index, position);
+    setCageTargets(targets);
+    solveCage(targets, cageAnchors);
+  };
+
+  const boneMatrices = useMemo(() => computeBoneMatrices(bones), [bones]);
+  const selectedBone = bones.find(bone => bone.id === selectedBoneId) ?? null;
+  // Where the next bone starts in the current pose.
+  const chainStart = useMemo(() => {
+    if (!chainTip) return null;
+    const parentMatrix = (chainTip.parentId ? boneMatrices.get(chainTip.parentId) : undefined) ?? new THREE.Matrix4();
+    return chainTip.head.clone().applyMatrix4(parentMatrix);
+  }, [chainTip, boneMatrices]);
+
+  // The first click starts a chain; every further click adds a bone from the chain's tip to the clicked point.
+  const placeSkeletonPoint = (position: THREE.Vector3) => {
+    if (!chainTip) {
+      setChainTip({ parentId: null, head: position });
+      return;
+    }
+    const parentMatrix = (chainTip.parentId ? boneMatrices.get(chainTip.parentId) : undefined) ?? new THREE.Matrix4();
+    // Bones are stored in the rest pose, so a point placed in a posed chain is mapped back through its parent.
+    const tail = position.clone().applyMatrix4(parentMatrix.clone().invert());
+    const bone = createBone(`Bone ${bones.length + 1}`, chainTip.head, tail, chainTip.parentId);
+    recordHistory('Add bone', captureSnapshot());
+    setBones(prev => [...prev, bone]);
+    setSelectedBoneId(bone.id);
+    setChainTip({ parentId: bone.id, head: bone.tail });
+  };
+
+  // Continue from a bone's tail as its child, or from its head as its sibling.
+  const pickSkeletonJoint = ({ boneId, end }: SkeletonJoint) => {
+    const bone = bones.find(b => b.id === boneId);
+    if (!bone) return;
+    setSelectedBoneId(bone.id);
+    setChainTip(end === 'tail' ? { parentId: bone.id, head: bone.tail } : { parentId: bone.parentId, head: bone.head });
+  };
+
+  // Bone-driven handles are removed with their bones; the remaining handles are left as they are.
+  const dropSkeletonHandles = (indices: Set<number>) => {
+    setHandleIndices(prev => prev.filter(index => !indices.has(index)));
+    setHandlePositions(prev => {
+      const next = new Map(prev);
+      indices.forEach(index => next.delete(index));
+      return next;
+    });
+  };
+
+  const bindSkeleton = () => {
+    const vertices = modelRef.current?.getSolverVertices();
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    if (!vertices || !localFrame || bones.length === 0) return;
+
+    recordHistory('Bind skeleton', captureSnapshot());
+    const excluded = new Set([...anchorIndices, ...groupedIndices]);
+    const bound = bindBones(bones, vertices, bindRadius * meshDiagonal, excluded);
+    const next = getSkeletonIndices(bound);
+    setBones(bound);
+    setHandleIndices(prev => {
+      const kept = prev.filter(index => !skeletonIndices.has(index) && !next.has(index));
+      return [...kept, ...next];
+    });
+    setHandlePositions(prev => {
+      const positions = new Map(prev);
+      skeletonIndices.forEach(index => positions.delete(index));
+      next.forEach(index => positions.set(index, localFrame.localToWorld(new THREE.Vector3().fromArray(vertices, index * 3))));
+      return positions;
+    });
+  };
+
+  const deleteBone = (id: string) => {
+    recordHistory('Delete bone', captureSnapshot());
+    const remaining = removeBoneSubtree(bones, id);
+    const removed = getSkeletonIndices(bones.filter(bone => !remaining.includes(bone)));
+    setBones(remaining);
+    dropSkeletonHandles(removed);
+    if (!remaining.some(bone => bone.id === selectedBoneId)) setSelectedBoneId(null);
+    if (chainTip?.parentId && !remaining.some(bone => bone.id === chainTip.parentId)) setChainTip(null);
+  };
+
+  const clearSkeleton = () => {
+    recordHistory('Clear skeleton', captureSnapshot());
+    dropSkeletonHandles(skeletonIndices);
+    setBones([]);
+    setSelectedBoneId(null);
+    setChainTip(null);
+  };
+
+  const solveSkeleton = (posed: Bone[]) => {
+    const localFrame = modelRef.current?.getLocalFrame();
+    if (!localFrame) return;
+    const targets = computeSkeletonTargets(posed);
+    targets.forEach(target => localFrame.localToWorld(target));
+    scheduleDeformation(targets);
+  };
+
+  const resetSkeletonPose = () => {
+    recordHistory('Reset skeleton pose', captureSnapshot());
+    const rest = bones.map(bone => ({ ...bone, rotation: new THREE.Quaternion() }));
+    setBones(rest);
+    solveSkeleton(rest);
+  };
+
+  // Put the pivot on the selected bone's head, oriented like the bone in its current pose.
+  useEffect(() => {
+    if (!selectedBone) return;
+    const parentMatrix = getParentMatrix(selectedBone, boneMatrices);
+    bonePivot.position.copy(selectedBone.head).applyMatrix4(parentMatrix);
+    bonePivot.quaternion.setFromRotationMatrix(parentMatrix).multiply(selectedBone.rotation);
+    bonePivot.scale.set(1, 1, 1);
+    bonePivot.updateMatrixWorld(true);
+  }, [selectedBone, boneMatrices, bonePivot]);
+
+  // The gizmo rotates the bone in the model frame; the bone itself stores its rotation relative to its parent.
+  const getPivotBoneRotation = (bone: Bone) =>
+    new THREE.Quaternion().setFromRotationMatrix(getParentMatrix(bone, boneMatrices)).invert().multiply(bonePivot.quaternion);
+
+  const handleBoneGizmoStart = () => {
+    stopPlayback();
+    dragPreviewRef.current = true;
+    if (selectedBone) recordHistory(`Rotate ${selectedBone.name}`, captureSnapshot());
+  };
+
+  const handleBoneGizmoChange = () => {
+    if (!selectedBone) return;
+    const rotation = getPivotBoneRotation(selectedBone);
+    solveSkeleton(bones.map(bone => bone.id === selectedBone.id ? { ...bone, rotation } : bone));
+  };
+
+  const handleBoneGizmoEnd = () => {
+    finishDragPreview();
+    if (!selectedBone) return;
+    const rotation = getPivotBoneRotation(selectedBone);
+    setBones(prev => prev.map(bone => bone.id === selectedBone.id ? { ...bone, rotation } : bone));
+  };
+
+  const animationDuration = getAnimationDuration(keyframes);
+
+  const getLocalConstraintTargets = (): Map<number, THREE.Vector3> => {
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    const targets = new Map<number, THREE.Vector3>();
+    if (!localFrame) return targets;
+    [...anchorIndices, ...handleIndices].forEach(index => {
+      const position = handlePositions.get(index);
+      if (position) targets.set(index, localFrame.worldToLocal(position.clone()));
+    });
+    return targets;
+  };
+
+  const addKeyframe = () => {
+    setKeyframes(prev => setKeyframe(prev, playhead, getLocalConstraintTargets()));
+  };
+
+  const seekTimeline = (time: number) => {
+    setPlayhead(time);
+    const localFrame: THREE.Object3D | null = modelRef.current?.getLocalFrame();
+    if (keyframes.length === 0 || !localFrame) return;
+    const targets = sampleKeyframes(keyframes, time, keyInterpolation);
+    targets.forEach(target => localFrame.localToWorld(target));
+    scheduleDeformation(targets);
+  };
+
+  // The playback loop outlives renders, so it always calls the latest seekTimeline through this ref.
+  const seekTimelineRef = useRef(seekTimeline);
+  useEffect(() => {
+    seekTimelineRef.current = seekTimeline;
+  });
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      stopPlayback();
+      return;
+    }
+    if (keyframes.length < 2 || animationDuration <= 0) return;
+
+    recordHistory('Play animation', captureSnapshot());
+    const startTime = playhead >= animationDuration ? 0 : playhead;
+    const startedAt = performance.now();
+    const loop = loopPlayback;
+    const tick = (now: number) => {
+      let time = startTime + (now - startedAt) / 1000;
+      if (time > animationDuration) {
+        if (!loop) {
+          seekTimelineRef.current(animationDuration);
+          stopPlayback();
+          return;
+        }
+        time %= animationDuration;
+      }
+      seekTimelineRef.current(time);
+      playbackFrameId.current = requestAnimationFrame(tick);
+    };
+    setIsPlaying(true);
+    playbackFrameId.current = requestAnimationFrame(tick);
+  };
+
+  const handleExportAnimation = async (format: AnimationExportFormat) => {
+    if (!loadedGeometry || !solverMesh || keyframes.length === 0) return;
+    stopPlayback();
+
+    const snapshot = captureSnapshot();
+    const currentTargets = getLocalConstraintTargets();
+    const anchors = anchorIndices.filter(index => currentTargets.has(index));
+    const handles = handleIndices.filter(index => currentTargets.has(index));
+    // The same soft constraints as the live playback.
+    const weights = getConstraintWeights([...anchors, ...handles]);
+    const frameCount = Math.round(animationDuration * animationFps) + 1;
+    const renderPositions = new THREE.BufferAttribute(new Float32Array(loadedGeometry.attributes.position.count * 3), 3);
+    const frames: AnimationFrame[] = [];
+
+    setBakeProgress(0);
+    try {
+      // Frames are solved one after another, each warm-started from the previous one.
+      for (let i = 0; i < frameCount; i++) {
+        const time = Math.min(i / animationFps, animationDuration);
+        const sampled = sampleKeyframes(keyframes, time, keyInterpolation);
+        const positions = new Float32Array((anchors.length + handles.length) * 3);
+        [...anchors, ...handles].forEach((index, j) => (sampled.get(index) ?? currentTargets.get(index)!).toArray(positions, j * 3));
+
+        const result = await WasmSolverService.deform(anchors, handles, positions, solverSettings, weights, getCollisionOptions());
+        if (!result) throw new Error('The animation solve was interrupted.');
+        solverMesh.mapping.applySolverPositions(result.vertices, renderPositions);
+        frames.push({ time, positions: (renderPositions.array as Float32Array).slice() });
+        setBakeProgress((i + 1) / frameCount);
+      }
+      const blob = await exportAnimation(loadedGeometry, frames, format);
+      downloadBlob(blob, getAnimationExportFileName(loadedGeometry.name, format));
+    } catch (error) {
+      console.error('Failed to export animation:', error);
+      setFileError(error instanceof SolverError ? `Animation export failed: ${error.message}` : 'The animation could not be exported.');
+    } finally {
+      setBakeProgress(null);
+      // Put the solver back to the pose on screen.
+      restoreSnapshot(snapshot);
     }
   };
 
   return (
     <Layout style={{ height: '100vh' }}>
-      <Sider width={260} style={{ background: '#fff', padding: '24px 16px 0 16px', boxShadow: '2px 0 8px #f0f1f2' }}>
+      <Sider width={260} style={{ background: '#fff', padding: '24px 16px 0 16px', boxShadow: '2px 0 8px #f0f1f2', overflowY: 'auto' }}>
         <Title level={4} style={{ marginBottom: 24 }}>ARAP-Deformer</Title>
-        <Button type="primary" icon={<UploadOutlined />} block style={{ marginBottom: 24 }}>
-          Upload Model
-        </Button>
-        <Collapse defaultActiveKey={['1']} ghost>
+        <Upload
+          accept={MODEL_FILE_ACCEPT}
+          showUploadList={false}
+          beforeUpload={(file) => {
+            importModel(() => importMeshFile(file));
+            return false;
+          }}
+          style={{ display: 'block' }}
+        >
+          <Button type="primary" icon={<UploadOutlined />} loading={isImporting} block style={{ marginBottom: 24 }}>
+            Upload Model
+          </Button>
+        </Upload>
+        <Dropdown
+          disabled={!loadedGeometry}
+          menu={{
+            items: EXPORT_FORMATS.map(format => ({ key: format, label: format.toUpperCase() })),
+            onClick: ({ key }) => handleExport(key as ExportFormat),
+          }}
+        >
+          <Button icon={<DownloadOutlined />} loading={isExporting} block style={{ marginBottom: 24 }}>
+            Export
+          </Button>
+        </Dropdown>
+        <div style={{ display: 'flex', gap: 8, marginBottom: 24 }}>
+          <div style={{ flex: 1 }}>
+            <Upload
+              accept={`${PROJECT_FILE_EXTENSION},.json`}
+              showUploadList={false}
+              beforeUpload={(file) => {
+                openProject(file);
+                return false;
+              }}
+              style={{ display: 'block' }}
+            >
+              <Tooltip title={`Open a saved project (${PROJECT_FILE_EXTENSION})`}>
+                <Button icon={<FolderOpenOutlined />} disabled={isImporting} block>
+                  Open
+                </Button>
+              </Tooltip>
+            </Upload>
+          </div>
+          <Dropdown
+            disabled={!loadedGeometry}
+            menu={{
+              items: [
+                { key: 'embed', label: 'Save with embedded mesh' },
+                { key: 'reference', label: 'Save referencing the model URL', disabled: !loadedGeometry?.userData.sourceUrl },
+              ],
+              onClick: ({ key }) => handleSaveProject(key === 'embed'),
+            }}
+          >
+            <Button icon={<SaveOutlined />} style={{ flex: 1 }}>
+              Save
+            </Button>
+          </Dropdown>
+        </div>
+        <Space.Compact block style={{ marginBottom: 24 }}>
+          <Tooltip title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}>
+            <Button icon={<UndoOutlined />} disabled={!history.canUndo} onClick={handleUndo} style={{ width: '50%' }}>
+              Undo
+            </Button>
+          </Tooltip>
+          <Tooltip title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}>
+            <Button icon={<RedoOutlined />} disabled={!history.canRedo} onClick={handleRedo} style={{ width: '50%' }}>
+              Redo
+            </Button>
+          </Tooltip>
+        </Space.Compact>
+        <ConstraintIssueList
+          issues={visibleIssues}
+          failure={solveError && solveError.issues.length === 0 ? solveError.message : null}
+          highlighted={highlightedIssue}
+          onHighlight={setHighlightedIssue}
+        />
+        <Collapse defaultActiveKey={['1', '2', '3']} ghost>
           <Panel header="Mode Selection" key="1">
             <Radio.Group
               value={mode}
@@ -426,18 +1781,247 @@ function App() {
             >
               <Radio value="view">View Mode</Radio>
               <Radio value="select">Select Mode</Radio>
+              <Radio value="paint">Paint Stiffness Mode</Radio>
               <Radio value="deform">Deform Mode</Radio>
+              <Radio value="skeleton">Skeleton Mode</Radio>
+              <Radio value="cage" disabled={!cage}>Cage Mode</Radio>
             </Radio.Group>
+            {mode === 'select' && (
+              <div style={{ marginTop: 16, display: 'flex', flexDirection: 'column', gap: 12 }}>
+                <Segmented
+                  block
+                  size="small"
+                  value={selectionTool}
+                  onChange={value => setSelectionTool(value as SelectionTool)}
+                  options={[
+                    { label: 'Click', value: 'click' },
+                    { label: 'Brush', value: 'brush' },
+                    { label: 'Lasso', value: 'lasso' },
+                    { label: 'Box', value: 'box' },
+                  ]}
+                />
+                {selectionTool === 'click' ? (
+                  <Text type="secondary">Ctrl+click adds an anchor, Alt+click adds a handle.</Text>
+                ) : (
+                  <>
+                    <Radio.Group
+                      size="small"
+                      value={selectionTarget}
+                      onChange={e => setSelectionTarget(e.target.value)}
+                      optionType="button"
+                      options={[
+                        { label: 'Anchors', value: 'anchor' },
+                        { label: 'Handles', value: 'handle' },
+                      ]}
+                    />
+                    {selectionTool === 'brush' && (
+                      <div>
+                        <Text type="secondary">Brush radius (px)</Text>
+                        <Slider min={5} max={150} value={brushRadius} onChange={setBrushRadius} />
+                      </div>
+                    )}
+                    <Checkbox checked={frontFacingOnly} onChange={e => setFrontFacingOnly(e.target.checked)}>
+                      Front-facing vertices only
+                    </Checkbox>
+                    <Text type="secondary">Drag to add, hold Shift while dragging to remove. Switch to View Mode to orbit.</Text>
+                  </>
+                )}
+              </div>
+            )}
+            {mode === 'paint' && (
+              <div style={{ marginTop: 16, display: 'flex', flexDirection: 'column', gap: 12 }}>
+                <div>
+                  <Text type="secondary">Stiffness: ×{stiffnessBrushValue.toPrecision(2)}</Text>
+                  <Slider
+                    min={Math.log10(MIN_STIFFNESS)}
+                    max={Math.log10(MAX_STIFFNESS)}
+                    step={0.05}
+                    value={Math.log10(stiffnessBrushValue)}
+                    tooltip={{ formatter: value => `×${(10 ** (value ?? 0)).toPrecision(2)}` }}
+                    marks={{ [Math.log10(MIN_STIFFNESS)]: 'Soft', 0: '1', [Math.log10(MAX_STIFFNESS)]: 'Rigid' }}
+                    onChange={exponent => setStiffnessBrushValue(10 ** exponent)}
+                  />
+                </div>
+                <div>
+                  <Text type="secondary">Brush radius (px)</Text>
+                  <Slider min={5} max={150} value={brushRadius} onChange={setBrushRadius} />
+                </div>
+                <Checkbox checked={frontFacingOnly} onChange={e => setFrontFacingOnly(e.target.checked)}>
+                  Front-facing vertices only
+                </Checkbox>
+                <Text type="secondary">
+                  Paint rigid areas blue and bendable ones green; hold Shift while painting to reset to the default. Switch to View Mode to orbit.
+                </Text>
+                <Button onClick={resetStiffness} disabled={!stiffness} block>
+                  Reset Stiffness
+                </Button>
+              </div>
+            )}
             {(mode === 'select' && (handleIndices.length > 0 || anchorIndices.length > 0)) && (
                 <Button onClick={clearSelection} style={{marginTop: 12}} block>
                   Clear Selection
               </Button>
             )}
           </Panel>
+          <Panel header="Symmetry" key="8">
+            <SymmetryPanel
+              mode={symmetryMode}
+              tolerance={symmetryTolerance}
+              mirrorMap={mirrorMap}
+              onModeChange={setSymmetryMode}
+              onToleranceChange={setSymmetryTolerance}
+            />
+          </Panel>
+          <Panel header="Handle Inspector" key="9">
+            <HandleInspector
+              entries={getInspectorEntries()}
+              frame={inspectorFrame}
+              dragLock={dragLock}
+              snapEnabled={snapEnabled}
+              snapStep={snapStep}
+              onFrameChange={setInspectorFrame}
+              onDragLockChange={setDragLock}
+              onSnapEnabledChange={setSnapEnabled}
+              onSnapStepChange={setSnapStep}
+              onEdit={editConstraintPosition}
+              onReset={resetConstraintPosition}
+              onWeightChange={changeConstraintWeight}
+            />
+          </Panel>
+          <Panel header="Mesh Diagnostics" key="10">
+            {meshDiagnostics ? (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+                <MeshDiagnosticsReport diagnostics={meshDiagnostics} />
+                <Button
+                  block
+                  disabled={!hasMeshIssues(meshDiagnostics)}
+                  onClick={() => loadedGeometry && setPendingRepair({ geometry: loadedGeometry, diagnostics: meshDiagnostics, importing: false })}
+                >
+                  Repair Mesh
+                </Button>
+              </div>
+            ) : (
+              <Text type="secondary">Load a model to check it for problems.</Text>
+            )}
+          </Panel>
+          <Panel header="Handle Groups" key="2">
+            <HandleGroupPanel
+              groups={handleGroups}
+              activeGroupId={activeGroup?.id ?? null}
+              ungroupedHandleCount={markerIndices.length}
+              gizmoMode={gizmoMode}
+              onCreate={createGroupFromHandles}
+              onSelect={setActiveGroupId}
+              onRename={renameGroup}
+              onDelete={deleteGroup}
+              onGizmoModeChange={setGizmoMode}
+            />
+          </Panel>
+          <Panel header="Solver" key="3">
+            <SolverPanel settings={solverSettings} stats={solveStats} onChange={changeSolverSettings} />
+          </Panel>
+          <Panel header="Multiresolution" key="11">
+            <MultiresPanel
+              enabled={multiresEnabled}
+              levels={proxyLevels}
+              proxyVertexCount={proxyVertexCount}
+              meshVertexCount={solverMesh?.mapping.solverVertexCount ?? 0}
+              isBuilding={isBuildingProxy}
+              frameTime={frameTime}
+              onEnabledChange={setMultiresEnabled}
+              onLevelsChange={setProxyLevels}
+            />
+          </Panel>
+          <Panel header="Collision" key="12">
+            <CollisionPanel
+              settings={collisionSettings}
+              report={collisionReport}
+              onChange={changeCollisionSettings}
+              onPlaceUnderModel={placePlaneUnderModel}
+            />
+          </Panel>
+          <Panel header="Timeline" key="4">
+            <TimelinePanel
+              keyframes={keyframes}
+              time={playhead}
+              duration={animationDuration}
+              interpolation={keyInterpolation}
+              fps={animationFps}
+              loop={loopPlayback}
+              isPlaying={isPlaying}
+              bakeProgress={bakeProgress}
+              canAddKeyframe={handleIndices.length + anchorIndices.length > 0}
+              onAddKeyframe={addKeyframe}
+              onDeleteKeyframe={id => setKeyframes(prev => prev.filter(key => key.id !== id))}
+              onSeek={time => {
+                stopPlayback();
+                seekTimeline(time);
+              }}
+              onPlayToggle={togglePlayback}
+              onInterpolationChange={setKeyInterpolation}
+              onFpsChange={setAnimationFps}
+              onLoopChange={setLoopPlayback}
+              onExport={handleExportAnimation}
+            />
+          </Panel>
+          <Panel header="Quality" key="5">
+            <QualityPanel overlay={qualityOverlay} field={qualityField} onOverlayChange={setQualityOverlay} />
+          </Panel>
+          <Panel header="Cage" key="6">
+            <CagePanel
+              cage={cage}
+              resolution={cageResolution}
+              isBinding={isBindingCage}
+              movedCount={cageTargets.size}
+              anchorCount={cageAnchors.length}
+              onResolutionChange={setCageResolution}
+              onBuild={buildCage}
+              onImport={importCage}
+              onResetPose={resetCagePose}
+              onRemove={() => replaceCage(null, 'Remove cage')}
+            />
+          </Panel>
+          <Panel header="Skeleton" key="7">
+            <SkeletonPanel
+              bones={bones}
+              selectedBoneId={selectedBoneId}
+              tool={skeletonTool}
+              bindRadius={bindRadius}
+              isDrawingChain={chainTip !== null}
+              onToolChange={tool => {
+                setSkeletonTool(tool);
+                setChainTip(null);
+                setMode('skeleton');
+              }}
+              onSelect={setSelectedBoneId}
+              onDelete={deleteBone}
+              onBindRadiusChange={setBindRadius}
+              onBind={bindSkeleton}
+              onFinishChain={() => setChainTip(null)}
+              onResetPose={resetSkeletonPose}
+              onClear={clearSkeleton}
+            />
+          </Panel>
         </Collapse>
       </Sider>
        <Layout>
-        <Content style={{ height: '100vh', background: '#f5f6fa', padding: 0, position: 'relative' }}>
+        <Content
+          style={{ height: '100vh', background: '#f5f6fa', padding: 0, position: 'relative' }}
+          onDragOver={(event) => {
+            event.preventDefault();
+            setIsDraggingFile(true);
+          }}
+          onDragLeave={() => setIsDraggingFile(false)}
+          onDrop={handleFileDrop}
+        >
+          {isDraggingFile && (
+            <div className="drop-overlay">Drop an OBJ, PLY, STL or glTF file to load it</div>
+          )}
+          {fileError && (
+            <div style={{ position: 'absolute', top: 16, left: '50%', transform: 'translateX(-50%)', zIndex: 10, width: 420 }}>
+              <Alert message="Error" description={fileError} type="error" showIcon closable onClose={() => setFileError(null)} />
+            </div>
+          )}
           {!isWasmReady && !wasmError && (
             <div style={{ position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)', zIndex: 10 }}>
               <Spin size="large" tip="Loading Engine..." />
@@ -448,6 +2032,15 @@ function App() {
               <Alert message="Error" description={wasmError} type="error" showIcon />
             </div>
           )}
+          <SelectionOverlay shape={selectionShape} remove={isRegionRemoval} />
+          <MeshRepairDialog
+            diagnostics={pendingRepair?.diagnostics ?? null}
+            importing={pendingRepair?.importing ?? false}
+            options={repairOptions}
+            onOptionsChange={setRepairOptions}
+            onRepair={repairPendingMesh}
+            onSkip={skipMeshRepair}
+          />
           <div className="App" style={{ width: '100%', height: '100vh', opacity: isWasmReady ? 1 : 0.5 }}>
             <Canvas>
               <Environment preset="studio" />
@@ -468,20 +2061,112 @@ function App() {
 
               <Model
                 ref={modelRef}
-                onModelLoad={setLoadedGeometry}
+                geometry={loadedGeometry}
+                vertexMapping={solverMesh?.mapping ?? null}
                 handlePositions={handlePositions}
+                handleIndices={handleIndices}
                 anchorIndices={anchorIndices}
-              />
+                markerIndices={markerIndices}
+                constraintWeights={constraintWeights}
+                collisionIndices={collisionIndices}
+                highlightIndices={highlightIndices}
+                surfaceColors={surfaceColors}
+              >
+                <primitive object={groupPivot} />
+                <primitive object={bonePivot} />
+                {mode === 'skeleton' && (
+                  <SkeletonView
+                    bones={bones}
+                    matrices={boneMatrices}
+                    selectedBoneId={selectedBoneId}
+                    chainStart={chainStart}
+                    jointRadius={meshDiagonal * 0.006}
+                    drawing={skeletonTool === 'draw'}
+                    modelRef={modelRef}
+                    onPlacePoint={placeSkeletonPoint}
+                    onPickJoint={pickSkeletonJoint}
+                  />
+                )}
+                {mode === 'cage' && cage && (
+                  <CageView
+                    cage={cage}
+                    pose={cagePose}
+                    anchorIndices={cageAnchors}
+                    movedIndices={[...cageTargets.keys()]}
+                    interactive={!isBindingCage}
+                    onToggleAnchor={toggleCageAnchor}
+                    onDragStart={handleCageDragStart}
+                    onDrag={handleCageDrag}
+                  />
+                )}
+              </Model>
+
+              {collisionSettings.planeEnabled && (
+                <ClipPlaneView axis={collisionSettings.planeAxis} offset={collisionSettings.planeOffset} />
+              )}
+
+              {mode === 'deform' && activeGroup && (
+                <TransformControls
+                  size={0.8}
+                  object={groupPivot}
+                  mode={gizmoMode}
+                  onMouseDown={handleGroupGizmoStart}
+                  onObjectChange={handleGroupGizmoChange}
+                  onMouseUp={handleGroupGizmoEnd}
+                />
+              )}
+
+              {mode === 'skeleton' && skeletonTool === 'pose' && selectedBone && (
+                <TransformControls
+                  size={0.8}
+                  object={bonePivot}
+                  mode="rotate"
+                  onMouseDown={handleBoneGizmoStart}
+                  onObjectChange={handleBoneGizmoChange}
+                  onMouseUp={handleBoneGizmoEnd}
+                />
+              )}
               
-              <OrbitControls makeDefault enabled={isOrbitEnabled && mode !== 'deform'} />
+              <OrbitControls
+                makeDefault
+                enabled={isOrbitEnabled && mode !== 'deform' && mode !== 'paint' && mode !== 'skeleton' && mode !== 'cage' && !(mode === 'select' && selectionTool !== 'click')}
+              />
 
               <DeformationController 
                 mode={mode}
+                selectionTool={selectionTool}
                 modelRef={modelRef}
+                vertexMapping={solverMesh?.mapping ?? null}
+                dragLock={dragLock}
+                snapStep={snapEnabled ? snapStep : null}
+                onHandleDragStart={handleDragStart}
+                onHandleDragEnd={finishDragPreview}
                 onHandleMove={handleMove}
                 handleVertexSelected={handleVertexSelected}
                 handleAnchorSelected={handleAnchorSelected} 
               />
+
+              {mode === 'select' && selectionTool !== 'click' && (
+                <RegionSelectionController
+                  tool={selectionTool}
+                  modelRef={modelRef}
+                  brushRadius={brushRadius}
+                  frontFacingOnly={frontFacingOnly}
+                  onShapeChange={setSelectionShape}
+                  onRegionSelected={handleRegionSelected}
+                />
+              )}
+
+              {mode === 'paint' && (
+                <RegionSelectionController
+                  tool="brush"
+                  modelRef={modelRef}
+                  brushRadius={brushRadius}
+                  frontFacingOnly={frontFacingOnly}
+                  onShapeChange={setSelectionShape}
+                  onRegionSelected={handleStiffnessPaint}
+                />
+              )}
             </Canvas>
           </div>
         </Content>
@@ -2,6 +2,8 @@
 
 /**
  * 描述由C++ Deform 库封装而来的 ArapController 实例。
+ * wasm 只实现标准 ARAP；其它变形模型（Laplacian、SR-ARAP、体积保持）由
+ * src/geometry/localGlobalSolver.ts 中实现同一接口的 LocalGlobalSolver 提供，见 SolverSettings.model。
  */
 interface ArapController {
   set_handles(handle_indices: Int32Array, handle_positions: Float32Array): void;
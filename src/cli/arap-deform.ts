@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+// src/cli/arap-deform.ts
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+
+import {
+    CageDeformer, ConstraintFileError, DEFORMATION_MODELS, Deformer, ObjParseError, SolverError, parseConstraintFile, parseObjMesh, writeDeformedObj,
+    type DeformationModel,
+} from '../deformer';
+import { loadNodeArapModule } from './nodeArapModule';
+
+const USAGE = `Usage: arap-deform <input.obj> <constraints.json> [options]
+
+Deforms an OBJ mesh with ARAP (or another deformation model) and writes the result as OBJ.
+Vertex indices in the constraint file are 0-based OBJ vertex numbers.
+With --cage the solve runs on the cage and the indices refer to cage vertices.
+
+Options:
+  -o, --output <file>      Output OBJ (default: <input>_deformed.obj)
+      --iterations <n>     Maximum solver iterations (overrides the constraint file)
+      --tolerance <x>      Convergence tolerance, 0 to always run all iterations
+      --model <name>       ${DEFORMATION_MODELS.join(' | ')} (overrides the constraint file)
+      --cage <file>        Closed OBJ cage around the input that drives it through mean-value coordinates
+      --wasm-dir <dir>     Directory containing arap.js and arap.wasm
+  -q, --quiet              Only print errors
+  -h, --help               Show this help`;
+
+// The built CLI sits in dist-cli/, next to public/ where the wasm is served from in the web app.
+const defaultWasmDir = () =>
+    process.env.ARAP_WASM_DIR ?? path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public');
+
+const parseNumberOption = (value: string | undefined, name: string): number | undefined => {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) throw new Error(`--${name} must be a non-negative number.`);
+    return number;
+};
+
+async function main(): Promise<number> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            output: { type: 'string', short: 'o' },
+            iterations: { type: 'string' },
+            tolerance: { type: 'string' },
+            model: { type: 'string' },
+            cage: { type: 'string' },
+            'wasm-dir': { type: 'string' },
+            quiet: { type: 'boolean', short: 'q' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (positionals.length !== 2) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    const [inputPath, constraintPath] = positionals;
+    const outputPath = values.output ?? inputPath.replace(/(\.obj)?$/i, '_deformed.obj');
+    const log = (message: string) => {
+        if (!values.quiet) console.error(message);
+    };
+
+    const objText = await readFile(inputPath, 'utf8');
+    const mesh = parseObjMesh(objText);
+    const cage = values.cage !== undefined ? parseObjMesh(await readFile(values.cage, 'utf8')) : null;
+    // Offsets in the constraint file are relative to the rest positions of whatever is being solved.
+    const { constraints, settings } = parseConstraintFile(JSON.parse(await readFile(constraintPath, 'utf8')), (cage ?? mesh).vertices);
+    const iterations = parseNumberOption(values.iterations, 'iterations');
+    const tolerance = parseNumberOption(values.tolerance, 'tolerance');
+    if (iterations !== undefined) settings.maxIterations = Math.max(1, Math.round(iterations));
+    if (tolerance !== undefined) settings.tolerance = tolerance;
+    if (values.model !== undefined) {
+        if (!DEFORMATION_MODELS.includes(values.model as DeformationModel)) {
+            throw new Error(`--model must be one of ${DEFORMATION_MODELS.join(', ')}.`);
+        }
+        settings.model = values.model as DeformationModel;
+    }
+
+    const module = loadNodeArapModule(values['wasm-dir'] ?? defaultWasmDir(), log);
+    const deformer = cage ? await CageDeformer.create(module) : await Deformer.create(module);
+    try {
+        if (deformer instanceof CageDeformer) {
+            deformer.setCage(cage!.vertices, cage!.faces, mesh.vertices);
+        } else {
+            deformer.setMesh(mesh.vertices, mesh.faces);
+        }
+        deformer.validate(constraints)
+            .filter(issue => issue.severity === 'warning')
+            .forEach(issue => log(`warning: ${issue.message}`));
+
+        const { vertices, stats } = deformer.deform(constraints, settings);
+        await writeFile(outputPath, writeDeformedObj(objText, vertices));
+        log(
+            `Solved ${mesh.vertices.length / 3} vertices${cage ? ` through a ${cage.vertices.length / 3}-vertex cage` : ''} in ${stats.iterations} iteration${stats.iterations === 1 ? '' : 's'} ` +
+            `(${stats.converged ? 'converged' : 'iteration limit reached'}, ${stats.solveTimeMs.toFixed(1)} ms) -> ${outputPath}`
+        );
+    } finally {
+        deformer.dispose();
+    }
+    return 0;
+}
+
+main().then(
+    code => {
+        process.exitCode = code;
+    },
+    error => {
+        const known = error instanceof SolverError || error instanceof ObjParseError || error instanceof ConstraintFileError || error instanceof SyntaxError;
+        console.error(`arap-deform: ${error instanceof Error ? error.message : String(error)}`);
+        if (!known) console.error(error);
+        process.exitCode = 1;
+    }
+);
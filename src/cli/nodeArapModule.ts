@@ -0,0 +1,26 @@
+// src/cli/nodeArapModule.ts
+
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+import { evaluateArapScript, type ArapModule } from '../deformer/arapModule';
+
+/**
+ * 在 Node 中加载 arap.js / arap.wasm。Emscripten 在 Node 下会用到 require、__filename 和 __dirname，
+ * ES module 里没有这些变量，所以在执行脚本的作用域中补上；wasm 以 wasmBinary 直接传入。
+ * 求解器的逐次迭代日志交给 log（默认写到 stderr，保持 stdout 干净）。
+ */
+export async function loadNodeArapModule(wasmDir: string, log: (message: string) => void = console.error): Promise<ArapModule> {
+    const scriptPath = path.join(wasmDir, 'arap.js');
+    const [source, wasmBinary] = await Promise.all([
+        readFile(scriptPath, 'utf8'),
+        readFile(path.join(wasmDir, 'arap.wasm')),
+    ]);
+    const factory = evaluateArapScript(source, {
+        require: createRequire(scriptPath),
+        __filename: scriptPath,
+        __dirname: wasmDir,
+    });
+    return factory({ wasmBinary, print: log, printErr: log });
+}
@@ -0,0 +1,81 @@
+// src/components/CagePanel.tsx
+
+import { Button, Descriptions, Slider, Space, Typography, Upload } from 'antd';
+import { BorderOuterOutlined, DeleteOutlined, UploadOutlined } from '@ant-design/icons';
+
+import type { CageMesh } from '../geometry/cageBuilder';
+
+const { Text } = Typography;
+
+type CagePanelProps = {
+  cage: CageMesh | null;
+  resolution: number;
+  // True while the solver is binding the mesh to a new cage.
+  isBinding: boolean;
+  movedCount: number;
+  anchorCount: number;
+  onResolutionChange: (resolution: number) => void;
+  onBuild: () => void;
+  onImport: (file: File) => void;
+  onResetPose: () => void;
+  onRemove: () => void;
+};
+
+/** 笼变形面板：按分辨率生成包围笼或导入 OBJ 笼，显示笼的规模，并说明如何拖动笼顶点。 */
+function CagePanel({
+  cage, resolution, isBinding, movedCount, anchorCount,
+  onResolutionChange, onBuild, onImport, onResetPose, onRemove,
+}: CagePanelProps) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <div>
+        <Text type="secondary">Cage resolution (cells along the longest side)</Text>
+        <Slider min={3} max={24} value={resolution} onChange={onResolutionChange} />
+      </div>
+      <Space.Compact block>
+        <Button icon={<BorderOuterOutlined />} loading={isBinding} onClick={onBuild} style={{ width: '50%' }}>
+          Build Cage
+        </Button>
+        <Upload
+          accept=".obj"
+          showUploadList={false}
+          beforeUpload={file => {
+            onImport(file);
+            return false;
+          }}
+        >
+          <Button icon={<UploadOutlined />} disabled={isBinding}>
+            Import OBJ
+          </Button>
+        </Upload>
+      </Space.Compact>
+      {cage ? (
+        <>
+          <Descriptions size="small" column={1} bordered>
+            <Descriptions.Item label="Cage vertices">{cage.vertices.length / 3}</Descriptions.Item>
+            <Descriptions.Item label="Cage faces">{cage.faces.length / 3}</Descriptions.Item>
+            <Descriptions.Item label="Anchors / moved">{anchorCount} / {movedCount}</Descriptions.Item>
+          </Descriptions>
+          <Text type="secondary">
+            Drag a cage vertex to deform the model through the cage; Ctrl+click pins or unpins a vertex. Switch to View Mode to orbit.
+          </Text>
+          <Space.Compact block>
+            <Button onClick={onResetPose} disabled={movedCount === 0 && anchorCount === 0} style={{ width: '50%' }}>
+              Reset Cage
+            </Button>
+            <Button icon={<DeleteOutlined />} danger onClick={onRemove} style={{ width: '50%' }}>
+              Remove
+            </Button>
+          </Space.Compact>
+        </>
+      ) : (
+        <Text type="secondary">
+          A coarse cage around the model is solved instead of the mesh itself, which keeps dense scans interactive.
+          An imported cage must enclose the model and use the same coordinates.
+        </Text>
+      )}
+    </div>
+  );
+}
+
+export default CagePanel;
@@ -0,0 +1,161 @@
+// src/components/CageView.tsx
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+
+import type { CageMesh } from '../geometry/cageBuilder';
+
+type CageViewProps = {
+  // Rest cage and its current pose (null for the rest pose), both in the model's local frame; the component is rendered inside it.
+  cage: CageMesh;
+  pose: Float32Array | null;
+  anchorIndices: number[];
+  movedIndices: number[];
+  // Picking and dragging are only active in cage mode.
+  interactive: boolean;
+  onToggleAnchor: (index: number) => void;
+  onDragStart: (index: number) => void;
+  // Target of the dragged vertex in the local frame.
+  onDrag: (index: number, position: THREE.Vector3) => void;
+};
+
+const CAGE_COLOR = new THREE.Color('#1677ff');
+const ANCHOR_COLOR = new THREE.Color('#c70000');
+const MOVED_COLOR = new THREE.Color('#ffc700');
+
+const dummy = new THREE.Object3D();
+
+/** 笼的线框和顶点。Ctrl+点击顶点切换锚定，直接拖动顶点则在与屏幕平行的平面上移动它。 */
+function CageView({ cage, pose, anchorIndices, movedIndices, interactive, onToggleAnchor, onDragStart, onDrag }: CageViewProps) {
+  const { camera, gl } = useThree();
+  const pointsRef = useRef<THREE.InstancedMesh>(null);
+  const dragState = useRef({ index: -1, plane: new THREE.Plane() }).current;
+  const { faces } = cage;
+  const vertices = pose ?? cage.vertices;
+  const vertexCount = cage.vertices.length / 3;
+
+  // Each undirected edge once, as an index buffer over the cage vertices.
+  const wireframe = useMemo(() => {
+    const edges = new Set<number>();
+    const indices: number[] = [];
+    for (let f = 0; f + 2 < faces.length; f += 3) {
+      for (let k = 0; k < 3; k++) {
+        const a = faces[f + k], b = faces[f + (k + 1) % 3];
+        const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+        if (edges.has(key)) continue;
+        edges.add(key);
+        indices.push(a, b);
+      }
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertexCount * 3), 3));
+    geometry.setIndex(indices);
+    return geometry;
+  }, [faces, vertexCount]);
+
+  useEffect(() => () => wireframe.dispose(), [wireframe]);
+
+  const radius = useMemo(
+    () => new THREE.Box3().setFromArray(cage.vertices).getSize(new THREE.Vector3()).length() * 0.008,
+    [cage]
+  );
+
+  useLayoutEffect(() => {
+    const position = wireframe.attributes.position as THREE.BufferAttribute;
+    position.copyArray(vertices);
+    position.needsUpdate = true;
+    wireframe.computeBoundingSphere();
+
+    const points = pointsRef.current;
+    if (!points) return;
+    const anchors = new Set(anchorIndices);
+    const moved = new Set(movedIndices);
+    for (let i = 0; i < vertexCount; i++) {
+      dummy.position.fromArray(vertices, i * 3);
+      dummy.scale.setScalar(radius);
+      dummy.updateMatrix();
+      points.setMatrixAt(i, dummy.matrix);
+      points.setColorAt(i, anchors.has(i) ? ANCHOR_COLOR : moved.has(i) ? MOVED_COLOR : CAGE_COLOR);
+    }
+    points.instanceMatrix.needsUpdate = true;
+    if (points.instanceColor) points.instanceColor.needsUpdate = true;
+    points.computeBoundingSphere();
+  }, [wireframe, vertices, vertexCount, radius, anchorIndices, movedIndices]);
+
+  const raycast = useCallback((event: PointerEvent) => {
+    const rect = gl.domElement.getBoundingClientRect();
+    const mouse = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(mouse, camera);
+    return raycaster;
+  }, [camera, gl.domElement]);
+
+  const onPointerDown = useCallback((event: PointerEvent) => {
+    const points = pointsRef.current;
+    if (!points) return;
+    const hit = raycast(event).intersectObject(points).find(intersect => intersect.instanceId !== undefined);
+    if (!hit) return;
+    const index = hit.instanceId!;
+    if (event.ctrlKey || event.metaKey) {
+      onToggleAnchor(index);
+      return;
+    }
+    // Anchored vertices stay where they are pinned.
+    if (anchorIndices.includes(index)) return;
+
+    onDragStart(index);
+    dragState.index = index;
+    const worldPosition = points.localToWorld(new THREE.Vector3().fromArray(vertices, index * 3));
+    dragState.plane.setFromNormalAndCoplanarPoint(camera.getWorldDirection(new THREE.Vector3()), worldPosition);
+    gl.domElement.style.cursor = 'grabbing';
+  }, [raycast, anchorIndices, vertices, camera, gl.domElement, dragState, onToggleAnchor, onDragStart]);
+
+  const onPointerMove = useCallback((event: PointerEvent) => {
+    const points = pointsRef.current;
+    if (dragState.index < 0 || !points) return;
+    const target = raycast(event).ray.intersectPlane(dragState.plane, new THREE.Vector3());
+    if (target) onDrag(dragState.index, points.worldToLocal(target));
+  }, [raycast, dragState, onDrag]);
+
+  const onPointerUp = useCallback(() => {
+    if (dragState.index < 0) return;
+    dragState.index = -1;
+    gl.domElement.style.cursor = 'auto';
+  }, [gl.domElement, dragState]);
+
+  useEffect(() => {
+    if (!interactive) return;
+    const canvas = gl.domElement;
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointermove', onPointerMove);
+    canvas.addEventListener('pointerup', onPointerUp);
+    return () => {
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerup', onPointerUp);
+    };
+  }, [interactive, gl.domElement, onPointerDown, onPointerMove, onPointerUp]);
+
+  return (
+    <group>
+      <lineSegments geometry={wireframe}>
+        <lineBasicMaterial color={CAGE_COLOR} transparent opacity={0.6} depthTest={false} />
+      </lineSegments>
+      <instancedMesh
+        // The instance count is fixed at construction, so a different cage needs a new mesh.
+        key={vertexCount}
+        ref={pointsRef}
+        args={[undefined, undefined, vertexCount]}
+      >
+        <sphereGeometry args={[1, 8, 8]} />
+        <meshBasicMaterial depthTest={false} />
+      </instancedMesh>
+    </group>
+  );
+}
+
+export default CageView;
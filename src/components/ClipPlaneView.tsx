@@ -0,0 +1,38 @@
+// src/components/ClipPlaneView.tsx
+
+import { useMemo } from 'react';
+import * as THREE from 'three';
+
+import { getPlaneNormal, type PlaneAxis } from '../utils/collisionPlane';
+
+type ClipPlaneViewProps = {
+  axis: PlaneAxis;
+  offset: number;
+  size?: number;
+};
+
+const PLANE_COLOR = '#fa8c16';
+
+/** 在世界坐标系中绘制裁剪平面：一个半透明的方块和网格线，网格只能留在法向所指的一侧。 */
+function ClipPlaneView({ axis, offset, size = 12 }: ClipPlaneViewProps) {
+  const { position, quaternion } = useMemo(() => {
+    const normal = getPlaneNormal(axis);
+    return {
+      position: normal.clone().multiplyScalar(offset * (axis[0] === '+' ? 1 : -1)),
+      // The grid lies in the XZ plane, so +Y is turned onto the normal.
+      quaternion: new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), normal),
+    };
+  }, [axis, offset]);
+
+  return (
+    <group position={position} quaternion={quaternion}>
+      <gridHelper args={[size, 24, PLANE_COLOR, PLANE_COLOR]} />
+      <mesh rotation={[-Math.PI / 2, 0, 0]}>
+        <planeGeometry args={[size, size]} />
+        <meshBasicMaterial color={PLANE_COLOR} transparent opacity={0.12} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+}
+
+export default ClipPlaneView;
@@ -0,0 +1,101 @@
+// src/components/CollisionPanel.tsx
+
+import { Button, Checkbox, Descriptions, InputNumber, Select, Slider, Space, Typography } from 'antd';
+
+import type { CollisionReport } from '../geometry/collision';
+import type { CollisionSettings, PlaneAxis } from '../utils/collisionPlane';
+
+const { Text } = Typography;
+
+type CollisionPanelProps = {
+  settings: CollisionSettings;
+  // Collisions in the current pose, or null while nothing is checked.
+  report: CollisionReport | null;
+  onChange: (settings: CollisionSettings) => void;
+  // Moves the plane so it just touches the mesh.
+  onPlaceUnderModel: () => void;
+};
+
+const AXIS_OPTIONS: { value: PlaneAxis; label: string }[] = [
+  { value: '+y', label: 'Ground (+Y)' },
+  { value: '-y', label: 'Ceiling (−Y)' },
+  { value: '+x', label: '+X' },
+  { value: '-x', label: '−X' },
+  { value: '+z', label: '+Z' },
+  { value: '-z', label: '−Z' },
+];
+
+const MAX_CONTACT_ITERATIONS = 10;
+
+/** 碰撞面板：世界坐标系中的地面 / 裁剪平面和自相交检测，穿透的区域在模型上高亮，也可以在求解时用接触约束把它们推回去。 */
+function CollisionPanel({ settings, report, onChange, onPlaceUnderModel }: CollisionPanelProps) {
+  const update = (changes: Partial<CollisionSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <Checkbox checked={settings.planeEnabled} onChange={e => update({ planeEnabled: e.target.checked })}>
+        Clip plane
+      </Checkbox>
+      {settings.planeEnabled && (
+        <>
+          <Select
+            size="small"
+            value={settings.planeAxis}
+            options={AXIS_OPTIONS}
+            onChange={planeAxis => update({ planeAxis })}
+          />
+          <Space.Compact size="small" style={{ width: '100%' }}>
+            <InputNumber
+              style={{ flex: 1 }}
+              prefix="At"
+              step={0.1}
+              value={settings.planeOffset}
+              onChange={value => {
+                if (value !== null) update({ planeOffset: value });
+              }}
+            />
+            <Button onClick={onPlaceUnderModel}>Touch model</Button>
+          </Space.Compact>
+        </>
+      )}
+      <Checkbox checked={settings.selfIntersections} onChange={e => update({ selfIntersections: e.target.checked })}>
+        Detect self-intersections
+      </Checkbox>
+      <Checkbox checked={settings.resolve} onChange={e => update({ resolve: e.target.checked })}>
+        Resolve with contact constraints
+      </Checkbox>
+      {settings.resolve && (
+        <div>
+          <Text type="secondary">Contact rounds per solve: {settings.maxIterations}</Text>
+          <Slider
+            min={1}
+            max={MAX_CONTACT_ITERATIONS}
+            step={1}
+            value={settings.maxIterations}
+            onChange={maxIterations => update({ maxIterations })}
+          />
+        </div>
+      )}
+      {report ? (
+        <>
+          <Descriptions size="small" column={1} bordered>
+            {settings.planeEnabled ? (
+              <Descriptions.Item label="Behind the plane">{report.planeVertices.length} vertices</Descriptions.Item>
+            ) : null}
+            {settings.selfIntersections ? (
+              <Descriptions.Item label="Intersecting">{report.intersectingFaces.length / 2} triangle pairs</Descriptions.Item>
+            ) : null}
+          </Descriptions>
+          <Text type="secondary">
+            Collisions are highlighted in orange. Contacts only move free vertices, so a handle dragged through the plane stays there.
+            Triangles that already intersect in the rest pose are ignored.
+          </Text>
+        </>
+      ) : (
+        <Text type="secondary">Keep the mesh above a floor and stop limbs from passing through the body.</Text>
+      )}
+    </div>
+  );
+}
+
+export default CollisionPanel;
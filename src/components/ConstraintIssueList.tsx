@@ -0,0 +1,39 @@
+// src/components/ConstraintIssueList.tsx
+
+import { Alert, Button } from 'antd';
+
+import type { ConstraintIssue } from '../services/WasmSolverService';
+
+type ConstraintIssueListProps = {
+  issues: ConstraintIssue[];
+  // Message of a solver failure that is not tied to specific constraints (e.g. divergence).
+  failure: string | null;
+  highlighted: ConstraintIssue['code'] | null;
+  onHighlight: (code: ConstraintIssue['code'] | null) => void;
+};
+
+/** 约束检查结果：每个问题一条提示，点击 Show 会在模型上高亮出问题的区域。 */
+function ConstraintIssueList({ issues, failure, highlighted, onHighlight }: ConstraintIssueListProps) {
+  if (issues.length === 0 && !failure) return null;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 16 }}>
+      {failure && <Alert type="error" showIcon message={failure} />}
+      {issues.map(issue => (
+        <Alert
+          key={issue.code}
+          type={issue.severity}
+          showIcon
+          message={issue.message}
+          action={issue.vertices.length > 0 && (
+            <Button size="small" type="text" onClick={() => onHighlight(highlighted === issue.code ? null : issue.code)}>
+              {highlighted === issue.code ? 'Hide' : 'Show'}
+            </Button>
+          )}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default ConstraintIssueList;
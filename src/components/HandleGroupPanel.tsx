@@ -0,0 +1,83 @@
+// src/components/HandleGroupPanel.tsx
+
+import { Button, Input, List, Segmented, Typography } from 'antd';
+import { DeleteOutlined, GroupOutlined } from '@ant-design/icons';
+
+import type { HandleGroup } from '../utils/handleGroups';
+
+const { Text } = Typography;
+
+export type GizmoMode = 'translate' | 'rotate' | 'scale';
+
+type HandleGroupPanelProps = {
+  groups: HandleGroup[];
+  activeGroupId: string | null;
+  ungroupedHandleCount: number;
+  gizmoMode: GizmoMode;
+  onCreate: () => void;
+  onSelect: (id: string | null) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onGizmoModeChange: (mode: GizmoMode) => void;
+};
+
+/** 侧边栏中的手柄组列表：创建、重命名、删除，并选择由 gizmo 操纵的组。 */
+function HandleGroupPanel({
+  groups, activeGroupId, ungroupedHandleCount, gizmoMode,
+  onCreate, onSelect, onRename, onDelete, onGizmoModeChange,
+}: HandleGroupPanelProps) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <Button icon={<GroupOutlined />} block disabled={ungroupedHandleCount === 0} onClick={onCreate}>
+        Group {ungroupedHandleCount} ungrouped handle{ungroupedHandleCount === 1 ? '' : 's'}
+      </Button>
+      {groups.length > 0 && (
+        <>
+          <Segmented
+            block
+            size="small"
+            value={gizmoMode}
+            onChange={value => onGizmoModeChange(value as GizmoMode)}
+            options={[
+              { label: 'Move', value: 'translate' },
+              { label: 'Rotate', value: 'rotate' },
+              { label: 'Scale', value: 'scale' },
+            ]}
+          />
+          <List
+            size="small"
+            bordered
+            dataSource={groups}
+            renderItem={group => (
+              <List.Item
+                onClick={() => onSelect(group.id === activeGroupId ? null : group.id)}
+                style={{ cursor: 'pointer', background: group.id === activeGroupId ? '#e6f4ff' : undefined, gap: 8 }}
+              >
+                <Input
+                  size="small"
+                  variant="borderless"
+                  value={group.name}
+                  onClick={event => event.stopPropagation()}
+                  onChange={event => onRename(group.id, event.target.value)}
+                />
+                <Text type="secondary" style={{ whiteSpace: 'nowrap' }}>{group.members.length}</Text>
+                <Button
+                  size="small"
+                  type="text"
+                  icon={<DeleteOutlined />}
+                  onClick={event => {
+                    event.stopPropagation();
+                    onDelete(group.id);
+                  }}
+                />
+              </List.Item>
+            )}
+          />
+          <Text type="secondary">Click a group to attach the gizmo; its handles move together as one rigid body.</Text>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default HandleGroupPanel;
@@ -0,0 +1,210 @@
+// src/components/HandleInspector.tsx
+
+import { useState } from 'react';
+import { Button, Checkbox, InputNumber, List, Segmented, Slider, Space, Tooltip, Typography } from 'antd';
+import { RollbackOutlined } from '@ant-design/icons';
+import * as THREE from 'three';
+
+import type { DragLock } from '../utils/dragConstraint';
+
+const { Text } = Typography;
+
+export type CoordinateFrame = 'world' | 'local';
+
+export type InspectorEntry = {
+  index: number;
+  kind: 'anchor' | 'handle';
+  // Current target in the frame shown by the inspector.
+  position: THREE.Vector3;
+  // In (0, 1]; 1 is a hard constraint.
+  weight: number;
+};
+
+type HandleInspectorProps = {
+  entries: InspectorEntry[];
+  frame: CoordinateFrame;
+  dragLock: DragLock;
+  snapEnabled: boolean;
+  snapStep: number;
+  onFrameChange: (frame: CoordinateFrame) => void;
+  onDragLockChange: (lock: DragLock) => void;
+  onSnapEnabledChange: (enabled: boolean) => void;
+  onSnapStepChange: (step: number) => void;
+  // New target of a constraint, in the frame shown by the inspector.
+  onEdit: (index: number, position: THREE.Vector3) => void;
+  onReset: (index: number) => void;
+  onWeightChange: (indices: number[], weight: number) => void;
+};
+
+const AXIS_KEYS = ['x', 'y', 'z'] as const;
+const PAGE_SIZE = 8;
+const MIN_WEIGHT = 0.05;
+
+type NumberInputProps = {
+  value: number;
+  onCommit: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+  prefix?: string;
+};
+
+/** 单个数字输入框：输入时只改草稿，回车或失焦时才提交，避免每敲一个字符就求解一次。 */
+function NumberInput({ value, onCommit, min, max, step = 0.01, prefix }: NumberInputProps) {
+  const [draft, setDraft] = useState<number | null>(null);
+  const commit = () => {
+    if (draft !== null && draft !== value) onCommit(draft);
+    setDraft(null);
+  };
+  return (
+    <InputNumber
+      size="small"
+      controls={false}
+      min={min}
+      max={max}
+      step={step}
+      prefix={prefix}
+      value={draft ?? Number(value.toFixed(4))}
+      onChange={next => setDraft(next)}
+      onBlur={commit}
+      onPressEnter={commit}
+      style={{ width: '100%' }}
+    />
+  );
+}
+
+/** 所有列出的约束共用的权重滑块：拖动时只改草稿，松开后才提交，一次拖动只记一步历史。 */
+function WeightSlider({ value, onCommit }: { value: number; onCommit: (value: number) => void }) {
+  const [draft, setDraft] = useState<number | null>(null);
+  return (
+    <Slider
+      min={MIN_WEIGHT}
+      max={1}
+      step={0.05}
+      value={draft ?? value}
+      onChange={setDraft}
+      onChangeComplete={next => {
+        setDraft(null);
+        if (next !== value) onCommit(next);
+      }}
+    />
+  );
+}
+
+/**
+ * 手柄检查器：列出每个锚定点和约束点的坐标（世界或局部坐标）和权重并可直接修改，另外设置拖动时的轴锁定和网格吸附。
+ * 权重小于 1 的约束是软约束，求解时只按权重把网格拉向目标。
+ */
+function HandleInspector({
+  entries, frame, dragLock, snapEnabled, snapStep,
+  onFrameChange, onDragLockChange, onSnapEnabledChange, onSnapStepChange, onEdit, onReset, onWeightChange,
+}: HandleInspectorProps) {
+  // The slider starts from the softest listed constraint.
+  const sharedWeight = entries.reduce((min, entry) => Math.min(min, entry.weight), 1);
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <div>
+        <Text type="secondary">Drag lock (X / Y / Z, Shift for planes)</Text>
+        <Segmented
+          block
+          size="small"
+          value={dragLock}
+          onChange={value => onDragLockChange(value as DragLock)}
+          options={[
+            { label: 'Free', value: 'free' },
+            { label: 'X', value: 'x' },
+            { label: 'Y', value: 'y' },
+            { label: 'Z', value: 'z' },
+            { label: 'YZ', value: 'yz' },
+            { label: 'XZ', value: 'xz' },
+            { label: 'XY', value: 'xy' },
+          ]}
+        />
+      </div>
+      <Space>
+        <Checkbox checked={snapEnabled} onChange={e => onSnapEnabledChange(e.target.checked)}>
+          Snap to grid
+        </Checkbox>
+        <InputNumber
+          size="small"
+          min={0.001}
+          step={0.01}
+          value={snapStep}
+          disabled={!snapEnabled}
+          onChange={value => value !== null && onSnapStepChange(value)}
+          style={{ width: 90 }}
+        />
+      </Space>
+      {entries.length > 0 ? (
+        <>
+          <Segmented
+            block
+            size="small"
+            value={frame}
+            onChange={value => onFrameChange(value as CoordinateFrame)}
+            options={[
+              { label: 'World', value: 'world' },
+              { label: 'Local', value: 'local' },
+            ]}
+          />
+          <div>
+            <Text type="secondary">Weight of all listed constraints (1 = hard)</Text>
+            <WeightSlider value={sharedWeight} onCommit={weight => onWeightChange(entries.map(entry => entry.index), weight)} />
+          </div>
+          <List
+            size="small"
+            bordered
+            dataSource={entries}
+            pagination={entries.length > PAGE_SIZE ? { pageSize: PAGE_SIZE, size: 'small', simple: true } : false}
+            renderItem={entry => (
+              <List.Item style={{ display: 'flex', flexDirection: 'column', alignItems: 'stretch', gap: 4 }}>
+                <div style={{ display: 'flex', alignItems: 'center' }}>
+                  <Text style={{ color: entry.kind === 'anchor' ? '#c70000' : '#d48806' }}>
+                    {entry.kind === 'anchor' ? 'Anchor' : 'Handle'} {entry.index}
+                  </Text>
+                  <Tooltip title="Weight (1 = hard)">
+                    <div style={{ width: 80, marginLeft: 'auto' }}>
+                      <NumberInput
+                        value={entry.weight}
+                        min={MIN_WEIGHT}
+                        max={1}
+                        step={0.05}
+                        prefix="w"
+                        onCommit={weight => onWeightChange([entry.index], weight)}
+                      />
+                    </div>
+                  </Tooltip>
+                  <Tooltip title="Reset to rest position">
+                    <Button
+                      size="small"
+                      type="text"
+                      icon={<RollbackOutlined />}
+                      onClick={() => onReset(entry.index)}
+                    />
+                  </Tooltip>
+                </div>
+                <Space.Compact block>
+                  {AXIS_KEYS.map(axis => (
+                    <NumberInput
+                      key={axis}
+                      value={entry.position[axis]}
+                      onCommit={value => {
+                        const position = entry.position.clone();
+                        position[axis] = value;
+                        onEdit(entry.index, position);
+                      }}
+                    />
+                  ))}
+                </Space.Compact>
+              </List.Item>
+            )}
+          />
+        </>
+      ) : (
+        <Text type="secondary">Select anchors or handles to edit their positions and weights numerically.</Text>
+      )}
+    </div>
+  );
+}
+
+export default HandleInspector;
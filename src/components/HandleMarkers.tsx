@@ -0,0 +1,53 @@
+// src/components/HandleMarkers.tsx
+
+import { useLayoutEffect, useRef } from 'react';
+import * as THREE from 'three';
+
+type HandleMarkersProps = {
+  // Solver vertex index of each marker; stored in userData so picking can map instanceId back to a handle.
+  indices: number[];
+  // Marker positions in the model's local frame, parallel to `indices`.
+  positions: THREE.Vector3[];
+  // Radius factor of each marker, parallel to `positions`; 1 when omitted.
+  scales?: number[];
+  radius?: number;
+  color?: THREE.ColorRepresentation;
+  emissive?: THREE.ColorRepresentation;
+};
+
+const dummy = new THREE.Object3D();
+
+/** 用一个 InstancedMesh 绘制所有手柄，区域选择出的上百个手柄也只占一次绘制调用。 */
+function HandleMarkers({ indices, positions, scales, radius = 0.25, color = 'gold', emissive = '#ffc700' }: HandleMarkersProps) {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    positions.forEach((position, i) => {
+      dummy.position.copy(position);
+      dummy.scale.setScalar(radius * (scales?.[i] ?? 1));
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [positions, scales, radius]);
+
+  if (indices.length === 0) return null;
+
+  return (
+    <instancedMesh
+      // The instance count is fixed at construction, so a different count needs a new mesh.
+      key={indices.length}
+      ref={meshRef}
+      args={[undefined, undefined, indices.length]}
+      userData={{ handleIndices: indices }}
+    >
+      <sphereGeometry args={[1, 16, 16]} />
+      <meshStandardMaterial color={color} emissive={emissive} />
+    </instancedMesh>
+  );
+}
+
+export default HandleMarkers;
@@ -0,0 +1,28 @@
+// src/components/MeshDiagnosticsReport.tsx
+
+import { Descriptions, Typography } from 'antd';
+
+import type { MeshDiagnostics } from '../geometry/meshDiagnostics';
+
+const { Text } = Typography;
+
+const Count = ({ value }: { value: number }) => <Text type={value > 0 ? 'danger' : undefined}>{value}</Text>;
+
+/** 网格诊断结果的表格：有问题的项以红色显示。 */
+function MeshDiagnosticsReport({ diagnostics }: { diagnostics: MeshDiagnostics }) {
+  return (
+    <Descriptions size="small" column={1} bordered>
+      <Descriptions.Item label="Vertices / faces">{diagnostics.vertexCount} / {diagnostics.faceCount}</Descriptions.Item>
+      <Descriptions.Item label="Degenerate faces"><Count value={diagnostics.degenerateFaces.length} /></Descriptions.Item>
+      <Descriptions.Item label="Duplicate faces"><Count value={diagnostics.duplicateFaces.length} /></Descriptions.Item>
+      <Descriptions.Item label="Unreferenced vertices"><Count value={diagnostics.unreferencedVertices.length} /></Descriptions.Item>
+      <Descriptions.Item label="Non-manifold edges"><Count value={diagnostics.nonManifoldEdges} /></Descriptions.Item>
+      <Descriptions.Item label="Non-manifold vertices"><Count value={diagnostics.nonManifoldVertices.length} /></Descriptions.Item>
+      <Descriptions.Item label="Boundary loops">
+        {diagnostics.boundaryLoops ?? <Text type="warning">not a manifold</Text>}
+      </Descriptions.Item>
+    </Descriptions>
+  );
+}
+
+export default MeshDiagnosticsReport;
@@ -0,0 +1,75 @@
+// src/components/MeshRepairDialog.tsx
+
+import { Checkbox, Modal, Typography } from 'antd';
+
+import MeshDiagnosticsReport from './MeshDiagnosticsReport';
+import type { MeshDiagnostics } from '../geometry/meshDiagnostics';
+import type { MeshRepairOptions } from '../utils/meshRepair';
+
+const { Text } = Typography;
+
+type MeshRepairDialogProps = {
+  diagnostics: MeshDiagnostics | null;
+  // True when the mesh is still being imported, so skipping the repair loads it as it is.
+  importing: boolean;
+  options: MeshRepairOptions;
+  onOptionsChange: (options: MeshRepairOptions) => void;
+  onRepair: () => void;
+  onSkip: () => void;
+};
+
+/** 网格修复对话框：列出诊断出的问题，选择要执行的修复。导入时在网格交给求解器之前弹出。 */
+function MeshRepairDialog({ diagnostics, importing, options, onOptionsChange, onRepair, onSkip }: MeshRepairDialogProps) {
+  const degenerateCount = (diagnostics?.degenerateFaces.length ?? 0) + (diagnostics?.duplicateFaces.length ?? 0);
+  const nonManifoldCount = diagnostics?.nonManifoldVertices.length ?? 0;
+  const unreferencedCount = diagnostics?.unreferencedVertices.length ?? 0;
+  const canRepair = (options.removeDegenerateFaces && degenerateCount > 0) ||
+    (options.splitNonManifoldVertices && nonManifoldCount > 0) ||
+    (options.removeUnreferencedVertices && unreferencedCount > 0);
+
+  return (
+    <Modal
+      open={diagnostics !== null}
+      title="Mesh problems"
+      okText={importing ? 'Repair and Load' : 'Repair'}
+      cancelText={importing ? 'Load As Is' : 'Cancel'}
+      okButtonProps={{ disabled: !canRepair }}
+      onOk={onRepair}
+      onCancel={onSkip}
+      maskClosable={false}
+    >
+      {diagnostics && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+          <Text type="secondary">
+            These problems make the cotangent Laplacian unreliable. Repairing replaces the model
+            {importing ? '' : ' and clears the current edits'}.
+          </Text>
+          <MeshDiagnosticsReport diagnostics={diagnostics} />
+          <Checkbox
+            checked={options.removeDegenerateFaces}
+            disabled={degenerateCount === 0}
+            onChange={e => onOptionsChange({ ...options, removeDegenerateFaces: e.target.checked })}
+          >
+            Remove degenerate and duplicate faces ({degenerateCount})
+          </Checkbox>
+          <Checkbox
+            checked={options.splitNonManifoldVertices}
+            disabled={nonManifoldCount === 0}
+            onChange={e => onOptionsChange({ ...options, splitNonManifoldVertices: e.target.checked })}
+          >
+            Split non-manifold vertices ({nonManifoldCount})
+          </Checkbox>
+          <Checkbox
+            checked={options.removeUnreferencedVertices}
+            disabled={unreferencedCount === 0}
+            onChange={e => onOptionsChange({ ...options, removeUnreferencedVertices: e.target.checked })}
+          >
+            Drop unreferenced vertices ({unreferencedCount})
+          </Checkbox>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+export default MeshRepairDialog;
@@ -0,0 +1,60 @@
+// src/components/MultiresPanel.tsx
+
+import { Checkbox, Descriptions, Slider, Typography } from 'antd';
+
+const { Text } = Typography;
+
+export type FrameTime = {
+  milliseconds: number;
+  // True when the frame was solved on the proxy.
+  preview: boolean;
+};
+
+type MultiresPanelProps = {
+  enabled: boolean;
+  levels: number;
+  // Vertex count of the built proxy, or null while there is none.
+  proxyVertexCount: number | null;
+  meshVertexCount: number;
+  isBuilding: boolean;
+  frameTime: FrameTime | null;
+  onEnabledChange: (enabled: boolean) => void;
+  onLevelsChange: (levels: number) => void;
+};
+
+export const MAX_PROXY_LEVELS = 4;
+
+/** 多分辨率拖动的设置：是否在简化代理上预览拖动、代理的简化层数，以及最近一帧从发出求解到显示结果的耗时。 */
+function MultiresPanel({
+  enabled, levels, proxyVertexCount, meshVertexCount, isBuilding, frameTime, onEnabledChange, onLevelsChange,
+}: MultiresPanelProps) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <Checkbox checked={enabled} onChange={e => onEnabledChange(e.target.checked)}>
+        Preview drags on a simplified proxy
+      </Checkbox>
+      <div>
+        <Text type="secondary">Proxy levels: {levels} (each level keeps about a quarter of the vertices of the one before)</Text>
+        <Slider min={1} max={MAX_PROXY_LEVELS} step={1} value={levels} disabled={!enabled} onChange={onLevelsChange} />
+      </div>
+      {enabled && (
+        <Text type="secondary">
+          {isBuilding || proxyVertexCount === null
+            ? 'Building the proxy...'
+            : `Proxy: ${proxyVertexCount} of ${meshVertexCount} vertices. The full mesh is solved again when you let go.`}
+        </Text>
+      )}
+      {frameTime ? (
+        <Descriptions size="small" column={1} bordered>
+          <Descriptions.Item label="Frame time">
+            {frameTime.milliseconds.toFixed(1)} ms ({frameTime.preview ? 'proxy' : 'full mesh'})
+          </Descriptions.Item>
+        </Descriptions>
+      ) : (
+        <Text type="secondary">Drag a handle to measure the frame time.</Text>
+      )}
+    </div>
+  );
+}
+
+export default MultiresPanel;
@@ -0,0 +1,63 @@
+// src/components/QualityPanel.tsx
+
+import { Descriptions, Select, Typography } from 'antd';
+
+import type { QualityField } from '../geometry/deformationQuality';
+import { getLegendGradient, getLegendRange, QUALITY_OVERLAYS, type QualityOverlay } from '../utils/qualityOverlay';
+
+const { Text } = Typography;
+
+type QualityPanelProps = {
+  overlay: QualityOverlay;
+  // Field of the selected overlay for the current pose, or null when the overlay is off or no mesh is loaded.
+  field: QualityField | null;
+  onOverlayChange: (overlay: QualityOverlay) => void;
+};
+
+const OVERLAY_OPTIONS = [
+  { value: 'none', label: 'Off' },
+  ...Object.entries(QUALITY_OVERLAYS).map(([value, info]) => ({ value, label: info.label })),
+];
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+/** 变形质量叠加层：选择按位移、面积变化或局部刚性误差给模型着色，并显示图例和统计量。 */
+function QualityPanel({ overlay, field, onOverlayChange }: QualityPanelProps) {
+  const info = field ? QUALITY_OVERLAYS[field.metric] : null;
+  const range = field ? getLegendRange(field) : null;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <Select
+        style={{ width: '100%' }}
+        value={overlay}
+        options={OVERLAY_OPTIONS}
+        onChange={value => onOverlayChange(value as QualityOverlay)}
+      />
+      {field && info && range ? (
+        <>
+          <div>
+            <div style={{ height: 12, borderRadius: 2, background: getLegendGradient(field.metric) }} />
+            <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Text type="secondary">{info.format(range[0])}</Text>
+              <Text type="secondary">{info.format(range[1])}</Text>
+            </div>
+          </div>
+          <Descriptions size="small" column={1} bordered>
+            <Descriptions.Item label="Min">{info.format(field.min)}</Descriptions.Item>
+            <Descriptions.Item label="Max">{info.format(field.max)}</Descriptions.Item>
+            <Descriptions.Item label="Mean">{info.format(field.mean)}</Descriptions.Item>
+            <Descriptions.Item label="Volume change">{formatPercent(field.volumeChange)}</Descriptions.Item>
+          </Descriptions>
+          <Text type="secondary">
+            Anchors and handles keep their own colours. Large values far from any handle usually mean the region needs more anchors.
+          </Text>
+        </>
+      ) : (
+        <Text type="secondary">Colour the surface by how much the current pose distorts the rest shape.</Text>
+      )}
+    </div>
+  );
+}
+
+export default QualityPanel;
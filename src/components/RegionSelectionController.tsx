@@ -0,0 +1,129 @@
+// src/components/RegionSelectionController.tsx
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+
+import { projectVertices, verticesInShape, type ScreenPoint, type SelectionShape, type SelectionTool } from '../utils/regionSelection';
+
+export type RegionSelectionPhase = 'start' | 'stroke' | 'end';
+
+type SelectableModel = {
+  getSolverVertices: () => Float32Array | null;
+  getSolverNormals: () => Float32Array | null;
+  getLocalFrame: () => THREE.Object3D | null;
+};
+
+type RegionSelectionControllerProps = {
+  tool: Exclude<SelectionTool, 'click'>;
+  modelRef: React.RefObject<SelectableModel | null>;
+  brushRadius: number;
+  frontFacingOnly: boolean;
+  onShapeChange: (shape: SelectionShape | null) => void;
+  // Called with solver vertex indices; Shift held while dragging turns the stroke into a removal.
+  onRegionSelected: (indices: number[], remove: boolean, phase: RegionSelectionPhase) => void;
+};
+
+/**
+ * 选择模式下的笔刷 / 套索 / 框选交互。
+ * 顶点投影在按下鼠标时计算一次，整个拖拽过程中复用（此时相机不会移动）。
+ */
+function RegionSelectionController({ tool, modelRef, brushRadius, frontFacingOnly, onShapeChange, onRegionSelected }: RegionSelectionControllerProps) {
+  const { camera, gl } = useThree();
+  const strokeState = useRef<{
+    active: boolean;
+    remove: boolean;
+    projected: Float32Array | null;
+    start: ScreenPoint;
+    points: ScreenPoint[];
+  }>({ active: false, remove: false, projected: null, start: { x: 0, y: 0 }, points: [] }).current;
+
+  const toCanvasPoint = useCallback((event: PointerEvent): ScreenPoint => {
+    const rect = gl.domElement.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  }, [gl.domElement]);
+
+  const currentShape = useCallback((point: ScreenPoint): SelectionShape => {
+    if (tool === 'box') return { tool, start: strokeState.start, end: point };
+    if (tool === 'lasso') return { tool, points: strokeState.points };
+    return { tool, center: point, radius: brushRadius };
+  }, [tool, brushRadius, strokeState]);
+
+  const onPointerDown = useCallback((event: PointerEvent) => {
+    if (event.button !== 0 || !modelRef.current) return;
+    const positions = modelRef.current.getSolverVertices();
+    const localFrame = modelRef.current.getLocalFrame();
+    if (!positions || !localFrame) return;
+
+    const rect = gl.domElement.getBoundingClientRect();
+    const point = toCanvasPoint(event);
+    strokeState.active = true;
+    strokeState.remove = event.shiftKey;
+    strokeState.start = point;
+    strokeState.points = [point];
+    strokeState.projected = projectVertices(
+      positions, modelRef.current.getSolverNormals(), localFrame, camera, rect.width, rect.height, frontFacingOnly
+    );
+    gl.domElement.setPointerCapture(event.pointerId);
+
+    onRegionSelected([], strokeState.remove, 'start');
+    if (tool === 'brush') {
+      onRegionSelected(verticesInShape(strokeState.projected, currentShape(point)), strokeState.remove, 'stroke');
+    }
+    onShapeChange(currentShape(point));
+  }, [modelRef, gl.domElement, camera, frontFacingOnly, tool, strokeState, toCanvasPoint, currentShape, onShapeChange, onRegionSelected]);
+
+  const onPointerMove = useCallback((event: PointerEvent) => {
+    const point = toCanvasPoint(event);
+    if (!strokeState.active || !strokeState.projected) {
+      // The brush outline follows the cursor even when not painting.
+      if (tool === 'brush') onShapeChange(currentShape(point));
+      return;
+    }
+
+    if (tool === 'lasso') strokeState.points = [...strokeState.points, point];
+    const shape = currentShape(point);
+    if (tool === 'brush') {
+      onRegionSelected(verticesInShape(strokeState.projected, shape), strokeState.remove, 'stroke');
+    }
+    onShapeChange(shape);
+  }, [tool, strokeState, toCanvasPoint, currentShape, onShapeChange, onRegionSelected]);
+
+  const onPointerUp = useCallback((event: PointerEvent) => {
+    if (!strokeState.active || !strokeState.projected) return;
+    const point = toCanvasPoint(event);
+    const indices = tool === 'brush' ? [] : verticesInShape(strokeState.projected, currentShape(point));
+
+    strokeState.active = false;
+    strokeState.projected = null;
+    strokeState.points = [];
+    gl.domElement.releasePointerCapture(event.pointerId);
+
+    onRegionSelected(indices, strokeState.remove, 'end');
+    onShapeChange(tool === 'brush' ? currentShape(point) : null);
+  }, [tool, gl.domElement, strokeState, toCanvasPoint, currentShape, onShapeChange, onRegionSelected]);
+
+  const onPointerLeave = useCallback(() => {
+    if (!strokeState.active) onShapeChange(null);
+  }, [strokeState, onShapeChange]);
+
+  useEffect(() => {
+    const canvas = gl.domElement;
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointermove', onPointerMove);
+    canvas.addEventListener('pointerup', onPointerUp);
+    canvas.addEventListener('pointerleave', onPointerLeave);
+    return () => {
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerup', onPointerUp);
+      canvas.removeEventListener('pointerleave', onPointerLeave);
+    };
+  }, [gl.domElement, onPointerDown, onPointerMove, onPointerUp, onPointerLeave]);
+
+  useEffect(() => () => onShapeChange(null), [tool, onShapeChange]);
+
+  return null;
+}
+
+export default RegionSelectionController;
@@ -0,0 +1,37 @@
+// src/components/SelectionOverlay.tsx
+
+import type { SelectionShape } from '../utils/regionSelection';
+
+type SelectionOverlayProps = {
+  shape: SelectionShape | null;
+  remove?: boolean;
+};
+
+/** 在画布上方绘制当前的框选 / 套索 / 笔刷轮廓，不拦截鼠标事件。 */
+function SelectionOverlay({ shape, remove = false }: SelectionOverlayProps) {
+  if (!shape) return null;
+  const stroke = remove ? '#ff4d4f' : '#1677ff';
+  const fill = remove ? 'rgba(255, 77, 79, 0.08)' : 'rgba(22, 119, 255, 0.08)';
+
+  return (
+    <svg className="selection-overlay">
+      {shape.tool === 'box' && (
+        <rect
+          x={Math.min(shape.start.x, shape.end.x)}
+          y={Math.min(shape.start.y, shape.end.y)}
+          width={Math.abs(shape.end.x - shape.start.x)}
+          height={Math.abs(shape.end.y - shape.start.y)}
+          stroke={stroke} fill={fill} strokeDasharray="4 3"
+        />
+      )}
+      {shape.tool === 'lasso' && (
+        <polygon points={shape.points.map(p => `${p.x},${p.y}`).join(' ')} stroke={stroke} fill={fill} strokeDasharray="4 3" />
+      )}
+      {shape.tool === 'brush' && (
+        <circle cx={shape.center.x} cy={shape.center.y} r={shape.radius} stroke={stroke} fill={fill} />
+      )}
+    </svg>
+  );
+}
+
+export default SelectionOverlay;
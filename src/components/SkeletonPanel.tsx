@@ -0,0 +1,106 @@
+// src/components/SkeletonPanel.tsx
+
+import { Button, List, Segmented, Slider, Space, Typography } from 'antd';
+import { DeleteOutlined } from '@ant-design/icons';
+
+import type { Bone } from '../utils/skeleton';
+
+const { Text } = Typography;
+
+export type SkeletonTool = 'draw' | 'pose';
+
+type SkeletonPanelProps = {
+  bones: Bone[];
+  selectedBoneId: string | null;
+  tool: SkeletonTool;
+  // Binding radius as a fraction of the model's bounding-box diagonal.
+  bindRadius: number;
+  isDrawingChain: boolean;
+  onToolChange: (tool: SkeletonTool) => void;
+  onSelect: (id: string | null) => void;
+  onDelete: (id: string) => void;
+  onBindRadiusChange: (radius: number) => void;
+  onBind: () => void;
+  onFinishChain: () => void;
+  onResetPose: () => void;
+  onClear: () => void;
+};
+
+/** 骨架面板：绘制骨骼链、把附近的顶点绑定为手柄，并选择由 gizmo 旋转的骨骼。 */
+function SkeletonPanel({
+  bones, selectedBoneId, tool, bindRadius, isDrawingChain,
+  onToolChange, onSelect, onDelete, onBindRadiusChange, onBind, onFinishChain, onResetPose, onClear,
+}: SkeletonPanelProps) {
+  const boundCount = bones.reduce((count, bone) => count + bone.members.length, 0);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <Segmented
+        block
+        size="small"
+        value={tool}
+        onChange={value => onToolChange(value as SkeletonTool)}
+        options={[
+          { label: 'Draw', value: 'draw' },
+          { label: 'Pose', value: 'pose' },
+        ]}
+      />
+      {tool === 'draw' ? (
+        <>
+          <Text type="secondary">
+            Click on the model to place joints inside it; each click adds a bone to the chain. Click an existing joint to branch from it. Switch to View Mode to orbit.
+          </Text>
+          <Button onClick={onFinishChain} disabled={!isDrawingChain} block>
+            Finish Chain
+          </Button>
+        </>
+      ) : (
+        <Text type="secondary">Select a bone to rotate it with the gizmo; its children follow and ARAP fills in the skin around the joints.</Text>
+      )}
+      {bones.length > 0 && (
+        <>
+          <List
+            size="small"
+            bordered
+            dataSource={bones}
+            renderItem={bone => (
+              <List.Item
+                onClick={() => onSelect(bone.id === selectedBoneId ? null : bone.id)}
+                style={{ cursor: 'pointer', background: bone.id === selectedBoneId ? '#e6f4ff' : undefined, gap: 8 }}
+              >
+                <Text>{bone.name}</Text>
+                <Text type="secondary" style={{ whiteSpace: 'nowrap', marginLeft: 'auto' }}>{bone.members.length}</Text>
+                <Button
+                  size="small"
+                  type="text"
+                  icon={<DeleteOutlined />}
+                  onClick={event => {
+                    event.stopPropagation();
+                    onDelete(bone.id);
+                  }}
+                />
+              </List.Item>
+            )}
+          />
+          <div>
+            <Text type="secondary">Binding radius: {(bindRadius * 100).toFixed(0)}% of the model size</Text>
+            <Slider min={0.02} max={0.3} step={0.01} value={bindRadius} onChange={onBindRadiusChange} />
+          </div>
+          <Button type="primary" onClick={onBind} block>
+            {boundCount > 0 ? `Rebind (${boundCount} vertices bound)` : 'Bind Vertices'}
+          </Button>
+          <Space.Compact block>
+            <Button onClick={onResetPose} style={{ width: '50%' }}>
+              Reset Pose
+            </Button>
+            <Button danger onClick={onClear} style={{ width: '50%' }}>
+              Clear
+            </Button>
+          </Space.Compact>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SkeletonPanel;
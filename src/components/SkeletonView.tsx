@@ -0,0 +1,122 @@
+// src/components/SkeletonView.tsx
+
+import { useCallback, useEffect, useMemo } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+
+import type { Bone } from '../utils/skeleton';
+
+export type SkeletonJoint = { boneId: string; end: 'head' | 'tail' };
+
+type PickableModel = {
+  getLocalFrame: () => THREE.Object3D | null;
+  getModelGroup: () => THREE.Object3D | null;
+  getGeometry: () => THREE.BufferGeometry | null;
+};
+
+type SkeletonViewProps = {
+  bones: Bone[];
+  // Pose matrices from computeBoneMatrices.
+  matrices: Map<string, THREE.Matrix4>;
+  selectedBoneId: string | null;
+  // Where the next bone of the chain being drawn starts (posed, model local frame), if any.
+  chainStart: THREE.Vector3 | null;
+  jointRadius: number;
+  // Clicks place joints only while drawing.
+  drawing: boolean;
+  modelRef: React.RefObject<PickableModel | null>;
+  // A point inside the model under the cursor, in the model's local frame.
+  onPlacePoint: (position: THREE.Vector3) => void;
+  onPickJoint: (joint: SkeletonJoint) => void;
+};
+
+const BONE_COLOR = new THREE.Color('#13c2c2');
+const SELECTED_COLOR = new THREE.Color('#fa541c');
+// Clicks this close to a joint on screen continue the skeleton from that joint.
+const JOINT_PICK_PIXELS = 12;
+
+/** 骨架的显示与绘制：骨骼画成线段，关节画成小球；绘制时点击模型在其内部放置关节，点击已有关节则从该关节继续。 */
+function SkeletonView({
+  bones, matrices, selectedBoneId, chainStart, jointRadius, drawing, modelRef, onPlacePoint, onPickJoint,
+}: SkeletonViewProps) {
+  const { camera, gl } = useThree();
+
+  const joints = useMemo(() => bones.flatMap(bone => {
+    const matrix = matrices.get(bone.id) ?? new THREE.Matrix4();
+    return [
+      { boneId: bone.id, end: 'head' as const, position: bone.head.clone().applyMatrix4(matrix) },
+      { boneId: bone.id, end: 'tail' as const, position: bone.tail.clone().applyMatrix4(matrix) },
+    ];
+  }), [bones, matrices]);
+
+  const lines = useMemo(() => {
+    const positions = new Float32Array(joints.length * 3);
+    const colors = new Float32Array(joints.length * 3);
+    joints.forEach((joint, i) => {
+      joint.position.toArray(positions, i * 3);
+      (joint.boneId === selectedBoneId ? SELECTED_COLOR : BONE_COLOR).toArray(colors, i * 3);
+    });
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    return geometry;
+  }, [joints, selectedBoneId]);
+
+  useEffect(() => () => lines.dispose(), [lines]);
+
+  const onPointerDown = useCallback((event: PointerEvent) => {
+    const localFrame = modelRef.current?.getLocalFrame();
+    const modelGroup = modelRef.current?.getModelGroup();
+    const geometry = modelRef.current?.getGeometry();
+    if (!localFrame || !modelGroup || !geometry || event.button !== 0) return;
+
+    const rect = gl.domElement.getBoundingClientRect();
+    const toScreen = (local: THREE.Vector3) => {
+      const ndc = localFrame.localToWorld(local.clone()).project(camera);
+      return new THREE.Vector2((ndc.x + 1) / 2 * rect.width, (1 - ndc.y) / 2 * rect.height);
+    };
+    const cursor = new THREE.Vector2(event.clientX - rect.left, event.clientY - rect.top);
+    const picked = joints.find(joint => toScreen(joint.position).distanceTo(cursor) < JOINT_PICK_PIXELS);
+    if (picked) {
+      onPickJoint({ boneId: picked.boneId, end: picked.end });
+      return;
+    }
+
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(new THREE.Vector2(cursor.x / rect.width * 2 - 1, -(cursor.y / rect.height) * 2 + 1), camera);
+    const hits = raycaster.intersectObject(modelGroup, true).filter(hit => (hit.object as THREE.Mesh).geometry === geometry);
+    if (hits.length === 0) return;
+    // Halfway between where the ray enters and leaves the surface, i.e. inside the limb that was clicked.
+    const exit = hits.find(hit => hit.distance > hits[0].distance + 1e-6) ?? hits[0];
+    onPlacePoint(localFrame.worldToLocal(hits[0].point.clone().lerp(exit.point, 0.5)));
+  }, [modelRef, gl.domElement, camera, joints, onPickJoint, onPlacePoint]);
+
+  useEffect(() => {
+    if (!drawing) return;
+    const canvas = gl.domElement;
+    canvas.addEventListener('pointerdown', onPointerDown);
+    return () => canvas.removeEventListener('pointerdown', onPointerDown);
+  }, [drawing, gl.domElement, onPointerDown]);
+
+  return (
+    <group>
+      <lineSegments geometry={lines}>
+        <lineBasicMaterial vertexColors depthTest={false} />
+      </lineSegments>
+      {joints.map(joint => (
+        <mesh key={`${joint.boneId}-${joint.end}`} position={joint.position} scale={jointRadius}>
+          <sphereGeometry args={[1, 12, 12]} />
+          <meshBasicMaterial color={joint.boneId === selectedBoneId ? SELECTED_COLOR : BONE_COLOR} depthTest={false} />
+        </mesh>
+      ))}
+      {chainStart && (
+        <mesh position={chainStart} scale={jointRadius * 1.5}>
+          <sphereGeometry args={[1, 12, 12]} />
+          <meshBasicMaterial color={SELECTED_COLOR} wireframe depthTest={false} />
+        </mesh>
+      )}
+    </group>
+  );
+}
+
+export default SkeletonView;
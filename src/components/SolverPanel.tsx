@@ -0,0 +1,131 @@
+// src/components/SolverPanel.tsx
+
+import { Checkbox, Descriptions, InputNumber, Select, Slider, Typography } from 'antd';
+
+import type { DeformationModel, SolverSettings, SolveStats } from '../services/WasmSolverService';
+
+const { Text } = Typography;
+
+type SolverPanelProps = {
+  settings: SolverSettings;
+  stats: SolveStats | null;
+  onChange: (settings: SolverSettings) => void;
+};
+
+// The tolerance slider works on log10(tolerance); the far left end turns early stopping off.
+const MIN_TOLERANCE_EXPONENT = -7;
+const MAX_TOLERANCE_EXPONENT = -1;
+
+const toleranceToExponent = (tolerance: number) =>
+  tolerance > 0 ? Math.log10(tolerance) : MIN_TOLERANCE_EXPONENT - 1;
+
+const formatTolerance = (exponent: number) =>
+  exponent < MIN_TOLERANCE_EXPONENT ? 'Off' : `1e${exponent}`;
+
+const MODEL_OPTIONS: { value: DeformationModel; label: string }[] = [
+  { value: 'arap', label: 'ARAP' },
+  { value: 'laplacian', label: 'Laplacian (no rotations)' },
+  { value: 'sr-arap', label: 'Smoothed-rotation ARAP' },
+  { value: 'volume-arap', label: 'Volume-preserving ARAP' },
+];
+
+/** 侧边栏中的求解器设置：变形模型、最大迭代次数、收敛容差，以及最近一次求解的迭代次数、能量和耗时。 */
+function SolverPanel({ settings, stats, onChange }: SolverPanelProps) {
+  const toleranceExponent = toleranceToExponent(settings.tolerance);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <div>
+        <Text type="secondary">Deformation model</Text>
+        <Select
+          style={{ width: '100%' }}
+          value={settings.model}
+          options={MODEL_OPTIONS}
+          onChange={model => onChange({ ...settings, model })}
+        />
+      </div>
+      {settings.model === 'sr-arap' && (
+        <div>
+          <Text type="secondary">Rotation smoothness: {settings.rotationSmoothness.toFixed(1)}</Text>
+          <Slider
+            min={0}
+            max={10}
+            step={0.1}
+            value={settings.rotationSmoothness}
+            onChange={rotationSmoothness => onChange({ ...settings, rotationSmoothness })}
+          />
+        </div>
+      )}
+      {settings.model === 'volume-arap' && (
+        <div>
+          <Text type="secondary">Volume weight: {settings.volumeWeight.toFixed(2)}</Text>
+          <Slider
+            min={0}
+            max={5}
+            step={0.05}
+            value={settings.volumeWeight}
+            onChange={volumeWeight => onChange({ ...settings, volumeWeight })}
+          />
+        </div>
+      )}
+      <div>
+        <Text type="secondary">Max iterations</Text>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <Slider
+            style={{ flex: 1 }}
+            min={1}
+            max={200}
+            value={settings.maxIterations}
+            onChange={maxIterations => onChange({ ...settings, maxIterations })}
+          />
+          <InputNumber
+            size="small"
+            min={1}
+            max={1000}
+            precision={0}
+            value={settings.maxIterations}
+            onChange={value => value !== null && onChange({ ...settings, maxIterations: value })}
+            style={{ width: 64 }}
+          />
+        </div>
+      </div>
+      <div>
+        <Text type="secondary">Convergence tolerance: {formatTolerance(toleranceExponent)}</Text>
+        <Slider
+          min={MIN_TOLERANCE_EXPONENT - 1}
+          max={MAX_TOLERANCE_EXPONENT}
+          step={1}
+          value={toleranceExponent}
+          tooltip={{ formatter: value => formatTolerance(value ?? toleranceExponent) }}
+          onChange={exponent => onChange({
+            ...settings,
+            tolerance: exponent < MIN_TOLERANCE_EXPONENT ? 0 : 10 ** exponent,
+          })}
+        />
+      </div>
+      <Checkbox
+        checked={settings.computeEnergy}
+        onChange={e => onChange({ ...settings, computeEnergy: e.target.checked })}
+      >
+        Compute ARAP energy
+      </Checkbox>
+      {stats ? (
+        <Descriptions size="small" column={1} bordered>
+          <Descriptions.Item label="Iterations">
+            {stats.iterations}{stats.converged ? ' (converged)' : ''}
+          </Descriptions.Item>
+          <Descriptions.Item label="Residual">{stats.residual.toExponential(2)}</Descriptions.Item>
+          <Descriptions.Item label="Energy">
+            {stats.energy === null ? '—' : stats.energy.toExponential(3)}
+          </Descriptions.Item>
+          <Descriptions.Item label="Solve time">{stats.solveTimeMs.toFixed(1)} ms</Descriptions.Item>
+          {stats.contacts !== undefined ? <Descriptions.Item label="Contacts">{stats.contacts}</Descriptions.Item> : null}
+        </Descriptions>
+      ) : (
+        <Text type="secondary">Drag a handle to see solver statistics.</Text>
+      )}
+    </div>
+  );
+}
+
+export default SolverPanel;
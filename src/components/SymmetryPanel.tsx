@@ -0,0 +1,57 @@
+// src/components/SymmetryPanel.tsx
+
+import { Segmented, Slider, Typography } from 'antd';
+
+import type { MirrorMap, SymmetryMode } from '../utils/symmetry';
+
+const { Text } = Typography;
+
+type SymmetryPanelProps = {
+  mode: SymmetryMode;
+  // Lookup tolerance as a fraction of the model's bounding-box diagonal.
+  tolerance: number;
+  // The mirror map in use, or null when symmetry is off or no plane was detected.
+  mirrorMap: MirrorMap | null;
+  onModeChange: (mode: SymmetryMode) => void;
+  onToleranceChange: (tolerance: number) => void;
+};
+
+/** 对称面板：选择对称平面（或自动检测），调整镜像顶点的查找容差，并显示匹配情况。 */
+function SymmetryPanel({ mode, tolerance, mirrorMap, onModeChange, onToleranceChange }: SymmetryPanelProps) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <Segmented
+        block
+        size="small"
+        value={mode}
+        onChange={value => onModeChange(value as SymmetryMode)}
+        options={[
+          { label: 'Off', value: 'off' },
+          { label: 'X', value: 'x' },
+          { label: 'Y', value: 'y' },
+          { label: 'Z', value: 'z' },
+          { label: 'Auto', value: 'auto' },
+        ]}
+      />
+      {mode !== 'off' && (
+        <>
+          <div>
+            <Text type="secondary">Tolerance: {(tolerance * 100).toFixed(1)}% of the model size</Text>
+            <Slider min={0.001} max={0.03} step={0.001} value={tolerance} onChange={onToleranceChange} />
+          </div>
+          {mirrorMap ? (
+            <Text type="secondary">
+              Plane {mirrorMap.plane.axis.toUpperCase()} = {mirrorMap.plane.offset.toPrecision(3)};{' '}
+              {(mirrorMap.matchedRatio * 100).toFixed(0)}% of the vertices have a mirror.
+              Anchors and handles are selected in pairs, and dragging a handle moves its mirror too.
+            </Text>
+          ) : (
+            <Text type="warning">No symmetry plane found; try a larger tolerance or pick an axis.</Text>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SymmetryPanel;
@@ -0,0 +1,144 @@
+// src/components/TimelinePanel.tsx
+
+import { Button, Checkbox, Dropdown, InputNumber, List, Progress, Segmented, Slider, Typography } from 'antd';
+import { CaretRightOutlined, DeleteOutlined, DownloadOutlined, PauseOutlined, PlusOutlined } from '@ant-design/icons';
+
+import type { Keyframe, KeyframeInterpolation } from '../utils/keyframes';
+import type { AnimationExportFormat } from '../utils/meshExport';
+
+const { Text } = Typography;
+
+// Extra room after the last key so new keys can be placed past the end of the animation.
+const TIMELINE_PADDING = 2;
+
+type TimelinePanelProps = {
+  keyframes: Keyframe[];
+  time: number;
+  duration: number;
+  interpolation: KeyframeInterpolation;
+  fps: number;
+  loop: boolean;
+  isPlaying: boolean;
+  // Fraction of frames solved while exporting, or null when idle.
+  bakeProgress: number | null;
+  canAddKeyframe: boolean;
+  onAddKeyframe: () => void;
+  onDeleteKeyframe: (id: string) => void;
+  onSeek: (time: number) => void;
+  onPlayToggle: () => void;
+  onInterpolationChange: (interpolation: KeyframeInterpolation) => void;
+  onFpsChange: (fps: number) => void;
+  onLoopChange: (loop: boolean) => void;
+  onExport: (format: AnimationExportFormat) => void;
+};
+
+/** 关键帧时间轴：在当前时刻记录约束点姿态，播放插值动画，并逐帧求解导出。 */
+function TimelinePanel({
+  keyframes, time, duration, interpolation, fps, loop, isPlaying, bakeProgress, canAddKeyframe,
+  onAddKeyframe, onDeleteKeyframe, onSeek, onPlayToggle, onInterpolationChange, onFpsChange, onLoopChange, onExport,
+}: TimelinePanelProps) {
+  const isBaking = bakeProgress !== null;
+  const canPlay = keyframes.length >= 2 && !isBaking;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <Button
+          size="small"
+          icon={isPlaying ? <PauseOutlined /> : <CaretRightOutlined />}
+          disabled={!canPlay}
+          onClick={onPlayToggle}
+        />
+        <Slider
+          style={{ flex: 1 }}
+          min={0}
+          max={duration + TIMELINE_PADDING}
+          step={1 / fps}
+          value={time}
+          disabled={isBaking}
+          marks={Object.fromEntries(keyframes.map(key => [key.time, ' ']))}
+          tooltip={{ formatter: value => `${(value ?? 0).toFixed(2)} s` }}
+          onChange={onSeek}
+        />
+      </div>
+      <Button icon={<PlusOutlined />} block disabled={!canAddKeyframe || isPlaying || isBaking} onClick={onAddKeyframe}>
+        Key current pose at {time.toFixed(2)} s
+      </Button>
+      {keyframes.length > 0 && (
+        <List
+          size="small"
+          bordered
+          dataSource={keyframes}
+          renderItem={key => (
+            <List.Item
+              onClick={() => onSeek(key.time)}
+              style={{ cursor: 'pointer', gap: 8 }}
+            >
+              <Text>{key.time.toFixed(2)} s</Text>
+              <Text type="secondary" style={{ flex: 1 }}>{key.targets.size} targets</Text>
+              <Button
+                size="small"
+                type="text"
+                icon={<DeleteOutlined />}
+                disabled={isPlaying || isBaking}
+                onClick={event => {
+                  event.stopPropagation();
+                  onDeleteKeyframe(key.id);
+                }}
+              />
+            </List.Item>
+          )}
+        />
+      )}
+      <Segmented
+        block
+        size="small"
+        value={interpolation}
+        onChange={value => onInterpolationChange(value as KeyframeInterpolation)}
+        options={[
+          { label: 'Linear', value: 'linear' },
+          { label: 'Spline', value: 'spline' },
+        ]}
+      />
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <Text type="secondary">FPS</Text>
+        <InputNumber
+          size="small"
+          min={1}
+          max={120}
+          precision={0}
+          value={fps}
+          disabled={isBaking}
+          onChange={value => value !== null && onFpsChange(value)}
+          style={{ width: 64 }}
+        />
+        <Checkbox checked={loop} disabled={isPlaying} onChange={e => onLoopChange(e.target.checked)}>
+          Loop
+        </Checkbox>
+      </div>
+      {isBaking ? (
+        <Progress percent={Math.round(bakeProgress * 100)} size="small" />
+      ) : (
+        <Dropdown
+          disabled={!canPlay || isPlaying}
+          menu={{
+            items: [
+              { key: 'glb', label: 'glTF morph-target animation (GLB)' },
+              { key: 'obj-sequence', label: 'OBJ sequence (ZIP)' },
+            ],
+            onClick: ({ key }) => onExport(key as AnimationExportFormat),
+          }}
+        >
+          <Button icon={<DownloadOutlined />} block>
+            Export Animation
+          </Button>
+        </Dropdown>
+      )}
+      <Text type="secondary">
+        Pose the handles, then key them at the current time. Every exported frame is solved with the settings in the Solver panel; GLB keeps only the frames that interpolation cannot reproduce.
+      </Text>
+    </div>
+  );
+}
+
+export default TimelinePanel;
@@ -0,0 +1,76 @@
+// src/deformer/CageDeformer.ts
+
+import type { ConstraintIssue } from '../geometry/constraintValidation';
+import {
+    applyCageCoordinates, computeMeanValueCoordinates, DEFAULT_WEIGHTS_PER_POINT, type CageCoordinates,
+} from '../geometry/meanValueCoordinates';
+import type { ArapModule } from './arapModule';
+import { Deformer, type DeformConstraints, type DeformResult } from './Deformer';
+import { DEFAULT_SOLVER_SETTINGS, type SolverSettings } from './solverTypes';
+
+/** vertices 为高精度网格的顶点，cageVertices 为求解后的笼顶点，stats 是笼上那次求解的统计。 */
+export type CageDeformResult = DeformResult & {
+    cageVertices: Float32Array;
+};
+
+// Up to this many stored weights (~128 MB with their indices) every point keeps all of its cage weights.
+const MAX_STORED_WEIGHTS = 2 ** 24;
+
+/**
+ * 笼变形：在粗糙的控制网格（笼）上用 Deformer 求解，再通过均值坐标把笼的姿态传递给高精度网格。
+ * 约束中的顶点索引指向笼顶点；求解耗时只取决于笼的大小，传递的开销是每个网格顶点几十到几百次乘加。
+ */
+export class CageDeformer {
+    private deformer: Deformer;
+    private coordinates: CageCoordinates | null = null;
+
+    private constructor(deformer: Deformer) {
+        this.deformer = deformer;
+    }
+
+    public static async create(module: ArapModule | Promise<ArapModule>): Promise<CageDeformer> {
+        return new CageDeformer(await Deformer.create(module));
+    }
+
+    public get cageVertexCount(): number {
+        return this.deformer.vertexCount;
+    }
+
+    /**
+     * 载入笼和它要驱动的网格（都为静止姿态，坐标系相同）。笼应当是包住整个网格的封闭三角网格。
+     * 均值坐标在这里一次算好，耗时与 网格顶点数 × 笼面数 成正比；网格很大时每个顶点只保留一部分权重以限制内存。
+     */
+    public setCage(cageVertices: Float32Array, cageFaces: Int32Array, meshVertices: Float32Array): void {
+        const weightsPerPoint = Math.max(DEFAULT_WEIGHTS_PER_POINT, Math.floor(MAX_STORED_WEIGHTS / Math.max(1, meshVertices.length / 3)));
+        this.coordinates = computeMeanValueCoordinates(cageVertices, cageFaces, meshVertices, weightsPerPoint);
+        this.deformer.setMesh(cageVertices, cageFaces);
+    }
+
+    /** 检查笼顶点上的一组约束，与 Deformer.validate 相同。 */
+    public validate(constraints: Omit<DeformConstraints, 'positions'> & { positions?: Float32Array }): ConstraintIssue[] {
+        return this.deformer.validate(constraints);
+    }
+
+    /** 丢弃笼的变形状态，下次求解从静止姿态开始。 */
+    public reset(): void {
+        this.deformer.reset();
+    }
+
+    /** 在笼上求解，错误与 Deformer.deform 相同。 */
+    public deform(constraints: DeformConstraints, settings: SolverSettings = DEFAULT_SOLVER_SETTINGS): CageDeformResult {
+        const coordinates = this.requireCoordinates();
+        const { vertices: cageVertices, stats } = this.deformer.deform(constraints, settings);
+        const vertices = applyCageCoordinates(coordinates, cageVertices, new Float32Array(coordinates.pointCount * 3));
+        return { vertices, cageVertices, stats };
+    }
+
+    public dispose(): void {
+        this.deformer.dispose();
+        this.coordinates = null;
+    }
+
+    private requireCoordinates(): CageCoordinates {
+        if (!this.coordinates) throw new Error('No cage loaded. Call setCage() first.');
+        return this.coordinates;
+    }
+}
@@ -0,0 +1,74 @@
+// src/deformer/Deformer.test.ts
+
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { loadNodeArapModule } from '../cli/nodeArapModule';
+import { buildSolverMesh } from '../utils/vertexMapping';
+import { Deformer, type DeformConstraints } from './Deformer';
+import { DEFAULT_SOLVER_SETTINGS, type SolverSettings } from './solverTypes';
+
+const module = loadNodeArapModule(path.resolve('public'), () => {});
+
+// A 1 x 1 x 4 bar with its bottom held and its top pushed sideways.
+const { vertices: rest, faces } = buildSolverMesh(new THREE.BoxGeometry(1, 1, 4, 2, 2, 8));
+const vertexIndices = Array.from({ length: rest.length / 3 }, (_, i) => i);
+const bend = (offset: number): DeformConstraints => {
+    const anchorIndices = vertexIndices.filter(i => rest[i * 3 + 2] < -1.99);
+    const handleIndices = vertexIndices.filter(i => rest[i * 3 + 2] > 1.99);
+    const positions = new Float32Array([...anchorIndices, ...handleIndices].flatMap((i, k) =>
+        [rest[i * 3] + (k < anchorIndices.length ? 0 : offset), rest[i * 3 + 1], rest[i * 3 + 2]]));
+    return { anchorIndices, handleIndices, positions };
+};
+
+const createDeformer = async () => {
+    const deformer = await Deformer.create(module);
+    deformer.setMesh(rest, faces);
+    return deformer;
+};
+
+const maxDifference = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+    let max = 0;
+    for (let i = 0; i < a.length; i++) max = Math.max(max, Math.abs(a[i] - b[i]));
+    return max;
+};
+
+describe('Deformer.restoreVertices', () => {
+    const settings = (model: SolverSettings['model'], maxIterations: number): SolverSettings =>
+        ({ ...DEFAULT_SOLVER_SETTINGS, model, maxIterations, tolerance: 0, computeEnergy: false });
+
+    it('continues the TypeScript solvers from the restored pose', async () => {
+        const posed = await createDeformer();
+        const pose = posed.deform(bend(2), settings('volume-arap', 100)).vertices;
+        const continued = posed.deform(bend(2.2), settings('volume-arap', 1)).vertices;
+
+        const restored = await createDeformer();
+        restored.restoreVertices(pose);
+        expect(maxDifference(restored.getVertices(), pose)).toBe(0);
+        expect(maxDifference(restored.deform(bend(2.2), settings('volume-arap', 1)).vertices, continued)).toBeLessThan(1e-5);
+
+        // Without the restored pose the same single iteration starts from the rest shape and lands elsewhere.
+        const fresh = await createDeformer();
+        expect(maxDifference(fresh.deform(bend(2.2), settings('volume-arap', 1)).vertices, continued)).toBeGreaterThan(0.1);
+    });
+
+    it('reports the restored pose for the wasm solver until the next solve, which starts from rest', async () => {
+        const posed = await createDeformer();
+        const pose = posed.deform(bend(2), settings('arap', 100)).vertices;
+
+        const restored = await createDeformer();
+        restored.restoreVertices(pose);
+        expect(maxDifference(restored.getVertices(), pose)).toBe(0);
+        const fromRest = (await createDeformer()).deform(bend(2.2), settings('arap', 1)).vertices;
+        expect(maxDifference(restored.deform(bend(2.2), settings('arap', 1)).vertices, fromRest)).toBeLessThan(1e-6);
+
+        restored.restoreVertices(null);
+        expect(maxDifference(restored.getVertices(), rest)).toBe(0);
+    });
+
+    it('rejects a pose of the wrong size', async () => {
+        const deformer = await createDeformer();
+        expect(() => deformer.restoreVertices(new Float32Array(3))).toThrow(/Expected \d+ vertex coordinates/);
+    });
+});
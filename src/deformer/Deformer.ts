@@ -0,0 +1,326 @@
+// src/deformer/Deformer.ts
+
+import { computeArapEnergy } from '../geometry/arapEnergy';
+import { computeContactTargets, findSelfIntersections, type CollisionOptions } from '../geometry/collision';
+import { validateConstraints, type ConstraintIssue, type ValidationMesh } from '../geometry/constraintValidation';
+import { LocalGlobalSolver, type LocalGlobalOptions } from '../geometry/localGlobalSolver';
+import { buildMeshTopology, labelConnectedComponents, type MeshTopology } from '../geometry/meshTopology';
+import type { ArapModule } from './arapModule';
+import { DEFAULT_SOLVER_SETTINGS, SolverError, type SolverSettings, type SolveStats } from './solverTypes';
+
+/**
+ * 一组约束：positions 与 [...anchorIndices, ...handleIndices] 一一对应，为网格坐标系中的目标位置。
+ * weights 可选，同样一一对应，取值 (0, 1]：1 为精确满足的硬约束，小于 1 为按最小二乘逼近的软约束（越小越软）。
+ * collision 可选，为求解时的碰撞处理（裁剪平面和自相交），它只给没有约束的顶点加接触约束。
+ */
+export type DeformConstraints = {
+    anchorIndices: number[];
+    handleIndices: number[];
+    positions: Float32Array;
+    weights?: Float32Array | null;
+    collision?: CollisionOptions | null;
+};
+
+export type DeformResult = {
+    vertices: Float32Array;
+    stats: SolveStats;
+};
+
+type LoadedMesh = {
+    vertices: Float32Array;
+    faces: Int32Array;
+    topology: MeshTopology;
+    diagonal: number;
+    validation: ValidationMesh;
+    stiffness: Float32Array | null;
+    // Face pairs that already intersect in the rest pose; found on the first solve that checks self-intersections.
+    restIntersections: Int32Array | null;
+};
+
+const boundingBoxDiagonal = (vertices: Float32Array): number => {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < vertices.length; i++) {
+        min[i % 3] = Math.min(min[i % 3], vertices[i]);
+        max[i % 3] = Math.max(max[i % 3], vertices[i]);
+    }
+    return Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) || 1;
+};
+
+const maxDisplacement = (a: Float32Array, b: Float32Array): number => {
+    let maxSq = 0;
+    for (let i = 0; i < a.length; i += 3) {
+        const dx = a[i] - b[i], dy = a[i + 1] - b[i + 1], dz = a[i + 2] - b[i + 2];
+        maxSq = Math.max(maxSq, dx * dx + dy * dy + dz * dz);
+    }
+    return Math.sqrt(maxSq);
+};
+
+// Contacts from self-intersections stop this far (relative to the bounding-box diagonal) outside the surface they crossed.
+const CONTACT_MARGIN = 1e-3;
+// Every solver call has a fixed setup cost, but longer chunks overshoot the convergence point by more iterations.
+const MAX_SOLVE_CHUNK = 8;
+
+/**
+ * 与界面无关的 ARAP 变形器，封装 wasm 中的 ArapController。
+ * 没有刚度权重和软约束的标准 ARAP 由 wasm 求解，其余变形模型和带刚度或软约束的求解由 LocalGlobalSolver 在 TypeScript 中完成。
+ * 浏览器里由 arapSolver.worker.ts 使用，Node 里由命令行工具使用；wasm 模块由调用方按各自环境加载后传入。
+ */
+export class Deformer {
+    private module: ArapModule;
+    private controller: ArapController | null = null;
+    // Options of the TypeScript solver in use, or null while the wasm controller is.
+    private options: LocalGlobalOptions | null = null;
+    private mesh: LoadedMesh | null = null;
+    // Pose put back by restoreVertices() that the wasm controller could not take; reported until the next solve.
+    private restored: Float32Array | null = null;
+
+    private constructor(module: ArapModule) {
+        this.module = module;
+    }
+
+    public static async create(module: ArapModule | Promise<ArapModule>): Promise<Deformer> {
+        return new Deformer(await module);
+    }
+
+    public get vertexCount(): number {
+        return this.mesh ? this.mesh.vertices.length / 3 : 0;
+    }
+
+    /** 载入静止姿态的网格（每个顶点 xyz，faces 为三角形索引）。数组由 Deformer 持有，调用方不应再修改。 */
+    public setMesh(vertices: Float32Array, faces: Int32Array): void {
+        const components = labelConnectedComponents(vertices.length / 3, faces);
+        this.mesh = {
+            vertices,
+            faces,
+            topology: buildMeshTopology(vertices, faces),
+            diagonal: boundingBoxDiagonal(vertices),
+            validation: { vertices, componentLabels: components.labels, componentCount: components.count },
+            stiffness: null,
+            restIntersections: null,
+        };
+        this.reset();
+    }
+
+    /** 丢弃当前的变形状态，下次求解从静止姿态开始。 */
+    public reset(): void {
+        this.controller?.delete();
+        this.controller = this.createController(this.options);
+        this.restored = null;
+    }
+
+    /**
+     * 撤销 / 重做时恢复姿态，null 表示回到静止姿态。TypeScript 求解器以 vertices 作为下一次求解的初值；
+     * wasm 控制器无法设置初值（把所有顶点钉在目标上求解一次后，它就不再移动自由顶点），
+     * 所以标准 ARAP 的下一次求解从静止姿态开始，在那之前 getVertices() 返回恢复的姿态。
+     */
+    public restoreVertices(vertices: Float32Array | null): void {
+        const mesh = this.requireMesh();
+        if (vertices && vertices.length !== mesh.vertices.length) {
+            throw new Error(`Expected ${mesh.vertices.length} vertex coordinates, got ${vertices.length}.`);
+        }
+        this.reset();
+        if (!vertices) return;
+        if (this.controller instanceof LocalGlobalSolver) this.controller.setVertices(vertices);
+        else this.restored = vertices.slice();
+    }
+
+    /**
+     * 设置逐顶点刚度（每个顶点一个正数，默认 1；越大越接近刚体），null 表示恢复为均匀刚度。
+     * 数组由 Deformer 持有。设置刚度后标准 ARAP 也改由 TypeScript 求解器计算。
+     */
+    public setStiffness(stiffness: Float32Array | null): void {
+        const mesh = this.requireMesh();
+        if (stiffness && stiffness.length !== mesh.vertices.length / 3) {
+            throw new Error(`Expected ${mesh.vertices.length / 3} stiffness values, got ${stiffness.length}.`);
+        }
+        if (stiffness?.some(value => !(value > 0) || !Number.isFinite(value))) {
+            throw new Error('Stiffness values must be positive numbers.');
+        }
+        mesh.stiffness = stiffness;
+        if (this.controller instanceof LocalGlobalSolver) this.controller.setStiffness(stiffness);
+    }
+
+    public validate(constraints: Omit<DeformConstraints, 'positions'> & { positions?: Float32Array }): ConstraintIssue[] {
+        const mesh = this.requireMesh();
+        return validateConstraints(mesh.validation, constraints.anchorIndices, constraints.handleIndices, constraints.positions);
+    }
+
+    /**
+     * 按 settings 求解，有 constraints.collision 时再做碰撞处理。约束有 'error' 级别的问题时抛出 code 为 'invalid-constraints' 的 SolverError；
+     * 求解发散（出现 NaN）时抛出 'diverged' 并重置到静止姿态。
+     */
+    public deform(constraints: DeformConstraints, settings: SolverSettings = DEFAULT_SOLVER_SETTINGS): DeformResult {
+        const errors = this.validate(constraints).filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+            throw new SolverError(errors.map(issue => issue.message).join(' '), 'invalid-constraints', errors);
+        }
+
+        const weights = constraints.weights ?? null;
+        if (weights && weights.length !== constraints.anchorIndices.length + constraints.handleIndices.length) {
+            throw new Error(`Expected ${constraints.anchorIndices.length + constraints.handleIndices.length} constraint weights, got ${weights.length}.`);
+        }
+        if (weights?.some(weight => !(weight > 0 && weight <= 1))) {
+            throw new Error('Constraint weights must be in (0, 1].');
+        }
+
+        const indices = [...constraints.anchorIndices, ...constraints.handleIndices];
+        const result = this.solveConstraints(indices, constraints.positions, weights, settings);
+        return constraints.collision ? this.resolveContacts(constraints, weights, settings, result) : result;
+    }
+
+    /** 当前（最近一次求解后）的顶点位置副本。 */
+    public getVertices(): Float32Array {
+        if (this.restored) return this.restored.slice();
+        const vertices = this.requireController().get_vertices();
+        if (!vertices) throw new SolverError('Wasm solver did not return any vertices.', 'internal');
+        // get_vertices() is a view into the wasm heap (or the solver's own buffer) and is invalidated by the next solve.
+        return vertices.slice();
+    }
+
+    public dispose(): void {
+        this.controller?.delete();
+        this.controller = null;
+        this.mesh = null;
+    }
+
+    private requireMesh(): LoadedMesh {
+        if (!this.mesh) throw new Error('No mesh loaded. Call setMesh() first.');
+        return this.mesh;
+    }
+
+    private createController(options: LocalGlobalOptions | null): ArapController {
+        const mesh = this.requireMesh();
+        if (!options) return new this.module.ArapController(mesh.vertices, mesh.faces);
+        const solver = new LocalGlobalSolver(mesh.topology, mesh.vertices, mesh.faces, options);
+        solver.setStiffness(mesh.stiffness);
+        return solver;
+    }
+
+    /**
+     * 按 settings.model、刚度和是否有软约束取得求解器，需要时替换控制器。
+     * 切换到 TypeScript 求解器时沿用当前姿态作为初值；wasm 控制器无法设置初值，只能从静止姿态开始。
+     */
+    private selectModel(settings: SolverSettings, soft: boolean): ArapController {
+        const controller = this.requireController();
+        // The wasm controller only solves plain, unweighted ARAP with hard constraints.
+        const options: LocalGlobalOptions | null = settings.model === 'arap' && !this.requireMesh().stiffness && !soft
+            ? null
+            : { model: settings.model, rotationSmoothness: settings.rotationSmoothness, volumeWeight: settings.volumeWeight };
+        if (options && controller instanceof LocalGlobalSolver) {
+            controller.setOptions(options);
+            this.options = options;
+            return controller;
+        }
+        if (!options && !(controller instanceof LocalGlobalSolver)) return controller;
+
+        const next = this.createController(options);
+        if (next instanceof LocalGlobalSolver) next.setVertices(this.getVertices());
+        controller.delete();
+        this.controller = next;
+        this.options = options;
+        return next;
+    }
+
+    private solveConstraints(indices: number[], positions: Float32Array, weights: Float32Array | null, settings: SolverSettings): DeformResult {
+        const soft = weights !== null && weights.some(weight => weight < 1);
+        // Switching to the TypeScript solver takes over a restored pose; the wasm controller starts from the rest pose.
+        const controller = this.selectModel(settings, soft);
+        this.restored = null;
+        if (controller instanceof LocalGlobalSolver) {
+            controller.set_handles(new Int32Array(indices), positions, weights);
+        } else {
+            controller.set_handles(new Int32Array(indices), positions);
+        }
+        try {
+            return this.runSolve(controller, settings);
+        } catch (error) {
+            // Drop the NaN warm start so the next solve starts from the rest pose again.
+            if (error instanceof SolverError && error.code === 'diverged') this.reset();
+            throw error;
+        }
+    }
+
+    /**
+     * 碰撞处理：每轮找出当前姿态中的穿透，把它们的接触目标作为额外的硬约束加入，从当前姿态继续求解，
+     * 直到没有穿透或做完 collision.maxIterations 轮。已经加入的接触约束在本次求解中一直保留。
+     * 返回的统计信息累计了所有轮次的迭代次数和耗时。
+     */
+    private resolveContacts(
+        constraints: DeformConstraints,
+        weights: Float32Array | null,
+        settings: SolverSettings,
+        result: DeformResult
+    ): DeformResult {
+        const mesh = this.requireMesh();
+        const collision = constraints.collision!;
+        const constrained = [...constraints.anchorIndices, ...constraints.handleIndices];
+        const isConstrained = new Set(constrained);
+        const contacts = new Map<number, [number, number, number]>();
+        if (collision.selfIntersections) mesh.restIntersections ??= findSelfIntersections(mesh.vertices, mesh.faces);
+        let { iterations, solveTimeMs } = result.stats;
+        for (let round = 0; round < collision.maxIterations; round++) {
+            const found = computeContactTargets(
+                mesh.vertices,
+                result.vertices,
+                mesh.faces,
+                collision,
+                mesh.restIntersections ?? new Int32Array(0),
+                index => !isConstrained.has(index),
+                mesh.diagonal * CONTACT_MARGIN
+            );
+            if (found.size === 0) break;
+            found.forEach((target, index) => contacts.set(index, target));
+            const contactIndices = [...contacts.keys()];
+            const positions = new Float32Array([...constraints.positions, ...contactIndices.flatMap(index => contacts.get(index)!)]);
+            const contactWeights = weights && Float32Array.from([...weights, ...contactIndices.map(() => 1)]);
+            result = this.solveConstraints([...constrained, ...contactIndices], positions, contactWeights, settings);
+            iterations += result.stats.iterations;
+            solveTimeMs += result.stats.solveTimeMs;
+        }
+        return { vertices: result.vertices, stats: { ...result.stats, iterations, solveTimeMs, contacts: contacts.size } };
+    }
+
+    private requireController(): ArapController {
+        if (!this.controller) throw new Error('No mesh loaded. Call setMesh() first.');
+        return this.controller;
+    }
+
+    /**
+     * 求解器每次调用都有固定的准备开销，所以不逐步迭代：容差为 0 时一次解完 maxIterations 步，
+     * 否则按 1、2、4、8、8… 步分块求解（solve(n) 会从当前状态继续），每块之后用这一块内平均每步的位移判断是否收敛。
+     */
+    private runSolve(controller: ArapController, settings: SolverSettings): DeformResult {
+        const mesh = this.requireMesh();
+        const startTime = performance.now();
+        const vertices = this.getVertices();
+
+        let iterations = 0;
+        let residual = Infinity;
+        let converged = false;
+        let chunk = settings.tolerance > 0 ? 1 : settings.maxIterations;
+        while (iterations < settings.maxIterations) {
+            const steps = Math.min(chunk, settings.maxIterations - iterations);
+            controller.solve(steps);
+            iterations += steps;
+            const next = controller.get_vertices();
+            if (!next) throw new SolverError('Wasm solver did not return any vertices.', 'internal');
+            residual = maxDisplacement(vertices, next) / mesh.diagonal / steps;
+            vertices.set(next);
+            if (!Number.isFinite(residual)) {
+                throw new SolverError('The solver produced NaN vertices; the constraints are probably degenerate.', 'diverged');
+            }
+            if (residual < settings.tolerance) {
+                converged = true;
+                break;
+            }
+            chunk = Math.min(chunk * 2, MAX_SOLVE_CHUNK);
+        }
+
+        const energy = settings.computeEnergy ? computeArapEnergy(mesh.topology, mesh.vertices, vertices).energy : null;
+        return {
+            vertices,
+            stats: { iterations, converged, residual, energy, solveTimeMs: performance.now() - startTime },
+        };
+    }
+}
@@ -0,0 +1,104 @@
+// src/deformer/ProxyDeformer.ts
+
+import { buildProxyMesh, prolongProxyPose, type ProxyMesh } from '../geometry/multiresProxy';
+import { labelConnectedComponents } from '../geometry/meshTopology';
+import type { ArapModule } from './arapModule';
+import { Deformer, type DeformConstraints, type DeformResult } from './Deformer';
+import { DEFAULT_SOLVER_SETTINGS, type SolverSettings } from './solverTypes';
+
+/**
+ * 多分辨率预览：在网格最粗的简化代理上用 Deformer 求解，再把代理的姿态（位置和局部旋转）逐层传递回完整网格。
+ * 约束中的顶点索引指向完整网格的顶点，会被转交给各自绑定的代理顶点；代理没有刚度，结果只是近似，
+ * 拖动结束后应当再在完整网格上求解一次。
+ */
+export class ProxyDeformer {
+    private deformer: Deformer;
+    private proxy: ProxyMesh | null = null;
+    private restVertices: Float32Array | null = null;
+    // Connected components of the proxy; decimation keeps those of the mesh, which may have loose parts.
+    private componentLabels: Int32Array | null = null;
+    private componentCount = 0;
+
+    private constructor(deformer: Deformer) {
+        this.deformer = deformer;
+    }
+
+    public static async create(module: ArapModule | Promise<ArapModule>): Promise<ProxyDeformer> {
+        return new ProxyDeformer(await Deformer.create(module));
+    }
+
+    public get proxyVertexCount(): number {
+        return this.deformer.vertexCount;
+    }
+
+    /** 为静止姿态的网格建立 levels 层的简化代理层次，在最粗的一层上求解，数组由 ProxyDeformer 持有。 */
+    public setMesh(vertices: Float32Array, faces: Int32Array, levels: number): void {
+        const proxy = buildProxyMesh(vertices, faces, levels);
+        const components = labelConnectedComponents(proxy.vertices.length / 3, proxy.faces);
+        this.proxy = proxy;
+        this.restVertices = vertices;
+        this.componentLabels = components.labels;
+        this.componentCount = components.count;
+        this.deformer.setMesh(proxy.vertices, proxy.faces);
+    }
+
+    /** 丢弃代理的变形状态，下次求解从静止姿态开始。 */
+    public reset(): void {
+        this.deformer.reset();
+    }
+
+    /**
+     * 在代理上求解，返回完整网格的顶点。落在同一个代理顶点上的约束取平均目标（有约束点时算作约束点，权重取最大），
+     * 没有任何约束的代理分量保持当前姿态。错误与 Deformer.deform 相同。
+     */
+    public deform(constraints: DeformConstraints, settings: SolverSettings = DEFAULT_SOLVER_SETTINGS): DeformResult {
+        const proxy = this.requireProxy();
+        const restVertices = this.restVertices!;
+        const merged = new Map<number, { target: number[]; count: number; handle: boolean; weight: number }>();
+        const anchorCount = constraints.anchorIndices.length;
+        [...constraints.anchorIndices, ...constraints.handleIndices].forEach((index, k) => {
+            const j = proxy.primary[index];
+            const entry = merged.get(j) ?? { target: [0, 0, 0], count: 0, handle: false, weight: 0 };
+            // The proxy vertex moves by the displacement of the constrained vertex.
+            for (let c = 0; c < 3; c++) {
+                entry.target[c] += constraints.positions[k * 3 + c] - restVertices[index * 3 + c] + proxy.vertices[j * 3 + c];
+            }
+            entry.count++;
+            entry.handle ||= k >= anchorCount;
+            entry.weight = Math.max(entry.weight, constraints.weights?.[k] ?? 1);
+            merged.set(j, entry);
+        });
+
+        // Parts without any constraint hold still instead of making the system singular.
+        const constrainedComponents = new Set([...merged.keys()].map(j => this.componentLabels![j]));
+        if (constrainedComponents.size < this.componentCount) {
+            const pose = this.deformer.getVertices();
+            this.componentLabels!.forEach((label, j) => {
+                if (constrainedComponents.has(label)) return;
+                merged.set(j, { target: Array.from(pose.subarray(j * 3, j * 3 + 3)), count: 1, handle: false, weight: 1 });
+            });
+        }
+
+        const entries = [...merged].sort(([, a], [, b]) => Number(a.handle) - Number(b.handle));
+        const proxyConstraints: DeformConstraints = {
+            anchorIndices: entries.filter(([, entry]) => !entry.handle).map(([j]) => j),
+            handleIndices: entries.filter(([, entry]) => entry.handle).map(([j]) => j),
+            positions: new Float32Array(entries.flatMap(([, entry]) => entry.target.map(value => value / entry.count))),
+            weights: constraints.weights ? new Float32Array(entries.map(([, entry]) => entry.weight)) : null,
+        };
+        const { vertices: proxyPose, stats } = this.deformer.deform(proxyConstraints, settings);
+        return { vertices: prolongProxyPose(proxy, restVertices, proxyPose), stats };
+    }
+
+    public dispose(): void {
+        this.deformer.dispose();
+        this.proxy = null;
+        this.restVertices = null;
+        this.componentLabels = null;
+    }
+
+    private requireProxy(): ProxyMesh {
+        if (!this.proxy) throw new Error('No proxy built. Call setMesh() first.');
+        return this.proxy;
+    }
+}
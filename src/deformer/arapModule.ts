@@ -0,0 +1,24 @@
+// src/deformer/arapModule.ts
+
+export type ArapModuleFactory = typeof createArapModule;
+export type ArapModule = Awaited<ReturnType<ArapModuleFactory>>;
+
+/**
+ * arap.js 是 Emscripten 生成的经典脚本：Web Worker 里不能 importScripts（module worker），
+ * Node 里也不能直接 import，所以统一在函数作用域中执行源码，拿到 createArapModule 工厂。
+ * scope 中的变量会作为该作用域里的局部变量（Node 下需要 require / __filename / __dirname）。
+ */
+export function evaluateArapScript(source: string, scope: Record<string, unknown> = {}): ArapModuleFactory {
+    const names = Object.keys(scope);
+    return new Function(...names, `${source}\nreturn createArapModule;`)(...names.map(name => scope[name]));
+}
+
+/** 浏览器 / Web Worker 中加载：取回脚本，wasm 从 wasmUrl 加载。 */
+export async function loadArapModuleFromUrl(scriptUrl: string, wasmUrl: string): Promise<ArapModule> {
+    const response = await fetch(scriptUrl);
+    if (!response.ok) throw new Error(`Failed to load ${scriptUrl} (${response.status})`);
+    const factory = evaluateArapScript(await response.text());
+    return factory({
+        locateFile: (path: string) => path.endsWith('.wasm') ? wasmUrl : path
+    });
+}
@@ -0,0 +1,57 @@
+// src/deformer/constraintFile.test.ts
+
+import { describe, expect, it } from 'vitest';
+
+import { ConstraintFileError, parseConstraintFile } from './constraintFile';
+import { DEFAULT_SOLVER_SETTINGS } from './solverTypes';
+
+// Three vertices on the x axis.
+const rest = new Float32Array([0, 0, 0, 1, 0, 0, 2, 0, 0]);
+
+describe('parseConstraintFile', () => {
+    it('resolves bare anchors, positions and offsets against the rest pose', () => {
+        const { constraints, settings } = parseConstraintFile({
+            anchors: [0, { vertex: 1, position: [1, 1, 1] }],
+            handles: [{ vertex: 2, offset: [0, 0.5, 0] }],
+        }, rest);
+
+        expect(constraints.anchorIndices).toEqual([0, 1]);
+        expect(constraints.handleIndices).toEqual([2]);
+        expect(Array.from(constraints.positions)).toEqual([0, 0, 0, 1, 1, 1, 2, 0.5, 0]);
+        expect(constraints.weights).toBeNull();
+        expect(settings).toEqual({ ...DEFAULT_SOLVER_SETTINGS, computeEnergy: false });
+    });
+
+    it('sends weights only when some constraint is soft', () => {
+        const { constraints } = parseConstraintFile({ anchors: [0, 1], handles: [{ vertex: 2, weight: 0.5 }] }, rest);
+        expect(Array.from(constraints.weights!)).toEqual([1, 1, 0.5]);
+    });
+
+    it('overrides the solver settings it is given', () => {
+        const { settings } = parseConstraintFile({
+            anchors: [0],
+            solver: { maxIterations: 7, tolerance: 0, computeEnergy: true, model: 'volume-arap', volumeWeight: 2 },
+        }, rest);
+        expect(settings).toEqual({ ...DEFAULT_SOLVER_SETTINGS, maxIterations: 7, tolerance: 0, model: 'volume-arap', volumeWeight: 2 });
+    });
+
+    it.each([
+        [[], /must contain a JSON object/],
+        [{ anchors: {} }, /"anchors" and "handles" must be arrays/],
+        [{ anchors: [1.5] }, /Every Anchor needs an integer "vertex"/],
+        [{ handles: [{ position: [0, 0, 0] }] }, /Every Handle needs an integer "vertex"/],
+        [{ anchors: [3] }, /Anchor vertex 3 does not exist \(the mesh has 3 vertices\)/],
+        [{ handles: [{ vertex: 2, weight: 0 }] }, /Handle 2: "weight" must be a number in \(0, 1\]/],
+        [{ handles: [{ vertex: 2, position: [0, 0] }] }, /Handle 2: "position" must be \[x, y, z\]/],
+        [{ handles: [{ vertex: 2, offset: [0, NaN, 0] }] }, /Handle 2: "offset" must be \[x, y, z\]/],
+        [{ solver: 'fast' }, /"solver" must be an object/],
+        [{ solver: { maxIterations: 0 } }, /"solver.maxIterations" must be a positive integer/],
+        [{ solver: { tolerance: -1 } }, /"solver.tolerance" must be a non-negative number/],
+        [{ solver: { model: 'fem' } }, /"solver.model" must be one of arap, laplacian, sr-arap, volume-arap/],
+        [{ solver: { rotationSmoothness: '1' } }, /"solver.rotationSmoothness"/],
+        [{ solver: { volumeWeight: -0.5 } }, /"solver.volumeWeight"/],
+    ])('rejects %j', (json, message) => {
+        expect(() => parseConstraintFile(json, rest)).toThrow(ConstraintFileError);
+        expect(() => parseConstraintFile(json, rest)).toThrow(message);
+    });
+});
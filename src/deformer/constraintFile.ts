@@ -0,0 +1,141 @@
+// src/deformer/constraintFile.ts
+
+import type { DeformConstraints } from './Deformer';
+import { DEFORMATION_MODELS, type DeformationModel } from '../geometry/localGlobalSolver';
+import { DEFAULT_SOLVER_SETTINGS, type SolverSettings } from './solverTypes';
+
+/**
+ * 约束 JSON 的格式（顶点索引从 0 开始，与网格顶点顺序一致）：
+ *
+ *     {
+ *       "anchors": [0, 1, { "vertex": 2, "position": [0, 0, 0] }],
+ *       "handles": [
+ *         { "vertex": 10, "position": [0, 1.5, 0] },
+ *         { "vertex": 11, "offset": [0, 0.5, 0], "weight": 0.5 }
+ *       ],
+ *       "solver": { "maxIterations": 100, "tolerance": 1e-5, "model": "sr-arap" }
+ *     }
+ *
+ * 只给出索引的锚定点固定在静止位置；offset 是相对静止位置的位移。
+ * weight 可选，取值 (0, 1]，默认 1（硬约束），小于 1 时为软约束。
+ * solver.model 可选 "arap"、"laplacian"、"sr-arap"、"volume-arap"，
+ * 对应的参数为 rotationSmoothness 和 volumeWeight。
+ */
+export type ConstraintFile = {
+    anchors: (number | ConstraintTarget)[];
+    handles: ConstraintTarget[];
+    solver?: Partial<SolverSettings>;
+};
+
+type ConstraintTarget = {
+    vertex: number;
+    position?: [number, number, number];
+    offset?: [number, number, number];
+    weight?: number;
+};
+
+export class ConstraintFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConstraintFileError';
+    }
+}
+
+const isVector = (value: unknown): value is [number, number, number] =>
+    Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number' && Number.isFinite(v));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 解析约束 JSON，并按静止网格求出每个约束的目标位置。
+ * 索引越界、格式错误时抛出 ConstraintFileError。
+ */
+export function parseConstraintFile(
+    json: unknown,
+    restVertices: Float32Array
+): { constraints: DeformConstraints; settings: SolverSettings } {
+    if (!isObject(json)) throw new ConstraintFileError('The constraint file must contain a JSON object.');
+    const vertexCount = restVertices.length / 3;
+
+    const resolve = (entry: unknown, label: string): { index: number; position: number[]; weight: number } => {
+        const target = typeof entry === 'number' ? { vertex: entry } : entry;
+        if (!isObject(target) || !Number.isInteger(target.vertex)) {
+            throw new ConstraintFileError(`Every ${label} needs an integer "vertex".`);
+        }
+        const index = target.vertex as number;
+        if (index < 0 || index >= vertexCount) {
+            throw new ConstraintFileError(`${label} vertex ${index} does not exist (the mesh has ${vertexCount} vertices).`);
+        }
+        const weight = target.weight ?? 1;
+        if (typeof weight !== 'number' || !(weight > 0 && weight <= 1)) {
+            throw new ConstraintFileError(`${label} ${index}: "weight" must be a number in (0, 1].`);
+        }
+        const rest = Array.from(restVertices.subarray(index * 3, index * 3 + 3));
+        if (target.position !== undefined) {
+            if (!isVector(target.position)) throw new ConstraintFileError(`${label} ${index}: "position" must be [x, y, z].`);
+            return { index, position: target.position, weight };
+        }
+        if (target.offset !== undefined) {
+            if (!isVector(target.offset)) throw new ConstraintFileError(`${label} ${index}: "offset" must be [x, y, z].`);
+            const offset = target.offset;
+            return { index, position: rest.map((value, c) => value + offset[c]), weight };
+        }
+        return { index, position: rest, weight };
+    };
+
+    const anchorsJson = json.anchors ?? [];
+    const handlesJson = json.handles ?? [];
+    if (!Array.isArray(anchorsJson) || !Array.isArray(handlesJson)) {
+        throw new ConstraintFileError('"anchors" and "handles" must be arrays.');
+    }
+    const anchors = anchorsJson.map(entry => resolve(entry, 'Anchor'));
+    const handles = handlesJson.map(entry => resolve(entry, 'Handle'));
+
+    const settings: SolverSettings = { ...DEFAULT_SOLVER_SETTINGS, computeEnergy: false };
+    if (json.solver !== undefined) {
+        if (!isObject(json.solver)) throw new ConstraintFileError('"solver" must be an object.');
+        const { maxIterations, tolerance, computeEnergy, model, rotationSmoothness, volumeWeight } = json.solver;
+        if (maxIterations !== undefined) {
+            if (!Number.isInteger(maxIterations) || (maxIterations as number) < 1) {
+                throw new ConstraintFileError('"solver.maxIterations" must be a positive integer.');
+            }
+            settings.maxIterations = maxIterations as number;
+        }
+        if (tolerance !== undefined) {
+            if (typeof tolerance !== 'number' || tolerance < 0) throw new ConstraintFileError('"solver.tolerance" must be a non-negative number.');
+            settings.tolerance = tolerance;
+        }
+        if (computeEnergy !== undefined) settings.computeEnergy = computeEnergy === true;
+        if (model !== undefined) {
+            if (!DEFORMATION_MODELS.includes(model as DeformationModel)) {
+                throw new ConstraintFileError(`"solver.model" must be one of ${DEFORMATION_MODELS.join(', ')}.`);
+            }
+            settings.model = model as DeformationModel;
+        }
+        if (rotationSmoothness !== undefined) {
+            if (typeof rotationSmoothness !== 'number' || rotationSmoothness < 0) {
+                throw new ConstraintFileError('"solver.rotationSmoothness" must be a non-negative number.');
+            }
+            settings.rotationSmoothness = rotationSmoothness;
+        }
+        if (volumeWeight !== undefined) {
+            if (typeof volumeWeight !== 'number' || volumeWeight < 0) throw new ConstraintFileError('"solver.volumeWeight" must be a non-negative number.');
+            settings.volumeWeight = volumeWeight;
+        }
+    }
+
+    const targets = [...anchors, ...handles];
+    const positions = new Float32Array(targets.flatMap(target => target.position));
+    // Only send weights when some constraint is soft, so all-hard files keep using the wasm solver path unchanged.
+    const weights = targets.some(target => target.weight < 1) ? new Float32Array(targets.map(target => target.weight)) : null;
+    return {
+        constraints: {
+            anchorIndices: anchors.map(target => target.index),
+            handleIndices: handles.map(target => target.index),
+            positions,
+            weights,
+        },
+        settings,
+    };
+}
@@ -0,0 +1,14 @@
+// src/deformer/index.ts
+
+// Public surface of the headless deformer; nothing in here depends on React, three.js or the DOM.
+export { Deformer, type DeformConstraints, type DeformResult } from './Deformer';
+export { CageDeformer, type CageDeformResult } from './CageDeformer';
+export { ProxyDeformer } from './ProxyDeformer';
+export { evaluateArapScript, loadArapModuleFromUrl, type ArapModule, type ArapModuleFactory } from './arapModule';
+export { DEFAULT_SOLVER_SETTINGS, SolverError, type SolverErrorCode, type SolverSettings, type SolveStats } from './solverTypes';
+export { parseObjMesh, writeDeformedObj, ObjParseError, type ObjMesh } from './objMesh';
+export { parseConstraintFile, ConstraintFileError, type ConstraintFile } from './constraintFile';
+export { LocalGlobalSolver, DEFORMATION_MODELS, type DeformationModel, type LocalGlobalOptions } from '../geometry/localGlobalSolver';
+export { buildVoxelCage, DEFAULT_CAGE_RESOLUTION, type CageMesh } from '../geometry/cageBuilder';
+export type { ConstraintIssue } from '../geometry/constraintValidation';
+export { detectCollisions, DEFAULT_CONTACT_ITERATIONS, type CollisionOptions, type CollisionPlane, type CollisionReport } from '../geometry/collision';
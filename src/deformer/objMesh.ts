@@ -0,0 +1,86 @@
+// src/deformer/objMesh.ts
+
+/**
+ * 不依赖 three.js 的 OBJ 读写，供 Deformer 在 Node 中使用。
+ * 顶点顺序与文件中的 `v` 行一致，因此约束文件里的顶点索引就是 OBJ 顶点编号减一。
+ */
+export type ObjMesh = {
+    vertices: Float32Array;
+    faces: Int32Array;
+};
+
+export class ObjParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ObjParseError';
+    }
+}
+
+/** 读取 `v` 和 `f` 行，多边形按扇形三角化；纹理坐标、法线、分组等都被忽略。 */
+export function parseObjMesh(text: string): ObjMesh {
+    const vertices: number[] = [];
+    const faces: number[] = [];
+
+    text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+        const line = rawLine.trim();
+        const fail = (message: string): never => {
+            throw new ObjParseError(`Line ${lineIndex + 1}: ${message}`);
+        };
+
+        if (line.startsWith('v ')) {
+            const coordinates = line.split(/\s+/).slice(1, 4).map(Number);
+            if (coordinates.length < 3 || !coordinates.every(Number.isFinite)) fail('invalid vertex.');
+            vertices.push(...coordinates);
+        } else if (line.startsWith('f ')) {
+            const vertexCount = vertices.length / 3;
+            const corners = line.split(/\s+/).slice(1).map(token => {
+                const index = parseInt(token.split('/')[0], 10);
+                // OBJ indices are 1-based; negative ones count back from the latest vertex.
+                const resolved = index < 0 ? vertexCount + index : index - 1;
+                if (!Number.isInteger(resolved) || resolved < 0 || resolved >= vertexCount) fail('face refers to a missing vertex.');
+                return resolved;
+            });
+            if (corners.length < 3) fail('face has fewer than three vertices.');
+            for (let i = 1; i + 1 < corners.length; i++) faces.push(corners[0], corners[i], corners[i + 1]);
+        }
+    });
+
+    if (vertices.length === 0 || faces.length === 0) {
+        throw new ObjParseError('The OBJ file contains no triangles.');
+    }
+    return { vertices: new Float32Array(vertices), faces: new Int32Array(faces) };
+}
+
+const formatNumber = (value: number) => Number.isInteger(value) ? value.toString() : value.toPrecision(7).replace(/\.?0+$/, '');
+
+/**
+ * 把原 OBJ 文本中的 `v` 行依次替换为变形后的位置，其余内容（UV、材质、分组）原样保留。
+ * 法线在变形后不再正确，所以 `vn` 行和面中的法线引用会被去掉，由导入方重新计算。
+ */
+export function writeDeformedObj(source: string, vertices: Float32Array): string {
+    let vertexIndex = 0;
+    const lines = source.split(/\r?\n/).flatMap(line => {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('v ')) {
+            // Vertex colours and weights after xyz are kept.
+            const extra = trimmed.split(/\s+/).slice(4);
+            const i = vertexIndex++ * 3;
+            const xyz = [vertices[i], vertices[i + 1], vertices[i + 2]].map(formatNumber);
+            return [['v', ...xyz, ...extra].join(' ')];
+        }
+        if (trimmed.startsWith('vn ')) return [];
+        if (trimmed.startsWith('f ')) {
+            const corners = trimmed.split(/\s+/).slice(1).map(token => {
+                const [v, vt] = token.split('/');
+                return vt ? `${v}/${vt}` : v;
+            });
+            return [['f', ...corners].join(' ')];
+        }
+        return [line];
+    });
+
+    if (vertexIndex * 3 !== vertices.length) {
+        throw new ObjParseError('The deformed vertices do not match the OBJ file.');
+    }
+    return lines.join('\n');
+}
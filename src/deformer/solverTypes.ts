@@ -0,0 +1,57 @@
+// src/deformer/solverTypes.ts
+
+import type { ConstraintIssue } from '../geometry/constraintValidation';
+import type { DeformationModel } from '../geometry/localGlobalSolver';
+
+/**
+ * 每次求解的参数：最大迭代次数、收敛容差（相对包围盒对角线的单次迭代最大位移）、是否计算 ARAP 能量，
+ * 以及变形模型和它的参数。
+ */
+export type SolverSettings = {
+    maxIterations: number;
+    // 0 disables early stopping, so exactly maxIterations iterations are run.
+    tolerance: number;
+    computeEnergy: boolean;
+    model: DeformationModel;
+    // Only used by 'sr-arap'.
+    rotationSmoothness: number;
+    // Only used by 'volume-arap'.
+    volumeWeight: number;
+};
+
+export const DEFAULT_SOLVER_SETTINGS: SolverSettings = {
+    maxIterations: 50,
+    tolerance: 1e-4,
+    computeEnergy: true,
+    model: 'arap',
+    rotationSmoothness: 1,
+    volumeWeight: 1,
+};
+
+/** 一次求解的统计信息，随求解结果一起返回。 */
+export type SolveStats = {
+    iterations: number;
+    converged: boolean;
+    // Largest vertex displacement per iteration over the last chunk of iterations, relative to the mesh's bounding-box diagonal.
+    residual: number;
+    energy: number | null;
+    solveTimeMs: number;
+    // Contact constraints added by the collision handling; only present when it ran.
+    contacts?: number;
+};
+
+// 'invalid-constraints' is raised before solving; 'diverged' when the solve produced NaN vertices.
+export type SolverErrorCode = 'invalid-constraints' | 'diverged' | 'internal';
+
+/** 求解失败时抛出的错误。code 为 'invalid-constraints' 时 issues 列出了具体问题。 */
+export class SolverError extends Error {
+    code: SolverErrorCode;
+    issues: ConstraintIssue[];
+
+    constructor(message: string, code: SolverErrorCode, issues: ConstraintIssue[] = []) {
+        super(message);
+        this.name = 'SolverError';
+        this.code = code;
+        this.issues = issues;
+    }
+}
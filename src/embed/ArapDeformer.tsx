@@ -0,0 +1,408 @@
+// src/embed/ArapDeformer.tsx
+
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+
+import HandleMarkers from '../components/HandleMarkers';
+import { parseConstraintFile } from '../deformer/constraintFile';
+import type { DeformConstraints } from '../deformer/Deformer';
+import { SolverError, type SolverSettings } from '../deformer/solverTypes';
+import { WasmSolverService } from '../services/WasmSolverService';
+import { getDragPlane } from '../utils/dragConstraint';
+import { importMeshUrl } from '../utils/meshImport';
+import { buildSolverMesh, type SolverMesh, type VertexMapping } from '../utils/vertexMapping';
+import type {
+  ArapDeformerCommands, ArapDeformerEventName, ArapDeformerEvents, ConstraintSet, EmbedDeformResult, EmbedMesh,
+} from './types';
+
+type EventProps = { [K in ArapDeformerEventName as `on${Capitalize<K>}`]?: (detail: ArapDeformerEvents[K]) => void };
+
+export type ArapDeformerProps = EventProps & {
+  mesh?: EmbedMesh | null;
+  // URL of an OBJ / PLY / STL / glTF model, loaded when no mesh is given.
+  src?: string | null;
+  // Compared by value, so an inline object does not reset the constraints (or an ongoing drag) on every render.
+  constraints?: ConstraintSet | null;
+  // Solve whenever the constraints are set (default); otherwise only the solve command and drags do.
+  autoSolve?: boolean;
+  style?: React.CSSProperties;
+  className?: string;
+};
+
+export type ArapDeformerHandle = ArapDeformerCommands;
+
+// Constraints in the embedder's vertex order, with the solver settings of their constraint set.
+type ConstraintState = {
+  constraints: DeformConstraints;
+  settings: SolverSettings;
+  // Whether this change should be solved right away.
+  solve: boolean;
+};
+
+const SURFACE_COLOR = '#d9d9d9';
+const ANCHOR_COLOR = '#c70000';
+
+const eventProp = <K extends ArapDeformerEventName>(name: K) => `on${name[0].toUpperCase()}${name.slice(1)}` as keyof EventProps;
+
+const geometryFromMesh = (mesh: EmbedMesh): THREE.BufferGeometry => {
+  const vertexCount = mesh.vertices.length / 3;
+  if (!Number.isInteger(vertexCount) || mesh.faces.length % 3 !== 0 || mesh.faces.some(index => index < 0 || index >= vertexCount)) {
+    throw new Error('The mesh needs xyz per vertex and three in-range vertex indices per face.');
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(mesh.vertices.slice(), 3));
+  geometry.setIndex(new THREE.BufferAttribute(Uint32Array.from(mesh.faces), 1));
+  return geometry;
+};
+
+/** 约束集合的当前状态，写成约束文件格式（每个约束都带目标位置）。 */
+const toConstraintSet = ({ anchorIndices, handleIndices, positions, weights }: DeformConstraints): ConstraintSet => {
+  const entry = (vertex: number, k: number) => ({
+    vertex,
+    position: Array.from(positions.subarray(k * 3, k * 3 + 3)) as [number, number, number],
+    ...(weights && weights[k] < 1 ? { weight: weights[k] } : {}),
+  });
+  return {
+    anchors: anchorIndices.map((vertex, k) => entry(vertex, k)),
+    handles: handleIndices.map((vertex, k) => entry(vertex, anchorIndices.length + k)),
+  };
+};
+
+/**
+ * 把约束换到求解器（焊接后）的顶点上。焊接在一起的顶点共用一个求解器顶点，
+ * 其中最后一个约束生效，约束点优先于锚定点。
+ */
+const toSolverConstraints = (constraints: DeformConstraints, mapping: VertexMapping): DeformConstraints => {
+  const { anchorIndices, handleIndices, positions, weights } = constraints;
+  const bySolverIndex = new Map<number, { k: number; handle: boolean }>();
+  [...anchorIndices, ...handleIndices].forEach((index, k) => {
+    bySolverIndex.set(mapping.toSolverIndex(index), { k, handle: k >= anchorIndices.length });
+  });
+  const entries = [...bySolverIndex].sort(([, a], [, b]) => Number(a.handle) - Number(b.handle));
+  return {
+    anchorIndices: entries.filter(([, entry]) => !entry.handle).map(([index]) => index),
+    handleIndices: entries.filter(([, entry]) => entry.handle).map(([index]) => index),
+    positions: new Float32Array(entries.flatMap(([, { k }]) => Array.from(positions.subarray(k * 3, k * 3 + 3)))),
+    weights: weights ? new Float32Array(entries.map(([, { k }]) => weights[k])) : null,
+  };
+};
+
+/** 网格载入后把相机对准它。 */
+function FitCamera({ geometry }: { geometry: THREE.BufferGeometry | null }) {
+  const camera = useThree(state => state.camera);
+  useEffect(() => {
+    if (!geometry) return;
+    geometry.computeBoundingSphere();
+    const { center, radius } = geometry.boundingSphere!;
+    camera.position.set(center.x, center.y, center.z + radius * 2.5);
+    camera.near = radius / 100;
+    camera.far = radius * 100;
+    camera.lookAt(center);
+    camera.updateProjectionMatrix();
+  }, [camera, geometry]);
+  return null;
+}
+
+type HandleDragControllerProps = {
+  handlesGroup: React.RefObject<THREE.Group | null>;
+  onDragStart: () => void;
+  // index is the handle's vertex; position is in the mesh frame.
+  onDrag: (index: number, position: THREE.Vector3) => void;
+  onDragEnd: () => void;
+};
+
+/** 拖动约束点标记：在过起点、垂直于视线的平面上移动。 */
+function HandleDragController({ handlesGroup, onDragStart, onDrag, onDragEnd }: HandleDragControllerProps) {
+  const { camera, gl } = useThree();
+  const drag = useRef<{ index: number; start: THREE.Vector3 } | null>(null);
+
+  useEffect(() => {
+    const canvas = gl.domElement;
+    const raycaster = new THREE.Raycaster();
+    const setRay = (event: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      raycaster.setFromCamera(new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      ), camera);
+    };
+    const onPointerDown = (event: PointerEvent) => {
+      const group = handlesGroup.current;
+      if (!group) return;
+      setRay(event);
+      const hit = raycaster.intersectObject(group, true).find(intersect => intersect.instanceId !== undefined);
+      if (!hit) return;
+      const markers = hit.object as THREE.InstancedMesh;
+      const matrix = new THREE.Matrix4();
+      markers.getMatrixAt(hit.instanceId!, matrix);
+      drag.current = {
+        index: markers.userData.handleIndices[hit.instanceId!],
+        start: new THREE.Vector3().setFromMatrixPosition(matrix).applyMatrix4(markers.matrixWorld),
+      };
+      onDragStart();
+    };
+    const onPointerMove = (event: PointerEvent) => {
+      if (!drag.current) return;
+      setRay(event);
+      const plane = getDragPlane('free', drag.current.start, camera.getWorldDirection(new THREE.Vector3()));
+      const point = raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+      if (point) onDrag(drag.current.index, point);
+    };
+    const onPointerUp = () => {
+      if (!drag.current) return;
+      drag.current = null;
+      onDragEnd();
+    };
+    canvas.addEventListener('pointerdown', onPointerDown);
+    canvas.addEventListener('pointermove', onPointerMove);
+    canvas.addEventListener('pointerup', onPointerUp);
+    return () => {
+      canvas.removeEventListener('pointerdown', onPointerDown);
+      canvas.removeEventListener('pointermove', onPointerMove);
+      canvas.removeEventListener('pointerup', onPointerUp);
+    };
+  }, [camera, gl.domElement, handlesGroup, onDragStart, onDrag, onDragEnd]);
+
+  return null;
+}
+
+/**
+ * 可嵌入的 ARAP 变形组件：通过 props 或命令（ref）接收网格和约束集合，用户可以直接拖动约束点，
+ * 载入、约束变化、求解和出错时调用对应的 on* 回调。每个实例有自己的求解器 worker，同一页面可以放多个。
+ */
+const ArapDeformer = forwardRef<ArapDeformerHandle, ArapDeformerProps>(function ArapDeformer(props, ref) {
+  const { mesh = null, src = null, constraints, autoSolve = true, style, className } = props;
+  const [service] = useState(() => WasmSolverService.create());
+  const constraintKey = constraints ? JSON.stringify(constraints) : null;
+  const constraintSet = useMemo(() => (constraintKey === null ? null : JSON.parse(constraintKey) as ConstraintSet), [constraintKey]);
+  const [isWasmReady, setWasmReady] = useState(false);
+  const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
+  // Set once the solver holds the mesh.
+  const [loadedMesh, setLoadedMesh] = useState<SolverMesh | null>(null);
+  const [constraintState, setConstraintState] = useState<ConstraintState | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const handlesGroup = useRef<THREE.Group>(null);
+  // Bumped whenever the solver state is replaced, so solves started before that are discarded.
+  const solveGeneration = useRef(0);
+  const eventProps = useRef<EventProps>({});
+
+  useLayoutEffect(() => {
+    eventProps.current = props;
+  });
+
+  const emit = useCallback(<K extends ArapDeformerEventName>(name: K, detail: ArapDeformerEvents[K]) => {
+    (eventProps.current[eventProp(name)] as ((detail: ArapDeformerEvents[K]) => void) | undefined)?.(detail);
+  }, []);
+
+  const emitError = useCallback((error: unknown) => {
+    if (error instanceof SolverError) {
+      emit('solveError', { message: error.message, code: error.code });
+    } else {
+      console.error('ArapDeformer failed:', error);
+      emit('solveError', { message: error instanceof Error ? error.message : String(error), code: 'internal' });
+    }
+  }, [emit]);
+
+  useEffect(() => {
+    let cancelled = false;
+    service.init()
+      .then(() => {
+        if (!cancelled) setWasmReady(true);
+      })
+      .catch(emitError);
+    return () => {
+      cancelled = true;
+      setWasmReady(false);
+      service.cleanup();
+    };
+  }, [service, emitError]);
+
+  const loadMesh = useCallback((next: EmbedMesh) => {
+    try {
+      setGeometry(geometryFromMesh(next));
+    } catch (error) {
+      emitError(error);
+    }
+  }, [emitError]);
+
+  useEffect(() => {
+    if (mesh) {
+      loadMesh(mesh);
+      return;
+    }
+    if (!src) return;
+    let cancelled = false;
+    importMeshUrl(src)
+      .then(imported => {
+        if (!cancelled) setGeometry(imported);
+      })
+      .catch(emitError);
+    return () => {
+      cancelled = true;
+    };
+  }, [mesh, src, loadMesh, emitError]);
+
+  const solverMesh = useMemo(() => geometry ? buildSolverMesh(geometry) : null, [geometry]);
+  // The rendered copy is deformed; the source geometry keeps the rest pose.
+  const displayGeometry = useMemo(() => {
+    if (!geometry) return null;
+    const copy = geometry.clone();
+    copy.computeVertexNormals();
+    return copy;
+  }, [geometry]);
+  useEffect(() => () => displayGeometry?.dispose(), [displayGeometry]);
+  const markerRadius = useMemo(() => {
+    if (!geometry) return 0;
+    geometry.computeBoundingSphere();
+    return geometry.boundingSphere!.radius * 0.02;
+  }, [geometry]);
+
+  useEffect(() => {
+    solveGeneration.current++;
+    setLoadedMesh(null);
+    if (!isWasmReady || !solverMesh) return;
+    let cancelled = false;
+    service.loadMesh(solverMesh.vertices, solverMesh.faces)
+      .then(() => {
+        if (cancelled) return;
+        setLoadedMesh(solverMesh);
+        emit('meshLoaded', { vertexCount: solverMesh.mapping.renderVertexCount, faceCount: solverMesh.faces.length / 3 });
+      })
+      .catch(emitError);
+    return () => {
+      cancelled = true;
+    };
+  }, [service, isWasmReady, solverMesh, emit, emitError]);
+
+  // Offsets and indices are resolved against the rest pose of the current mesh.
+  const applyConstraintSet = useCallback((set: ConstraintSet, solve: boolean) => {
+    if (!geometry) throw new Error('No mesh loaded.');
+    const rest = geometry.attributes.position.array as Float32Array;
+    const { constraints, settings } = parseConstraintFile(set, rest);
+    setConstraintState({ constraints, settings, solve });
+    emit('constraintsChanged', { constraints: toConstraintSet(constraints) });
+  }, [geometry, emit]);
+
+  useEffect(() => {
+    if (!geometry) return;
+    if (!constraintSet) {
+      setConstraintState(null);
+      return;
+    }
+    try {
+      applyConstraintSet(constraintSet, autoSolve);
+    } catch (error) {
+      emit('solveError', { message: error instanceof Error ? error.message : String(error), code: 'invalid-constraints' });
+    }
+  }, [geometry, constraintSet, autoSolve, applyConstraintSet, emit]);
+
+  const getVertices = useCallback(
+    () => displayGeometry ? (displayGeometry.attributes.position.array as Float32Array).slice() : null,
+    [displayGeometry]
+  );
+
+  const solve = useCallback(async (): Promise<EmbedDeformResult | null> => {
+    if (!loadedMesh || !displayGeometry || !constraintState) return null;
+    const { anchorIndices, handleIndices, positions, weights } = toSolverConstraints(constraintState.constraints, loadedMesh.mapping);
+    const generation = solveGeneration.current;
+    try {
+      const result = await service.deform(anchorIndices, handleIndices, positions, constraintState.settings, weights);
+      if (result === null || solveGeneration.current !== generation) return null;
+      const position = displayGeometry.attributes.position as THREE.BufferAttribute;
+      loadedMesh.mapping.applySolverPositions(result.vertices, position);
+      displayGeometry.computeVertexNormals();
+      const deformed = { vertices: (position.array as Float32Array).slice(), stats: result.stats };
+      emit('deformed', deformed);
+      return deformed;
+    } catch (error) {
+      if (solveGeneration.current === generation) emitError(error);
+      throw error;
+    }
+  }, [service, loadedMesh, displayGeometry, constraintState, emit, emitError]);
+
+  useEffect(() => {
+    if (constraintState?.solve) solve().catch(() => {});
+  }, [constraintState, solve]);
+
+  const reset = useCallback(() => {
+    if (!geometry || !displayGeometry) return;
+    solveGeneration.current++;
+    service.restoreVertices(null).catch(emitError);
+    const rest = geometry.attributes.position.array as Float32Array;
+    (displayGeometry.attributes.position.array as Float32Array).set(rest);
+    displayGeometry.attributes.position.needsUpdate = true;
+    displayGeometry.computeVertexNormals();
+    if (!constraintState) return;
+    const { anchorIndices, handleIndices } = constraintState.constraints;
+    const positions = new Float32Array([...anchorIndices, ...handleIndices].flatMap(index => Array.from(rest.subarray(index * 3, index * 3 + 3))));
+    const constraints = { ...constraintState.constraints, positions };
+    setConstraintState({ ...constraintState, constraints, solve: false });
+    emit('constraintsChanged', { constraints: toConstraintSet(constraints) });
+  }, [service, geometry, displayGeometry, constraintState, emit, emitError]);
+
+  useImperativeHandle(ref, () => ({
+    setMesh: loadMesh,
+    setConstraints: set => applyConstraintSet(set, autoSolve),
+    solve,
+    reset,
+    getVertices,
+  }), [loadMesh, applyConstraintSet, autoSolve, solve, reset, getVertices]);
+
+  const handleDrag = useCallback((index: number, position: THREE.Vector3) => {
+    setConstraintState(prev => {
+      if (!prev) return prev;
+      const k = prev.constraints.anchorIndices.length + prev.constraints.handleIndices.indexOf(index);
+      const positions = prev.constraints.positions.slice();
+      position.toArray(positions, k * 3);
+      return { ...prev, constraints: { ...prev.constraints, positions }, solve: true };
+    });
+  }, []);
+  const handleDragStart = useCallback(() => setIsDragging(true), []);
+  const handleDragEnd = useCallback(() => setIsDragging(false), []);
+
+  // A drag is reported once it ends rather than on every pointer move.
+  const wasDragging = useRef(false);
+  useEffect(() => {
+    if (wasDragging.current && !isDragging && constraintState) {
+      emit('constraintsChanged', { constraints: toConstraintSet(constraintState.constraints) });
+    }
+    wasDragging.current = isDragging;
+  }, [isDragging, constraintState, emit]);
+
+  const markers = useMemo(() => {
+    if (!constraintState) return { anchors: [], anchorPositions: [], handles: [], handlePositions: [] };
+    const { anchorIndices, handleIndices, positions } = constraintState.constraints;
+    const at = (k: number) => new THREE.Vector3().fromArray(positions, k * 3);
+    return {
+      anchors: anchorIndices,
+      anchorPositions: anchorIndices.map((_, k) => at(k)),
+      handles: handleIndices,
+      handlePositions: handleIndices.map((_, k) => at(anchorIndices.length + k)),
+    };
+  }, [constraintState]);
+
+  return (
+    <div className={className} style={{ position: 'relative', width: '100%', height: '100%', ...style }}>
+      <Canvas>
+        <ambientLight intensity={0.6} />
+        <directionalLight position={[5, 10, 7]} intensity={1.2} />
+        <FitCamera geometry={geometry} />
+        <OrbitControls makeDefault enabled={!isDragging} />
+        {displayGeometry && (
+          <mesh geometry={displayGeometry}>
+            <meshStandardMaterial color={SURFACE_COLOR} side={THREE.DoubleSide} />
+          </mesh>
+        )}
+        <HandleMarkers indices={markers.anchors} positions={markers.anchorPositions} radius={markerRadius} color={ANCHOR_COLOR} emissive="#600000" />
+        <group ref={handlesGroup}>
+          <HandleMarkers indices={markers.handles} positions={markers.handlePositions} radius={markerRadius} />
+        </group>
+        <HandleDragController handlesGroup={handlesGroup} onDragStart={handleDragStart} onDrag={handleDrag} onDragEnd={handleDragEnd} />
+      </Canvas>
+    </div>
+  );
+});
+
+export default ArapDeformer;
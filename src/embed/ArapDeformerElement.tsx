@@ -0,0 +1,121 @@
+// src/embed/ArapDeformerElement.tsx
+
+import { createRef } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+
+import ArapDeformer, { type ArapDeformerHandle, type ArapDeformerProps } from './ArapDeformer';
+import type {
+  ArapDeformerCommands, ArapDeformerEventName, ArapDeformerEvents, ConstraintSet, EmbedDeformResult, EmbedMesh,
+} from './types';
+
+const EVENT_NAMES: ArapDeformerEventName[] = ['meshLoaded', 'constraintsChanged', 'deformed', 'solveError'];
+
+/**
+ * 不依赖框架的 ARAP 变形元素 <arap-deformer>：src 属性或 mesh 属性给出网格，constraints 属性给出约束集合，
+ * 事件以同名 CustomEvent 发出（数据在 detail 中），命令是元素的方法。元素需要有尺寸，画布会填满它。
+ */
+export class ArapDeformerElement extends HTMLElement implements ArapDeformerCommands {
+  static observedAttributes = ['src'];
+
+  private root: Root | null = null;
+  private handle = createRef<ArapDeformerHandle>();
+  private meshValue: EmbedMesh | null = null;
+  private constraintsValue: ConstraintSet | null = null;
+
+  get mesh(): EmbedMesh | null {
+    return this.meshValue;
+  }
+
+  set mesh(mesh: EmbedMesh | null) {
+    this.meshValue = mesh;
+    this.renderDeformer();
+  }
+
+  get constraints(): ConstraintSet | null {
+    return this.constraintsValue;
+  }
+
+  set constraints(constraints: ConstraintSet | null) {
+    this.constraintsValue = constraints;
+    this.renderDeformer();
+  }
+
+  connectedCallback() {
+    if (!this.style.display) this.style.display = 'block';
+    this.root ??= createRoot(this);
+    this.renderDeformer();
+  }
+
+  disconnectedCallback() {
+    // Moving the element triggers a disconnect followed by a connect; only unmount if it stays detached.
+    queueMicrotask(() => {
+      if (this.isConnected || !this.root) return;
+      this.root.unmount();
+      this.root = null;
+    });
+  }
+
+  attributeChangedCallback() {
+    this.renderDeformer();
+  }
+
+  /** 订阅一个事件，返回取消订阅的函数。 */
+  on<K extends ArapDeformerEventName>(name: K, listener: (detail: ArapDeformerEvents[K]) => void): () => void {
+    const handler = (event: Event) => listener((event as CustomEvent<ArapDeformerEvents[K]>).detail);
+    this.addEventListener(name, handler);
+    return () => this.removeEventListener(name, handler);
+  }
+
+  setMesh(mesh: EmbedMesh): void {
+    this.mesh = mesh;
+  }
+
+  setConstraints(constraints: ConstraintSet): void {
+    this.requireHandle().setConstraints(constraints);
+  }
+
+  solve(): Promise<EmbedDeformResult | null> {
+    return this.requireHandle().solve();
+  }
+
+  reset(): void {
+    this.requireHandle().reset();
+  }
+
+  getVertices(): Float32Array | null {
+    return this.handle.current?.getVertices() ?? null;
+  }
+
+  private requireHandle(): ArapDeformerHandle {
+    if (!this.handle.current) throw new Error('<arap-deformer> is not connected to a document.');
+    return this.handle.current;
+  }
+
+  private renderDeformer() {
+    if (!this.root) return;
+    const eventProps = Object.fromEntries(EVENT_NAMES.map(name => [
+      `on${name[0].toUpperCase()}${name.slice(1)}`,
+      (detail: unknown) => this.dispatchEvent(new CustomEvent(name, { detail })),
+    ])) as Partial<ArapDeformerProps>;
+    this.root.render(
+      <ArapDeformer
+        ref={this.handle}
+        mesh={this.meshValue}
+        src={this.getAttribute('src')}
+        constraints={this.constraintsValue}
+        {...eventProps}
+      />
+    );
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'arap-deformer': ArapDeformerElement;
+  }
+}
+
+/** 注册自定义元素（重复调用无影响）。 */
+export function defineArapDeformerElement(tagName = 'arap-deformer'): void {
+  if (!customElements.get(tagName)) customElements.define(tagName, ArapDeformerElement);
+}
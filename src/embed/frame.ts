@@ -0,0 +1,24 @@
+// src/embed/frame.ts
+
+import { defineArapDeformerElement } from './ArapDeformerElement';
+import { exposeDeformer } from './messageBridge';
+
+// Entry of embed.html: one <arap-deformer> filling the page, driven from the embedding page through postMessage.
+// ?src= loads a model right away; ?origin= names the one page that may drive it, and without it nothing is exposed.
+
+defineArapDeformerElement();
+
+const params = new URLSearchParams(window.location.search);
+const element = document.createElement('arap-deformer');
+element.style.width = '100vw';
+element.style.height = '100vh';
+const src = params.get('src');
+if (src) element.setAttribute('src', src);
+document.body.style.margin = '0';
+document.body.appendChild(element);
+
+const origin = params.get('origin');
+if (window.parent !== window) {
+    if (origin) exposeDeformer(element, { targetOrigin: origin });
+    else console.error('embed.html needs ?origin=<origin of the embedding page> before it accepts commands.');
+}
@@ -0,0 +1,11 @@
+// src/embed/index.ts
+
+// Public surface of the embeddable deformer: the React component, the <arap-deformer> element and the iframe bridge.
+export { default as ArapDeformer, type ArapDeformerHandle, type ArapDeformerProps } from './ArapDeformer';
+export { ArapDeformerElement, defineArapDeformerElement } from './ArapDeformerElement';
+export {
+    exposeDeformer, DeformerFrameClient, DeformerBridgeError, BRIDGE_CHANNEL,
+    type ExposeOptions, type BridgeCommandMessage, type BridgeResultMessage, type BridgeEventMessage,
+} from './messageBridge';
+export { ConstraintFileError } from '../deformer/constraintFile';
+export type * from './types';
@@ -0,0 +1,155 @@
+// src/embed/messageBridge.test.ts
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ArapDeformerElement } from './ArapDeformerElement';
+import { BRIDGE_CHANNEL, DeformerBridgeError, DeformerFrameClient, exposeDeformer } from './messageBridge';
+import type { ArapDeformerEventName } from './types';
+
+const PAGE_ORIGIN = 'https://page.example';
+const FRAME_ORIGIN = 'https://frame.example';
+
+// Node has no windows: each one is an event target that records what is posted to it.
+class FakeWindow extends EventTarget {
+    public posted: { message: unknown; targetOrigin: string }[] = [];
+
+    public postMessage(message: unknown, targetOrigin: string): void {
+        this.posted.push({ message, targetOrigin });
+    }
+}
+
+let ownWindow: FakeWindow;
+let otherWindow: FakeWindow;
+
+// Delivers a message to our own window as if `source` had posted it from `origin`.
+const receive = async (data: unknown, origin: string, source: FakeWindow = otherWindow) => {
+    ownWindow.dispatchEvent(Object.assign(new Event('message'), { data, origin, source }));
+    // Let the async handlers run.
+    await new Promise(resolve => setTimeout(resolve));
+};
+
+const createElement = () => {
+    const listeners = new Map<ArapDeformerEventName, (detail: unknown) => void>();
+    const element = {
+        getVertices: vi.fn(() => new Float32Array([1, 2, 3])),
+        setConstraints: vi.fn(() => {
+            throw new Error('Anchor vertex 9 does not exist.');
+        }),
+        on: (name: ArapDeformerEventName, listener: (detail: unknown) => void) => {
+            listeners.set(name, listener);
+            return () => listeners.delete(name);
+        },
+    };
+    return { element, listeners, asElement: element as unknown as ArapDeformerElement };
+};
+
+beforeEach(() => {
+    ownWindow = new FakeWindow();
+    otherWindow = new FakeWindow();
+    vi.stubGlobal('window', ownWindow);
+    vi.stubGlobal('Window', FakeWindow);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('exposeDeformer', () => {
+    it('refuses anything but an exact origin', () => {
+        const { asElement } = createElement();
+        for (const origin of ['*', 'null', 'page.example', '']) {
+            expect(() => exposeDeformer(asElement, { targetOrigin: origin, target: otherWindow as unknown as Window })).toThrow(/is not an origin/);
+        }
+    });
+
+    it('runs commands from the target at the target origin and replies there', async () => {
+        const { element, asElement } = createElement();
+        exposeDeformer(asElement, { targetOrigin: `${PAGE_ORIGIN}/editor?id=1`, target: otherWindow as unknown as Window });
+
+        await receive({ channel: BRIDGE_CHANNEL, id: 1, command: 'getVertices', args: [] }, PAGE_ORIGIN);
+        await receive({ channel: BRIDGE_CHANNEL, id: 2, command: 'setConstraints', args: [{}] }, PAGE_ORIGIN);
+        await receive({ channel: BRIDGE_CHANNEL, id: 3, command: 'dispose', args: [] }, PAGE_ORIGIN);
+
+        expect(element.getVertices).toHaveBeenCalledTimes(1);
+        expect(otherWindow.posted).toEqual([
+            { message: { channel: BRIDGE_CHANNEL, id: 1, ok: true, result: new Float32Array([1, 2, 3]) }, targetOrigin: PAGE_ORIGIN },
+            { message: { channel: BRIDGE_CHANNEL, id: 2, ok: false, error: 'Anchor vertex 9 does not exist.' }, targetOrigin: PAGE_ORIGIN },
+            { message: { channel: BRIDGE_CHANNEL, id: 3, ok: false, error: 'Unknown command "dispose".' }, targetOrigin: PAGE_ORIGIN },
+        ]);
+    });
+
+    it('ignores messages from other origins, other windows and other channels', async () => {
+        const { element, asElement } = createElement();
+        exposeDeformer(asElement, { targetOrigin: PAGE_ORIGIN, target: otherWindow as unknown as Window });
+        const command = { channel: BRIDGE_CHANNEL, id: 1, command: 'getVertices', args: [] };
+
+        await receive(command, 'https://evil.example');
+        await receive(command, `${PAGE_ORIGIN}:8443`);
+        await receive(command, PAGE_ORIGIN, new FakeWindow());
+        await receive({ ...command, channel: 'other' }, PAGE_ORIGIN);
+
+        expect(element.getVertices).not.toHaveBeenCalled();
+        expect(otherWindow.posted).toEqual([]);
+    });
+
+    it('forwards events until it is disconnected', async () => {
+        const { element, listeners, asElement } = createElement();
+        const disconnect = exposeDeformer(asElement, { targetOrigin: PAGE_ORIGIN, target: otherWindow as unknown as Window });
+
+        listeners.get('meshLoaded')!({ vertexCount: 3, faceCount: 1 });
+        disconnect();
+        await receive({ channel: BRIDGE_CHANNEL, id: 1, command: 'getVertices', args: [] }, PAGE_ORIGIN);
+
+        expect(otherWindow.posted).toEqual([
+            { message: { channel: BRIDGE_CHANNEL, event: 'meshLoaded', detail: { vertexCount: 3, faceCount: 1 } }, targetOrigin: PAGE_ORIGIN },
+        ]);
+        expect(listeners.size).toBe(0);
+        expect(element.getVertices).not.toHaveBeenCalled();
+    });
+});
+
+describe('DeformerFrameClient', () => {
+    const createClient = () => new DeformerFrameClient(otherWindow as unknown as Window, FRAME_ORIGIN);
+
+    it('refuses anything but an exact origin', () => {
+        expect(() => new DeformerFrameClient(otherWindow as unknown as Window, '*')).toThrow(/is not an origin/);
+    });
+
+    it('posts commands to the frame origin and settles them with the replies', async () => {
+        const client = createClient();
+        const vertices = client.call('getVertices');
+        // Caught right away so the rejection is not reported as unhandled before it is checked.
+        const solveError = client.call('solve').catch((error: unknown) => error);
+
+        expect(otherWindow.posted).toEqual([
+            { message: { channel: BRIDGE_CHANNEL, id: 0, command: 'getVertices', args: [] }, targetOrigin: FRAME_ORIGIN },
+            { message: { channel: BRIDGE_CHANNEL, id: 1, command: 'solve', args: [] }, targetOrigin: FRAME_ORIGIN },
+        ]);
+        await receive({ channel: BRIDGE_CHANNEL, id: 1, ok: false, error: 'No mesh loaded.' }, FRAME_ORIGIN);
+        await receive({ channel: BRIDGE_CHANNEL, id: 0, ok: true, result: null }, FRAME_ORIGIN);
+
+        expect(await solveError).toEqual(new DeformerBridgeError('No mesh loaded.'));
+        expect(await solveError).toBeInstanceOf(DeformerBridgeError);
+        await expect(vertices).resolves.toBeNull();
+    });
+
+    it('ignores replies and events from other origins and other windows', async () => {
+        const client = createClient();
+        const listener = vi.fn();
+        client.on('deformed', listener);
+        const call = client.call('getVertices');
+        const settled = vi.fn();
+        call.then(settled, settled);
+
+        await receive({ channel: BRIDGE_CHANNEL, id: 0, ok: true, result: 'forged' }, 'https://evil.example');
+        await receive({ channel: BRIDGE_CHANNEL, id: 0, ok: true, result: 'forged' }, FRAME_ORIGIN, new FakeWindow());
+        await receive({ channel: BRIDGE_CHANNEL, event: 'deformed', detail: 'forged' }, 'https://evil.example');
+        expect(settled).not.toHaveBeenCalled();
+        expect(listener).not.toHaveBeenCalled();
+
+        await receive({ channel: BRIDGE_CHANNEL, event: 'deformed', detail: 'real' }, FRAME_ORIGIN);
+        expect(listener).toHaveBeenCalledWith('real');
+        client.dispose();
+        await expect(call).rejects.toThrow('DeformerFrameClient was disposed.');
+    });
+});
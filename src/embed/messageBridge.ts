@@ -0,0 +1,163 @@
+// src/embed/messageBridge.ts
+
+import type {
+    ArapDeformerCommandName, ArapDeformerCommands, ArapDeformerEventName, ArapDeformerEvents,
+} from './types';
+import type { ArapDeformerElement } from './ArapDeformerElement';
+
+// postMessage protocol between a page and an <arap-deformer> inside an iframe.
+// Every message carries the channel so unrelated messages on the same window are ignored.
+
+export const BRIDGE_CHANNEL = 'arap-deformer';
+
+type CommandArgs<K extends ArapDeformerCommandName> = Parameters<ArapDeformerCommands[K]>;
+type CommandResult<K extends ArapDeformerCommandName> = Awaited<ReturnType<ArapDeformerCommands[K]>>;
+
+export type BridgeCommandMessage = {
+    channel: typeof BRIDGE_CHANNEL;
+    id: number;
+    command: ArapDeformerCommandName;
+    args: unknown[];
+};
+
+export type BridgeResultMessage =
+    | { channel: typeof BRIDGE_CHANNEL; id: number; ok: true; result: unknown }
+    | { channel: typeof BRIDGE_CHANNEL; id: number; ok: false; error: string };
+
+export type BridgeEventMessage = {
+    channel: typeof BRIDGE_CHANNEL;
+    event: ArapDeformerEventName;
+    detail: unknown;
+};
+
+const EVENT_NAMES: ArapDeformerEventName[] = ['meshLoaded', 'constraintsChanged', 'deformed', 'solveError'];
+const COMMAND_NAMES: ArapDeformerCommandName[] = ['setMesh', 'setConstraints', 'solve', 'reset', 'getVertices'];
+
+const isBridgeMessage = (data: unknown): data is Record<string, unknown> =>
+    typeof data === 'object' && data !== null && (data as { channel?: unknown }).channel === BRIDGE_CHANNEL;
+
+/** 检查并规范化对方的来源（如 https://your.site）。不接受 '*'：任何页面都能驱动元素或读到网格时桥就不安全了。 */
+const requireOrigin = (origin: string): string => {
+    let normalized: string | null = null;
+    try {
+        normalized = new URL(origin).origin;
+    } catch {
+        // Reported below.
+    }
+    if (!normalized || normalized === 'null') throw new Error(`"${origin}" is not an origin; pass the exact origin of the other page, e.g. https://your.site.`);
+    return normalized;
+};
+
+export type ExposeOptions = {
+    // Origin of the page allowed to send commands and receive events, e.g. https://your.site.
+    targetOrigin: string;
+    // Window that talks to the element, the embedding page by default.
+    target?: Window;
+};
+
+/**
+ * 在 iframe 内把元素暴露给 target 窗口：执行收到的命令并回复结果，把元素的事件转发出去。
+ * 只接受来自 target、且来源等于 targetOrigin 的消息，targetOrigin 不是确切的来源时抛出错误。返回断开连接的函数。
+ */
+export function exposeDeformer(element: ArapDeformerElement, options: ExposeOptions): () => void {
+    const { target = window.parent } = options;
+    const targetOrigin = requireOrigin(options.targetOrigin);
+    const post = (message: BridgeResultMessage | BridgeEventMessage) => target.postMessage(message, targetOrigin);
+
+    const onMessage = async (event: MessageEvent) => {
+        if (event.source !== target || event.origin !== targetOrigin || !isBridgeMessage(event.data)) return;
+        const { id, command, args } = event.data as BridgeCommandMessage;
+        if (!COMMAND_NAMES.includes(command) || !Array.isArray(args)) {
+            post({ channel: BRIDGE_CHANNEL, id, ok: false, error: `Unknown command "${String(command)}".` });
+            return;
+        }
+        try {
+            const run = element[command] as (...args: unknown[]) => unknown;
+            const result = await run.apply(element, args);
+            post({ channel: BRIDGE_CHANNEL, id, ok: true, result: result ?? null });
+        } catch (error) {
+            post({ channel: BRIDGE_CHANNEL, id, ok: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    window.addEventListener('message', onMessage);
+    const unsubscribe = EVENT_NAMES.map(name => element.on(name, detail => post({ channel: BRIDGE_CHANNEL, event: name, detail })));
+    return () => {
+        window.removeEventListener('message', onMessage);
+        unsubscribe.forEach(off => off());
+    };
+}
+
+export class DeformerBridgeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DeformerBridgeError';
+    }
+}
+
+type PendingCall = {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+};
+
+/**
+ * 嵌入页面一侧的客户端：向 iframe 中由 exposeDeformer 暴露的元素发送命令（返回 Promise），并订阅它的事件。
+ * targetOrigin 是 iframe 中页面的确切来源；命令在元素中抛出的错误以 DeformerBridgeError 拒绝。
+ */
+export class DeformerFrameClient {
+    private frame: Window;
+    private targetOrigin: string;
+    private nextCallId = 0;
+    private pendingCalls = new Map<number, PendingCall>();
+    private listeners = new Map<ArapDeformerEventName, Set<(detail: never) => void>>();
+
+    constructor(frame: HTMLIFrameElement | Window, targetOrigin: string) {
+        const frameWindow = frame instanceof Window ? frame : frame.contentWindow;
+        if (!frameWindow) throw new Error('The iframe is not attached to a document.');
+        this.frame = frameWindow;
+        this.targetOrigin = requireOrigin(targetOrigin);
+        window.addEventListener('message', this.handleMessage);
+    }
+
+    private handleMessage = (event: MessageEvent) => {
+        if (event.source !== this.frame || event.origin !== this.targetOrigin || !isBridgeMessage(event.data)) return;
+        const message = event.data as BridgeResultMessage | BridgeEventMessage;
+        if ('event' in message) {
+            this.listeners.get(message.event)?.forEach(listener => (listener as (detail: unknown) => void)(message.detail));
+            return;
+        }
+        const pending = this.pendingCalls.get(message.id);
+        if (!pending) return;
+        this.pendingCalls.delete(message.id);
+        if (message.ok) pending.resolve(message.result);
+        else pending.reject(new DeformerBridgeError(message.error));
+    };
+
+    /** 调用 iframe 中元素的命令，参数和结果经过结构化克隆。 */
+    public call<K extends ArapDeformerCommandName>(command: K, ...args: CommandArgs<K>): Promise<CommandResult<K>> {
+        const id = this.nextCallId++;
+        return new Promise((resolve, reject) => {
+            this.pendingCalls.set(id, { resolve: resolve as (result: unknown) => void, reject });
+            const message: BridgeCommandMessage = { channel: BRIDGE_CHANNEL, id, command, args };
+            this.frame.postMessage(message, this.targetOrigin);
+        });
+    }
+
+    /** 订阅 iframe 中元素的事件，返回取消订阅的函数。 */
+    public on<K extends ArapDeformerEventName>(name: K, listener: (detail: ArapDeformerEvents[K]) => void): () => void {
+        let listeners = this.listeners.get(name);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(name, listeners);
+        }
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+    }
+
+    public dispose(): void {
+        window.removeEventListener('message', this.handleMessage);
+        this.pendingCalls.forEach(pending => pending.reject(new DeformerBridgeError('DeformerFrameClient was disposed.')));
+        this.pendingCalls.clear();
+        this.listeners.clear();
+    }
+}
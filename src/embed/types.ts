@@ -0,0 +1,51 @@
+// src/embed/types.ts
+
+import type { ConstraintFile } from '../deformer/constraintFile';
+import type { SolverErrorCode, SolveStats } from '../deformer/solverTypes';
+
+/**
+ * 嵌入时传入的网格：每个顶点 xyz 和三角形索引。事件和命令中的顶点索引都指向这里的顶点顺序，
+ * 位置相同的顶点（例如 UV 接缝两侧）在求解器中会被焊接成一个，它们总是一起移动。
+ */
+export type EmbedMesh = {
+    vertices: Float32Array;
+    faces: Int32Array;
+};
+
+/**
+ * 约束集合，与命令行的约束文件格式相同（见 parseConstraintFile）：anchors 和 handles 中的 vertex 指向 EmbedMesh 的顶点，
+ * 只给出索引或没有 position / offset 的约束停在静止位置；solver 中的设置覆盖组件的默认求解器设置。
+ */
+export type ConstraintSet = ConstraintFile;
+
+/** 一次求解的结果，vertices 按 EmbedMesh 的顶点顺序排列。 */
+export type EmbedDeformResult = {
+    vertices: Float32Array;
+    stats: SolveStats;
+};
+
+/** 组件发出的事件及其数据。 */
+export type ArapDeformerEvents = {
+    meshLoaded: { vertexCount: number; faceCount: number };
+    // Every constraint with its current target, after setConstraints, a reset or a drag.
+    constraintsChanged: { constraints: ConstraintSet };
+    deformed: EmbedDeformResult;
+    solveError: { message: string; code: SolverErrorCode };
+};
+
+export type ArapDeformerEventName = keyof ArapDeformerEvents;
+
+/**
+ * 组件的命令。setMesh 立即返回，网格载入完成时发出 meshLoaded；
+ * setConstraints 的约束集合无效时抛出 ConstraintFileError。solve 的结果被更新的请求取代时为 null。
+ */
+export type ArapDeformerCommands = {
+    setMesh: (mesh: EmbedMesh) => void;
+    setConstraints: (constraints: ConstraintSet) => void;
+    solve: () => Promise<EmbedDeformResult | null>;
+    // Back to the rest pose, with every constraint back at its rest position.
+    reset: () => void;
+    getVertices: () => Float32Array | null;
+};
+
+export type ArapDeformerCommandName = keyof ArapDeformerCommands;
@@ -0,0 +1,61 @@
+// src/geometry/arapEnergy.ts
+
+import { bestFitRotation, mat3 } from './linalg3';
+import type { MeshTopology } from './meshTopology';
+
+export type ArapEnergyResult = {
+    energy: number;
+    // Energy of each one-ring cell, i.e. how far it is from a rigid motion of its rest shape.
+    perVertex: Float64Array;
+    // Best-fit rotation of each cell, row-major 3x3 per vertex.
+    rotations: Float64Array;
+};
+
+/**
+ * 计算 ARAP 能量 E = Σ_i Σ_j w_ij ||(p'_i - p'_j) - R_i (p_i - p_j)||²，
+ * 其中 R_i 是每个一环的最佳拟合旋转。
+ */
+export function computeArapEnergy(
+    topology: MeshTopology,
+    rest: ArrayLike<number>,
+    deformed: ArrayLike<number>
+): ArapEnergyResult {
+    const { vertexCount, offsets, neighbors, weights } = topology;
+    const perVertex = new Float64Array(vertexCount);
+    const rotations = new Float64Array(vertexCount * 9);
+    const covariance = mat3();
+    const rotation = mat3();
+    let energy = 0;
+
+    for (let i = 0; i < vertexCount; i++) {
+        covariance.fill(0);
+        for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+            const j = neighbors[k];
+            const w = weights[k];
+            const ex = rest[i * 3] - rest[j * 3], ey = rest[i * 3 + 1] - rest[j * 3 + 1], ez = rest[i * 3 + 2] - rest[j * 3 + 2];
+            const dx = deformed[i * 3] - deformed[j * 3], dy = deformed[i * 3 + 1] - deformed[j * 3 + 1], dz = deformed[i * 3 + 2] - deformed[j * 3 + 2];
+            covariance[0] += w * ex * dx; covariance[1] += w * ex * dy; covariance[2] += w * ex * dz;
+            covariance[3] += w * ey * dx; covariance[4] += w * ey * dy; covariance[5] += w * ey * dz;
+            covariance[6] += w * ez * dx; covariance[7] += w * ez * dy; covariance[8] += w * ez * dz;
+        }
+        bestFitRotation(covariance, rotation);
+        rotations.set(rotation, i * 9);
+
+        let cellEnergy = 0;
+        for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+            const j = neighbors[k];
+            const ex = rest[i * 3] - rest[j * 3], ey = rest[i * 3 + 1] - rest[j * 3 + 1], ez = rest[i * 3 + 2] - rest[j * 3 + 2];
+            const rx = rotation[0] * ex + rotation[1] * ey + rotation[2] * ez;
+            const ry = rotation[3] * ex + rotation[4] * ey + rotation[5] * ez;
+            const rz = rotation[6] * ex + rotation[7] * ey + rotation[8] * ez;
+            const dx = deformed[i * 3] - deformed[j * 3] - rx;
+            const dy = deformed[i * 3 + 1] - deformed[j * 3 + 1] - ry;
+            const dz = deformed[i * 3 + 2] - deformed[j * 3 + 2] - rz;
+            cellEnergy += weights[k] * (dx * dx + dy * dy + dz * dz);
+        }
+        perVertex[i] = cellEnergy;
+        energy += cellEnergy;
+    }
+
+    return { energy, perVertex, rotations };
+}
@@ -0,0 +1,141 @@
+// src/geometry/cageBuilder.ts
+
+export type CageMesh = {
+    vertices: Float32Array;
+    faces: Int32Array;
+};
+
+export const DEFAULT_CAGE_RESOLUTION = 8;
+
+// Neighbour offsets of the six faces of a voxel, as [axis, direction].
+const FACE_DIRECTIONS: [number, number][] = [[0, 1], [0, -1], [1, 1], [1, -1], [2, 1], [2, -1]];
+
+/**
+ * 把模型体素化后取外表面作为笼：最长边划分为 resolution 格，三角形按半格间距采样标记体素，
+ * 再向外膨胀 dilation 格，并把被表面包住的内部体素一起填实。
+ * 结果是包住整个模型的封闭三角网格（每个外露的体素面两个三角形，法线朝外），顶点坐标与输入相同。
+ */
+export function buildVoxelCage(vertices: Float32Array, faces: Int32Array, resolution = DEFAULT_CAGE_RESOLUTION, dilation = 1): CageMesh {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < vertices.length; i++) {
+        min[i % 3] = Math.min(min[i % 3], vertices[i]);
+        max[i % 3] = Math.max(max[i % 3], vertices[i]);
+    }
+    if (!(max[0] >= min[0])) throw new Error('Cannot build a cage around an empty mesh.');
+    const cellSize = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / Math.max(1, Math.round(resolution)) || 1;
+
+    // One spare layer beyond the dilation keeps the outside connected, so the flood fill can start in a corner.
+    const padding = dilation + 1;
+    const dims = [0, 1, 2].map(axis => Math.max(1, Math.ceil((max[axis] - min[axis]) / cellSize)) + 2 * padding);
+    const origin = [0, 1, 2].map(axis => min[axis] - padding * cellSize);
+    const cellIndex = (x: number, y: number, z: number) => (x * dims[1] + y) * dims[2] + z;
+    const cellCount = dims[0] * dims[1] * dims[2];
+
+    let occupied = new Uint8Array(cellCount);
+    const mark = (x: number, y: number, z: number) => {
+        const cx = Math.min(dims[0] - 1, Math.floor((x - origin[0]) / cellSize));
+        const cy = Math.min(dims[1] - 1, Math.floor((y - origin[1]) / cellSize));
+        const cz = Math.min(dims[2] - 1, Math.floor((z - origin[2]) / cellSize));
+        occupied[cellIndex(cx, cy, cz)] = 1;
+    };
+    for (let f = 0; f + 2 < faces.length; f += 3) {
+        const a = faces[f] * 3, b = faces[f + 1] * 3, c = faces[f + 2] * 3;
+        const longestEdge = Math.max(
+            Math.hypot(vertices[b] - vertices[a], vertices[b + 1] - vertices[a + 1], vertices[b + 2] - vertices[a + 2]),
+            Math.hypot(vertices[c] - vertices[a], vertices[c + 1] - vertices[a + 1], vertices[c + 2] - vertices[a + 2]),
+            Math.hypot(vertices[c] - vertices[b], vertices[c + 1] - vertices[b + 1], vertices[c + 2] - vertices[b + 2]),
+        );
+        const steps = Math.max(1, Math.ceil(longestEdge / (cellSize * 0.5)));
+        for (let u = 0; u <= steps; u++) {
+            for (let v = 0; u + v <= steps; v++) {
+                const s = u / steps, t = v / steps;
+                mark(
+                    vertices[a] + s * (vertices[b] - vertices[a]) + t * (vertices[c] - vertices[a]),
+                    vertices[a + 1] + s * (vertices[b + 1] - vertices[a + 1]) + t * (vertices[c + 1] - vertices[a + 1]),
+                    vertices[a + 2] + s * (vertices[b + 2] - vertices[a + 2]) + t * (vertices[c + 2] - vertices[a + 2]),
+                );
+            }
+        }
+    }
+
+    for (let pass = 0; pass < dilation; pass++) {
+        const dilated = occupied.slice();
+        for (let x = 0; x < dims[0]; x++) {
+            for (let y = 0; y < dims[1]; y++) {
+                for (let z = 0; z < dims[2]; z++) {
+                    if (!occupied[cellIndex(x, y, z)]) continue;
+                    for (let dx = -1; dx <= 1; dx++) {
+                        for (let dy = -1; dy <= 1; dy++) {
+                            for (let dz = -1; dz <= 1; dz++) {
+                                const nx = x + dx, ny = y + dy, nz = z + dz;
+                                if (nx < 0 || ny < 0 || nz < 0 || nx >= dims[0] || ny >= dims[1] || nz >= dims[2]) continue;
+                                dilated[cellIndex(nx, ny, nz)] = 1;
+                            }
+                        }
+                    }
+                }
+            }
+        }
+        occupied = dilated;
+    }
+
+    // Flood the outside from a corner; every cell it cannot reach is part of the solid.
+    const outside = new Uint8Array(cellCount);
+    const stack = [cellIndex(0, 0, 0)];
+    outside[stack[0]] = 1;
+    while (stack.length > 0) {
+        const cell = stack.pop()!;
+        const position = [Math.floor(cell / (dims[1] * dims[2])), Math.floor(cell / dims[2]) % dims[1], cell % dims[2]];
+        for (const [axis, direction] of FACE_DIRECTIONS) {
+            const next = [...position];
+            next[axis] += direction;
+            if (next[axis] < 0 || next[axis] >= dims[axis]) continue;
+            const neighbor = cellIndex(next[0], next[1], next[2]);
+            if (occupied[neighbor] || outside[neighbor]) continue;
+            outside[neighbor] = 1;
+            stack.push(neighbor);
+        }
+    }
+
+    // Emit every solid face that borders the outside; grid corners are shared between neighbouring faces.
+    const cornerIds = new Map<number, number>();
+    const cageVertices: number[] = [];
+    const cageFaces: number[] = [];
+    const corner = (x: number, y: number, z: number): number => {
+        const key = (x * (dims[1] + 1) + y) * (dims[2] + 1) + z;
+        let id = cornerIds.get(key);
+        if (id === undefined) {
+            id = cageVertices.length / 3;
+            cornerIds.set(key, id);
+            cageVertices.push(origin[0] + x * cellSize, origin[1] + y * cellSize, origin[2] + z * cellSize);
+        }
+        return id;
+    };
+    for (let x = 0; x < dims[0]; x++) {
+        for (let y = 0; y < dims[1]; y++) {
+            for (let z = 0; z < dims[2]; z++) {
+                if (outside[cellIndex(x, y, z)]) continue;
+                for (const [axis, direction] of FACE_DIRECTIONS) {
+                    const next = [x, y, z];
+                    next[axis] += direction;
+                    if (!outside[cellIndex(next[0], next[1], next[2])]) continue;
+
+                    // Walk the face's corners counter-clockwise as seen from outside.
+                    const u = (axis + 1) % 3, v = (axis + 2) % 3;
+                    const square: [number, number][] = direction > 0 ? [[0, 0], [1, 0], [1, 1], [0, 1]] : [[0, 0], [0, 1], [1, 1], [1, 0]];
+                    const ids = square.map(([du, dv]) => {
+                        const p = [x, y, z];
+                        if (direction > 0) p[axis] += 1;
+                        p[u] += du;
+                        p[v] += dv;
+                        return corner(p[0], p[1], p[2]);
+                    });
+                    cageFaces.push(ids[0], ids[1], ids[2], ids[0], ids[2], ids[3]);
+                }
+            }
+        }
+    }
+
+    return { vertices: new Float32Array(cageVertices), faces: new Int32Array(cageFaces) };
+}
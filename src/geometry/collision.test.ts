@@ -0,0 +1,140 @@
+// src/geometry/collision.test.ts
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { buildSolverMesh } from '../utils/vertexMapping';
+import {
+    buildTriangleBvh,
+    computeContactTargets,
+    detectCollisions,
+    findSelfIntersections,
+    queryTriangleBvh,
+    trianglesIntersect,
+    type CollisionOptions,
+} from './collision';
+
+// Two spheres of radius 1 in one mesh, the second one `distance` along x from the first.
+const twoSpheres = (distance: number) => {
+    const sphere = buildSolverMesh(new THREE.IcosahedronGeometry(1, 2));
+    const count = sphere.vertices.length / 3;
+    const vertices = new Float32Array([...sphere.vertices, ...sphere.vertices.map((value, i) => value + (i % 3 === 0 ? distance : 0))]);
+    const faces = new Int32Array([...sphere.faces, ...sphere.faces.map(index => index + count)]);
+    return { vertices, faces, count };
+};
+
+// Every intersecting pair (f < g) of faces without a shared vertex, by testing all of them.
+const bruteForceIntersections = (vertices: Float32Array, faces: Int32Array) => {
+    const pairs: number[] = [];
+    const faceCount = faces.length / 3;
+    for (let f = 0; f < faceCount; f++) {
+        for (let g = f + 1; g < faceCount; g++) {
+            const shared = [0, 1, 2].some(i => [0, 1, 2].some(j => faces[f * 3 + i] === faces[g * 3 + j]));
+            if (!shared && trianglesIntersect(vertices, faces, f, g)) pairs.push(f, g);
+        }
+    }
+    return pairs;
+};
+
+const sortedPairs = (pairs: ArrayLike<number>) =>
+    Array.from({ length: pairs.length / 2 }, (_, k) => `${pairs[k * 2]},${pairs[k * 2 + 1]}`).sort();
+
+describe('trianglesIntersect', () => {
+    const vertices = new Float32Array([
+        0, 0, 0, 2, 0, 0, 0, 2, 0,
+        // Pierces the first triangle.
+        0.5, 0.5, -1, 0.5, 0.5, 1, 1.5, 0.5, 1,
+        // Lies in the same plane, overlapping it.
+        0.2, 0.2, 0, 1, 0.2, 0, 0.2, 1, 0,
+        // Above the first triangle.
+        0, 0, 1, 2, 0, 1, 0, 2, 1,
+    ]);
+    const faces = new Int32Array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+
+    it('finds triangles whose edges cross each other, but not coplanar or separate ones', () => {
+        expect(trianglesIntersect(vertices, faces, 0, 1)).toBe(true);
+        expect(trianglesIntersect(vertices, faces, 1, 0)).toBe(true);
+        expect(trianglesIntersect(vertices, faces, 0, 2)).toBe(false);
+        expect(trianglesIntersect(vertices, faces, 0, 3)).toBe(false);
+    });
+});
+
+describe('queryTriangleBvh', () => {
+    it('visits exactly the triangles whose bounding boxes overlap the query box', () => {
+        const { vertices, faces } = buildSolverMesh(new THREE.TorusKnotGeometry(1, 0.3, 64, 8));
+        const bvh = buildTriangleBvh(vertices, faces);
+        expect([...bvh.order].sort((a, b) => a - b)).toEqual(Array.from({ length: faces.length / 3 }, (_, f) => f));
+
+        for (const box of [[-0.5, -0.5, -0.5, 0.5, 0.5, 0.5], [0.8, -2, -2, 3, 2, 2], [5, 5, 5, 6, 6, 6]]) {
+            const visited: number[] = [];
+            queryTriangleBvh(bvh, box, f => visited.push(f));
+            const expected = Array.from({ length: faces.length / 3 }, (_, f) => f).filter(f => [0, 1, 2].every(c =>
+                bvh.faceBounds[f * 6 + c] <= box[c + 3] && bvh.faceBounds[f * 6 + c + 3] >= box[c]));
+            expect(visited.sort((a, b) => a - b)).toEqual(expected);
+        }
+    });
+});
+
+describe('findSelfIntersections', () => {
+    it('finds nothing in a closed sphere or two separate spheres', () => {
+        const { vertices, faces } = twoSpheres(2.5);
+        expect(findSelfIntersections(vertices, faces)).toEqual(new Int32Array(0));
+    });
+
+    it('finds the same pairs as testing every pair of faces', () => {
+        const { vertices, faces, count } = twoSpheres(1.5);
+        const pairs = findSelfIntersections(vertices, faces);
+
+        expect(pairs.length).toBeGreaterThan(0);
+        expect(sortedPairs(pairs)).toEqual(sortedPairs(bruteForceIntersections(vertices, faces)));
+        // Every pair has one face from each sphere.
+        for (let k = 0; k < pairs.length; k += 2) {
+            expect(faces[pairs[k] * 3] < count).not.toBe(faces[pairs[k + 1] * 3] < count);
+        }
+    });
+});
+
+describe('detectCollisions', () => {
+    it('reports vertices behind the plane and leaves out pairs that intersect at rest', () => {
+        const { vertices, faces } = twoSpheres(1.5);
+        const plane = { normal: [0, 1, 0] as [number, number, number], constant: 0.9 };
+        const report = detectCollisions(vertices, faces, plane, true);
+
+        expect(report.planeVertices.length).toBeGreaterThan(0);
+        report.planeVertices.forEach(i => expect(vertices[i * 3 + 1]).toBeLessThan(-0.9));
+        expect(report.intersectingFaces).toEqual(findSelfIntersections(vertices, faces));
+        expect(report.intersectionVertices.length).toBeGreaterThan(0);
+
+        const atRest = detectCollisions(vertices, faces, null, true, report.intersectingFaces);
+        expect(atRest).toEqual({ planeVertices: [], intersectingFaces: new Int32Array(0), intersectionVertices: [] });
+    });
+});
+
+describe('computeContactTargets', () => {
+    const options: CollisionOptions = { plane: null, selfIntersections: false, maxIterations: 4 };
+
+    it('pushes free vertices behind the plane back to the margin', () => {
+        const vertices = new Float32Array([0, -1, 0, 1, 0.5, 0, 2, -0.2, 3]);
+        const plane = { normal: [0, 1, 0] as [number, number, number], constant: 0 };
+        const targets = computeContactTargets(vertices, vertices, [0, 1, 2], { ...options, plane }, new Int32Array(0), i => i !== 2, 0.01);
+
+        expect([...targets.keys()]).toEqual([0]);
+        expect(targets.get(0)![0]).toBeCloseTo(0);
+        expect(targets.get(0)![1]).toBeCloseTo(0.01);
+        expect(targets.get(0)![2]).toBeCloseTo(0);
+    });
+
+    it('pushes vertices that passed through another face back to the side they started on', () => {
+        // A triangle in z = 0 and one standing above it whose lowest corner was dragged through it.
+        const rest = new Float32Array([-2, -2, 0, 2, -2, 0, 0, 2, 0, 0, 0, 0.5, 0.3, 0, 2, 0, 0.3, 2]);
+        const pose = rest.slice();
+        pose[11] = -0.5;
+        const targets = computeContactTargets(rest, pose, [0, 1, 2, 3, 4, 5], { ...options, selfIntersections: true }, new Int32Array(0), () => true, 0.01);
+
+        expect(targets.get(3)![2]).toBeCloseTo(0.01);
+        expect(targets.has(4)).toBe(false);
+        expect(targets.has(5)).toBe(false);
+        // Nothing is pushed for a pair that already intersected at rest.
+        expect(computeContactTargets(pose, pose, [0, 1, 2, 3, 4, 5], { ...options, selfIntersections: true }, Int32Array.from([0, 1]), () => true, 0.01).size).toBe(0);
+    });
+});
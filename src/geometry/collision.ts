@@ -0,0 +1,294 @@
+// src/geometry/collision.ts
+
+/**
+ * 网格坐标系中的裁剪平面：n·p + constant ≥ 0 的一侧允许顶点存在（与 THREE.Plane 的约定相同），normal 为单位向量。
+ */
+export type CollisionPlane = {
+    normal: [number, number, number];
+    constant: number;
+};
+
+/**
+ * 求解时的碰撞处理：每次求解后找出穿过平面的顶点和自相交的三角形，为其中没有约束的顶点加上接触约束
+ * （推回平面上或相交面的原来一侧），再继续求解，直到没有新的穿透或达到 maxIterations 轮。
+ */
+export type CollisionOptions = {
+    plane: CollisionPlane | null;
+    selfIntersections: boolean;
+    maxIterations: number;
+};
+
+export const DEFAULT_CONTACT_ITERATIONS = 4;
+
+/** 一个姿态中检测到的碰撞：在平面外侧的顶点，以及互相穿插的三角形对（不相邻，且静止姿态中不相交）和它们的顶点。 */
+export type CollisionReport = {
+    planeVertices: number[];
+    // Flat list of face pairs [f0, g0, f1, g1, ...].
+    intersectingFaces: Int32Array;
+    intersectionVertices: number[];
+};
+
+/**
+ * 三角形的包围盒层次（BVH）。节点 n 的包围盒为 bounds[n*6 .. n*6+6)（min xyz, max xyz），
+ * 叶节点的三角形为 order[start[n] .. start[n] + count[n])，内部节点的 count 为 0，子节点为 left[n] 和 left[n] + 1。
+ */
+export type TriangleBvh = {
+    bounds: Float32Array;
+    // Bounding box of every triangle, laid out like the node bounds.
+    faceBounds: Float32Array;
+    start: Int32Array;
+    count: Int32Array;
+    left: Int32Array;
+    order: Int32Array;
+};
+
+const LEAF_SIZE = 4;
+
+const triangleBounds = (vertices: ArrayLike<number>, faces: ArrayLike<number>, f: number, out: Float32Array, offset = 0): Float32Array => {
+    for (let c = 0; c < 3; c++) {
+        const a = vertices[faces[f * 3] * 3 + c], b = vertices[faces[f * 3 + 1] * 3 + c], d = vertices[faces[f * 3 + 2] * 3 + c];
+        out[offset + c] = Math.min(a, b, d);
+        out[offset + 3 + c] = Math.max(a, b, d);
+    }
+    return out;
+};
+
+/** 按最长轴的中位数递归划分三角形，建立 BVH。 */
+export function buildTriangleBvh(vertices: ArrayLike<number>, faces: ArrayLike<number>): TriangleBvh {
+    const faceCount = Math.floor(faces.length / 3);
+    const faceBounds = new Float32Array(faceCount * 6);
+    const centroids = new Float32Array(faceCount * 3);
+    for (let f = 0; f < faceCount; f++) {
+        triangleBounds(vertices, faces, f, faceBounds, f * 6);
+        for (let c = 0; c < 3; c++) centroids[f * 3 + c] = (faceBounds[f * 6 + c] + faceBounds[f * 6 + 3 + c]) / 2;
+    }
+
+    const order = Int32Array.from({ length: faceCount }, (_, f) => f);
+    // A binary tree with leaves of at least LEAF_SIZE / 2 faces has fewer than 2 * faceCount nodes.
+    const capacity = Math.max(1, 2 * faceCount);
+    const bounds = new Float32Array(capacity * 6);
+    const start = new Int32Array(capacity);
+    const count = new Int32Array(capacity);
+    const left = new Int32Array(capacity);
+    let nodeCount = 1;
+
+    const stack = [{ node: 0, from: 0, to: faceCount }];
+    while (stack.length > 0) {
+        const { node, from, to } = stack.pop()!;
+        const box = bounds.subarray(node * 6, node * 6 + 6);
+        box.set([Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity]);
+        for (let k = from; k < to; k++) {
+            const f = order[k];
+            for (let c = 0; c < 3; c++) {
+                box[c] = Math.min(box[c], faceBounds[f * 6 + c]);
+                box[3 + c] = Math.max(box[3 + c], faceBounds[f * 6 + 3 + c]);
+            }
+        }
+        if (to - from <= LEAF_SIZE) {
+            start[node] = from;
+            count[node] = to - from;
+            continue;
+        }
+        const extent = [0, 1, 2].map(c => box[3 + c] - box[c]);
+        const axis = extent.indexOf(Math.max(...extent));
+        const sorted = Array.from(order.subarray(from, to)).sort((a, b) => centroids[a * 3 + axis] - centroids[b * 3 + axis]);
+        order.set(sorted, from);
+        const middle = (from + to) >> 1;
+        left[node] = nodeCount;
+        nodeCount += 2;
+        stack.push({ node: left[node], from, to: middle }, { node: left[node] + 1, from: middle, to });
+    }
+    return { bounds, faceBounds, start, count, left, order };
+}
+
+const overlaps = (bounds: ArrayLike<number>, offset: number, box: ArrayLike<number>): boolean =>
+    bounds[offset] <= box[3] && bounds[offset + 3] >= box[0] &&
+    bounds[offset + 1] <= box[4] && bounds[offset + 4] >= box[1] &&
+    bounds[offset + 2] <= box[5] && bounds[offset + 5] >= box[2];
+
+/** 对包围盒与 box（min xyz, max xyz）重叠的每个三角形调用 visit。 */
+export function queryTriangleBvh(bvh: TriangleBvh, box: ArrayLike<number>, visit: (face: number) => void): void {
+    if (bvh.order.length === 0) return;
+    const stack = [0];
+    while (stack.length > 0) {
+        const node = stack.pop()!;
+        if (!overlaps(bvh.bounds, node * 6, box)) continue;
+        if (bvh.count[node] > 0) {
+            for (let k = bvh.start[node]; k < bvh.start[node] + bvh.count[node]; k++) {
+                if (overlaps(bvh.faceBounds, bvh.order[k] * 6, box)) visit(bvh.order[k]);
+            }
+        } else {
+            stack.push(bvh.left[node], bvh.left[node] + 1);
+        }
+    }
+}
+
+// Edges this close to parallel with the triangle (relative to their lengths) do not count as crossing it.
+const INTERSECTION_EPSILON = 1e-9;
+
+/** 线段 p→q 是否穿过三角形 abc（Möller–Trumbore，参数都是顶点在 vertices 中的下标）。 */
+const segmentHitsTriangle = (vertices: ArrayLike<number>, p: number, q: number, a: number, b: number, c: number): boolean => {
+    const dx = vertices[q * 3] - vertices[p * 3], dy = vertices[q * 3 + 1] - vertices[p * 3 + 1], dz = vertices[q * 3 + 2] - vertices[p * 3 + 2];
+    const ux = vertices[b * 3] - vertices[a * 3], uy = vertices[b * 3 + 1] - vertices[a * 3 + 1], uz = vertices[b * 3 + 2] - vertices[a * 3 + 2];
+    const vx = vertices[c * 3] - vertices[a * 3], vy = vertices[c * 3 + 1] - vertices[a * 3 + 1], vz = vertices[c * 3 + 2] - vertices[a * 3 + 2];
+    const hx = dy * vz - dz * vy, hy = dz * vx - dx * vz, hz = dx * vy - dy * vx;
+    const det = ux * hx + uy * hy + uz * hz;
+    if (Math.abs(det) <= INTERSECTION_EPSILON * Math.hypot(dx, dy, dz) * Math.hypot(ux, uy, uz) * Math.hypot(vx, vy, vz)) return false;
+    const sx = vertices[p * 3] - vertices[a * 3], sy = vertices[p * 3 + 1] - vertices[a * 3 + 1], sz = vertices[p * 3 + 2] - vertices[a * 3 + 2];
+    const s = (sx * hx + sy * hy + sz * hz) / det;
+    if (s < 0 || s > 1) return false;
+    const qx = sy * uz - sz * uy, qy = sz * ux - sx * uz, qz = sx * uy - sy * ux;
+    const w = (dx * qx + dy * qy + dz * qz) / det;
+    if (w < 0 || s + w > 1) return false;
+    const t = (vx * qx + vy * qy + vz * qz) / det;
+    return t >= 0 && t <= 1;
+};
+
+/** 两个三角形是否相交：任一三角形的某条边穿过另一个三角形。共面重叠不算相交。 */
+export function trianglesIntersect(vertices: ArrayLike<number>, faces: ArrayLike<number>, f: number, g: number): boolean {
+    const edgeHits = (from: number, to: number) => {
+        const [a, b, c] = [faces[to * 3], faces[to * 3 + 1], faces[to * 3 + 2]];
+        for (let k = 0; k < 3; k++) {
+            if (segmentHitsTriangle(vertices, faces[from * 3 + k], faces[from * 3 + (k + 1) % 3], a, b, c)) return true;
+        }
+        return false;
+    };
+    return edgeHits(f, g) || edgeHits(g, f);
+}
+
+const sharesVertex = (faces: ArrayLike<number>, f: number, g: number): boolean => {
+    for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+            if (faces[f * 3 + i] === faces[g * 3 + j]) return true;
+        }
+    }
+    return false;
+};
+
+/** 用 BVH 找出所有互相穿插的三角形对（f < g）。共享顶点的相邻三角形不参与检测。 */
+export function findSelfIntersections(vertices: ArrayLike<number>, faces: ArrayLike<number>, bvh = buildTriangleBvh(vertices, faces)): Int32Array {
+    const pairs: number[] = [];
+    for (let f = 0; f * 3 + 2 < faces.length; f++) {
+        queryTriangleBvh(bvh, bvh.faceBounds.subarray(f * 6, f * 6 + 6), g => {
+            if (g > f && !sharesVertex(faces, f, g) && trianglesIntersect(vertices, faces, f, g)) pairs.push(f, g);
+        });
+    }
+    return Int32Array.from(pairs);
+}
+
+const planeDistance = (plane: CollisionPlane, vertices: ArrayLike<number>, i: number): number =>
+    plane.normal[0] * vertices[i * 3] + plane.normal[1] * vertices[i * 3 + 1] + plane.normal[2] * vertices[i * 3 + 2] + plane.constant;
+
+/** 在平面外侧（n·p + constant < 0）的顶点。 */
+export function findPlanePenetrations(vertices: ArrayLike<number>, plane: CollisionPlane): number[] {
+    const penetrating: number[] = [];
+    for (let i = 0; i * 3 < vertices.length; i++) {
+        if (planeDistance(plane, vertices, i) < 0) penetrating.push(i);
+    }
+    return penetrating;
+}
+
+// Face pairs (f < g) as one number each, for looking up the pairs of another list.
+const pairKeys = (pairs: Int32Array, faceCount: number): Set<number> => {
+    const keys = new Set<number>();
+    for (let k = 0; k < pairs.length; k += 2) keys.add(pairs[k] * faceCount + pairs[k + 1]);
+    return keys;
+};
+
+/**
+ * 检测一个姿态中的碰撞，plane 为 null 时不检查平面，selfIntersections 为 false 时不检查自相交。
+ * restIntersections 中的三角形对（静止姿态中就已相交）不计入。
+ */
+export function detectCollisions(
+    vertices: ArrayLike<number>,
+    faces: ArrayLike<number>,
+    plane: CollisionPlane | null,
+    selfIntersections: boolean,
+    restIntersections: Int32Array = new Int32Array(0)
+): CollisionReport {
+    const faceCount = faces.length / 3;
+    const restPairs = pairKeys(restIntersections, faceCount);
+    const pairs = selfIntersections ? findSelfIntersections(vertices, faces) : new Int32Array(0);
+    const intersecting: number[] = [];
+    const intersectionVertices = new Set<number>();
+    for (let k = 0; k < pairs.length; k += 2) {
+        if (restPairs.has(pairs[k] * faceCount + pairs[k + 1])) continue;
+        intersecting.push(pairs[k], pairs[k + 1]);
+        [pairs[k], pairs[k + 1]].forEach(f => {
+            for (let c = 0; c < 3; c++) intersectionVertices.add(faces[f * 3 + c]);
+        });
+    }
+    return {
+        planeVertices: plane ? findPlanePenetrations(vertices, plane) : [],
+        intersectingFaces: Int32Array.from(intersecting),
+        intersectionVertices: [...intersectionVertices],
+    };
+}
+
+/** 三角形 f 的单位法向和 constant（n·p + constant = 0 为其所在平面），退化三角形返回 null。 */
+const facePlane = (vertices: ArrayLike<number>, faces: ArrayLike<number>, f: number): CollisionPlane | null => {
+    const [a, b, c] = [faces[f * 3] * 3, faces[f * 3 + 1] * 3, faces[f * 3 + 2] * 3];
+    const u = [0, 1, 2].map(k => vertices[b + k] - vertices[a + k]);
+    const v = [0, 1, 2].map(k => vertices[c + k] - vertices[a + k]);
+    const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const length = Math.hypot(n[0], n[1], n[2]);
+    if (length === 0) return null;
+    const normal = n.map(value => value / length) as [number, number, number];
+    return { normal, constant: -(normal[0] * vertices[a] + normal[1] * vertices[a + 1] + normal[2] * vertices[a + 2]) };
+};
+
+/**
+ * 为当前姿态中的穿透求接触目标（顶点下标 → 目标位置），free 之外的顶点（例如用户的约束）不会得到接触约束：
+ * - 平面外侧的顶点推回平面内侧 margin 处；
+ * - 对每一对相交的三角形，穿到对方另一侧的顶点（与静止姿态中它相对于对方三角形的一侧相比）沿对方的法向推回原来一侧，
+ *   离开对方平面 margin，但不会因此越过裁剪平面。静止姿态中就已相交的三角形对（restIntersections，来自 findSelfIntersections）被忽略。
+ * 一个顶点有多个目标时取推得最远的那个。
+ */
+export function computeContactTargets(
+    restVertices: ArrayLike<number>,
+    vertices: ArrayLike<number>,
+    faces: ArrayLike<number>,
+    options: CollisionOptions,
+    restIntersections: Int32Array,
+    free: (index: number) => boolean,
+    margin: number
+): Map<number, [number, number, number]> {
+    const { plane } = options;
+    const targets = new Map<number, { position: [number, number, number]; push: number }>();
+    const propose = (index: number, normal: number[], push: number) => {
+        if (!free(index) || (targets.get(index)?.push ?? -1) >= Math.abs(push)) return;
+        const position = [0, 1, 2].map(k => vertices[index * 3 + k] + normal[k] * push) as [number, number, number];
+        // Pushing a vertex out of the mesh must not push it through the plane.
+        const behind = plane ? planeDistance(plane, position, 0) - margin : 0;
+        if (plane && behind < 0) [0, 1, 2].forEach(k => position[k] -= plane.normal[k] * behind);
+        targets.set(index, { position, push: Math.abs(push) });
+    };
+
+    if (plane) {
+        findPlanePenetrations(vertices, plane).forEach(i => propose(i, plane.normal, margin - planeDistance(plane, vertices, i)));
+    }
+
+    if (options.selfIntersections) {
+        const pairs = findSelfIntersections(vertices, faces);
+        const faceCount = faces.length / 3;
+        const restPairs = pairKeys(restIntersections, faceCount);
+        // Push the vertices of `from` that crossed `onto` back to the side of `onto` they started on.
+        const separate = (from: number, onto: number) => {
+            const now = facePlane(vertices, faces, onto);
+            const rest = facePlane(restVertices, faces, onto);
+            if (!now || !rest) return;
+            for (let k = 0; k < 3; k++) {
+                const i = faces[from * 3 + k];
+                const restSide = Math.sign(planeDistance(rest, restVertices, i)) || 1;
+                const distance = planeDistance(now, vertices, i);
+                if (distance * restSide < margin) propose(i, now.normal, restSide * margin - distance);
+            }
+        };
+        for (let k = 0; k < pairs.length; k += 2) {
+            if (restPairs.has(pairs[k] * faceCount + pairs[k + 1])) continue;
+            separate(pairs[k], pairs[k + 1]);
+            separate(pairs[k + 1], pairs[k]);
+        }
+    }
+    return new Map([...targets].map(([index, { position }]) => [index, position]));
+}
@@ -0,0 +1,72 @@
+// src/geometry/constraintValidation.test.ts
+
+import { describe, expect, it } from 'vitest';
+
+import { validateConstraints, type ValidationMesh } from './constraintValidation';
+import { labelConnectedComponents } from './meshTopology';
+
+const buildValidationMesh = (vertices: number[], faces: number[]): ValidationMesh => {
+    const components = labelConnectedComponents(vertices.length / 3, faces);
+    return { vertices: new Float32Array(vertices), componentLabels: components.labels, componentCount: components.count };
+};
+
+// Two triangles of a unit square, plus a vertex (index 4) that no face refers to.
+const squareWithLooseVertex = buildValidationMesh(
+    [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 5, 5, 5],
+    [0, 1, 2, 0, 2, 3]
+);
+
+// Two separate triangles.
+const twoTriangles = buildValidationMesh(
+    [0, 0, 0, 1, 0, 0, 0, 1, 0, 3, 0, 0, 4, 0, 0, 3, 1, 0],
+    [0, 1, 2, 3, 4, 5]
+);
+
+const codesAndSeverities = (issues: ReturnType<typeof validateConstraints>) =>
+    issues.map(issue => [issue.code, issue.severity]);
+
+describe('validateConstraints', () => {
+    it('accepts three anchors that span a plane', () => {
+        expect(validateConstraints(squareWithLooseVertex, [0, 1, 3], [2], new Float32Array(12))).toEqual([]);
+    });
+
+    it('rejects a vertex that is both an anchor and a handle', () => {
+        const issues = validateConstraints(squareWithLooseVertex, [0, 1, 3], [3, 2]);
+        expect(codesAndSeverities(issues)).toEqual([['handle-anchor-overlap', 'error']]);
+        expect(issues[0].vertices).toEqual([3]);
+    });
+
+    it('rejects NaN and infinite targets and points at their vertices', () => {
+        const positions = new Float32Array(12);
+        positions[4] = NaN;
+        positions[9] = Infinity;
+        const issues = validateConstraints(squareWithLooseVertex, [0, 1, 3], [2], positions);
+        expect(codesAndSeverities(issues)).toEqual([['invalid-position', 'error']]);
+        expect(issues[0].vertices).toEqual([1, 2]);
+    });
+
+    it('rejects a connected part without any constraint and highlights all of its vertices', () => {
+        const issues = validateConstraints(twoTriangles, [0, 1, 2], []);
+        expect(codesAndSeverities(issues)).toEqual([['unconstrained-component', 'error']]);
+        expect(issues[0].vertices).toEqual([3, 4, 5]);
+        expect(validateConstraints(twoTriangles, [0, 1, 2], [4])).toEqual([]);
+    });
+
+    it('warns about fewer than three anchors', () => {
+        expect(codesAndSeverities(validateConstraints(squareWithLooseVertex, [0, 1], [2]))).toEqual([['too-few-anchors', 'warning']]);
+        expect(codesAndSeverities(validateConstraints(squareWithLooseVertex, [], [2]))).toEqual([['too-few-anchors', 'warning']]);
+    });
+
+    it('warns about anchors on one line', () => {
+        const line = buildValidationMesh([0, 0, 0, 1, 0, 0, 2, 0, 0, 0, 1, 0], [0, 1, 3, 1, 2, 3]);
+        const issues = validateConstraints(line, [0, 1, 2], [3]);
+        expect(codesAndSeverities(issues)).toEqual([['collinear-anchors', 'warning']]);
+        expect(issues[0].vertices).toEqual([0, 1, 2]);
+    });
+
+    it('does not count a vertex without faces as an unconstrained part', () => {
+        const issues = validateConstraints(squareWithLooseVertex, [0, 1, 3], [2]);
+        expect(issues.map(issue => issue.code)).not.toContain('unconstrained-component');
+        expect(issues.filter(issue => issue.severity === 'error')).toEqual([]);
+    });
+});
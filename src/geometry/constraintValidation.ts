@@ -0,0 +1,134 @@
+// src/geometry/constraintValidation.ts
+
+import { symmetricEigen3 } from './linalg3';
+
+export type ConstraintIssueCode =
+    | 'too-few-anchors'
+    | 'collinear-anchors'
+    | 'unconstrained-component'
+    | 'handle-anchor-overlap'
+    | 'invalid-position';
+
+/**
+ * 约束检查发现的一个问题。severity 为 'error' 时求解器会拒绝求解（结果必然是 NaN 或相互矛盾），
+ * 'warning' 表示可以求解但变形很可能不稳定。vertices 是出问题区域的求解器顶点索引，供界面高亮。
+ */
+export type ConstraintIssue = {
+    code: ConstraintIssueCode;
+    severity: 'error' | 'warning';
+    message: string;
+    vertices: number[];
+};
+
+export type ValidationMesh = {
+    // Rest positions of the solver mesh, xyz per vertex.
+    vertices: Float32Array;
+    componentLabels: Int32Array;
+    componentCount: number;
+};
+
+// Anchors whose spread across their second principal axis is below this fraction of the first are treated as a line.
+const COLLINEAR_RATIO = 1e-3;
+
+const isCollinear = (vertices: Float32Array, indices: number[]): boolean => {
+    const mean = [0, 0, 0];
+    indices.forEach(index => {
+        for (let c = 0; c < 3; c++) mean[c] += vertices[index * 3 + c] / indices.length;
+    });
+    const covariance = new Float64Array(9);
+    indices.forEach(index => {
+        const d = [0, 1, 2].map(c => vertices[index * 3 + c] - mean[c]);
+        for (let r = 0; r < 3; r++) {
+            for (let c = 0; c < 3; c++) covariance[r * 3 + c] += d[r] * d[c];
+        }
+    });
+    const { values } = symmetricEigen3(covariance);
+    // Eigenvalues are variances, so the ratio is squared.
+    return values[0] <= 0 || values[1] <= values[0] * COLLINEAR_RATIO * COLLINEAR_RATIO;
+};
+
+/**
+ * 求解前检查约束：
+ * - 锚定点少于 3 个或全部共线（模型可以绕这条线自由转动）；
+ * - 某个连通分量上没有任何锚定点或约束点（线性系统奇异）；没有被任何三角形引用的孤立顶点不算在内；
+ * - 同一个顶点同时是锚定点和约束点；
+ * - positions（与 [...anchorIndices, ...handleIndices] 一一对应）中出现 NaN / Infinity。
+ */
+export function validateConstraints(
+    mesh: ValidationMesh,
+    anchorIndices: number[],
+    handleIndices: number[],
+    positions?: Float32Array
+): ConstraintIssue[] {
+    const issues: ConstraintIssue[] = [];
+    const vertexCount = mesh.vertices.length / 3;
+
+    const anchors = new Set(anchorIndices);
+    const overlapping = handleIndices.filter(index => anchors.has(index));
+    if (overlapping.length > 0) {
+        issues.push({
+            code: 'handle-anchor-overlap',
+            severity: 'error',
+            message: `${overlapping.length} vertex${overlapping.length === 1 ? ' is' : 'es are'} both an anchor and a handle. Remove one of the two roles.`,
+            vertices: overlapping,
+        });
+    }
+
+    if (positions) {
+        const constrained = [...anchorIndices, ...handleIndices];
+        const invalid = constrained.filter((_, i) =>
+            !Number.isFinite(positions[i * 3]) || !Number.isFinite(positions[i * 3 + 1]) || !Number.isFinite(positions[i * 3 + 2])
+        );
+        if (invalid.length > 0) {
+            issues.push({
+                code: 'invalid-position',
+                severity: 'error',
+                message: `${invalid.length} constraint target${invalid.length === 1 ? ' is' : 's are'} NaN or infinite.`,
+                vertices: invalid,
+            });
+        }
+    }
+
+    const constrainedComponents = new Set<number>();
+    [...anchorIndices, ...handleIndices].forEach(index => {
+        if (index >= 0 && index < vertexCount) constrainedComponents.add(mesh.componentLabels[index]);
+    });
+    // A vertex no face refers to is a component of its own with no edges; it carries no energy and stays where it is.
+    const componentSizes = new Int32Array(mesh.componentCount);
+    mesh.componentLabels.forEach(label => componentSizes[label]++);
+    const free: number[] = [];
+    const freeComponents = new Set<number>();
+    for (let i = 0; i < vertexCount; i++) {
+        const label = mesh.componentLabels[i];
+        if (constrainedComponents.has(label) || componentSizes[label] < 2) continue;
+        free.push(i);
+        freeComponents.add(label);
+    }
+    if (freeComponents.size > 0) {
+        const freeCount = freeComponents.size;
+        issues.push({
+            code: 'unconstrained-component',
+            severity: 'error',
+            message: `${freeCount} disconnected part${freeCount === 1 ? ' has' : 's have'} no anchor or handle, so ${freeCount === 1 ? 'its' : 'their'} position is undetermined. Add at least one anchor to each highlighted part.`,
+            vertices: free,
+        });
+    }
+
+    if (anchorIndices.length < 3) {
+        issues.push({
+            code: 'too-few-anchors',
+            severity: 'warning',
+            message: `Only ${anchorIndices.length} anchor${anchorIndices.length === 1 ? '' : 's'}. Use at least three anchors spread over the part that should stay in place.`,
+            vertices: anchorIndices,
+        });
+    } else if (isCollinear(mesh.vertices, anchorIndices)) {
+        issues.push({
+            code: 'collinear-anchors',
+            severity: 'warning',
+            message: 'All anchors lie on one line, so the model can spin around it. Add anchors off that line.',
+            vertices: anchorIndices,
+        });
+    }
+
+    return issues;
+}
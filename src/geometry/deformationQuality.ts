@@ -0,0 +1,128 @@
+// src/geometry/deformationQuality.ts
+
+import { computeArapEnergy } from './arapEnergy';
+import type { MeshTopology } from './meshTopology';
+
+/**
+ * 变形质量指标（每个顶点一个值）：
+ * - 'displacement'：相对静止姿态的位移长度（网格单位）；
+ * - 'area-change'：相邻三角形面积比的 log2 平均值，0 表示面积不变，+1 表示面积翻倍；
+ * - 'rigidity'：一环相对最佳拟合旋转的 ARAP 残差，除以该一环的静止边长平方和，与网格尺度无关。
+ */
+export type QualityMetric = 'displacement' | 'area-change' | 'rigidity';
+
+export type QualityField = {
+    metric: QualityMetric;
+    values: Float32Array;
+    min: number;
+    max: number;
+    mean: number;
+    // Relative change of the enclosed volume; only meaningful for closed meshes.
+    volumeChange: number;
+};
+
+export type QualityMesh = {
+    vertices: Float32Array;
+    faces: Int32Array;
+    // Needed for 'rigidity' only.
+    topology: MeshTopology | null;
+};
+
+/** 三角网格围成的有向体积（对封闭网格有意义）。 */
+export const signedVolume = (vertices: ArrayLike<number>, faces: ArrayLike<number>): number => {
+    let volume = 0;
+    for (let f = 0; f + 2 < faces.length; f += 3) {
+        const a = faces[f] * 3, b = faces[f + 1] * 3, c = faces[f + 2] * 3;
+        volume += vertices[a] * (vertices[b + 1] * vertices[c + 2] - vertices[b + 2] * vertices[c + 1])
+            + vertices[a + 1] * (vertices[b + 2] * vertices[c] - vertices[b] * vertices[c + 2])
+            + vertices[a + 2] * (vertices[b] * vertices[c + 1] - vertices[b + 1] * vertices[c]);
+    }
+    return volume / 6;
+};
+
+const triangleArea = (vertices: ArrayLike<number>, a: number, b: number, c: number): number => {
+    const ux = vertices[b] - vertices[a], uy = vertices[b + 1] - vertices[a + 1], uz = vertices[b + 2] - vertices[a + 2];
+    const vx = vertices[c] - vertices[a], vy = vertices[c + 1] - vertices[a + 1], vz = vertices[c + 2] - vertices[a + 2];
+    return 0.5 * Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx);
+};
+
+export const surfaceArea = (vertices: ArrayLike<number>, faces: ArrayLike<number>): number => {
+    let area = 0;
+    for (let f = 0; f + 2 < faces.length; f += 3) area += triangleArea(vertices, faces[f] * 3, faces[f + 1] * 3, faces[f + 2] * 3);
+    return area;
+};
+
+export function computeDisplacement(rest: ArrayLike<number>, deformed: ArrayLike<number>): Float32Array {
+    const values = new Float32Array(rest.length / 3);
+    for (let i = 0; i < values.length; i++) {
+        values[i] = Math.hypot(deformed[i * 3] - rest[i * 3], deformed[i * 3 + 1] - rest[i * 3 + 1], deformed[i * 3 + 2] - rest[i * 3 + 2]);
+    }
+    return values;
+}
+
+/** 每个三角形的 log2(A' / A) 平均到其三个顶点上；静止面积为 0 的退化三角形被跳过。 */
+export function computeAreaChange(rest: ArrayLike<number>, deformed: ArrayLike<number>, faces: ArrayLike<number>): Float32Array {
+    const vertexCount = rest.length / 3;
+    const sums = new Float64Array(vertexCount);
+    const counts = new Uint32Array(vertexCount);
+    for (let f = 0; f + 2 < faces.length; f += 3) {
+        const a = faces[f], b = faces[f + 1], c = faces[f + 2];
+        const restArea = triangleArea(rest, a * 3, b * 3, c * 3);
+        if (!(restArea > 1e-20)) continue;
+        // Collapsed triangles get a large but finite value so they still stand out.
+        const ratio = Math.max(triangleArea(deformed, a * 3, b * 3, c * 3) / restArea, 1e-6);
+        const value = Math.log2(ratio);
+        for (const v of [a, b, c]) {
+            sums[v] += value;
+            counts[v]++;
+        }
+    }
+    const values = new Float32Array(vertexCount);
+    for (let i = 0; i < vertexCount; i++) values[i] = counts[i] > 0 ? sums[i] / counts[i] : 0;
+    return values;
+}
+
+export function computeRigidityError(topology: MeshTopology, rest: ArrayLike<number>, deformed: ArrayLike<number>): Float32Array {
+    const { vertexCount, offsets, neighbors, weights } = topology;
+    const { perVertex } = computeArapEnergy(topology, rest, deformed);
+    const values = new Float32Array(vertexCount);
+    for (let i = 0; i < vertexCount; i++) {
+        let scale = 0;
+        for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+            const j = neighbors[k];
+            scale += weights[k] * ((rest[i * 3] - rest[j * 3]) ** 2 + (rest[i * 3 + 1] - rest[j * 3 + 1]) ** 2 + (rest[i * 3 + 2] - rest[j * 3 + 2]) ** 2);
+        }
+        values[i] = scale > 0 ? perVertex[i] / scale : 0;
+    }
+    return values;
+}
+
+/** 计算指定指标的逐顶点值及其统计量。deformed 为 null 时按静止姿态计算（所有值为 0）。 */
+export function computeQualityField(metric: QualityMetric, mesh: QualityMesh, deformed: Float32Array | null): QualityField {
+    const current = deformed ?? mesh.vertices;
+    let values: Float32Array;
+    if (metric === 'displacement') {
+        values = computeDisplacement(mesh.vertices, current);
+    } else if (metric === 'area-change') {
+        values = computeAreaChange(mesh.vertices, current, mesh.faces);
+    } else {
+        if (!mesh.topology) throw new Error('The rigidity metric needs the mesh topology.');
+        values = computeRigidityError(mesh.topology, mesh.vertices, current);
+    }
+
+    let min = Infinity, max = -Infinity, sum = 0;
+    values.forEach(value => {
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+        sum += value;
+    });
+    const restVolume = signedVolume(mesh.vertices, mesh.faces);
+    return {
+        metric,
+        values,
+        min: values.length > 0 ? min : 0,
+        max: values.length > 0 ? max : 0,
+        mean: values.length > 0 ? sum / values.length : 0,
+        volumeChange: Math.abs(restVolume) > 1e-20 ? signedVolume(current, mesh.faces) / restVolume - 1 : 0,
+    };
+}
@@ -0,0 +1,124 @@
+// src/geometry/linalg3.ts
+
+// Small dense 3x3 helpers. Matrices are row-major arrays of length 9.
+
+export type Mat3 = Float64Array;
+
+export const mat3 = (): Mat3 => new Float64Array(9);
+
+export const identity3 = (out: Mat3 = mat3()): Mat3 => {
+    out.fill(0);
+    out[0] = out[4] = out[8] = 1;
+    return out;
+};
+
+export const det3 = (m: ArrayLike<number>): number =>
+    m[0] * (m[4] * m[8] - m[5] * m[7]) -
+    m[1] * (m[3] * m[8] - m[5] * m[6]) +
+    m[2] * (m[3] * m[7] - m[4] * m[6]);
+
+/**
+ * 对称 3x3 矩阵的 Jacobi 特征分解。特征值按降序排列，
+ * vectors 的第 k 列是第 k 个特征向量。
+ */
+export function symmetricEigen3(a: ArrayLike<number>): { values: number[]; vectors: Mat3 } {
+    const m = Float64Array.from(a as ArrayLike<number>);
+    const v = identity3();
+
+    for (let sweep = 0; sweep < 16; sweep++) {
+        const offDiagonal = m[1] * m[1] + m[2] * m[2] + m[5] * m[5];
+        if (offDiagonal < 1e-30) break;
+
+        for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+            const apq = m[p * 3 + q];
+            if (Math.abs(apq) < 1e-300) continue;
+            const app = m[p * 3 + p];
+            const aqq = m[q * 3 + q];
+            const theta = (aqq - app) / (2 * apq);
+            const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+            const c = 1 / Math.sqrt(t * t + 1);
+            const s = t * c;
+
+            // m = J^T m J, v = v J
+            for (let k = 0; k < 3; k++) {
+                const mkp = m[k * 3 + p];
+                const mkq = m[k * 3 + q];
+                m[k * 3 + p] = c * mkp - s * mkq;
+                m[k * 3 + q] = s * mkp + c * mkq;
+            }
+            for (let k = 0; k < 3; k++) {
+                const mpk = m[p * 3 + k];
+                const mqk = m[q * 3 + k];
+                m[p * 3 + k] = c * mpk - s * mqk;
+                m[q * 3 + k] = s * mpk + c * mqk;
+            }
+            for (let k = 0; k < 3; k++) {
+                const vkp = v[k * 3 + p];
+                const vkq = v[k * 3 + q];
+                v[k * 3 + p] = c * vkp - s * vkq;
+                v[k * 3 + q] = s * vkp + c * vkq;
+            }
+        }
+    }
+
+    const order = [0, 1, 2].sort((i, j) => m[j * 4] - m[i * 4]);
+    const vectors = mat3();
+    order.forEach((source, target) => {
+        for (let k = 0; k < 3; k++) vectors[k * 3 + target] = v[k * 3 + source];
+    });
+    return { values: order.map(i => m[i * 4]), vectors };
+}
+
+const column = (m: ArrayLike<number>, c: number): [number, number, number] => [m[c], m[3 + c], m[6 + c]];
+const cross = (a: number[], b: number[]): [number, number, number] =>
+    [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const normalize = (a: number[]): [number, number, number] | null => {
+    const length = Math.hypot(a[0], a[1], a[2]);
+    return length > 1e-12 ? [a[0] / length, a[1] / length, a[2] / length] : null;
+};
+const anyPerpendicular = (a: number[]): [number, number, number] =>
+    normalize(Math.abs(a[0]) < 0.9 ? cross(a, [1, 0, 0]) : cross(a, [0, 1, 0]))!;
+
+/**
+ * 求使 Σ w ||e' - R e||² 最小的旋转 R（ARAP 的局部步骤）。
+ * 输入 S = Σ w e e'^T；设 S = U Σ V^T，则 R = V U^T，并在需要时翻转最小奇异值对应的方向以保证 det(R) = +1。
+ */
+export function bestFitRotation(s: ArrayLike<number>, out: Mat3 = mat3()): Mat3 {
+    // S^T S = V Σ² V^T
+    const sts = mat3();
+    for (let r = 0; r < 3; r++) {
+        for (let c = 0; c < 3; c++) {
+            sts[r * 3 + c] = s[r] * s[c] + s[3 + r] * s[3 + c] + s[6 + r] * s[6 + c];
+        }
+    }
+    const { vectors: v } = symmetricEigen3(sts);
+    if (det3(v) < 0) {
+        v[2] = -v[2]; v[5] = -v[5]; v[8] = -v[8];
+    }
+
+    const applyS = (x: number[]) => [
+        s[0] * x[0] + s[1] * x[1] + s[2] * x[2],
+        s[3] * x[0] + s[4] * x[1] + s[5] * x[2],
+        s[6] * x[0] + s[7] * x[1] + s[8] * x[2],
+    ];
+    const v0 = column(v, 0);
+    const v1 = column(v, 1);
+    const u0 = normalize(applyS(v0));
+    if (!u0) return identity3(out);
+
+    // Gram-Schmidt keeps U orthonormal when the second singular value is (near) zero.
+    const su1 = applyS(v1);
+    const d = su1[0] * u0[0] + su1[1] * u0[1] + su1[2] * u0[2];
+    const u1 = normalize([su1[0] - d * u0[0], su1[1] - d * u0[1], su1[2] - d * u0[2]]) ?? anyPerpendicular(u0);
+    // With det(V) = det(U) = +1 the product is a proper rotation; this is the reflection fix of Kabsch's method.
+    const u2 = cross(u0, u1);
+
+    // R = V U^T
+    const u = [u0, u1, u2];
+    for (let r = 0; r < 3; r++) {
+        for (let c = 0; c < 3; c++) {
+            out[r * 3 + c] = v[r * 3] * u[0][c] + v[r * 3 + 1] * u[1][c] + v[r * 3 + 2] * u[2][c];
+        }
+    }
+    return out;
+}
@@ -0,0 +1,177 @@
+// src/geometry/localGlobalSolver.test.ts
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { buildSolverMesh } from '../utils/vertexMapping';
+import { computeArapEnergy } from './arapEnergy';
+import { computeDisplacement, signedVolume } from './deformationQuality';
+import { LocalGlobalSolver, type DeformationModel, type LocalGlobalOptions } from './localGlobalSolver';
+import { buildMeshTopology } from './meshTopology';
+
+// A closed 1 x 1 x 4 bar along z, welded like an imported model.
+const { vertices: rest, faces } = buildSolverMesh(new THREE.BoxGeometry(1, 1, 4, 2, 2, 8));
+const topology = buildMeshTopology(rest, faces);
+const vertexCount = rest.length / 3;
+
+const bottom = Array.from({ length: vertexCount }, (_, i) => i).filter(i => rest[i * 3 + 2] < -1.99);
+const top = Array.from({ length: vertexCount }, (_, i) => i).filter(i => rest[i * 3 + 2] > 1.99);
+
+const options = (model: DeformationModel, changes: Partial<LocalGlobalOptions> = {}): LocalGlobalOptions =>
+    ({ model, rotationSmoothness: 1, volumeWeight: 1, ...changes });
+
+/** 固定底端，把顶端平移 offset，用给定模型求解 iterations 次。 */
+const solveBar = (solverOptions: LocalGlobalOptions, offset: [number, number, number], iterations = 50) => {
+    const solver = new LocalGlobalSolver(topology, rest, faces, solverOptions);
+    const indices = Int32Array.from([...bottom, ...top]);
+    const positions = new Float32Array(indices.length * 3);
+    indices.forEach((index, k) => {
+        for (let c = 0; c < 3; c++) positions[k * 3 + c] = rest[index * 3 + c] + (k < bottom.length ? 0 : offset[c]);
+    });
+    solver.set_handles(indices, positions);
+    solver.solve(iterations);
+    return { vertices: solver.get_vertices().slice(), indices, positions };
+};
+
+const maxDifference = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+    let max = 0;
+    for (let i = 0; i < a.length; i++) max = Math.max(max, Math.abs(a[i] - b[i]));
+    return max;
+};
+
+const arapEnergy = (vertices: Float32Array) => computeArapEnergy(topology, rest, vertices).energy;
+
+// Σ over edges of ||R_i - R_j||² for the best-fit rotations of a pose.
+const rotationVariation = (vertices: Float32Array) => {
+    const { rotations } = computeArapEnergy(topology, rest, vertices);
+    let variation = 0;
+    for (let i = 0; i < vertexCount; i++) {
+        for (let k = topology.offsets[i]; k < topology.offsets[i + 1]; k++) {
+            const j = topology.neighbors[k];
+            for (let c = 0; c < 9; c++) variation += (rotations[i * 9 + c] - rotations[j * 9 + c]) ** 2;
+        }
+    }
+    return variation;
+};
+
+const BEND: [number, number, number] = [2, 0, 0];
+const SQUASH: [number, number, number] = [0, 0, -1.5];
+
+describe('LocalGlobalSolver deformation models', () => {
+    it('keeps the rest pose when the handles stay put, in every model', () => {
+        for (const model of ['arap', 'laplacian', 'sr-arap', 'volume-arap'] as const) {
+            const { vertices } = solveBar(options(model), [0, 0, 0], 5);
+            expect(maxDifference(vertices, rest)).toBeLessThan(1e-5);
+        }
+    });
+
+    it('puts the hard constraints exactly on their targets, in every model', () => {
+        for (const model of ['arap', 'laplacian', 'sr-arap', 'volume-arap'] as const) {
+            const { vertices, indices, positions } = solveBar(options(model), BEND);
+            indices.forEach((index, k) => {
+                expect(maxDifference(vertices.subarray(index * 3, index * 3 + 3), positions.subarray(k * 3, k * 3 + 3))).toBe(0);
+            });
+        }
+    });
+
+    it('solves Laplacian editing in one linear step', () => {
+        const once = solveBar(options('laplacian'), BEND, 1).vertices;
+        const many = solveBar(options('laplacian'), BEND, 20).vertices;
+
+        expect(maxDifference(once, many)).toBeLessThan(1e-4);
+    });
+
+    it('bends with a lower ARAP energy than the Laplacian, which keeps the rest orientation', () => {
+        const laplacian = solveBar(options('laplacian'), BEND).vertices;
+        const arap = solveBar(options('arap'), BEND).vertices;
+
+        expect(arapEnergy(arap)).toBeLessThan(0.7 * arapEnergy(laplacian));
+        // Both move the middle of the bar towards the handles, but not by the same amounts.
+        const middle = Array.from(computeDisplacement(rest, arap)).filter((_, i) => Math.abs(rest[i * 3 + 2]) < 0.01);
+        expect(Math.min(...middle)).toBeGreaterThan(0.3);
+        expect(maxDifference(arap, laplacian)).toBeGreaterThan(0.05);
+    });
+
+    it('matches ARAP when the SR-ARAP smoothness is zero, and smooths the rotations when it is not', () => {
+        const arap = solveBar(options('arap'), BEND).vertices;
+        const unsmoothed = solveBar(options('sr-arap', { rotationSmoothness: 0 }), BEND).vertices;
+        const smoothed = solveBar(options('sr-arap', { rotationSmoothness: 5 }), BEND).vertices;
+
+        expect(maxDifference(unsmoothed, arap)).toBeLessThan(1e-6);
+        expect(rotationVariation(smoothed)).toBeLessThan(rotationVariation(arap));
+        // ARAP minimises its own energy, so the smoothed pose can only be at or above it.
+        expect(arapEnergy(smoothed)).toBeGreaterThanOrEqual(arapEnergy(arap) * (1 - 1e-3));
+        expect(maxDifference(smoothed, arap)).toBeLessThan(0.5);
+    });
+
+    it('loses less volume with the volume penalty when the bar is squashed', () => {
+        const restVolume = signedVolume(rest, faces);
+        const arap = solveBar(options('arap'), SQUASH).vertices;
+        const preserved = solveBar(options('volume-arap', { volumeWeight: 1 }), SQUASH).vertices;
+        const off = solveBar(options('volume-arap', { volumeWeight: 0 }), SQUASH).vertices;
+
+        const arapLoss = Math.abs(signedVolume(arap, faces) / restVolume - 1);
+        const preservedLoss = Math.abs(signedVolume(preserved, faces) / restVolume - 1);
+        expect(preservedLoss).toBeLessThan(0.5 * arapLoss);
+        expect(maxDifference(off, arap)).toBeLessThan(1e-6);
+    });
+});
+
+/** 固定底端，顶端作为权重为 weight 的软约束平移 offset，返回顶端平均走到目标的比例。 */
+const softReach = (model: DeformationModel, weight: number, offset: [number, number, number]) => {
+    const solver = new LocalGlobalSolver(topology, rest, faces, options(model));
+    const indices = Int32Array.from([...bottom, ...top]);
+    const positions = new Float32Array(indices.length * 3);
+    indices.forEach((index, k) => {
+        for (let c = 0; c < 3; c++) positions[k * 3 + c] = rest[index * 3 + c] + (k < bottom.length ? 0 : offset[c]);
+    });
+    solver.set_handles(indices, positions, Float32Array.from(indices, (_, k) => (k < bottom.length ? 1 : weight)));
+    solver.solve(50);
+    const vertices = solver.get_vertices();
+    const length = Math.hypot(...offset);
+    const reach = top.map(index => offset.reduce((sum, value, c) => sum + (vertices[index * 3 + c] - rest[index * 3 + c]) * value, 0) / (length * length));
+    return reach.reduce((sum, value) => sum + value, 0) / reach.length;
+};
+
+describe('LocalGlobalSolver soft constraints', () => {
+    it('moves a soft handle group the weighted fraction of the way in the Laplacian model', () => {
+        for (const weight of [0.25, 0.5, 0.75, 0.95]) {
+            expect(softReach('laplacian', weight, BEND)).toBeCloseTo(weight, 2);
+            expect(softReach('laplacian', weight, SQUASH)).toBeCloseTo(weight, 2);
+        }
+    });
+
+    it('keeps the reach of ARAP roughly proportional to the weight, also when the bar bends', () => {
+        const weights = [0.25, 0.5, 0.75, 0.95];
+        const bent = weights.map(weight => softReach('arap', weight, BEND));
+        const stretched = weights.map(weight => softReach('arap', weight, SQUASH));
+
+        weights.forEach((weight, i) => {
+            // Rotations absorb most of a bend, so the rescaled λ is an estimate there; a squash is matched closely.
+            expect(Math.abs(bent[i] - weight)).toBeLessThan(0.2);
+            expect(stretched[i]).toBeCloseTo(weight, 1);
+            if (i > 0) expect(bent[i]).toBeGreaterThan(bent[i - 1] + 0.1);
+        });
+    });
+
+    it('lowers the same energy in every iteration once the softening is measured', () => {
+        const solver = new LocalGlobalSolver(topology, rest, faces, options('arap'));
+        // Stiffer towards the top, so the stiffness-weighted energy is covered too.
+        solver.setStiffness(Float32Array.from({ length: vertexCount }, (_, i) => 1 + rest[i * 3 + 2] / 4));
+        const indices = Int32Array.from([...bottom, ...top]);
+        const positions = new Float32Array(indices.length * 3);
+        indices.forEach((index, k) => {
+            for (let c = 0; c < 3; c++) positions[k * 3 + c] = rest[index * 3 + c] + (k < bottom.length ? 0 : BEND[c]);
+        });
+        solver.set_handles(indices, positions, Float32Array.from(indices, (_, k) => (k < bottom.length ? 1 : 0.5)));
+
+        const energies: number[] = [];
+        for (let iteration = 0; iteration < 30; iteration++) {
+            solver.solve(1);
+            energies.push(solver.energy());
+        }
+        // The first three steps still measure the softening, so the energy they lower changes.
+        for (let i = 3; i < energies.length; i++) expect(energies[i]).toBeLessThanOrEqual(energies[i - 1] * (1 + 1e-9));
+        expect(energies[energies.length - 1]).toBeLessThan(0.9 * energies[3]);
+    });
+});
@@ -0,0 +1,483 @@
+// src/geometry/localGlobalSolver.ts
+
+import { computeArapEnergy } from './arapEnergy';
+import { signedVolume, surfaceArea } from './deformationQuality';
+import { bestFitRotation, identity3, mat3 } from './linalg3';
+import type { MeshTopology } from './meshTopology';
+
+/**
+ * 可选的变形模型：
+ * - 'arap'：标准 ARAP（没有逐顶点刚度时由 wasm 求解）；
+ * - 'laplacian'：朴素 Laplacian 编辑，保持静止姿态的微分坐标，不做旋转（一次线性求解）；
+ * - 'sr-arap'：在 ARAP 上加入相邻旋转的平滑项（Levi & Gotsman 2014），薄壳和大幅弯曲时更平滑；
+ * - 'volume-arap'：ARAP 加体积保持惩罚，适合封闭网格的挤压拉伸。
+ */
+export type DeformationModel = 'arap' | 'laplacian' | 'sr-arap' | 'volume-arap';
+
+export const DEFORMATION_MODELS: DeformationModel[] = ['arap', 'laplacian', 'sr-arap', 'volume-arap'];
+
+export type LocalGlobalOptions = {
+    model: DeformationModel;
+    // SR-ARAP smoothness α; multiplied by the mean surface area per vertex so it does not depend on the mesh scale or resolution.
+    rotationSmoothness: number;
+    // Volume penalty relative to the stiffness of the Laplacian; 0 turns it off.
+    volumeWeight: number;
+};
+
+const CG_MAX_ITERATIONS = 200;
+const CG_TOLERANCE = 1e-6;
+// Lower bound of a soft constraint's r_i relative to its Laplacian diagonal, e.g. when no vertex is pinned and r_i would be 0.
+const SOFT_MIN_STIFFNESS = 1e-3;
+// Global steps after set_handles that re-measure rotationSoftening; it stays fixed afterwards so the energy is monotone.
+const SOFTENING_STEPS = 3;
+
+/**
+ * 纯 TypeScript 的局部/全局求解器，与 wasm 的 ArapController 接口一致，
+ * 用于 wasm 不支持的变形模型和逐顶点刚度，也可作为对照的参考实现。
+ *
+ * 刚度 s_i 按一环加权能量 Σ_i s_i Σ_j w_ij ||(p'_i - p'_j) - R_i (p_i - p_j)||²，
+ * 因此全局步中边权变为 w_ij (s_i + s_j) / 2。
+ *
+ * 全局步求解 L p' = b（L 为余切 Laplacian，约束顶点固定），用带 Jacobi 预条件的共轭梯度法，
+ * 并以上一次的结果作为初值；体积项在当前姿态处线性化，成为 L 上的一个秩一修正。
+ *
+ * 权重 ω < 1 的约束是软约束：顶点不固定，而是在能量中加入 λ_i ||p'_i - t_i||²，λ_i = ω / (1 - ω) · r_i，
+ * r_i 为网格在该顶点处抵抗整组软约束移动的等效刚度（见 computeSoftStiffness），带旋转的模型再乘以 rotationSoftening。
+ * 这样整组软约束平移时，它们大约走到目标的 ω（Laplacian 模型中恰好如此），ω → 1 时趋近硬约束。
+ * rotationSoftening 只在每次 set_handles 后的前 SOFTENING_STEPS 个全局步中按当时的姿态测量，之后固定不变，
+ * 因此此后的迭代都在最小化同一个能量（见 energy），能量单调下降。
+ */
+export class LocalGlobalSolver implements ArapController {
+    private topology: MeshTopology;
+    private rest: Float32Array;
+    private faces: Int32Array;
+    private options: LocalGlobalOptions;
+    private restVolume: number;
+    private totalArea: number;
+    private current: Float64Array;
+    private rotations: Float64Array;
+    private constrained: Uint8Array;
+    // Weight ω of each soft constraint (0 for none) and its target.
+    private softWeights: Float32Array;
+    private softTargets: Float64Array;
+    private hasSoftConstraints = false;
+    // r_i of the soft constraints, kept until the constrained vertices or the stiffness change.
+    private softStiffness: Float64Array | null = null;
+    private softStiffnessKey = '';
+    // rotationSoftening() of the soft constraints, null before the first global step under the current constraints.
+    private softening: number | null = null;
+    private softeningSteps = 0;
+    private output: Float32Array;
+    private stiffness: Float32Array | null = null;
+    // weights[k] * (s_i + s_j) / 2, i.e. the Laplacian actually solved in the global step.
+    private systemWeights: Float64Array;
+
+    constructor(topology: MeshTopology, vertices: Float32Array, faces: Int32Array, options: LocalGlobalOptions) {
+        this.topology = topology;
+        this.rest = vertices;
+        this.faces = faces;
+        this.options = options;
+        this.restVolume = signedVolume(vertices, faces);
+        this.totalArea = surfaceArea(vertices, faces);
+        this.current = Float64Array.from(vertices);
+        this.rotations = new Float64Array(topology.vertexCount * 9);
+        for (let i = 0; i < topology.vertexCount; i++) identity3(this.rotations.subarray(i * 9, i * 9 + 9));
+        this.constrained = new Uint8Array(topology.vertexCount);
+        this.softWeights = new Float32Array(topology.vertexCount);
+        this.softTargets = new Float64Array(vertices.length);
+        this.output = new Float32Array(vertices.length);
+        this.systemWeights = topology.weights;
+    }
+
+    public setOptions(options: LocalGlobalOptions): void {
+        if (options.model === 'laplacian' && this.options.model !== 'laplacian') {
+            for (let i = 0; i < this.topology.vertexCount; i++) identity3(this.rotations.subarray(i * 9, i * 9 + 9));
+        }
+        this.options = options;
+    }
+
+    /** 逐顶点刚度（默认 1），null 表示所有顶点相同。 */
+    public setStiffness(stiffness: Float32Array | null): void {
+        this.stiffness = stiffness;
+        this.softStiffness = null;
+        if (!stiffness) {
+            this.systemWeights = this.topology.weights;
+            return;
+        }
+        const { vertexCount, offsets, neighbors, weights } = this.topology;
+        this.systemWeights = new Float64Array(weights.length);
+        for (let i = 0; i < vertexCount; i++) {
+            for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+                this.systemWeights[k] = weights[k] * 0.5 * (stiffness[i] + stiffness[neighbors[k]]);
+            }
+        }
+    }
+
+    /** 用给定姿态作为下一次迭代的初值，切换模型时借此保留已有的变形。 */
+    public setVertices(vertices: ArrayLike<number>): void {
+        this.current.set(vertices);
+    }
+
+    /** weights 与 handleIndices 一一对应，取值 (0, 1]；省略或为 1 的约束是硬约束。 */
+    public set_handles(handleIndices: Int32Array, handlePositions: Float32Array, weights: Float32Array | null = null): void {
+        this.constrained.fill(0);
+        this.softWeights.fill(0);
+        this.hasSoftConstraints = false;
+        this.softening = null;
+        this.softeningSteps = 0;
+        handleIndices.forEach((index, k) => {
+            const target = handlePositions.subarray(k * 3, k * 3 + 3);
+            const weight = weights ? weights[k] : 1;
+            if (weight >= 1) {
+                this.constrained[index] = 1;
+                this.current.set(target, index * 3);
+            } else {
+                // Soft targets only pull; the vertex keeps its warm start.
+                this.softWeights[index] = weight;
+                this.softTargets.set(target, index * 3);
+                this.hasSoftConstraints = true;
+            }
+        });
+        const key = Array.from(handleIndices, (index, k) => (weights && weights[k] < 1 ? -1 - index : index)).join(',');
+        if (key !== this.softStiffnessKey) {
+            this.softStiffnessKey = key;
+            this.softStiffness = null;
+        }
+    }
+
+    public solve(maxIterations: number): void {
+        for (let iteration = 0; iteration < maxIterations; iteration++) {
+            if (this.options.model === 'laplacian') {
+                // Laplacian editing keeps the rest differential coordinates, i.e. every rotation is the identity.
+                this.globalStep();
+            } else {
+                this.localStep();
+                this.globalStep();
+            }
+        }
+    }
+
+    /**
+     * 当前姿态和旋转下 'arap' 模型最小化的能量：¼ Σ_i s_i Σ_j w_ij ||(p'_i - p'_j) - R_i (p_i - p_j)||² + ½ Σ_i λ_i ||p'_i - t_i||²，
+     * 即全局步所解方程对应的能量。不含 SR-ARAP 的平滑项和体积项。
+     */
+    public energy(): number {
+        const { vertexCount, offsets, neighbors, weights } = this.topology;
+        const rest = this.rest, x = this.current, rotations = this.rotations, stiffness = this.stiffness;
+        const softStrength = this.softStrength();
+        let energy = 0;
+        for (let i = 0; i < vertexCount; i++) {
+            const si = stiffness ? stiffness[i] : 1;
+            for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+                const j = neighbors[k];
+                const ex = rest[i * 3] - rest[j * 3], ey = rest[i * 3 + 1] - rest[j * 3 + 1], ez = rest[i * 3 + 2] - rest[j * 3 + 2];
+                for (let r = 0; r < 3; r++) {
+                    const ri = i * 9 + r * 3;
+                    const d = x[i * 3 + r] - x[j * 3 + r] - rotations[ri] * ex - rotations[ri + 1] * ey - rotations[ri + 2] * ez;
+                    energy += 0.25 * si * weights[k] * d * d;
+                }
+            }
+            if (softStrength && softStrength[i] > 0) {
+                for (let r = 0; r < 3; r++) energy += 0.5 * softStrength[i] * (x[i * 3 + r] - this.softTargets[i * 3 + r]) ** 2;
+            }
+        }
+        return energy;
+    }
+
+    public get_vertices(): Float32Array {
+        for (let i = 0; i < this.current.length; i++) this.output[i] = this.current[i];
+        return this.output;
+    }
+
+    public delete(): void {
+        // Nothing to free; present for interface compatibility with the wasm controller.
+    }
+
+    /** 对每个一环求最佳拟合旋转；SR-ARAP 额外把邻居上一轮的旋转作为平滑项加入协方差。 */
+    private localStep(): void {
+        const { vertexCount, offsets, neighbors, weights } = this.topology;
+        const rest = this.rest, deformed = this.current;
+        const smoothness = this.options.model === 'sr-arap' ? this.options.rotationSmoothness * this.totalArea / vertexCount : 0;
+        const previous = smoothness > 0 ? this.rotations.slice() : this.rotations;
+        const covariance = mat3();
+        const rotation = mat3();
+
+        for (let i = 0; i < vertexCount; i++) {
+            covariance.fill(0);
+            for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+                const j = neighbors[k];
+                const w = weights[k];
+                const ex = rest[i * 3] - rest[j * 3], ey = rest[i * 3 + 1] - rest[j * 3 + 1], ez = rest[i * 3 + 2] - rest[j * 3 + 2];
+                const dx = deformed[i * 3] - deformed[j * 3], dy = deformed[i * 3 + 1] - deformed[j * 3 + 1], dz = deformed[i * 3 + 2] - deformed[j * 3 + 2];
+                covariance[0] += w * ex * dx; covariance[1] += w * ex * dy; covariance[2] += w * ex * dz;
+                covariance[3] += w * ey * dx; covariance[4] += w * ey * dy; covariance[5] += w * ey * dz;
+                covariance[6] += w * ez * dx; covariance[7] += w * ez * dy; covariance[8] += w * ez * dz;
+                if (smoothness > 0) {
+                    // Maximising tr(R_i R_j^T) pulls R_i towards R_j, so R_j^T joins the covariance.
+                    const s = smoothness * w;
+                    for (let r = 0; r < 3; r++) {
+                        for (let c = 0; c < 3; c++) covariance[r * 3 + c] += s * previous[j * 9 + c * 3 + r];
+                    }
+                }
+            }
+            bestFitRotation(covariance, rotation);
+            this.rotations.set(rotation, i * 9);
+        }
+    }
+
+    /**
+     * 求解 L p' = b，b_i = Σ_j w_ij/2 (s_i R_i + s_j R_j)(p_i - p_j)。
+     * 以残差形式只对自由顶点求修正量，约束顶点保持在目标位置。
+     */
+    private globalStep(): void {
+        const { vertexCount, offsets, neighbors, weights } = this.topology;
+        const rest = this.rest, rotations = this.rotations, constrained = this.constrained, x = this.current;
+        const stiffness = this.stiffness, systemWeights = this.systemWeights;
+        const softTargets = this.softTargets;
+        const size = vertexCount * 3;
+        // λ_i of the soft constraints, added to the diagonal of the system.
+        const softStrength = this.softStrength();
+
+        // residual = b - L x on free vertices
+        const residual = new Float64Array(size);
+        const diagonal = new Float64Array(size);
+        for (let i = 0; i < vertexCount; i++) {
+            if (constrained[i]) continue;
+            let d = 0;
+            const si = stiffness ? stiffness[i] : 1;
+            for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+                const j = neighbors[k];
+                const w = systemWeights[k];
+                const sj = stiffness ? stiffness[j] : 1;
+                d += w;
+                const ex = rest[i * 3] - rest[j * 3], ey = rest[i * 3 + 1] - rest[j * 3 + 1], ez = rest[i * 3 + 2] - rest[j * 3 + 2];
+                for (let r = 0; r < 3; r++) {
+                    const ri = i * 9 + r * 3, rj = j * 9 + r * 3;
+                    const rotated = (si * rotations[ri] + sj * rotations[rj]) * ex
+                        + (si * rotations[ri + 1] + sj * rotations[rj + 1]) * ey
+                        + (si * rotations[ri + 2] + sj * rotations[rj + 2]) * ez;
+                    residual[i * 3 + r] += 0.5 * weights[k] * rotated - w * (x[i * 3 + r] - x[j * 3 + r]);
+                }
+            }
+            if (softStrength && softStrength[i] > 0) {
+                const lambda = softStrength[i];
+                for (let r = 0; r < 3; r++) residual[i * 3 + r] += lambda * (softTargets[i * 3 + r] - x[i * 3 + r]);
+                d += lambda;
+            }
+            diagonal[i * 3] = diagonal[i * 3 + 1] = diagonal[i * 3 + 2] = d;
+        }
+
+        // Volume penalty μ (V(x + δ) - V0)², linearised as V(x) + g·δ.
+        let gradient: Float64Array | null = null;
+        let mu = 0;
+        if (this.options.model === 'volume-arap' && this.options.volumeWeight > 0) {
+            gradient = this.volumeGradient();
+            let gradientSq = 0;
+            let trace = 0;
+            for (let i = 0; i < size; i++) {
+                gradientSq += gradient[i] * gradient[i];
+                trace += diagonal[i];
+            }
+            if (gradientSq > 0) {
+                mu = this.options.volumeWeight * trace / gradientSq;
+                const volumeError = this.restVolume - signedVolume(x, this.faces);
+                for (let i = 0; i < size; i++) {
+                    residual[i] += mu * gradient[i] * volumeError;
+                    diagonal[i] += mu * gradient[i] * gradient[i];
+                }
+            } else {
+                gradient = null;
+            }
+        }
+
+        const applyMatrix = (v: Float64Array, out: Float64Array) => {
+            for (let i = 0; i < vertexCount; i++) {
+                if (constrained[i]) {
+                    out[i * 3] = out[i * 3 + 1] = out[i * 3 + 2] = 0;
+                    continue;
+                }
+                let ox = 0, oy = 0, oz = 0;
+                for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+                    const j = neighbors[k];
+                    const w = systemWeights[k];
+                    ox += w * (v[i * 3] - v[j * 3]);
+                    oy += w * (v[i * 3 + 1] - v[j * 3 + 1]);
+                    oz += w * (v[i * 3 + 2] - v[j * 3 + 2]);
+                }
+                if (softStrength) {
+                    const lambda = softStrength[i];
+                    ox += lambda * v[i * 3]; oy += lambda * v[i * 3 + 1]; oz += lambda * v[i * 3 + 2];
+                }
+                out[i * 3] = ox; out[i * 3 + 1] = oy; out[i * 3 + 2] = oz;
+            }
+            if (gradient) {
+                let dot = 0;
+                for (let i = 0; i < size; i++) dot += gradient[i] * v[i];
+                for (let i = 0; i < size; i++) out[i] += mu * gradient[i] * dot;
+            }
+        };
+
+        const delta = conjugateGradient(applyMatrix, residual, diagonal);
+        for (let i = 0; i < size; i++) x[i] += delta[i];
+
+        if (this.hasSoftConstraints && this.softeningSteps < SOFTENING_STEPS) {
+            // The rest pose has no bend to measure, so the first steps re-measure the softening on the pose they reach.
+            this.softeningSteps++;
+            this.softening = this.options.model === 'laplacian'
+                ? 1
+                : this.rotationSoftening(computeArapEnergy(this.topology, this.rest, x).rotations);
+        }
+    }
+
+    /** 每个软约束顶点的 λ_i（其它顶点为 0），没有软约束时返回 null。 */
+    private softStrength(): Float64Array | null {
+        if (!this.hasSoftConstraints) return null;
+        if (!this.softStiffness) this.softStiffness = this.computeSoftStiffness();
+        const { vertexCount, offsets } = this.topology;
+        const softWeights = this.softWeights, softStiffness = this.softStiffness, systemWeights = this.systemWeights;
+        const softening = this.softening ?? 1;
+        const strength = new Float64Array(vertexCount);
+        for (let i = 0; i < vertexCount; i++) {
+            if (this.constrained[i] || !(softWeights[i] > 0)) continue;
+            let d = 0;
+            for (let k = offsets[i]; k < offsets[i + 1]; k++) d += systemWeights[k];
+            strength[i] = softWeights[i] / (1 - softWeights[i]) * softening * Math.max(softStiffness[i], SOFT_MIN_STIFFNESS * d);
+        }
+        return strength;
+    }
+
+    /**
+     * 软约束的等效刚度：硬约束顶点取 0、软约束顶点取 1，解标量 Laplacian 方程得到调和函数 u，
+     * r_i = Σ_j w_ij (1 - u_j) 即网格在软约束顶点 i 处的反力。整组软约束平移 t 时，Laplacian 的解恰好是 ω · t · u。
+     */
+    private computeSoftStiffness(): Float64Array {
+        const { vertexCount, offsets, neighbors } = this.topology;
+        const constrained = this.constrained, softWeights = this.softWeights, systemWeights = this.systemWeights;
+        const fixed = (i: number) => constrained[i] === 1 || softWeights[i] > 0;
+
+        // Only the free vertices are unknown; the soft vertices' u = 1 moves to the right-hand side.
+        const rhs = new Float64Array(vertexCount);
+        const diagonal = new Float64Array(vertexCount);
+        for (let i = 0; i < vertexCount; i++) {
+            if (fixed(i)) continue;
+            for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+                diagonal[i] += systemWeights[k];
+                if (softWeights[neighbors[k]] > 0) rhs[i] += systemWeights[k];
+            }
+        }
+        const applyMatrix = (v: Float64Array, out: Float64Array) => {
+            for (let i = 0; i < vertexCount; i++) {
+                let value = 0;
+                if (!fixed(i)) {
+                    value = diagonal[i] * v[i];
+                    for (let k = offsets[i]; k < offsets[i + 1]; k++) value -= systemWeights[k] * v[neighbors[k]];
+                }
+                out[i] = value;
+            }
+        };
+        const u = conjugateGradient(applyMatrix, rhs, diagonal);
+        for (let i = 0; i < vertexCount; i++) {
+            if (softWeights[i] > 0) u[i] = 1;
+        }
+
+        const stiffness = new Float64Array(vertexCount);
+        for (let i = 0; i < vertexCount; i++) {
+            if (!(softWeights[i] > 0)) continue;
+            for (let k = offsets[i]; k < offsets[i + 1]; k++) stiffness[i] += systemWeights[k] * (1 - u[neighbors[k]]);
+        }
+        return stiffness;
+    }
+
+    /**
+     * 当前姿态在 rotations 下的 ARAP 能量与（不旋转的）Laplacian 能量之比，取值 (0, 1]。弯曲时旋转吸收了大部分变形，
+     * 网格比 computeSoftStiffness 算出的更软，软约束的 λ 按这个比例缩小，使 ω 仍大致对应走到目标的比例。
+     */
+    private rotationSoftening(rotations: Float64Array): number {
+        const { vertexCount, offsets, neighbors } = this.topology;
+        const rest = this.rest, x = this.current, systemWeights = this.systemWeights;
+        let rotated = 0, unrotated = 0;
+        for (let i = 0; i < vertexCount; i++) {
+            for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+                const j = neighbors[k];
+                const w = systemWeights[k];
+                const ex = rest[i * 3] - rest[j * 3], ey = rest[i * 3 + 1] - rest[j * 3 + 1], ez = rest[i * 3 + 2] - rest[j * 3 + 2];
+                for (let r = 0; r < 3; r++) {
+                    const edge = x[i * 3 + r] - x[j * 3 + r];
+                    const ri = i * 9 + r * 3;
+                    rotated += w * (edge - rotations[ri] * ex - rotations[ri + 1] * ey - rotations[ri + 2] * ez) ** 2;
+                    unrotated += w * (edge - (rest[i * 3 + r] - rest[j * 3 + r])) ** 2;
+                }
+            }
+        }
+        // Near the rest pose both vanish and the Laplacian stiffness is used as is.
+        return unrotated > 1e-20 ? Math.min(1, Math.max(SOFT_MIN_STIFFNESS, rotated / unrotated)) : 1;
+    }
+
+    /** ∂V/∂p，约束顶点处为 0。 */
+    private volumeGradient(): Float64Array {
+        const x = this.current, faces = this.faces, constrained = this.constrained;
+        const gradient = new Float64Array(x.length);
+        const add = (vertex: number, p: number, q: number) => {
+            if (constrained[vertex]) return;
+            // ∂/∂a of a · (b × c) / 6 is (b × c) / 6.
+            gradient[vertex * 3] += (x[p + 1] * x[q + 2] - x[p + 2] * x[q + 1]) / 6;
+            gradient[vertex * 3 + 1] += (x[p + 2] * x[q] - x[p] * x[q + 2]) / 6;
+            gradient[vertex * 3 + 2] += (x[p] * x[q + 1] - x[p + 1] * x[q]) / 6;
+        };
+        for (let f = 0; f + 2 < faces.length; f += 3) {
+            const a = faces[f], b = faces[f + 1], c = faces[f + 2];
+            add(a, b * 3, c * 3);
+            add(b, c * 3, a * 3);
+            add(c, a * 3, b * 3);
+        }
+        return gradient;
+    }
+}
+
+/**
+ * 预条件共轭梯度法求解 A δ = r（初值 δ = 0）。A 对称半正定，
+ * 约束顶点对应的行与列恒为 0，预条件中这些位置被跳过。
+ */
+function conjugateGradient(
+    applyMatrix: (v: Float64Array, out: Float64Array) => void,
+    rhs: Float64Array,
+    diagonal: Float64Array
+): Float64Array {
+    const size = rhs.length;
+    const solution = new Float64Array(size);
+    const r = rhs.slice();
+    const z = new Float64Array(size);
+    const p = new Float64Array(size);
+    const ap = new Float64Array(size);
+
+    const precondition = () => {
+        for (let i = 0; i < size; i++) z[i] = diagonal[i] > 1e-300 ? r[i] / diagonal[i] : 0;
+    };
+    const dot = (a: Float64Array, b: Float64Array) => {
+        let sum = 0;
+        for (let i = 0; i < size; i++) sum += a[i] * b[i];
+        return sum;
+    };
+
+    const threshold = CG_TOLERANCE * CG_TOLERANCE * Math.max(dot(r, r), 1e-300);
+    precondition();
+    p.set(z);
+    let rz = dot(r, z);
+
+    for (let iteration = 0; iteration < CG_MAX_ITERATIONS && dot(r, r) > threshold; iteration++) {
+        applyMatrix(p, ap);
+        const pap = dot(p, ap);
+        if (!(pap > 0)) break;
+        const alpha = rz / pap;
+        for (let i = 0; i < size; i++) {
+            solution[i] += alpha * p[i];
+            r[i] -= alpha * ap[i];
+        }
+        precondition();
+        const nextRz = dot(r, z);
+        const beta = nextRz / rz;
+        rz = nextRz;
+        for (let i = 0; i < size; i++) p[i] = z[i] + beta * p[i];
+    }
+    return solution;
+}
@@ -0,0 +1,125 @@
+// src/geometry/meanValueCoordinates.test.ts
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { buildSolverMesh } from '../utils/vertexMapping';
+import { applyCageCoordinates, computeMeanValueCoordinates } from './meanValueCoordinates';
+
+/** [0, 1]³ 立方体笼，每条边分成 segments 段，三角形朝外。 */
+const unitCubeCage = (segments = 1) => {
+    const geometry = new THREE.BoxGeometry(1, 1, 1, segments, segments, segments).translate(0.5, 0.5, 0.5);
+    const { vertices, faces } = buildSolverMesh(geometry);
+    return { vertices, faces };
+};
+
+const findVertex = (vertices: Float32Array, x: number, y: number, z: number) => {
+    for (let j = 0; j < vertices.length / 3; j++) {
+        if (Math.hypot(vertices[j * 3] - x, vertices[j * 3 + 1] - y, vertices[j * 3 + 2] - z) < 1e-6) return j;
+    }
+    throw new Error(`No cage vertex at ${x}, ${y}, ${z}.`);
+};
+
+/**
+ * 参照实现：Floater, Kós & Reimers (2005) 的向量形式。每个三角形在以 x 为中心的单位球上的投影满足
+ * ∫ u dA = m = ½ Σ θ_i n_i，把 m 写成 Σ λ_i u_i 得到 λ_i = (n_i · m) / (n_i · u_i)，权重为 λ_i / d_i，最后归一化。
+ */
+const referenceMeanValueWeights = (cageVertices: Float32Array, cageFaces: Int32Array, x: THREE.Vector3) => {
+    const weights = new Float64Array(cageVertices.length / 3);
+    const corner = (j: number) => new THREE.Vector3().fromArray(cageVertices, j * 3).sub(x);
+    for (let f = 0; f < cageFaces.length; f += 3) {
+        const v = [cageFaces[f], cageFaces[f + 1], cageFaces[f + 2]];
+        const d = v.map(j => corner(j).length());
+        const u = v.map(j => corner(j).normalize());
+        const m = new THREE.Vector3();
+        const n = [0, 1, 2].map(i => {
+            const normal = new THREE.Vector3().crossVectors(u[(i + 1) % 3], u[(i + 2) % 3]).normalize();
+            // Edge-plane normals point towards the opposite corner.
+            if (normal.dot(u[i]) < 0) normal.negate();
+            m.addScaledVector(normal, u[(i + 1) % 3].angleTo(u[(i + 2) % 3]) / 2);
+            return normal;
+        });
+        for (let i = 0; i < 3; i++) weights[v[i]] += n[i].dot(m) / n[i].dot(u[i]) / d[i];
+    }
+    const sum = weights.reduce((total, w) => total + w, 0);
+    return weights.map(w => w / sum);
+};
+
+const weightOf = (coordinates: ReturnType<typeof computeMeanValueCoordinates>, point: number, cageVertex: number) => {
+    const { weightsPerPoint: k, indices, weights } = coordinates;
+    for (let i = point * k; i < point * k + k; i++) {
+        if (indices[i] === cageVertex) return weights[i];
+    }
+    return 0;
+};
+
+const deformPoints = (coordinates: ReturnType<typeof computeMeanValueCoordinates>, cage: Float32Array) =>
+    applyCageCoordinates(coordinates, cage, new Float32Array(coordinates.pointCount * 3));
+
+const POINTS = new Float32Array([
+    0.1, 0.2, 0.3,
+    0.5, 0.5, 0.5,
+    0.8, 0.3, 0.6,
+    0.25, 0.9, 0.05,
+]);
+
+describe('computeMeanValueCoordinates', () => {
+    it('gives the normalised mean-value weights inside the unit cube', () => {
+        const cage = unitCubeCage();
+        const coordinates = computeMeanValueCoordinates(cage.vertices, cage.faces, POINTS);
+
+        for (let p = 0; p < coordinates.pointCount; p++) {
+            const reference = referenceMeanValueWeights(cage.vertices, cage.faces, new THREE.Vector3().fromArray(POINTS, p * 3));
+            reference.forEach((w, j) => {
+                expect(w).toBeGreaterThan(0);
+                expect(weightOf(coordinates, p, j)).toBeCloseTo(w, 6);
+            });
+        }
+        // The corner next to (0.1, 0.2, 0.3) dominates it; the opposite one barely matters.
+        expect(weightOf(coordinates, 0, findVertex(cage.vertices, 0, 0, 0))).toBeGreaterThan(0.5);
+        expect(weightOf(coordinates, 0, findVertex(cage.vertices, 1, 1, 1))).toBeLessThan(0.02);
+    });
+
+    it('moves a point by its mean-value weight times the displacement of one cage vertex', () => {
+        const cage = unitCubeCage();
+        const coordinates = computeMeanValueCoordinates(cage.vertices, cage.faces, POINTS);
+        const corner = findVertex(cage.vertices, 1, 1, 1);
+        const moved = cage.vertices.slice();
+        moved[corner * 3] += 1;
+
+        const result = deformPoints(coordinates, moved);
+        for (let p = 0; p < coordinates.pointCount; p++) {
+            const reference = referenceMeanValueWeights(cage.vertices, cage.faces, new THREE.Vector3().fromArray(POINTS, p * 3));
+            expect(result[p * 3] - POINTS[p * 3]).toBeCloseTo(reference[corner], 5);
+            expect(result[p * 3 + 1]).toBeCloseTo(POINTS[p * 3 + 1], 5);
+            expect(result[p * 3 + 2]).toBeCloseTo(POINTS[p * 3 + 2], 5);
+        }
+    });
+
+    it('keeps sparsified weights close to the full coordinates and exact for affine cage motions', () => {
+        const cage = unitCubeCage(3);
+        const full = computeMeanValueCoordinates(cage.vertices, cage.faces, POINTS, Infinity);
+        const sparse = computeMeanValueCoordinates(cage.vertices, cage.faces, POINTS, 16);
+        expect(full.weightsPerPoint).toBe(cage.vertices.length / 3);
+        expect(sparse.weightsPerPoint).toBe(16);
+
+        // One cage vertex moved: the truncated weights only nudge the result.
+        const corner = findVertex(cage.vertices, 1, 1, 1);
+        const moved = cage.vertices.slice();
+        moved[corner * 3] += 1;
+        const fullResult = deformPoints(full, moved);
+        const sparseResult = deformPoints(sparse, moved);
+        for (let i = 0; i < POINTS.length; i++) expect(Math.abs(sparseResult[i] - fullResult[i])).toBeLessThan(0.02);
+
+        // An affine map of the cage carries over exactly, with or without truncation.
+        const matrix = new THREE.Matrix4().makeRotationY(0.7).scale(new THREE.Vector3(1.5, 0.5, 2)).setPosition(3, -1, 2);
+        const transformed = cage.vertices.slice();
+        new THREE.BufferAttribute(transformed, 3).applyMatrix4(matrix);
+        const expected = POINTS.slice();
+        new THREE.BufferAttribute(expected, 3).applyMatrix4(matrix);
+        for (const coordinates of [full, sparse]) {
+            const result = deformPoints(coordinates, transformed);
+            for (let i = 0; i < POINTS.length; i++) expect(result[i]).toBeCloseTo(expected[i], 4);
+        }
+    });
+});
@@ -0,0 +1,214 @@
+// src/geometry/meanValueCoordinates.ts
+
+/**
+ * 稀疏化后的笼坐标：每个点保留绝对值最大的 weightsPerPoint 个归一化权重（不少于笼顶点数时即为完整的均值坐标），
+ * 有权重被丢弃时再修正为仍然满足单位分解和线性精度，因此笼的平移、旋转和缩放会被精确传递。浮点舍入误差记在 offsets 中：x' = Σ_k w_k c'_k + offset。
+ */
+export type CageCoordinates = {
+    pointCount: number;
+    weightsPerPoint: number;
+    indices: Int32Array;
+    weights: Float32Array;
+    offsets: Float32Array;
+};
+
+// Mean-value weights are not local, so far fewer than ~64 per point leaves visible bumps in bends.
+export const DEFAULT_WEIGHTS_PER_POINT = 64;
+
+const EPSILON = 1e-8;
+
+/**
+ * 单个点相对封闭三角笼的均值坐标（Ju, Schaefer & Warren 2005）的未归一化权重，写入 weights（长度为笼顶点数）。
+ * 点落在笼顶点或三角形上时退化为该顶点 / 三角形内的重心坐标（同样未归一化）。
+ */
+function meanValueWeights(
+    cageVertices: ArrayLike<number>, cageFaces: ArrayLike<number>,
+    x: number, y: number, z: number,
+    distances: Float64Array, units: Float64Array, weights: Float64Array
+): void {
+    const cageVertexCount = distances.length;
+    weights.fill(0);
+
+    for (let j = 0; j < cageVertexCount; j++) {
+        const dx = cageVertices[j * 3] - x, dy = cageVertices[j * 3 + 1] - y, dz = cageVertices[j * 3 + 2] - z;
+        const d = Math.hypot(dx, dy, dz);
+        if (d < EPSILON) {
+            weights[j] = 1;
+            return;
+        }
+        distances[j] = d;
+        units[j * 3] = dx / d; units[j * 3 + 1] = dy / d; units[j * 3 + 2] = dz / d;
+    }
+
+    const theta = [0, 0, 0];
+    const c = [0, 0, 0];
+    const s = [0, 0, 0];
+    for (let f = 0; f + 2 < cageFaces.length; f += 3) {
+        const v = [cageFaces[f], cageFaces[f + 1], cageFaces[f + 2]];
+        for (let i = 0; i < 3; i++) {
+            const a = v[(i + 1) % 3] * 3, b = v[(i + 2) % 3] * 3;
+            const l = Math.hypot(units[a] - units[b], units[a + 1] - units[b + 1], units[a + 2] - units[b + 2]);
+            theta[i] = 2 * Math.asin(Math.min(l / 2, 1));
+        }
+        const h = (theta[0] + theta[1] + theta[2]) / 2;
+
+        if (Math.PI - h < EPSILON) {
+            // x lies inside this triangle: use its barycentric coordinates only.
+            weights.fill(0);
+            for (let i = 0; i < 3; i++) {
+                weights[v[i]] = Math.sin(theta[i]) * distances[v[(i + 2) % 3]] * distances[v[(i + 1) % 3]];
+            }
+            return;
+        }
+
+        const u0 = v[0] * 3, u1 = v[1] * 3, u2 = v[2] * 3;
+        const determinant =
+            units[u0] * (units[u1 + 1] * units[u2 + 2] - units[u1 + 2] * units[u2 + 1]) -
+            units[u0 + 1] * (units[u1] * units[u2 + 2] - units[u1 + 2] * units[u2]) +
+            units[u0 + 2] * (units[u1] * units[u2 + 1] - units[u1 + 1] * units[u2]);
+        const sign = determinant < 0 ? -1 : 1;
+
+        let degenerate = false;
+        for (let i = 0; i < 3; i++) {
+            c[i] = 2 * Math.sin(h) * Math.sin(h - theta[i]) / (Math.sin(theta[(i + 1) % 3]) * Math.sin(theta[(i + 2) % 3])) - 1;
+            s[i] = sign * Math.sqrt(Math.max(1 - c[i] * c[i], 0));
+            if (Math.abs(s[i]) <= EPSILON) degenerate = true;
+        }
+        // x is in the plane of the triangle but outside it, so the triangle contributes nothing.
+        if (degenerate) continue;
+
+        for (let i = 0; i < 3; i++) {
+            const next = (i + 1) % 3, previous = (i + 2) % 3;
+            weights[v[i]] += (theta[i] - c[next] * theta[previous] - c[previous] * theta[next]) /
+                (distances[v[i]] * Math.sin(theta[next]) * s[previous]);
+        }
+    }
+}
+
+/** 用带列主元的高斯消元解 n×n 稠密方程组 a x = b（a 为行主序，会被改写）；矩阵奇异时返回 null。 */
+function solveSmallSystem(a: Float64Array, b: Float64Array, n: number): Float64Array | null {
+    const x = Float64Array.from(b);
+    let scale = 0;
+    for (let i = 0; i < n; i++) scale = Math.max(scale, Math.abs(a[i * n + i]));
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row * n + col]) > Math.abs(a[pivot * n + col])) pivot = row;
+        }
+        if (!(Math.abs(a[pivot * n + col]) > 1e-12 * scale)) return null;
+        if (pivot !== col) {
+            for (let k = 0; k < n; k++) [a[col * n + k], a[pivot * n + k]] = [a[pivot * n + k], a[col * n + k]];
+            [x[col], x[pivot]] = [x[pivot], x[col]];
+        }
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row * n + col] / a[col * n + col];
+            for (let k = col; k < n; k++) a[row * n + k] -= factor * a[col * n + k];
+            x[row] -= factor * x[col];
+        }
+    }
+    for (let row = n - 1; row >= 0; row--) {
+        for (let k = row + 1; k < n; k++) x[row] -= a[row * n + k] * x[k];
+        x[row] /= a[row * n + row];
+    }
+    return x;
+}
+
+/**
+ * 计算 points 中每个点相对笼的均值坐标，并稀疏化为每点 weightsPerPoint 个权重。
+ * 笼应当是包住模型的封闭三角网格；计算量为 点数 × 笼面数。
+ */
+export function computeMeanValueCoordinates(
+    cageVertices: Float32Array,
+    cageFaces: Int32Array,
+    points: Float32Array,
+    weightsPerPoint = DEFAULT_WEIGHTS_PER_POINT
+): CageCoordinates {
+    const cageVertexCount = cageVertices.length / 3;
+    const pointCount = points.length / 3;
+    const k = Math.min(weightsPerPoint, cageVertexCount);
+    const indices = new Int32Array(pointCount * k);
+    const weights = new Float32Array(pointCount * k);
+    const offsets = new Float32Array(pointCount * 3);
+
+    const distances = new Float64Array(cageVertexCount);
+    const units = new Float64Array(cageVertexCount * 3);
+    const dense = new Float64Array(cageVertexCount);
+    const order = new Int32Array(k);
+    const selected = new Float64Array(k);
+    const gram = new Float64Array(16);
+    const residual = new Float64Array(4);
+
+    for (let p = 0; p < pointCount; p++) {
+        const x = points[p * 3], y = points[p * 3 + 1], z = points[p * 3 + 2];
+        meanValueWeights(cageVertices, cageFaces, x, y, z, distances, units, dense);
+        let sum = 0;
+        for (let j = 0; j < cageVertexCount; j++) sum += dense[j];
+        if (Math.abs(sum) > EPSILON) {
+            for (let j = 0; j < cageVertexCount; j++) dense[j] /= sum;
+        }
+
+        // Keep the k largest |w| in `order`, sorted by decreasing magnitude (insertion into a short list).
+        let kept = 0;
+        for (let j = 0; j < cageVertexCount; j++) {
+            const magnitude = Math.abs(dense[j]);
+            if (kept === k && magnitude <= Math.abs(dense[order[k - 1]])) continue;
+            let slot = kept < k ? kept++ : k - 1;
+            while (slot > 0 && Math.abs(dense[order[slot - 1]]) < magnitude) {
+                order[slot] = order[slot - 1];
+                slot--;
+            }
+            order[slot] = j;
+        }
+        for (let i = 0; i < k; i++) selected[i] = dense[order[i]];
+        // Dropping weights breaks partition of unity and linear precision; restore both with the smallest change
+        // to the kept weights, w' = w - Cᵀλ, where C has rows [1, c_x - x, c_y - y, c_z - z] over the kept vertices.
+        // With every cage vertex kept the normalised weights already have both properties.
+        let lambda: Float64Array | null = null;
+        if (k < cageVertexCount) {
+            gram.fill(0);
+            residual.fill(0);
+            residual[0] = -1;
+            for (let i = 0; i < k; i++) {
+                const j = order[i];
+                const row = [1, cageVertices[j * 3] - x, cageVertices[j * 3 + 1] - y, cageVertices[j * 3 + 2] - z];
+                for (let a = 0; a < 4; a++) {
+                    residual[a] += row[a] * selected[i];
+                    for (let b = 0; b < 4; b++) gram[a * 4 + b] += row[a] * row[b];
+                }
+            }
+            lambda = solveSmallSystem(gram, residual, 4);
+        }
+
+        let rx = x, ry = y, rz = z;
+        for (let i = 0; i < k; i++) {
+            const j = order[i];
+            const dx = cageVertices[j * 3] - x, dy = cageVertices[j * 3 + 1] - y, dz = cageVertices[j * 3 + 2] - z;
+            const w = lambda ? selected[i] - (lambda[0] + lambda[1] * dx + lambda[2] * dy + lambda[3] * dz) : selected[i];
+            indices[p * k + i] = j;
+            weights[p * k + i] = w;
+            rx -= w * cageVertices[j * 3];
+            ry -= w * cageVertices[j * 3 + 1];
+            rz -= w * cageVertices[j * 3 + 2];
+        }
+        offsets[p * 3] = rx; offsets[p * 3 + 1] = ry; offsets[p * 3 + 2] = rz;
+    }
+
+    return { pointCount, weightsPerPoint: k, indices, weights, offsets };
+}
+
+/** 由笼的当前姿态求出所有点的位置，写入 out（长度为 pointCount * 3）。 */
+export function applyCageCoordinates(coordinates: CageCoordinates, cageVertices: ArrayLike<number>, out: Float32Array): Float32Array {
+    const { pointCount, weightsPerPoint: k, indices, weights, offsets } = coordinates;
+    for (let p = 0; p < pointCount; p++) {
+        let x = offsets[p * 3], y = offsets[p * 3 + 1], z = offsets[p * 3 + 2];
+        for (let i = p * k; i < p * k + k; i++) {
+            const j = indices[i] * 3;
+            const w = weights[i];
+            x += w * cageVertices[j];
+            y += w * cageVertices[j + 1];
+            z += w * cageVertices[j + 2];
+        }
+        out[p * 3] = x; out[p * 3 + 1] = y; out[p * 3 + 2] = z;
+    }
+    return out;
+}
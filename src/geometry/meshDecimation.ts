@@ -0,0 +1,277 @@
+// src/geometry/meshDecimation.ts
+
+/**
+ * 简化层次中的一层：顶点、三角形，以及上一层（更细的一层，第一层为原网格）的每个顶点折叠进了这一层的哪个顶点。
+ * 上一层中没有被任何三角形引用的顶点不参与简化，parent 为 -1。
+ */
+export type DecimatedLevel = {
+    vertices: Float32Array;
+    faces: Int32Array;
+    parent: Int32Array;
+};
+
+// Boundary edges get a plane perpendicular to their face, weighted this much more than the face planes, so outlines stay put.
+const BOUNDARY_WEIGHT = 10;
+// Flat regions cost nothing to collapse; a small length term makes short edges go first there, so vertices stay evenly spread.
+const EDGE_LENGTH_WEIGHT = 1e-3;
+// A collapse may not turn a neighbouring face by more than this (cosine of ~78°), which also rules out flipped faces.
+const MIN_NORMAL_COSINE = 0.2;
+
+type HeapEntry = { cost: number; a: number; b: number; stampA: number; stampB: number; position: [number, number, number] };
+
+/** 按 cost 排序的二叉最小堆。 */
+class CollapseHeap {
+    private entries: HeapEntry[] = [];
+
+    public get size(): number {
+        return this.entries.length;
+    }
+
+    public push(entry: HeapEntry): void {
+        const entries = this.entries;
+        entries.push(entry);
+        let i = entries.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (entries[parent].cost <= entry.cost) break;
+            entries[i] = entries[parent];
+            i = parent;
+        }
+        entries[i] = entry;
+    }
+
+    public pop(): HeapEntry {
+        const entries = this.entries;
+        const top = entries[0];
+        const last = entries.pop()!;
+        if (entries.length > 0) {
+            let i = 0;
+            for (;;) {
+                const left = i * 2 + 1;
+                if (left >= entries.length) break;
+                const child = left + 1 < entries.length && entries[left + 1].cost < entries[left].cost ? left + 1 : left;
+                if (entries[child].cost >= last.cost) break;
+                entries[i] = entries[child];
+                i = child;
+            }
+            entries[i] = last;
+        }
+        return top;
+    }
+}
+
+/** 把平面 n·p + d = 0 以 weight 加权累加到对称 4×4 误差二次型 q（按 aa ab ac ad bb bc bd cc cd dd 存 10 个数）。 */
+const addPlane = (q: Float64Array, offset: number, nx: number, ny: number, nz: number, d: number, weight: number) => {
+    q[offset] += weight * nx * nx; q[offset + 1] += weight * nx * ny; q[offset + 2] += weight * nx * nz; q[offset + 3] += weight * nx * d;
+    q[offset + 4] += weight * ny * ny; q[offset + 5] += weight * ny * nz; q[offset + 6] += weight * ny * d;
+    q[offset + 7] += weight * nz * nz; q[offset + 8] += weight * nz * d;
+    q[offset + 9] += weight * d * d;
+};
+
+const quadricError = (q: ArrayLike<number>, x: number, y: number, z: number): number =>
+    q[0] * x * x + 2 * q[1] * x * y + 2 * q[2] * x * z + 2 * q[3] * x +
+    q[4] * y * y + 2 * q[5] * y * z + 2 * q[6] * y +
+    q[7] * z * z + 2 * q[8] * z +
+    q[9];
+
+/**
+ * 用二次误差度量（Garland & Heckbert 1997）的边折叠逐步简化网格，顶点数依次降到 targets 中的每个值时记下一层。
+ * 只做满足链接条件（两端点的公共邻居恰好是边两侧三角形的顶点）、不连通两段边界、也不翻转相邻三角形的折叠，
+ * 所以流形网格简化后仍是流形，连通分量和边界环的数目不变。无法再折叠时停止，不再生成后面的层。
+ */
+export function decimateMesh(vertices: ArrayLike<number>, faces: ArrayLike<number>, targets: number[]): DecimatedLevel[] {
+    const vertexCount = Math.floor(vertices.length / 3);
+    const faceCount = Math.floor(faces.length / 3);
+    const positions = Float64Array.from(vertices);
+    const corners = Int32Array.from(faces);
+    const faceAlive = new Uint8Array(faceCount).fill(1);
+    const vertexFaces: number[][] = Array.from({ length: vertexCount }, () => []);
+    for (let f = 0; f < faceCount; f++) {
+        for (let k = 0; k < 3; k++) vertexFaces[corners[f * 3 + k]].push(f);
+    }
+    const alive = Uint8Array.from(vertexFaces, list => (list.length > 0 ? 1 : 0));
+    let aliveCount = alive.reduce((sum, flag) => sum + flag, 0);
+    // Vertex each removed vertex was collapsed into (a union-find forest over the source vertices).
+    const mergedInto = Int32Array.from({ length: vertexCount }, (_, i) => i);
+    const stamps = new Int32Array(vertexCount);
+
+    const find = (i: number): number => {
+        while (mergedInto[i] !== i) {
+            mergedInto[i] = mergedInto[mergedInto[i]];
+            i = mergedInto[i];
+        }
+        return i;
+    };
+    const faceNormal = (f: number, moved = -1, x = 0, y = 0, z = 0): [number, number, number] => {
+        const p = [0, 1, 2].map(k => {
+            const v = corners[f * 3 + k];
+            return v === moved ? [x, y, z] : [positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]];
+        });
+        const ux = p[1][0] - p[0][0], uy = p[1][1] - p[0][1], uz = p[1][2] - p[0][2];
+        const vx = p[2][0] - p[0][0], vy = p[2][1] - p[0][1], vz = p[2][2] - p[0][2];
+        return [uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx];
+    };
+    const neighborsOf = (v: number): Set<number> => {
+        const ring = new Set<number>();
+        vertexFaces[v].forEach(f => {
+            for (let k = 0; k < 3; k++) if (corners[f * 3 + k] !== v) ring.add(corners[f * 3 + k]);
+        });
+        return ring;
+    };
+    const edgeFaces = (a: number, b: number): number[] =>
+        vertexFaces[a].filter(f => corners[f * 3] === b || corners[f * 3 + 1] === b || corners[f * 3 + 2] === b);
+    const isBoundaryVertex = (v: number): boolean => [...neighborsOf(v)].some(w => edgeFaces(v, w).length === 1);
+
+    // Error quadrics: the planes of the faces around each vertex, weighted by area, plus the boundary planes.
+    const quadrics = new Float64Array(vertexCount * 10);
+    for (let f = 0; f < faceCount; f++) {
+        const [nx, ny, nz] = faceNormal(f);
+        const length = Math.hypot(nx, ny, nz);
+        if (length === 0) continue;
+        const a = corners[f * 3];
+        const d = -(nx * positions[a * 3] + ny * positions[a * 3 + 1] + nz * positions[a * 3 + 2]) / length;
+        for (let k = 0; k < 3; k++) addPlane(quadrics, corners[f * 3 + k] * 10, nx / length, ny / length, nz / length, d, length / 2);
+
+        for (let k = 0; k < 3; k++) {
+            const p = corners[f * 3 + k], q = corners[f * 3 + (k + 1) % 3];
+            if (edgeFaces(p, q).length !== 1) continue;
+            const ex = positions[q * 3] - positions[p * 3], ey = positions[q * 3 + 1] - positions[p * 3 + 1], ez = positions[q * 3 + 2] - positions[p * 3 + 2];
+            // The plane through the edge, perpendicular to the face.
+            let px = ey * nz - ez * ny, py = ez * nx - ex * nz, pz = ex * ny - ey * nx;
+            const planeLength = Math.hypot(px, py, pz);
+            if (planeLength === 0) continue;
+            px /= planeLength; py /= planeLength; pz /= planeLength;
+            const pd = -(px * positions[p * 3] + py * positions[p * 3 + 1] + pz * positions[p * 3 + 2]);
+            const weight = BOUNDARY_WEIGHT * (ex * ex + ey * ey + ez * ez);
+            addPlane(quadrics, p * 10, px, py, pz, pd, weight);
+            addPlane(quadrics, q * 10, px, py, pz, pd, weight);
+        }
+    }
+
+    const sum = new Float64Array(10);
+    const heap = new CollapseHeap();
+    /** 边 (a, b) 折叠后的最优位置：二次型可逆时取其极小点，否则取两端点和中点中误差最小的一个。 */
+    const pushEdge = (a: number, b: number) => {
+        for (let k = 0; k < 10; k++) sum[k] = quadrics[a * 10 + k] + quadrics[b * 10 + k];
+        // The midpoint first, so it wins ties.
+        const candidates: [number, number, number][] = [
+            [(positions[a * 3] + positions[b * 3]) / 2, (positions[a * 3 + 1] + positions[b * 3 + 1]) / 2, (positions[a * 3 + 2] + positions[b * 3 + 2]) / 2],
+            [positions[a * 3], positions[a * 3 + 1], positions[a * 3 + 2]],
+            [positions[b * 3], positions[b * 3 + 1], positions[b * 3 + 2]],
+        ];
+        const [q0, q1, q2, q3, q4, q5, q6, q7, q8] = sum;
+        const c0 = q4 * q7 - q5 * q5, c1 = q2 * q5 - q1 * q7, c2 = q1 * q5 - q2 * q4;
+        const determinant = q0 * c0 + q1 * c1 + q2 * c2;
+        if (Math.abs(determinant) > 1e-10 * Math.max(q0 * q4 * q7, 1e-300)) {
+            // Cramer's rule for A p = -b with the symmetric A.
+            const x = -(q3 * c0 + q6 * c1 + q8 * c2) / determinant;
+            const y = -(q0 * (q6 * q7 - q5 * q8) + q1 * (q2 * q8 - q3 * q7) + q2 * (q3 * q5 - q2 * q6)) / determinant;
+            const z = -(q0 * (q4 * q8 - q5 * q6) + q1 * (q3 * q5 - q1 * q8) + q2 * (q1 * q6 - q3 * q4)) / determinant;
+            if (Number.isFinite(x) && Number.isFinite(y) && Number.isFinite(z)) candidates.push([x, y, z]);
+        }
+        let best = candidates[0];
+        let cost = Infinity;
+        candidates.forEach(candidate => {
+            const error = quadricError(sum, candidate[0], candidate[1], candidate[2]);
+            if (error < cost) {
+                cost = error;
+                best = candidate;
+            }
+        });
+        const lengthSq = (positions[a * 3] - positions[b * 3]) ** 2 + (positions[a * 3 + 1] - positions[b * 3 + 1]) ** 2 + (positions[a * 3 + 2] - positions[b * 3 + 2]) ** 2;
+        cost += EDGE_LENGTH_WEIGHT * lengthSq * lengthSq;
+        heap.push({ cost, a, b, stampA: stamps[a], stampB: stamps[b], position: best });
+    };
+
+    /** 折叠是否保持流形：链接条件、不连通两段边界、相邻三角形不翻转也不退化。 */
+    const canCollapse = (a: number, b: number, [x, y, z]: [number, number, number]): boolean => {
+        const shared = edgeFaces(a, b);
+        if (shared.length < 1 || shared.length > 2) return false;
+        const ringB = neighborsOf(b);
+        let common = 0;
+        neighborsOf(a).forEach(w => {
+            if (ringB.has(w)) common++;
+        });
+        if (common !== shared.length) return false;
+        // The merged vertex needs a proper fan: three neighbours inside the surface, two on its boundary.
+        if (neighborsOf(a).size + ringB.size - 2 - common < (shared.length === 2 ? 3 : 2)) return false;
+        if (shared.length === 2 && isBoundaryVertex(a) && isBoundaryVertex(b)) return false;
+
+        for (const v of [a, b]) {
+            for (const f of vertexFaces[v]) {
+                if (shared.includes(f)) continue;
+                const before = faceNormal(f);
+                const after = faceNormal(f, v, x, y, z);
+                const lengths = Math.hypot(...before) * Math.hypot(...after);
+                if (!(lengths > 0)) return false;
+                if (before[0] * after[0] + before[1] * after[1] + before[2] * after[2] < MIN_NORMAL_COSINE * lengths) return false;
+            }
+        }
+        return true;
+    };
+
+    const collapse = (a: number, b: number, [x, y, z]: [number, number, number]) => {
+        positions[a * 3] = x; positions[a * 3 + 1] = y; positions[a * 3 + 2] = z;
+        for (let k = 0; k < 10; k++) quadrics[a * 10 + k] += quadrics[b * 10 + k];
+        vertexFaces[b].forEach(f => {
+            const hasA = corners[f * 3] === a || corners[f * 3 + 1] === a || corners[f * 3 + 2] === a;
+            if (hasA) {
+                faceAlive[f] = 0;
+                for (let k = 0; k < 3; k++) {
+                    const v = corners[f * 3 + k];
+                    if (v !== b) vertexFaces[v] = vertexFaces[v].filter(g => g !== f);
+                }
+            } else {
+                for (let k = 0; k < 3; k++) if (corners[f * 3 + k] === b) corners[f * 3 + k] = a;
+                vertexFaces[a].push(f);
+            }
+        });
+        vertexFaces[b] = [];
+        alive[b] = 0;
+        aliveCount--;
+        mergedInto[b] = a;
+        stamps[a]++;
+        stamps[b]++;
+        neighborsOf(a).forEach(w => pushEdge(a, w));
+    };
+
+    for (let f = 0; f < faceCount; f++) {
+        for (let k = 0; k < 3; k++) {
+            const a = corners[f * 3 + k], b = corners[f * 3 + (k + 1) % 3];
+            // Each edge once, from the face where it runs from the lower index (or both ways on an open edge; duplicates are harmless).
+            if (a < b || edgeFaces(a, b).length === 1) pushEdge(a, b);
+        }
+    }
+
+    const levels: DecimatedLevel[] = [];
+    // Source index of every vertex of the previous level.
+    let previousIds = Int32Array.from({ length: vertexCount }, (_, i) => i);
+    for (const target of targets) {
+        while (aliveCount > target && heap.size > 0) {
+            const entry = heap.pop();
+            const { a, b } = entry;
+            if (!alive[a] || !alive[b] || stamps[a] !== entry.stampA || stamps[b] !== entry.stampB) continue;
+            if (canCollapse(a, b, entry.position)) collapse(a, b, entry.position);
+        }
+        if (levels.length > 0 && aliveCount === previousIds.length) break;
+
+        const index = new Int32Array(vertexCount).fill(-1);
+        const ids: number[] = [];
+        for (let i = 0; i < vertexCount; i++) {
+            if (!alive[i]) continue;
+            index[i] = ids.length;
+            ids.push(i);
+        }
+        const levelVertices = new Float32Array(ids.length * 3);
+        ids.forEach((id, j) => levelVertices.set(positions.subarray(id * 3, id * 3 + 3), j * 3));
+        const levelFaces: number[] = [];
+        for (let f = 0; f < faceCount; f++) {
+            if (faceAlive[f]) levelFaces.push(index[corners[f * 3]], index[corners[f * 3 + 1]], index[corners[f * 3 + 2]]);
+        }
+        // Vertices without faces were never alive, so their root is themselves and has no index here.
+        const parent = Int32Array.from(previousIds, id => index[find(id)]);
+        levels.push({ vertices: levelVertices, faces: Int32Array.from(levelFaces), parent });
+        previousIds = Int32Array.from(ids);
+    }
+    return levels;
+}
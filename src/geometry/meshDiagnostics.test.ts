@@ -0,0 +1,63 @@
+// src/geometry/meshDiagnostics.test.ts
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { buildSolverMesh } from '../utils/vertexMapping';
+import { computeVertexFans, diagnoseMesh, hasMeshIssues } from './meshDiagnostics';
+
+// Two triangles that touch only at vertex 0, like a bow tie.
+const bowTie = {
+    vertices: new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, -1, 0, 0, -1, -1, 0]),
+    faces: new Int32Array([0, 1, 2, 0, 3, 4]),
+};
+
+describe('diagnoseMesh', () => {
+    it('finds nothing wrong with a closed box and counts the boundary of an open grid', () => {
+        const box = buildSolverMesh(new THREE.BoxGeometry(1, 2, 3, 2, 2, 2));
+        const diagnostics = diagnoseMesh(box.vertices, box.faces);
+        expect(hasMeshIssues(diagnostics)).toBe(false);
+        expect(diagnostics.boundaryLoops).toBe(0);
+        expect(diagnostics.faceCount).toBe(box.faces.length / 3);
+
+        const plane = buildSolverMesh(new THREE.PlaneGeometry(1, 1, 3, 3));
+        expect(diagnoseMesh(plane.vertices, plane.faces).boundaryLoops).toBe(1);
+    });
+
+    it('reports degenerate, duplicate and flipped duplicate faces and unreferenced vertices', () => {
+        const vertices = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 2, 0, 0, 5, 5, 5]);
+        // Face 1 is a sliver along the x axis, face 2 repeats face 0, face 3 repeats it with the opposite winding.
+        const faces = new Int32Array([0, 1, 2, 0, 1, 3, 1, 2, 0, 0, 2, 1]);
+        const diagnostics = diagnoseMesh(vertices, faces);
+
+        expect(diagnostics.degenerateFaces).toEqual([1]);
+        expect(diagnostics.duplicateFaces).toEqual([2, 3]);
+        expect(diagnostics.unreferencedVertices).toEqual([4]);
+        expect(hasMeshIssues(diagnostics)).toBe(true);
+    });
+
+    it('reports edges shared by more than two faces', () => {
+        // Three fins on the edge 0-1.
+        const vertices = new Float32Array([0, 0, 0, 0, 0, 1, 1, 0, 0, 0, 1, 0, -1, -1, 0]);
+        const diagnostics = diagnoseMesh(vertices, new Int32Array([0, 1, 2, 0, 1, 3, 0, 1, 4]));
+
+        expect(diagnostics.nonManifoldEdges).toBe(1);
+        expect(diagnostics.boundaryLoops).toBeNull();
+    });
+
+    it('reports vertices whose faces form separate fans', () => {
+        expect(diagnoseMesh(bowTie.vertices, bowTie.faces).nonManifoldVertices).toEqual([0]);
+    });
+});
+
+describe('computeVertexFans', () => {
+    it('splits the faces around a vertex at edges that are not shared by exactly two faces', () => {
+        const fans = computeVertexFans(5, bowTie.faces);
+        expect(fans.get(0)).toEqual([[0], [1]]);
+        expect(fans.get(1)).toEqual([[0]]);
+
+        // A closed fan of four triangles around vertex 0.
+        const fan = computeVertexFans(5, [0, 1, 2, 0, 2, 3, 0, 3, 4, 0, 4, 1]);
+        expect(fan.get(0)).toEqual([[0, 1, 2, 3]]);
+    });
+});
@@ -0,0 +1,151 @@
+// src/geometry/meshDiagnostics.ts
+
+import * as THREE from 'three';
+import { HalfedgeDS } from 'three-mesh-halfedge';
+
+import { faceKey, getDegenerateAreaThreshold, isDegenerateFace } from './meshFaces';
+
+/**
+ * 求解器网格的拓扑诊断结果。索引均指向求解器网格（焊接后）的顶点和三角形。
+ * boundaryLoops 来自半边结构；网格存在半边结构无法表示的非流形情况时为 null。
+ */
+export type MeshDiagnostics = {
+    vertexCount: number;
+    faceCount: number;
+    // Faces whose area is (numerically) zero.
+    degenerateFaces: number[];
+    // Every repeated copy of a face after its first occurrence, regardless of winding.
+    duplicateFaces: number[];
+    // Vertices no face refers to; their Laplacian rows are empty.
+    unreferencedVertices: number[];
+    // Edges shared by more than two faces.
+    nonManifoldEdges: number;
+    // Vertices whose faces form more than one fan (e.g. two cones touching at their tips).
+    nonManifoldVertices: number[];
+    boundaryLoops: number | null;
+};
+
+/**
+ * 按顶点把三角形分成扇（fan）：经过流形边（恰好被两个三角形共享）相邻的三角形属于同一个扇。
+ * 返回 顶点 → 扇列表（每个扇是三角形索引数组），只包含被三角形引用的顶点。
+ */
+export function computeVertexFans(vertexCount: number, faces: ArrayLike<number>): Map<number, number[][]> {
+    const edgeKey = (i: number, j: number) => i < j ? i * vertexCount + j : j * vertexCount + i;
+    const edgeFaces = new Map<number, number[]>();
+    const vertexFaces = new Map<number, number[]>();
+    for (let f = 0; f * 3 + 2 < faces.length; f++) {
+        for (let k = 0; k < 3; k++) {
+            const v = faces[f * 3 + k];
+            const key = edgeKey(v, faces[f * 3 + (k + 1) % 3]);
+            const shared = edgeFaces.get(key);
+            if (shared) shared.push(f);
+            else edgeFaces.set(key, [f]);
+            const incident = vertexFaces.get(v);
+            if (incident) incident.push(f);
+            else vertexFaces.set(v, [f]);
+        }
+    }
+
+    const fans = new Map<number, number[][]>();
+    vertexFaces.forEach((incident, v) => {
+        // Union-find over the faces around v.
+        const parent = incident.map((_, i) => i);
+        const find = (i: number): number => {
+            while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+            return i;
+        };
+        const slot = new Map(incident.map((f, i) => [f, i]));
+        incident.forEach((f, i) => {
+            for (let k = 0; k < 3; k++) {
+                const w = faces[f * 3 + k];
+                if (w === v) continue;
+                const shared = edgeFaces.get(edgeKey(v, w))!;
+                if (shared.length !== 2) continue;
+                const other = slot.get(shared[0] === f ? shared[1] : shared[0]);
+                if (other !== undefined) parent[find(i)] = find(other);
+            }
+        });
+        const groups = new Map<number, number[]>();
+        incident.forEach((f, i) => {
+            const root = find(i);
+            const group = groups.get(root);
+            if (group) group.push(f);
+            else groups.set(root, [f]);
+        });
+        fans.set(v, [...groups.values()]);
+    });
+    return fans;
+}
+
+/** 用 three-mesh-halfedge 建立半边结构并数出边界环；网格无法表示为半边结构（非流形）时返回 null。 */
+function countBoundaryLoops(vertices: Float32Array, faces: ArrayLike<number>): number | null {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(vertices, 3));
+    geometry.setIndex(Array.from(faces));
+    try {
+        const structure = new HalfedgeDS();
+        structure.setFromGeometry(geometry);
+        return structure.loops().filter(halfedge => halfedge.isBoundary()).length;
+    } catch {
+        return null;
+    } finally {
+        geometry.dispose();
+    }
+}
+
+/** 检查求解器网格中会破坏余切拉普拉斯的问题：退化三角形、重复三角形、孤立顶点、非流形边和非流形顶点。 */
+export function diagnoseMesh(vertices: Float32Array, faces: Int32Array): MeshDiagnostics {
+    const vertexCount = vertices.length / 3;
+    const faceCount = faces.length / 3;
+    const minArea = getDegenerateAreaThreshold(vertices);
+
+    const degenerateFaces: number[] = [];
+    const duplicateFaces: number[] = [];
+    const seen = new Set<string>();
+    const referenced = new Uint8Array(vertexCount);
+    const edgeCounts = new Map<number, number>();
+    for (let f = 0; f < faceCount; f++) {
+        const a = faces[f * 3], b = faces[f * 3 + 1], c = faces[f * 3 + 2];
+        referenced[a] = referenced[b] = referenced[c] = 1;
+        if (isDegenerateFace(vertices, a, b, c, minArea)) degenerateFaces.push(f);
+        const key = faceKey(a, b, c);
+        if (seen.has(key)) duplicateFaces.push(f);
+        else seen.add(key);
+        [[a, b], [b, c], [c, a]].forEach(([i, j]) => {
+            const edge = i < j ? i * vertexCount + j : j * vertexCount + i;
+            edgeCounts.set(edge, (edgeCounts.get(edge) ?? 0) + 1);
+        });
+    }
+
+    const unreferencedVertices: number[] = [];
+    referenced.forEach((used, i) => {
+        if (!used) unreferencedVertices.push(i);
+    });
+    let nonManifoldEdges = 0;
+    edgeCounts.forEach(count => {
+        if (count > 2) nonManifoldEdges++;
+    });
+    const nonManifoldVertices: number[] = [];
+    computeVertexFans(vertexCount, faces).forEach((fans, v) => {
+        if (fans.length > 1) nonManifoldVertices.push(v);
+    });
+
+    return {
+        vertexCount,
+        faceCount,
+        degenerateFaces,
+        duplicateFaces,
+        unreferencedVertices,
+        nonManifoldEdges,
+        nonManifoldVertices,
+        boundaryLoops: countBoundaryLoops(vertices, faces),
+    };
+}
+
+/** 诊断结果中是否有任何问题（边界环本身不算问题）。 */
+export const hasMeshIssues = (diagnostics: MeshDiagnostics): boolean =>
+    diagnostics.degenerateFaces.length > 0 ||
+    diagnostics.duplicateFaces.length > 0 ||
+    diagnostics.unreferencedVertices.length > 0 ||
+    diagnostics.nonManifoldEdges > 0 ||
+    diagnostics.nonManifoldVertices.length > 0;
@@ -0,0 +1,36 @@
+// src/geometry/meshFaces.ts
+
+// Faces smaller than this fraction of the squared bounding-box diagonal count as degenerate.
+export const DEGENERATE_AREA_RATIO = 1e-12;
+
+const triangleArea = (vertices: ArrayLike<number>, a: number, b: number, c: number): number => {
+    const ux = vertices[b * 3] - vertices[a * 3];
+    const uy = vertices[b * 3 + 1] - vertices[a * 3 + 1];
+    const uz = vertices[b * 3 + 2] - vertices[a * 3 + 2];
+    const vx = vertices[c * 3] - vertices[a * 3];
+    const vy = vertices[c * 3 + 1] - vertices[a * 3 + 1];
+    const vz = vertices[c * 3 + 2] - vertices[a * 3 + 2];
+    return 0.5 * Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx);
+};
+
+/** 面积低于 minArea 或有重复角点的三角形。 */
+export function isDegenerateFace(vertices: ArrayLike<number>, a: number, b: number, c: number, minArea: number): boolean {
+    return a === b || b === c || c === a || triangleArea(vertices, a, b, c) <= minArea;
+}
+
+/** 与绕向无关的三角形键，用于找出重复的三角形。 */
+export const faceKey = (a: number, b: number, c: number): string => [a, b, c].sort((x, y) => x - y).join(',');
+
+/** 网格包围盒对角线的平方乘以 DEGENERATE_AREA_RATIO。 */
+export function getDegenerateAreaThreshold(vertices: ArrayLike<number>): number {
+    if (vertices.length < 3) return 0;
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i + 2 < vertices.length; i += 3) {
+        for (let c = 0; c < 3; c++) {
+            min[c] = Math.min(min[c], vertices[i + c]);
+            max[c] = Math.max(max[c], vertices[i + c]);
+        }
+    }
+    return ((max[0] - min[0]) ** 2 + (max[1] - min[1]) ** 2 + (max[2] - min[2]) ** 2) * DEGENERATE_AREA_RATIO;
+}
@@ -0,0 +1,110 @@
+// src/geometry/meshTopology.ts
+
+/**
+ * 三角网格的邻接结构（CSR 格式）和余切权重。
+ * neighbors[offsets[i] .. offsets[i + 1]) 是顶点 i 的一环邻居，weights 与之一一对应。
+ */
+export type MeshTopology = {
+    vertexCount: number;
+    offsets: Int32Array;
+    neighbors: Int32Array;
+    weights: Float64Array;
+};
+
+const cotangent = (
+    vertices: ArrayLike<number>, apex: number, a: number, b: number
+): number => {
+    const ax = vertices[a * 3] - vertices[apex * 3];
+    const ay = vertices[a * 3 + 1] - vertices[apex * 3 + 1];
+    const az = vertices[a * 3 + 2] - vertices[apex * 3 + 2];
+    const bx = vertices[b * 3] - vertices[apex * 3];
+    const by = vertices[b * 3 + 1] - vertices[apex * 3 + 1];
+    const bz = vertices[b * 3 + 2] - vertices[apex * 3 + 2];
+    const dot = ax * bx + ay * by + az * bz;
+    const crossLength = Math.hypot(ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx);
+    return crossLength > 1e-20 ? dot / crossLength : 0;
+};
+
+/**
+ * 由静止姿态构建邻接和余切权重 w_ij = (cot α + cot β) / 2。
+ * 负权重（钝角三角形）会被截断为 0，避免能量出现负值；uniform 为 true 时所有权重为 1。
+ */
+export function buildMeshTopology(vertices: ArrayLike<number>, faces: ArrayLike<number>, uniform = false): MeshTopology {
+    const vertexCount = vertices.length / 3;
+    const edgeWeights = new Map<number, number>();
+    const key = (i: number, j: number) => i < j ? i * vertexCount + j : j * vertexCount + i;
+    const addWeight = (i: number, j: number, w: number) => {
+        const k = key(i, j);
+        edgeWeights.set(k, (edgeWeights.get(k) ?? 0) + w);
+    };
+
+    for (let f = 0; f + 2 < faces.length; f += 3) {
+        const a = faces[f], b = faces[f + 1], c = faces[f + 2];
+        if (uniform) {
+            // Every face contributes to each of its edges once; the value is reset to 1 below.
+            addWeight(b, c, 1); addWeight(c, a, 1); addWeight(a, b, 1);
+        } else {
+            addWeight(b, c, 0.5 * cotangent(vertices, a, b, c));
+            addWeight(c, a, 0.5 * cotangent(vertices, b, c, a));
+            addWeight(a, b, 0.5 * cotangent(vertices, c, a, b));
+        }
+    }
+
+    const degree = new Int32Array(vertexCount);
+    edgeWeights.forEach((_, k) => {
+        degree[Math.floor(k / vertexCount)]++;
+        degree[k % vertexCount]++;
+    });
+    const offsets = new Int32Array(vertexCount + 1);
+    for (let i = 0; i < vertexCount; i++) offsets[i + 1] = offsets[i] + degree[i];
+
+    const neighbors = new Int32Array(offsets[vertexCount]);
+    const weights = new Float64Array(offsets[vertexCount]);
+    const cursor = offsets.slice(0, vertexCount);
+    edgeWeights.forEach((w, k) => {
+        const i = Math.floor(k / vertexCount);
+        const j = k % vertexCount;
+        const weight = uniform ? 1 : Math.max(w, 0);
+        neighbors[cursor[i]] = j; weights[cursor[i]++] = weight;
+        neighbors[cursor[j]] = i; weights[cursor[j]++] = weight;
+    });
+
+    return { vertexCount, offsets, neighbors, weights };
+}
+
+/**
+ * 用并查集给每个顶点标上连通分量编号（0 .. count-1）。
+ * 不属于任何三角形的顶点各自成为一个分量。
+ */
+export function labelConnectedComponents(vertexCount: number, faces: ArrayLike<number>): { labels: Int32Array; count: number } {
+    const parent = new Int32Array(vertexCount);
+    for (let i = 0; i < vertexCount; i++) parent[i] = i;
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+    const union = (a: number, b: number) => {
+        const rootA = find(a), rootB = find(b);
+        if (rootA !== rootB) parent[rootB] = rootA;
+    };
+    for (let f = 0; f + 2 < faces.length; f += 3) {
+        union(faces[f], faces[f + 1]);
+        union(faces[f], faces[f + 2]);
+    }
+
+    const labels = new Int32Array(vertexCount);
+    const rootLabels = new Map<number, number>();
+    for (let i = 0; i < vertexCount; i++) {
+        const root = find(i);
+        let label = rootLabels.get(root);
+        if (label === undefined) {
+            label = rootLabels.size;
+            rootLabels.set(root, label);
+        }
+        labels[i] = label;
+    }
+    return { labels, count: rootLabels.size };
+}
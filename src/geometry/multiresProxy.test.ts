@@ -0,0 +1,75 @@
+// src/geometry/multiresProxy.test.ts
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { buildSolverMesh } from '../utils/vertexMapping';
+import { labelConnectedComponents } from './meshTopology';
+import { buildProxyMesh, MIN_PROXY_VERTICES, prolongProxyPose } from './multiresProxy';
+
+// A closed sphere with 2562 welded vertices and an open 31 x 31 grid.
+const sphere = buildSolverMesh(new THREE.IcosahedronGeometry(1, 15));
+const plane = buildSolverMesh(new THREE.PlaneGeometry(1, 1, 30, 30));
+
+/** 每条边被几个三角形共用。 */
+const edgeFaceCounts = (faces: Int32Array) => {
+    const counts = new Map<string, number>();
+    for (let f = 0; f < faces.length; f += 3) {
+        for (let k = 0; k < 3; k++) {
+            const a = faces[f + k], b = faces[f + (k + 1) % 3];
+            const key = a < b ? `${a},${b}` : `${b},${a}`;
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+    }
+    return [...counts.values()];
+};
+
+describe('buildProxyMesh', () => {
+    it('builds one closed, connected manifold per level, each about a quarter of the one before', () => {
+        const proxy = buildProxyMesh(sphere.vertices, sphere.faces, 3);
+
+        expect(proxy.levels.length).toBe(3);
+        let previous = sphere.vertices.length / 3;
+        proxy.levels.forEach(level => {
+            const count = level.vertices.length / 3;
+            expect(count).toBe(Math.max(MIN_PROXY_VERTICES, Math.round(previous / 4)));
+            expect(edgeFaceCounts(level.faces).every(n => n === 2)).toBe(true);
+            expect(labelConnectedComponents(count, level.faces).count).toBe(1);
+            // A closed sphere keeps V - E + F = 2.
+            expect(count - edgeFaceCounts(level.faces).length + level.faces.length / 3).toBe(2);
+            previous = count;
+        });
+        expect(proxy.vertices).toBe(proxy.levels[2].vertices);
+        expect(Math.max(...proxy.primary)).toBeLessThan(proxy.vertices.length / 3);
+    });
+
+    it('keeps the boundary of an open mesh', () => {
+        const proxy = buildProxyMesh(plane.vertices, plane.faces, 2);
+
+        proxy.levels.forEach(level => {
+            const counts = edgeFaceCounts(level.faces);
+            expect(counts.every(n => n === 1 || n === 2)).toBe(true);
+            // Still a disc, with its four corners where they were.
+            const count = level.vertices.length / 3;
+            expect(count - counts.length + level.faces.length / 3).toBe(1);
+            for (const [x, y] of [[-0.5, -0.5], [0.5, -0.5], [-0.5, 0.5], [0.5, 0.5]]) {
+                const corner = Array.from({ length: count }, (_, j) => Math.hypot(level.vertices[j * 3] - x, level.vertices[j * 3 + 1] - y));
+                expect(Math.min(...corner)).toBeLessThan(1e-5);
+            }
+        });
+    });
+});
+
+describe('prolongProxyPose', () => {
+    it('carries a rigid motion of the proxy over to every source vertex', () => {
+        const proxy = buildProxyMesh(sphere.vertices, sphere.faces, 3);
+        const matrix = new THREE.Matrix4().makeRotationAxis(new THREE.Vector3(1, 2, 3).normalize(), 1.1).setPosition(2, -1, 0.5);
+        const pose = proxy.vertices.slice();
+        new THREE.BufferAttribute(pose, 3).applyMatrix4(matrix);
+        const expected = sphere.vertices.slice();
+        new THREE.BufferAttribute(expected, 3).applyMatrix4(matrix);
+
+        const result = prolongProxyPose(proxy, sphere.vertices, pose);
+        for (let i = 0; i < expected.length; i++) expect(result[i]).toBeCloseTo(expected[i], 4);
+    });
+});
@@ -0,0 +1,201 @@
+// src/geometry/multiresProxy.ts
+
+import { bestFitRotation, mat3 } from './linalg3';
+import { decimateMesh } from './meshDecimation';
+
+/** 一组顶点到更粗一层的绑定，CSR 格式：顶点 i 绑定的粗层顶点是 proxyIndices[offsets[i] .. offsets[i + 1])，权重和为 1。 */
+export type ProxyBinding = {
+    offsets: Int32Array;
+    proxyIndices: Int32Array;
+    weights: Float32Array;
+};
+
+/** 代理层次中的一层，binding 把上一层（更细的一层，第一层为原网格）的顶点绑定到这一层。 */
+export type ProxyLevel = {
+    vertices: Float32Array;
+    faces: Int32Array;
+    // One-ring of every vertex of this level.
+    neighbors: number[][];
+    binding: ProxyBinding;
+};
+
+/**
+ * 网格的简化代理层次，levels 从细到粗排列。vertices 和 faces 是最粗的一层，也就是求解用的代理网格；
+ * primary 是每个原顶点逐层折叠进的最粗层顶点，原顶点上的约束都转交给它。
+ */
+export type ProxyMesh = {
+    levels: ProxyLevel[];
+    vertices: Float32Array;
+    faces: Int32Array;
+    primary: Int32Array;
+};
+
+// Every level keeps roughly a quarter of the vertices, like halving the resolution of a surface.
+const LEVEL_REDUCTION = 4;
+// Below this a proxy cannot carry a meaningful deformation.
+export const MIN_PROXY_VERTICES = 64;
+// Finer vertices are bound to the coarse vertices within this many mean edge lengths of the coarse level.
+const BINDING_RADIUS = 2;
+
+/**
+ * 用保持流形的边折叠（见 decimateMesh）建立 levels 层代理，每层顶点数约为上一层的 1/4，但不少于 MIN_PROXY_VERTICES；
+ * 网格太小或无法再简化时层数会少一些。每层的顶点绑定到下一层折叠进的顶点及其一环邻居。
+ */
+export function buildProxyMesh(vertices: Float32Array, faces: Int32Array, levels: number): ProxyMesh {
+    const vertexCount = vertices.length / 3;
+    const targets: number[] = [];
+    for (let level = 1; level <= Math.max(levels, 1); level++) {
+        const target = Math.max(MIN_PROXY_VERTICES, Math.round(vertexCount / LEVEL_REDUCTION ** level));
+        if (targets.length === 0 || target < targets[targets.length - 1]) targets.push(target);
+    }
+    const decimated = decimateMesh(vertices, faces, targets);
+    if (decimated.length === 0 || decimated[0].faces.length === 0) throw new Error('The mesh is too small to build a proxy.');
+
+    const primary = new Int32Array(vertexCount);
+    let finer = vertices;
+    const proxyLevels = decimated.map((level, index) => {
+        const neighbors = getVertexNeighbors(level.vertices.length / 3, level.faces);
+        // Source vertices without faces were not decimated; they follow the nearest proxy vertex.
+        const parent = Int32Array.from(level.parent, (p, i) => (p >= 0 ? p : findNearest(level.vertices, finer, i)));
+        for (let i = 0; i < vertexCount; i++) primary[i] = index === 0 ? parent[i] : parent[primary[i]];
+        const binding = bindToProxy(finer, level.vertices, parent, neighbors, meanEdgeLength(level.vertices, neighbors) * BINDING_RADIUS);
+        finer = level.vertices;
+        return { vertices: level.vertices, faces: level.faces, neighbors, binding };
+    });
+    const coarsest = proxyLevels[proxyLevels.length - 1];
+    return { levels: proxyLevels, vertices: coarsest.vertices, faces: coarsest.faces, primary };
+}
+
+const getVertexNeighbors = (vertexCount: number, faces: Int32Array): number[][] => {
+    const neighbors = Array.from({ length: vertexCount }, () => new Set<number>());
+    for (let f = 0; f < faces.length; f += 3) {
+        for (let k = 0; k < 3; k++) {
+            neighbors[faces[f + k]].add(faces[f + (k + 1) % 3]);
+            neighbors[faces[f + (k + 1) % 3]].add(faces[f + k]);
+        }
+    }
+    return neighbors.map(ring => [...ring]);
+};
+
+// Only used for source vertices that no face references, so a linear scan is fine.
+const findNearest = (proxyVertices: Float32Array, vertices: Float32Array, i: number): number => {
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    for (let j = 0; j * 3 < proxyVertices.length; j++) {
+        const distance = squaredDistance(proxyVertices, j, vertices, i);
+        if (distance < nearestDistance) {
+            nearest = j;
+            nearestDistance = distance;
+        }
+    }
+    return nearest;
+};
+
+const meanEdgeLength = (vertices: Float32Array, neighbors: number[][]): number => {
+    let total = 0;
+    let count = 0;
+    neighbors.forEach((ring, j) => ring.forEach(k => {
+        total += Math.sqrt(squaredDistance(vertices, j, vertices, k));
+        count++;
+    }));
+    return count > 0 ? total / count : 1;
+};
+
+const squaredDistance = (a: ArrayLike<number>, i: number, b: ArrayLike<number>, j: number): number => {
+    const dx = a[i * 3] - b[j * 3], dy = a[i * 3 + 1] - b[j * 3 + 1], dz = a[i * 3 + 2] - b[j * 3 + 2];
+    return dx * dx + dy * dy + dz * dz;
+};
+
+/**
+ * 把每个细层顶点绑定到它折叠进的粗层顶点 primary 及其一环邻居中距离小于 radius 的那些，
+ * 权重为 (1 - d²/r²)²，在 radius 处平滑地降为 0，因此相邻顶点之间不会出现接缝。
+ */
+function bindToProxy(
+    vertices: Float32Array,
+    proxyVertices: Float32Array,
+    primary: Int32Array,
+    neighbors: number[][],
+    radius: number
+): ProxyBinding {
+    const vertexCount = vertices.length / 3;
+    const offsets = new Int32Array(vertexCount + 1);
+    const proxyIndices: number[] = [];
+    const weights: number[] = [];
+    const radiusSq = radius * radius;
+    for (let i = 0; i < vertexCount; i++) {
+        const start = proxyIndices.length;
+        let total = 0;
+        [primary[i], ...neighbors[primary[i]]].forEach(j => {
+            const falloff = 1 - squaredDistance(proxyVertices, j, vertices, i) / radiusSq;
+            if (falloff <= 0) return;
+            proxyIndices.push(j);
+            weights.push(falloff * falloff);
+            total += falloff * falloff;
+        });
+        if (total > 0) {
+            for (let k = start; k < weights.length; k++) weights[k] /= total;
+        } else {
+            // Far from every nearby proxy vertex (e.g. a long collapsed sliver): follow the primary alone.
+            proxyIndices.push(primary[i]);
+            weights.push(1);
+        }
+        offsets[i + 1] = proxyIndices.length;
+    }
+    return { offsets, proxyIndices: Int32Array.from(proxyIndices), weights: Float32Array.from(weights) };
+}
+
+/**
+ * 把代理网格的姿态逐层传递回原网格：在每一层先为每个顶点求一环的最佳拟合旋转，
+ * 再让细一层的顶点按绑定权重混合这些刚体运动 p' = Σ w_j (c'_j + R_j (p - c_j))，这样细节会随局部转动。
+ */
+export function prolongProxyPose(
+    proxy: ProxyMesh,
+    restVertices: Float32Array,
+    proxyPose: Float32Array,
+    out: Float32Array = new Float32Array(restVertices.length)
+): Float32Array {
+    let pose = proxyPose;
+    for (let index = proxy.levels.length - 1; index >= 0; index--) {
+        const finer = index > 0 ? proxy.levels[index - 1].vertices : restVertices;
+        pose = prolongLevel(proxy.levels[index], finer, pose, index > 0 ? new Float32Array(finer.length) : out);
+    }
+    return pose;
+}
+
+function prolongLevel(level: ProxyLevel, finer: Float32Array, pose: Float32Array, out: Float32Array): Float32Array {
+    const levelCount = level.vertices.length / 3;
+    const rotations = new Float64Array(levelCount * 9);
+    const covariance = mat3();
+    const rotation = mat3();
+    for (let j = 0; j < levelCount; j++) {
+        covariance.fill(0);
+        level.neighbors[j].forEach(k => {
+            for (let r = 0; r < 3; r++) {
+                const rest = level.vertices[k * 3 + r] - level.vertices[j * 3 + r];
+                for (let c = 0; c < 3; c++) covariance[r * 3 + c] += rest * (pose[k * 3 + c] - pose[j * 3 + c]);
+            }
+        });
+        rotations.set(bestFitRotation(covariance, rotation), j * 9);
+    }
+
+    const { offsets, proxyIndices, weights } = level.binding;
+    const vertexCount = finer.length / 3;
+    for (let i = 0; i < vertexCount; i++) {
+        let x = 0, y = 0, z = 0;
+        for (let k = offsets[i]; k < offsets[i + 1]; k++) {
+            const j = proxyIndices[k];
+            const w = weights[k];
+            const dx = finer[i * 3] - level.vertices[j * 3];
+            const dy = finer[i * 3 + 1] - level.vertices[j * 3 + 1];
+            const dz = finer[i * 3 + 2] - level.vertices[j * 3 + 2];
+            const R = rotations.subarray(j * 9, j * 9 + 9);
+            x += w * (pose[j * 3] + R[0] * dx + R[1] * dy + R[2] * dz);
+            y += w * (pose[j * 3 + 1] + R[3] * dx + R[4] * dy + R[5] * dz);
+            z += w * (pose[j * 3 + 2] + R[6] * dx + R[7] * dy + R[8] * dz);
+        }
+        out[i * 3] = x;
+        out[i * 3 + 1] = y;
+        out[i * 3 + 2] = z;
+    }
+    return out;
+}
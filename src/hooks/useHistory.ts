@@ -0,0 +1,60 @@
+// src/hooks/useHistory.ts
+
+import { useCallback, useReducer, useRef } from 'react';
+
+export type HistoryEntry<T> = {
+    label: string;
+    state: T;
+};
+
+/**
+ * 基于快照的撤销 / 重做栈。
+ * 每次修改之前调用 record(label, 修改前的状态)；undo / redo 需要传入当前状态，
+ * 返回应当恢复的状态（没有可恢复的状态时返回 null）。
+ */
+export function useHistory<T>(limit = 100) {
+    const past = useRef<HistoryEntry<T>[]>([]);
+    const future = useRef<HistoryEntry<T>[]>([]);
+    // The stacks live in refs so undo/redo can return synchronously; this only refreshes the toolbar.
+    const [, forceRender] = useReducer((count: number) => count + 1, 0);
+
+    const record = useCallback((label: string, state: T) => {
+        past.current.push({ label, state });
+        if (past.current.length > limit) past.current.shift();
+        future.current = [];
+        forceRender();
+    }, [limit]);
+
+    const undo = useCallback((current: T): T | null => {
+        const entry = past.current.pop();
+        if (!entry) return null;
+        future.current.push({ label: entry.label, state: current });
+        forceRender();
+        return entry.state;
+    }, []);
+
+    const redo = useCallback((current: T): T | null => {
+        const entry = future.current.pop();
+        if (!entry) return null;
+        past.current.push({ label: entry.label, state: current });
+        forceRender();
+        return entry.state;
+    }, []);
+
+    const clear = useCallback(() => {
+        past.current = [];
+        future.current = [];
+        forceRender();
+    }, []);
+
+    return {
+        record,
+        undo,
+        redo,
+        clear,
+        canUndo: past.current.length > 0,
+        canRedo: future.current.length > 0,
+        undoLabel: past.current[past.current.length - 1]?.label ?? null,
+        redoLabel: future.current[future.current.length - 1]?.label ?? null,
+    };
+}
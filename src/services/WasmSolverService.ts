@@ -1,35 +1,65 @@
 // src/services/WasmSolverService.ts
 
-// The types are declared globally in `arap.d.ts`.
-let scriptLoadingPromise: Promise<void> | null = null;
-
-const loadArapScript = (): Promise<void> => {
-    if (typeof createArapModule !== 'undefined') return Promise.resolve();
-    if (scriptLoadingPromise) return scriptLoadingPromise;
-
-    scriptLoadingPromise = new Promise((resolve, reject) => {
-        const script = document.createElement('script');
-        script.src = '/arap.js'; 
-        script.async = true;
-        script.onload = () => resolve();
-        script.onerror = (error) => {
-            console.error('Failed to load arap.js script.', error);
-            scriptLoadingPromise = null;
-            reject(new Error('Failed to load arap.js'));
-        };
-        document.body.appendChild(script);
-    });
-    
-    return scriptLoadingPromise;
+import type { CageDeformResult } from '../deformer/CageDeformer';
+import type { DeformResult } from '../deformer/Deformer';
+import { DEFAULT_SOLVER_SETTINGS, SolverError, type SolverErrorCode, type SolverSettings, type SolveStats } from '../deformer/solverTypes';
+import type { CollisionOptions } from '../geometry/collision';
+import { validateConstraints, type ConstraintIssue, type ValidationMesh } from '../geometry/constraintValidation';
+import { DEFORMATION_MODELS, type DeformationModel } from '../geometry/localGlobalSolver';
+import { labelConnectedComponents } from '../geometry/meshTopology';
+import type { SolverRequest, SolverResponse, SolverResult } from '../workers/solverMessages';
+
+export { DEFAULT_SOLVER_SETTINGS, DEFORMATION_MODELS, SolverError };
+export type { CageDeformResult, CollisionOptions, ConstraintIssue, DeformationModel, DeformResult, SolverErrorCode, SolverSettings, SolveStats };
+
+// Distributes Omit over the request union so each variant keeps its own fields.
+type RequestPayload<T = SolverRequest> = T extends SolverRequest ? Omit<T, 'id'> : never;
+
+const buildValidationMesh = (vertices: Float32Array, faces: Int32Array): ValidationMesh => {
+    const components = labelConnectedComponents(vertices.length / 3, faces);
+    return { vertices: vertices.slice(), componentLabels: components.labels, componentCount: components.count };
+};
+
+type PendingRequest = {
+    resolve: (result: SolverResult) => void;
+    reject: (error: Error) => void;
+};
+
+type DeformJob = {
+    // 'cage' jobs constrain cage vertices and 'proxy' jobs are solved on the proxy; all kinds share one queue, so only the latest drag position is solved.
+    target: 'mesh' | 'cage' | 'proxy';
+    anchorIndices: Int32Array;
+    handleIndices: Int32Array;
+    positions: Float32Array;
+    // Only mesh and proxy jobs carry constraint weights.
+    weights: Float32Array | null;
+    // Only mesh jobs handle collisions; previews and cages ignore them.
+    collision: CollisionOptions | null;
+    settings: SolverSettings;
+    resolve: (result: SolverResult | null) => void;
+    reject: (error: Error) => void;
 };
 
+const toDeformResult = ({ vertices, stats }: SolverResult): DeformResult => {
+    if (!vertices || !stats) throw new Error('Solver returned no result.');
+    return { vertices, stats };
+};
 
-class WasmSolverService {
+export class WasmSolverService {
     private static instance: WasmSolverService;
-    private controller: ArapController | null = null;
-    // 我们现在存储的是构造函数，而不是模块本身
-    private ArapController_constructor: ArapControllerConstructor | null = null;
-    
+    // ArapController 运行在 Web Worker 中，主线程只通过消息与它交互
+    private worker: Worker | null = null;
+    private initPromise: Promise<void> | null = null;
+    private nextRequestId = 1;
+    private pendingRequests = new Map<number, PendingRequest>();
+    // 拖拽时只保留最新的一次求解请求；在途请求完成前到达的旧请求会被直接丢弃
+    private queuedDeform: DeformJob | null = null;
+    private isDeformInFlight = false;
+    // Rest shape and connected components of the loaded mesh, used to validate constraints on the main thread.
+    private validationMesh: ValidationMesh | null = null;
+    // The same for the cage, if one is loaded.
+    private cageValidationMesh: ValidationMesh | null = null;
+
     private constructor() {}
 
     public static getInstance(): WasmSolverService {
@@ -39,61 +69,299 @@ class WasmSolverService {
         return WasmSolverService.instance;
     }
 
-    public async init(): Promise<void> {
-        if (this.ArapController_constructor) {
-            console.log('WasmSolverService already initialized.');
-            return;
+    /** 创建一个独立的服务，拥有自己的 worker 和网格，用于同一页面上的多个变形器（应用本身用默认导出的单例）。 */
+    public static create(): WasmSolverService {
+        return new WasmSolverService();
+    }
+
+    private request(payload: RequestPayload, transfer: Transferable[] = []): Promise<SolverResult> {
+        const worker = this.worker;
+        if (!worker) {
+            return Promise.reject(new Error('WasmSolverService is not initialized. Call init() first.'));
         }
+        const id = this.nextRequestId++;
+        return new Promise((resolve, reject) => {
+            this.pendingRequests.set(id, { resolve, reject });
+            worker.postMessage({ ...payload, id } as SolverRequest, transfer);
+        });
+    }
+
+    private handleResponse = (event: MessageEvent<SolverResponse>) => {
+        const response = event.data;
+        const pending = this.pendingRequests.get(response.id);
+        if (!pending) return;
+        this.pendingRequests.delete(response.id);
 
-        try {
-            await loadArapScript();
-            const module = await createArapModule({
-                locateFile: (path: string) => path.endsWith('.wasm') ? '/arap.wasm' : path
+        if (response.ok) {
+            pending.resolve({
+                vertices: response.vertices,
+                stats: response.stats,
+                cageVertices: response.cageVertices,
+                proxyVertexCount: response.proxyVertexCount,
             });
-            this.ArapController_constructor = module.ArapController;
-            console.log('ARAP Wasm module loaded successfully.');
-        } catch (error) {
-            console.error('Error during WASM module initialization:', error);
-            throw error;
+        } else {
+            pending.reject(new SolverError(response.error, response.code));
         }
+    };
+
+    private handleWorkerError = (event: ErrorEvent) => {
+        console.error('ARAP solver worker crashed:', event.message);
+        this.rejectAll(new Error(`Solver worker error: ${event.message}`));
+    };
+
+    private rejectAll(error: Error) {
+        this.pendingRequests.forEach(pending => pending.reject(error));
+        this.pendingRequests.clear();
+        this.dropQueuedDeform();
+    }
+
+    private dropQueuedDeform() {
+        this.queuedDeform?.resolve(null);
+        this.queuedDeform = null;
     }
-    
-    // 公共API `loadMesh` 保持不变，App.tsx 无需修改
-    public loadMesh(vertices: Float32Array, faces: Int32Array): void {
-        if (!this.ArapController_constructor) {
-            throw new Error('WasmSolverService is not initialized. Call init() first.');
-        }
 
-        // 内部实现改变：在这里创建新的 C++ Controller 实例
-        if (this.controller) {
-            this.controller.delete(); // 清理旧的实例
+    public init(): Promise<void> {
+        if (this.initPromise) {
+            console.log('WasmSolverService already initialized.');
+            return this.initPromise;
         }
-        this.controller = new this.ArapController_constructor(vertices, faces);
+
+        this.worker = new Worker(new URL('../workers/arapSolver.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.addEventListener('message', this.handleResponse);
+        this.worker.addEventListener('error', this.handleWorkerError);
+
+        const initPromise = this.request({ type: 'init', scriptUrl: '/arap.js', wasmUrl: '/arap.wasm' })
+            .then(() => {
+                console.log('ARAP Wasm module loaded successfully.');
+            })
+            .catch(error => {
+                console.error('Error during WASM module initialization:', error);
+                if (this.initPromise === initPromise) this.cleanup();
+                throw error;
+            });
+        this.initPromise = initPromise;
+        return initPromise;
+    }
+
+    /**
+     * 用新网格创建 C++ Controller，之前载入的笼随之失效。尚未发送的求解请求会被丢弃（其 Promise 以 null 结束）。
+     * 输入数组会被复制，调用方可以继续使用它们。
+     */
+    public async loadMesh(vertices: Float32Array, faces: Int32Array): Promise<void> {
+        this.dropQueuedDeform();
+        this.validationMesh = buildValidationMesh(vertices, faces);
+        this.cageValidationMesh = null;
+        const vertexCopy = vertices.slice();
+        const faceCopy = faces.slice();
+        await this.request({ type: 'loadMesh', vertices: vertexCopy, faces: faceCopy }, [vertexCopy.buffer, faceCopy.buffer]);
         console.log('ArapController instance created with new mesh.');
     }
 
-    public setHandles(handleIndices: Int32Array, handlePositions: Float32Array): void {
-        if (!this.controller) throw new Error('Controller not created. Call loadMesh() first.');
-        this.controller.set_handles(handleIndices, handlePositions);
+    /**
+     * 检查当前网格上的一组约束，返回发现的所有问题（没有加载网格时返回空数组）。
+     * positions 可选，与 [...anchorIndices, ...handleIndices] 一一对应的局部坐标目标位置。
+     */
+    public validateConstraints(anchorIndices: number[], handleIndices: number[], positions?: Float32Array): ConstraintIssue[] {
+        if (!this.validationMesh) return [];
+        return validateConstraints(this.validationMesh, anchorIndices, handleIndices, positions);
+    }
+
+    /**
+     * 设置约束并按 settings 求解，返回求解后的全部顶点和本次求解的统计信息。
+     * settings.model 选择变形模型，worker 在模型改变时换用对应的求解器，已设置的约束不受影响。
+     * positions 与 [...anchorIndices, ...handleIndices] 一一对应，底层缓冲区会被转移给 worker，调用后不可再使用。
+     * weights 可选，同样一一对应，取值 (0, 1]，小于 1 的约束是软约束；它的缓冲区同样会被转移。
+     * collision 可选，为裁剪平面和自相交的碰撞处理（见 CollisionOptions），结果的 stats.contacts 为加入的接触约束数。
+     * 约束存在 'error' 级别的问题时不会求解，而是以 code 为 'invalid-constraints' 的 SolverError 拒绝。
+     * 如果在前一次求解完成之前又有新的请求到达，本次请求会被合并掉并以 null 结束，
+     * 因此拖拽过程中 worker 只会求解最新的手柄姿态。
+     */
+    public deform(
+        anchorIndices: number[],
+        handleIndices: number[],
+        positions: Float32Array,
+        settings: SolverSettings = DEFAULT_SOLVER_SETTINGS,
+        weights: Float32Array | null = null,
+        collision: CollisionOptions | null = null
+    ): Promise<DeformResult | null> {
+        return new Promise((resolve, reject) => {
+            this.queueDeform('mesh', anchorIndices, handleIndices, positions, weights, collision, settings, result => resolve(result && toDeformResult(result)), reject);
+        });
+    }
+
+    /**
+     * 载入包住当前网格的笼（静止姿态，与网格在同一坐标系中），之后可以用 deformCage 通过笼来变形网格。
+     * worker 会为网格的每个顶点计算均值坐标，网格很大时需要一些时间。输入数组会被复制。
+     */
+    public async loadCage(vertices: Float32Array, faces: Int32Array): Promise<void> {
+        this.dropQueuedDeform();
+        const cageValidationMesh = buildValidationMesh(vertices, faces);
+        const vertexCopy = vertices.slice();
+        const faceCopy = faces.slice();
+        await this.request({ type: 'loadCage', cageVertices: vertexCopy, cageFaces: faceCopy }, [vertexCopy.buffer, faceCopy.buffer]);
+        this.cageValidationMesh = cageValidationMesh;
+    }
+
+    public async clearCage(): Promise<void> {
+        this.dropQueuedDeform();
+        this.cageValidationMesh = null;
+        await this.request({ type: 'clearCage' });
+    }
+
+    /** 与 validateConstraints 相同，但索引指向笼顶点（没有载入笼时返回空数组）。 */
+    public validateCageConstraints(anchorIndices: number[], handleIndices: number[], positions?: Float32Array): ConstraintIssue[] {
+        if (!this.cageValidationMesh) return [];
+        return validateConstraints(this.cageValidationMesh, anchorIndices, handleIndices, positions);
+    }
+
+    /**
+     * 与 deform 相同，但约束作用在笼顶点上：在笼上求解后把结果传递给整个网格，
+     * 返回网格顶点、笼顶点和笼上那次求解的统计。与 deform 共用一个队列，新请求会合并掉尚未发送的旧请求。
+     */
+    public deformCage(
+        anchorIndices: number[],
+        handleIndices: number[],
+        positions: Float32Array,
+        settings: SolverSettings = DEFAULT_SOLVER_SETTINGS
+    ): Promise<CageDeformResult | null> {
+        return new Promise((resolve, reject) => {
+            this.queueDeform('cage', anchorIndices, handleIndices, positions, null, null, settings, result => {
+                if (!result) {
+                    resolve(null);
+                    return;
+                }
+                if (!result.cageVertices) throw new Error('Solver returned no cage.');
+                resolve({ ...toDeformResult(result), cageVertices: result.cageVertices });
+            }, reject);
+        });
+    }
+
+    /**
+     * 为当前网格建立 levels 层的简化代理层次（每层顶点数约为上一层的 1/4），返回最粗一层的顶点数。
+     * 之后 deformProxy 在代理上求解，拖动时用来预览；代理不考虑刚度。
+     */
+    public async loadProxy(levels: number): Promise<number> {
+        const { proxyVertexCount } = await this.request({ type: 'loadProxy', levels });
+        if (proxyVertexCount === undefined) throw new Error('Solver returned no proxy.');
+        return proxyVertexCount;
+    }
+
+    public async clearProxy(): Promise<void> {
+        await this.request({ type: 'clearProxy' });
+    }
+
+    /**
+     * 与 deform 参数相同（索引指向完整网格），但在代理上求解后把姿态传递给完整网格，结果只是近似；
+     * 求解器中完整网格的状态不变，拖动结束后用 deform 再求解一次即可得到精确结果。与 deform 共用一个队列。
+     */
+    public deformProxy(
+        anchorIndices: number[],
+        handleIndices: number[],
+        positions: Float32Array,
+        settings: SolverSettings = DEFAULT_SOLVER_SETTINGS,
+        weights: Float32Array | null = null
+    ): Promise<DeformResult | null> {
+        return new Promise((resolve, reject) => {
+            this.queueDeform('proxy', anchorIndices, handleIndices, positions, weights, null, settings, result => resolve(result && toDeformResult(result)), reject);
+        });
+    }
+
+    private queueDeform(
+        target: DeformJob['target'],
+        anchorIndices: number[],
+        handleIndices: number[],
+        positions: Float32Array,
+        weights: Float32Array | null,
+        collision: CollisionOptions | null,
+        settings: SolverSettings,
+        resolve: DeformJob['resolve'],
+        reject: DeformJob['reject']
+    ) {
+        this.dropQueuedDeform();
+        const issues = target === 'cage'
+            ? this.validateCageConstraints(anchorIndices, handleIndices, positions)
+            : this.validateConstraints(anchorIndices, handleIndices, positions);
+        const errors = issues.filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+            reject(new SolverError(errors.map(issue => issue.message).join(' '), 'invalid-constraints', errors));
+            return;
+        }
+        this.queuedDeform = {
+            target,
+            anchorIndices: new Int32Array(anchorIndices),
+            handleIndices: new Int32Array(handleIndices),
+            positions,
+            weights,
+            collision,
+            settings,
+            resolve,
+            reject,
+        };
+        this.flushDeform();
+    }
+
+    private flushDeform() {
+        if (this.isDeformInFlight || !this.queuedDeform) return;
+        const job = this.queuedDeform;
+        this.queuedDeform = null;
+        this.isDeformInFlight = true;
+
+        const { target, anchorIndices, handleIndices, positions, weights, collision, settings } = job;
+        const transfer: Transferable[] = [anchorIndices.buffer, handleIndices.buffer, positions.buffer];
+        if (weights) transfer.push(weights.buffer);
+        this.request(
+            target === 'cage'
+                ? { type: 'deformCage', anchorIndices, handleIndices, positions, settings }
+                : target === 'proxy'
+                    ? { type: 'deformProxy', anchorIndices, handleIndices, positions, weights, settings }
+                    : { type: 'deform', anchorIndices, handleIndices, positions, weights, collision, settings },
+            transfer
+        )
+            .then(job.resolve)
+            .catch(job.reject)
+            .finally(() => {
+                this.isDeformInFlight = false;
+                this.flushDeform();
+            });
+    }
+
+    /**
+     * 设置当前网格的逐顶点刚度（每个求解器顶点一个正数，默认 1），null 表示均匀刚度。
+     * 刚度作为求解器的权重与约束一起参与之后的每次求解。输入数组会被复制。
+     */
+    public async setStiffness(stiffness: Float32Array | null): Promise<void> {
+        const copy = stiffness ? stiffness.slice() : null;
+        await this.request({ type: 'setStiffness', stiffness: copy }, copy ? [copy.buffer] : []);
     }
 
-    public solve(maxIterations: number): void {
-        if (!this.controller) throw new Error('Controller not created. Call loadMesh() first.');
-        this.controller.solve(maxIterations);
+    /**
+     * 撤销 / 重做时恢复求解器的顶点状态。传入 null 表示回到静止姿态。
+     * TypeScript 求解器的下一次求解以恢复的姿态为初值；wasm 无法设置初值，标准 ARAP 的下一次求解从静止姿态开始（见 Deformer.restoreVertices）。
+     * 尚未发送的求解请求会被丢弃。
+     */
+    public async restoreVertices(vertices: Float32Array | null): Promise<void> {
+        this.dropQueuedDeform();
+        const vertexCopy = vertices ? vertices.slice() : null;
+        await this.request({ type: 'restore', vertices: vertexCopy }, vertexCopy ? [vertexCopy.buffer] : []);
     }
 
-    public getVertices(): Float32Array | null {
-        if (!this.controller) throw new Error('Controller not created. Call loadMesh() first.');
-        return this.controller.get_vertices();
+    public async getVertices(): Promise<Float32Array | null> {
+        return (await this.request({ type: 'getVertices' })).vertices ?? null;
     }
 
     public cleanup(): void {
-        if (this.controller) {
-            this.controller.delete();
-            this.controller = null;
+        if (this.worker) {
+            this.worker.removeEventListener('message', this.handleResponse);
+            this.worker.removeEventListener('error', this.handleWorkerError);
+            this.worker.terminate();
+            this.worker = null;
         }
-        this.ArapController_constructor = null;
+        this.rejectAll(new Error('WasmSolverService was cleaned up.'));
+        this.isDeformInFlight = false;
+        this.initPromise = null;
+        this.validationMesh = null;
+        this.cageValidationMesh = null;
     }
 }
 
-export default WasmSolverService.getInstance();
\ No newline at end of file
+export default WasmSolverService.getInstance();
@@ -0,0 +1,65 @@
+// src/utils/collisionPlane.ts
+
+import * as THREE from 'three';
+
+import { DEFAULT_CONTACT_ITERATIONS, type CollisionPlane } from '../geometry/collision';
+
+export type PlaneAxis = '+x' | '-x' | '+y' | '-y' | '+z' | '-z';
+
+/**
+ * 碰撞面板的设置。裁剪平面在世界坐标系中给出：垂直于 planeAxis 的轴，位于该轴坐标 planeOffset 处，
+ * 网格只能留在 planeAxis 所指的一侧（'+y' 即地面，'-y' 即天花板）。
+ */
+export type CollisionSettings = {
+    planeEnabled: boolean;
+    planeAxis: PlaneAxis;
+    planeOffset: number;
+    selfIntersections: boolean;
+    // Add contact constraints while solving; otherwise collisions are only highlighted.
+    resolve: boolean;
+    maxIterations: number;
+};
+
+export const DEFAULT_COLLISION_SETTINGS: CollisionSettings = {
+    planeEnabled: false,
+    planeAxis: '+y',
+    // Models are scaled to 5 units around the origin, so this is about where the bottom of a tall model ends up.
+    planeOffset: -2.5,
+    selfIntersections: false,
+    resolve: false,
+    maxIterations: DEFAULT_CONTACT_ITERATIONS,
+};
+
+/** 平面的世界法向（指向允许的一侧）。 */
+export function getPlaneNormal(axis: PlaneAxis): THREE.Vector3 {
+    const normal = new THREE.Vector3();
+    normal.setComponent('xyz'.indexOf(axis[1]), axis[0] === '+' ? 1 : -1);
+    return normal;
+}
+
+export function getWorldPlane(axis: PlaneAxis, offset: number): THREE.Plane {
+    const normal = getPlaneNormal(axis);
+    // The plane passes through offset on its axis; the sign keeps the constant right for the negative axes.
+    return new THREE.Plane(normal, -offset * (axis[0] === '+' ? 1 : -1));
+}
+
+/** 把世界坐标系中的平面换到模型的局部（求解器）坐标系中。 */
+export function toLocalCollisionPlane(axis: PlaneAxis, offset: number, localFrame: THREE.Object3D): CollisionPlane {
+    localFrame.updateWorldMatrix(true, false);
+    const plane = getWorldPlane(axis, offset).applyMatrix4(localFrame.matrixWorld.clone().invert());
+    return { normal: plane.normal.toArray() as [number, number, number], constant: plane.constant };
+}
+
+/** 让平面刚好贴住网格（局部坐标的顶点）在 axis 反方向上的最远处时的 offset，例如 '+y' 时为网格最低点的高度。 */
+export function getPlaneOffsetUnder(axis: PlaneAxis, vertices: Float32Array, localFrame: THREE.Object3D): number {
+    localFrame.updateWorldMatrix(true, false);
+    const component = 'xyz'.indexOf(axis[1]);
+    const sign = axis[0] === '+' ? 1 : -1;
+    const point = new THREE.Vector3();
+    let extreme = Infinity;
+    for (let i = 0; i < vertices.length; i += 3) {
+        point.fromArray(vertices, i).applyMatrix4(localFrame.matrixWorld);
+        extreme = Math.min(extreme, sign * point.getComponent(component));
+    }
+    return Number.isFinite(extreme) ? sign * extreme : 0;
+}
@@ -0,0 +1,60 @@
+// src/utils/dragConstraint.ts
+
+import * as THREE from 'three';
+
+/**
+ * 拖动约束：free 在与屏幕平行的平面上拖动；x / y / z 锁定到单个世界坐标轴；
+ * yz / xz / xy 锁定到排除某个轴的平面（即沿该轴不动）。
+ */
+export type DragLock = 'free' | 'x' | 'y' | 'z' | 'yz' | 'xz' | 'xy';
+
+const AXES = {
+    x: new THREE.Vector3(1, 0, 0),
+    y: new THREE.Vector3(0, 1, 0),
+    z: new THREE.Vector3(0, 0, 1),
+};
+
+// The axis a plane lock keeps fixed.
+const PLANE_NORMALS: Partial<Record<DragLock, THREE.Vector3>> = { yz: AXES.x, xz: AXES.y, xy: AXES.z };
+
+/** 按快捷键切换锁定：X / Y / Z 锁定到轴，Shift+X / Y / Z 锁定到排除该轴的平面，再按一次相同的键恢复自由拖动。 */
+export function toggleDragLock(current: DragLock, key: 'x' | 'y' | 'z', plane: boolean): DragLock {
+    const next: DragLock = plane ? ({ x: 'yz', y: 'xz', z: 'xy' } as const)[key] : key;
+    return next === current ? 'free' : next;
+}
+
+/**
+ * 拖动时用来求交的平面（世界坐标），经过拖动起点 start。
+ * 锁定到轴时取包含该轴、且尽量正对相机的平面，这样即使轴几乎指向屏幕内部也能拖动。
+ */
+export function getDragPlane(lock: DragLock, start: THREE.Vector3, viewDirection: THREE.Vector3): THREE.Plane {
+    const normal = new THREE.Vector3();
+    if (lock === 'x' || lock === 'y' || lock === 'z') {
+        const axis = AXES[lock];
+        normal.crossVectors(viewDirection, axis).cross(axis);
+        if (normal.lengthSq() < 1e-12) normal.copy(viewDirection);
+    } else {
+        normal.copy(PLANE_NORMALS[lock] ?? viewDirection);
+    }
+    return new THREE.Plane().setFromNormalAndCoplanarPoint(normal.normalize(), start);
+}
+
+/**
+ * 把平面上的交点 point 约束为拖动目标：锁定到轴时只保留沿轴的位移；
+ * snapStep 不为 null 时，位移的每个分量取整到 snapStep 的倍数（相对起点，所以手柄不会一按下就跳到网格上）。
+ */
+export function constrainDragTarget(
+    lock: DragLock, start: THREE.Vector3, point: THREE.Vector3, snapStep: number | null
+): THREE.Vector3 {
+    const delta = point.clone().sub(start);
+    if (lock === 'x' || lock === 'y' || lock === 'z') {
+        const axis = AXES[lock];
+        delta.copy(axis).multiplyScalar(delta.dot(axis));
+    }
+    const normal = PLANE_NORMALS[lock];
+    if (normal) delta.addScaledVector(normal, -delta.dot(normal));
+    if (snapStep && snapStep > 0) {
+        delta.divideScalar(snapStep).round().multiplyScalar(snapStep);
+    }
+    return delta.add(start);
+}
@@ -0,0 +1,83 @@
+// src/utils/handleGroups.ts
+
+import * as THREE from 'three';
+
+export type HandleGroupMember = {
+    index: number;
+    // Rest position relative to the group's pivot, in the model's local frame.
+    offset: THREE.Vector3;
+};
+
+/**
+ * 一组作为刚体整体移动的手柄。
+ * transform 是枢轴（gizmo 所附着的对象）在模型局部坐标系中的矩阵；
+ * 成员的目标位置 = transform * offset。
+ */
+export type HandleGroup = {
+    id: string;
+    name: string;
+    members: HandleGroupMember[];
+    transform: THREE.Matrix4;
+};
+
+let nextGroupId = 1;
+
+export const createHandleGroupId = () => `group-${nextGroupId++}`;
+
+/** 以成员当前位置的质心为枢轴创建手柄组，positions 为模型局部坐标。 */
+export function createHandleGroup(name: string, indices: number[], positions: THREE.Vector3[]): HandleGroup {
+    const centroid = new THREE.Vector3();
+    positions.forEach(p => centroid.add(p));
+    if (positions.length > 0) centroid.divideScalar(positions.length);
+
+    return {
+        id: createHandleGroupId(),
+        name,
+        members: indices.map((index, i) => ({ index, offset: positions[i].clone().sub(centroid) })),
+        transform: new THREE.Matrix4().makeTranslation(centroid.x, centroid.y, centroid.z),
+    };
+}
+
+/** 计算组内每个成员在给定枢轴矩阵下的局部坐标目标位置。 */
+export function computeGroupTargets(group: HandleGroup, transform: THREE.Matrix4 = group.transform): Map<number, THREE.Vector3> {
+    const targets = new Map<number, THREE.Vector3>();
+    group.members.forEach(member => {
+        targets.set(member.index, member.offset.clone().applyMatrix4(transform));
+    });
+    return targets;
+}
+
+export function cloneHandleGroups(groups: HandleGroup[]): HandleGroup[] {
+    return groups.map(group => ({
+        ...group,
+        members: group.members.map(member => ({ index: member.index, offset: member.offset.clone() })),
+        transform: group.transform.clone(),
+    }));
+}
+
+/**
+ * 去掉已经不是手柄的成员，以及因此变空的组。没有变化时返回原数组，便于在 setState 中使用。
+ */
+export function pruneHandleGroups(groups: HandleGroup[], handleIndices: number[]): HandleGroup[] {
+    const handles = new Set(handleIndices);
+    let changed = false;
+    const pruned = groups
+        .map(group => {
+            const members = group.members.filter(member => handles.has(member.index));
+            if (members.length === group.members.length) return group;
+            changed = true;
+            return { ...group, members };
+        })
+        .filter(group => {
+            if (group.members.length > 0) return true;
+            changed = true;
+            return false;
+        });
+    return changed ? pruned : groups;
+}
+
+export function getGroupedIndices(groups: HandleGroup[]): Set<number> {
+    const grouped = new Set<number>();
+    groups.forEach(group => group.members.forEach(member => grouped.add(member.index)));
+    return grouped;
+}
@@ -0,0 +1,87 @@
+// src/utils/keyframes.ts
+
+import * as THREE from 'three';
+
+export type KeyframeInterpolation = 'linear' | 'spline';
+
+/**
+ * 时间轴上的一个关键帧：某一时刻所有锚定点和约束点的目标位置（模型局部坐标系）。
+ */
+export type Keyframe = {
+    id: string;
+    time: number;
+    targets: Map<number, THREE.Vector3>;
+};
+
+let nextKeyframeId = 1;
+
+// Two keys closer than this are considered to be at the same time.
+const TIME_EPSILON = 1e-3;
+
+/** 在 time 处记录关键帧；已有同一时刻的关键帧时替换它。返回按时间排序的新数组。 */
+export function setKeyframe(keyframes: Keyframe[], time: number, targets: Map<number, THREE.Vector3>): Keyframe[] {
+    const keyframe: Keyframe = {
+        id: `key-${nextKeyframeId++}`,
+        time,
+        targets: new Map(Array.from(targets, ([index, position]) => [index, position.clone()])),
+    };
+    return [...keyframes.filter(key => Math.abs(key.time - time) > TIME_EPSILON), keyframe]
+        .sort((a, b) => a.time - b.time);
+}
+
+export const getAnimationDuration = (keyframes: Keyframe[]) =>
+    keyframes.length > 0 ? keyframes[keyframes.length - 1].time : 0;
+
+const hermite = (
+    out: THREE.Vector3, p0: THREE.Vector3, m0: THREE.Vector3, p1: THREE.Vector3, m1: THREE.Vector3, h: number, s: number
+) => {
+    const s2 = s * s, s3 = s2 * s;
+    return out.set(0, 0, 0)
+        .addScaledVector(p0, 2 * s3 - 3 * s2 + 1)
+        .addScaledVector(m0, h * (s3 - 2 * s2 + s))
+        .addScaledVector(p1, -2 * s3 + 3 * s2)
+        .addScaledVector(m1, h * (s3 - s2));
+};
+
+// Catmull-Rom tangent for non-uniform key times; one-sided at the ends of the track.
+const tangent = (track: { time: number; position: THREE.Vector3 }[], k: number) => {
+    const prev = track[Math.max(k - 1, 0)];
+    const next = track[Math.min(k + 1, track.length - 1)];
+    const dt = next.time - prev.time;
+    return dt > 0 ? next.position.clone().sub(prev.position).divideScalar(dt) : new THREE.Vector3();
+};
+
+/**
+ * 求 time 时刻每个顶点的目标位置。每个顶点只在包含它的关键帧之间插值，
+ * 超出第一个 / 最后一个关键帧的时间保持端点的值。
+ */
+export function sampleKeyframes(keyframes: Keyframe[], time: number, interpolation: KeyframeInterpolation): Map<number, THREE.Vector3> {
+    const indices = new Set<number>();
+    keyframes.forEach(key => key.targets.forEach((_, index) => indices.add(index)));
+
+    const result = new Map<number, THREE.Vector3>();
+    indices.forEach(index => {
+        const track = keyframes
+            .filter(key => key.targets.has(index))
+            .map(key => ({ time: key.time, position: key.targets.get(index)! }));
+
+        if (time <= track[0].time) {
+            result.set(index, track[0].position.clone());
+            return;
+        }
+        const last = track[track.length - 1];
+        if (time >= last.time) {
+            result.set(index, last.position.clone());
+            return;
+        }
+
+        const k = track.findIndex((key, i) => time >= key.time && time < track[i + 1].time);
+        const a = track[k], b = track[k + 1];
+        const h = b.time - a.time;
+        const s = (time - a.time) / h;
+        result.set(index, interpolation === 'linear'
+            ? a.position.clone().lerp(b.position, s)
+            : hermite(new THREE.Vector3(), a.position, tangent(track, k), b.position, tangent(track, k + 1), h, s));
+    });
+    return result;
+}
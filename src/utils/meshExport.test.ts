@@ -0,0 +1,109 @@
+// src/utils/meshExport.test.ts
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { buildDeformedGeometry, selectAnimationKeyframes, writeObj, type AnimationFrame } from './meshExport';
+import { parseMeshData } from './meshImport';
+
+// One vertex whose x follows path(t), sampled at 10 fps over one second.
+const sampleFrames = (path: (t: number) => number): AnimationFrame[] =>
+    Array.from({ length: 11 }, (_, i) => ({ time: i / 10, positions: new Float32Array([path(i / 10), 0, 0]) }));
+
+describe('selectAnimationKeyframes', () => {
+    it('keeps only the end frames of a linear motion', () => {
+        expect(selectAnimationKeyframes(sampleFrames(t => 3 * t), 1e-4)).toEqual([0, 10]);
+    });
+
+    it('keeps the turning point of a motion that goes out and back', () => {
+        expect(selectAnimationKeyframes(sampleFrames(t => 1 - Math.abs(2 * t - 1)), 1e-4)).toEqual([0, 5, 10]);
+    });
+
+    it('keeps every frame the interpolation would miss by more than the tolerance', () => {
+        const frames = sampleFrames(t => Math.sin(2 * Math.PI * t));
+        const kept = selectAnimationKeyframes(frames, 0.05);
+
+        frames.forEach((frame, i) => {
+            const next = kept.findIndex(k => k >= i);
+            if (kept[next] === i) return;
+            const [from, to] = [frames[kept[next - 1]], frames[kept[next]]];
+            const t = (frame.time - from.time) / (to.time - from.time);
+            const interpolated = from.positions[0] + (to.positions[0] - from.positions[0]) * t;
+            expect(Math.abs(interpolated - frame.positions[0])).toBeLessThanOrEqual(0.05);
+        });
+        expect(kept.length).toBeLessThan(frames.length);
+    });
+
+    it('never keeps more than the frame budget', () => {
+        const kept = selectAnimationKeyframes(sampleFrames(t => Math.sin(20 * t)), 0, 4);
+
+        expect(kept.length).toBe(4);
+        expect(kept[0]).toBe(0);
+        expect(kept[3]).toBe(10);
+    });
+});
+
+// A smooth-shaded pyramid roof. The vertices are not listed in the order the faces use them, and v 2 is used by no face.
+const ROOF_OBJ = `v 1 1 0
+v 5 5 5
+v 0 0 1
+v -1 1 0
+v -1 -1 0
+v 1 -1 0
+vt 0.5 0.5
+vt 1 1
+vt 0 1
+vt 0 0
+vt 1 0
+vn 0 0 1
+vn 0.6 0 0.8
+vn 0 0.6 0.8
+vn -0.6 0 0.8
+vn 0 -0.6 0.8
+f 3/1/1 1/2/2 4/3/3
+f 3/1/1 4/3/3 5/4/4
+f 3/1/1 5/4/4 6/5/5
+f 3/1/1 6/5/5 1/2/2
+`;
+
+const importObj = (text: string) => parseMeshData(new TextEncoder().encode(text).buffer as ArrayBuffer, 'roof.obj');
+
+const dataLines = (obj: string) => obj.split('\n').filter(line => /^(v|vt|vn|f) /.test(line));
+
+/** 与 App 相同：显示用的副本重新计算了（平的）法线，变形后的位置写在它上面。 */
+const renderCopy = (source: THREE.BufferGeometry, matrix?: THREE.Matrix4) => {
+    const copy = source.clone();
+    copy.setAttribute('position', source.attributes.position.clone());
+    if (matrix) copy.applyMatrix4(matrix);
+    copy.computeVertexNormals();
+    return copy;
+};
+
+describe('writeObj', () => {
+    it('writes an undeformed OBJ back with the vertices, normals and faces of the file', async () => {
+        const source = await importObj(ROOF_OBJ);
+        const exported = writeObj(buildDeformedGeometry(source, renderCopy(source)), source);
+
+        expect(dataLines(exported)).toEqual(dataLines(ROOF_OBJ));
+    });
+
+    it('keeps the vertex order and turns the file normals with the deformation', async () => {
+        const source = await importObj(ROOF_OBJ);
+        const matrix = new THREE.Matrix4().makeRotationX(Math.PI / 2);
+        const exported = writeObj(buildDeformedGeometry(source, renderCopy(source, matrix)), source);
+        const lines = dataLines(exported);
+
+        expect(lines.filter(line => line.startsWith('f '))).toEqual(dataLines(ROOF_OBJ).filter(line => line.startsWith('f ')));
+        const vertices = lines.filter(line => line.startsWith('v ')).map(line => line.split(' ').slice(1).map(Number));
+        expect(vertices.length).toBe(6);
+        // The unused vertex stays where the file had it; the others follow the rotation.
+        expect(vertices[1]).toEqual([5, 5, 5]);
+        expect(vertices[2][1]).toBeCloseTo(-1, 6);
+        expect(vertices[2][2]).toBeCloseTo(0, 6);
+        const normals = lines.filter(line => line.startsWith('vn ')).map(line => line.split(' ').slice(1).map(Number));
+        const expected = [[0, 0, 1], [0.6, 0, 0.8], [0, 0.6, 0.8], [-0.6, 0, 0.8], [0, -0.6, 0.8]]
+            .map(n => new THREE.Vector3(...n).applyMatrix4(matrix).toArray());
+        expect(normals.length).toBe(5);
+        normals.forEach((n, i) => n.forEach((value, c) => expect(value).toBeCloseTo(expected[i][c], 5)));
+    });
+});
@@ -0,0 +1,362 @@
+// src/utils/meshExport.ts
+
+import * as THREE from 'three';
+import * as BufferGeometryUtils from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { PLYExporter } from 'three/examples/jsm/exporters/PLYExporter.js';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { strToU8, zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+
+import { computeArapEnergy } from '../geometry/arapEnergy';
+import { buildMeshTopology } from '../geometry/meshTopology';
+import type { ObjLayout } from './meshImport';
+import { buildSolverMesh } from './vertexMapping';
+
+export const EXPORT_FORMATS = ['obj', 'ply', 'glb'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    obj: 'text/plain',
+    ply: 'application/octet-stream',
+    glb: 'model/gltf-binary',
+};
+
+type NormalTransfer = (position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute) => THREE.BufferAttribute;
+
+/**
+ * 让原始法线随变形转动：每个渲染顶点的法线乘以它所在求解器顶点一环的最佳拟合旋转（在焊接后的网格上求），
+ * 所以原文件的平滑组和硬边都保留下来；一环完全没有移动的顶点保持原来的法线。没有法线时返回 null。
+ */
+const createNormalTransfer = (source: THREE.BufferGeometry): NormalTransfer | null => {
+    const normal = source.attributes.normal;
+    if (!normal) return null;
+    const { vertices: rest, faces, mapping } = buildSolverMesh(source);
+    const topology = buildMeshTopology(rest, faces);
+    return position => {
+        const deformed = mapping.gatherSolverPositions(position);
+        const { rotations } = computeArapEnergy(topology, rest, deformed);
+        const changed = (i: number) =>
+            deformed[i * 3] !== rest[i * 3] || deformed[i * 3 + 1] !== rest[i * 3 + 1] || deformed[i * 3 + 2] !== rest[i * 3 + 2];
+        const moved = Uint8Array.from({ length: mapping.solverVertexCount }, (_, i) => {
+            if (changed(i)) return 1;
+            for (let k = topology.offsets[i]; k < topology.offsets[i + 1]; k++) if (changed(topology.neighbors[k])) return 1;
+            return 0;
+        });
+
+        const normals = new Float32Array(normal.count * 3);
+        const n = new THREE.Vector3();
+        for (let r = 0; r < normal.count; r++) {
+            n.fromBufferAttribute(normal, r);
+            const s = mapping.toSolverIndex(r);
+            if (moved[s]) {
+                const R = rotations.subarray(s * 9, s * 9 + 9);
+                n.set(R[0] * n.x + R[1] * n.y + R[2] * n.z, R[3] * n.x + R[4] * n.y + R[5] * n.z, R[6] * n.x + R[7] * n.y + R[8] * n.z).normalize();
+            }
+            n.toArray(normals, r * 3);
+        }
+        return new THREE.BufferAttribute(normals, 3);
+    };
+};
+
+/**
+ * 以导入时的原始几何体为模板，替换成当前变形后的顶点位置，原始法线随变形转动（见 createNormalTransfer）。
+ * 索引、UV 以及属性布局都保持与原文件一致；显示用几何体上重新计算的法线不会被导出。
+ */
+export function buildDeformedGeometry(source: THREE.BufferGeometry, deformed: THREE.BufferGeometry): THREE.BufferGeometry {
+    if (source.attributes.position.count !== deformed.attributes.position.count) {
+        throw new Error('Deformed geometry does not match the loaded model.');
+    }
+
+    const result = source.clone();
+    result.setAttribute('position', deformed.attributes.position.clone());
+    const transferNormals = createNormalTransfer(source);
+    if (transferNormals) result.setAttribute('normal', transferNormals(deformed.attributes.position));
+    result.name = source.name;
+    return result;
+}
+
+const formatNumber = (value: number) => Number.isInteger(value) ? value.toString() : value.toPrecision(7).replace(/\.?0+$/, '');
+
+/**
+ * OBJExporter 会把每个三角形写成独立的顶点。这里按原始位置重新焊接 v / vt / vn，
+ * 使导出的面与导入文件共享同样的顶点。
+ */
+const weldAttribute = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, keySource = attribute) => {
+    const lookup = new Map<string, number>();
+    const values: number[][] = [];
+    const remap = new Int32Array(attribute.count);
+
+    for (let i = 0; i < attribute.count; i++) {
+        const key: number[] = [];
+        for (let c = 0; c < keySource.itemSize; c++) key.push(keySource.getComponent(i, c));
+        const hash = key.join(',');
+
+        let welded = lookup.get(hash);
+        if (welded === undefined) {
+            welded = values.length;
+            lookup.set(hash, welded);
+            const value: number[] = [];
+            for (let c = 0; c < attribute.itemSize; c++) value.push(attribute.getComponent(i, c));
+            values.push(value);
+        }
+        remap[i] = welded;
+    }
+    return { values, remap };
+};
+
+/**
+ * 与 weldAttribute 相同，但按 keySource 的值把顶点对应回原 OBJ 文件的 v / vt / vn 列表，输出保持文件的顺序和数量：
+ * 每个文件条目取第一个对应顶点的新值（没有被引用的条目照原样写出），同一条目上值不同的顶点（例如转到不同方向的共享法线）追加在后面。
+ * 文件里有重复的值时，顶点对应到第一个。
+ */
+const weldToFile = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, keySource: typeof attribute, fileValues: Float32Array) => {
+    const itemSize = keySource.itemSize;
+    const values: number[][] = [];
+    const fileIndex = new Map<string, number>();
+    for (let k = 0; k * itemSize < fileValues.length; k++) {
+        const value = Array.from(fileValues.subarray(k * itemSize, k * itemSize + itemSize));
+        values.push(value);
+        const hash = value.join(',');
+        if (!fileIndex.has(hash)) fileIndex.set(hash, k);
+    }
+    const assigned = new Uint8Array(values.length);
+    const appended = new Map<string, number>();
+    const remap = new Int32Array(attribute.count);
+
+    for (let i = 0; i < attribute.count; i++) {
+        const key: number[] = [];
+        for (let c = 0; c < itemSize; c++) key.push(keySource.getComponent(i, c));
+        const value: number[] = [];
+        for (let c = 0; c < attribute.itemSize; c++) value.push(attribute.getComponent(i, c));
+        const hash = value.join(',');
+
+        const k = fileIndex.get(key.join(','));
+        if (k !== undefined && !assigned[k]) {
+            assigned[k] = 1;
+            values[k] = value;
+            remap[i] = k;
+        } else if (k !== undefined && values[k].join(',') === hash) {
+            remap[i] = k;
+        } else {
+            let welded = appended.get(hash);
+            if (welded === undefined) {
+                welded = values.length;
+                appended.set(hash, welded);
+                values.push(value);
+            }
+            remap[i] = welded;
+        }
+    }
+    return { values, remap };
+};
+
+/**
+ * 写出 OBJ。source 是从 OBJ 导入的（带 userData.objLayout）时，v / vt / vn 保持原文件的顺序和数量，
+ * 未变形的模型导出后与原文件的这些行相同；否则按值焊接，顺序由三角形决定。
+ */
+export function writeObj(geometry: THREE.BufferGeometry, source: THREE.BufferGeometry = geometry): string {
+    const { position, normal, uv } = geometry.attributes;
+    const layout = source.userData.objLayout as ObjLayout | undefined;
+    const lines: string[] = [`# Exported by ARAP-Deformer`, `o ${geometry.name || 'deformed'}`];
+    const weld = (attribute: typeof position, keySource: typeof position | undefined, fileValues: Float32Array | undefined) =>
+        keySource && fileValues?.length ? weldToFile(attribute, keySource, fileValues) : weldAttribute(attribute);
+
+    // Welding on the *source* positions keeps vertices that were shared in the file shared after deformation.
+    const positions = layout?.positions.length
+        ? weldToFile(position, source.attributes.position, layout.positions)
+        : weldAttribute(position, source.attributes.position);
+    positions.values.forEach(v => lines.push(`v ${v.map(formatNumber).join(' ')}`));
+    const uvs = uv ? weld(uv, source.attributes.uv, layout?.uvs) : null;
+    uvs?.values.forEach(t => lines.push(`vt ${t.map(formatNumber).join(' ')}`));
+    const normals = normal ? weld(normal, source.attributes.normal, layout?.normals) : null;
+    normals?.values.forEach(n => lines.push(`vn ${n.map(formatNumber).join(' ')}`));
+
+    const corner = (i: number) => {
+        const v = positions.remap[i] + 1;
+        const t = uvs ? uvs.remap[i] + 1 : '';
+        const n = normals ? normals.remap[i] + 1 : '';
+        if (!uvs && !normals) return `${v}`;
+        return normals ? `${v}/${t}/${n}` : `${v}/${t}`;
+    };
+
+    const index = geometry.index;
+    const cornerCount = index ? index.count : position.count;
+    for (let i = 0; i < cornerCount; i += 3) {
+        const a = index ? index.getX(i) : i;
+        const b = index ? index.getX(i + 1) : i + 1;
+        const c = index ? index.getX(i + 2) : i + 2;
+        lines.push(`f ${corner(a)} ${corner(b)} ${corner(c)}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+const toExportMesh = (geometry: THREE.BufferGeometry) => {
+    // Per-vertex formats need an index; mergeVertices only welds identical attribute tuples, so UV/normal seams survive.
+    const indexed = geometry.index ? geometry : BufferGeometryUtils.mergeVertices(geometry);
+    const mesh = new THREE.Mesh(indexed, new THREE.MeshStandardMaterial({ color: 0xd9d9d9 }));
+    mesh.name = geometry.name || 'deformed';
+    return mesh;
+};
+
+export async function exportMesh(geometry: THREE.BufferGeometry, format: ExportFormat, source?: THREE.BufferGeometry): Promise<Blob> {
+    switch (format) {
+        case 'obj':
+            return new Blob([writeObj(geometry, source)], { type: MIME_TYPES.obj });
+        case 'ply': {
+            // parse() also returns its result synchronously; the callback is only a notification.
+            const data = new PLYExporter().parse(toExportMesh(geometry), () => {}, { binary: true, littleEndian: true });
+            if (!data) throw new Error('PLY export produced no data.');
+            return new Blob([data], { type: MIME_TYPES.ply });
+        }
+        case 'glb': {
+            const data = await new GLTFExporter().parseAsync(toExportMesh(geometry), { binary: true });
+            return new Blob([data as ArrayBuffer], { type: MIME_TYPES.glb });
+        }
+    }
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export const getExportFileName = (sourceName: string, format: ExportFormat) => {
+    const baseName = sourceName.replace(/\.[^./\\]+$/, '') || 'model';
+    return `${baseName}_deformed.${format}`;
+};
+
+export const ANIMATION_EXPORT_FORMATS = ['glb', 'obj-sequence'] as const;
+export type AnimationExportFormat = typeof ANIMATION_EXPORT_FORMATS[number];
+
+/** 一帧变形结果：渲染几何体（未焊接）的顶点位置，与 source.attributes.position 一一对应。 */
+export type AnimationFrame = {
+    time: number;
+    positions: Float32Array;
+};
+
+const buildFrameGeometry = (source: THREE.BufferGeometry, frame: AnimationFrame, transferNormals: NormalTransfer | null) => {
+    const geometry = source.clone();
+    const position = new THREE.BufferAttribute(frame.positions, 3);
+    geometry.setAttribute('position', position);
+    if (transferNormals) geometry.setAttribute('normal', transferNormals(position));
+    return geometry;
+};
+
+// Default for how far (relative to the bounding-box diagonal) a glb animation may stray from the solved frames.
+export const ANIMATION_KEY_TOLERANCE = 1e-3;
+// glb animations never get more morph targets than this, however fast the mesh moves.
+export const MAX_ANIMATION_MORPH_TARGETS = 64;
+
+const getInterpolationError = (frames: AnimationFrame[], from: number, to: number, i: number) => {
+    const a = frames[from].positions, b = frames[to].positions, p = frames[i].positions;
+    const span = frames[to].time - frames[from].time;
+    const t = span > 0 ? (frames[i].time - frames[from].time) / span : 0;
+    let error = 0;
+    for (let k = 0; k < p.length; k += 3) {
+        const dx = a[k] + (b[k] - a[k]) * t - p[k];
+        const dy = a[k + 1] + (b[k + 1] - a[k + 1]) * t - p[k + 1];
+        const dz = a[k + 2] + (b[k + 2] - a[k + 2]) * t - p[k + 2];
+        error = Math.max(error, dx * dx + dy * dy + dz * dz);
+    }
+    return Math.sqrt(error);
+};
+
+/**
+ * 选出 glb 动画需要保留的帧（首尾两帧总是保留）：其余每一帧都能由相邻两个保留帧按时间线性插值得到，
+ * 顶点误差不超过 tolerance。每次在误差最大的一段里加入误差最大的帧，最多保留 maxFrames 帧。
+ */
+export function selectAnimationKeyframes(frames: AnimationFrame[], tolerance: number, maxFrames = MAX_ANIMATION_MORPH_TARGETS): number[] {
+    if (frames.length <= 2) return frames.map((_, i) => i);
+
+    type Segment = { from: number; to: number; worst: number; error: number };
+    const measure = (from: number, to: number): Segment => {
+        const segment = { from, to, worst: -1, error: 0 };
+        for (let i = from + 1; i < to; i++) {
+            const error = getInterpolationError(frames, from, to, i);
+            if (error > segment.error) Object.assign(segment, { worst: i, error });
+        }
+        return segment;
+    };
+
+    const kept = new Set([0, frames.length - 1]);
+    const segments = [measure(0, frames.length - 1)];
+    while (kept.size < Math.max(2, maxFrames)) {
+        let next = -1;
+        segments.forEach((segment, i) => {
+            if (segment.error > tolerance && (next < 0 || segment.error > segments[next].error)) next = i;
+        });
+        if (next < 0) break;
+        const { from, to, worst } = segments[next];
+        kept.add(worst);
+        segments.splice(next, 1, measure(from, worst), measure(worst, to));
+    }
+    return [...kept].sort((a, b) => a - b);
+}
+
+export type AnimationExportOptions = {
+    // Largest vertex error allowed when glb frames are dropped; defaults to ANIMATION_KEY_TOLERANCE of the bounding-box diagonal.
+    tolerance?: number;
+    maxMorphTargets?: number;
+};
+
+/**
+ * 导出逐帧求解的动画：
+ * - glb：只把 selectAnimationKeyframes 选出的帧写成 morph target，动画在相邻两个 morph target 之间线性过渡；
+ * - obj-sequence：每帧一个 OBJ 文件，打包成 zip。
+ */
+export async function exportAnimation(
+    source: THREE.BufferGeometry,
+    frames: AnimationFrame[],
+    format: AnimationExportFormat,
+    options: AnimationExportOptions = {}
+): Promise<Blob> {
+    if (frames.length === 0) throw new Error('The animation has no frames.');
+    const baseName = source.name.replace(/\.[^./\\]+$/, '') || 'model';
+    const transferNormals = createNormalTransfer(source);
+
+    if (format === 'obj-sequence') {
+        const digits = String(frames.length - 1).length;
+        const files: Record<string, Uint8Array> = {};
+        frames.forEach((frame, i) => {
+            const geometry = buildFrameGeometry(source, frame, transferNormals);
+            geometry.name = `${baseName}_${String(i).padStart(digits, '0')}`;
+            files[`${geometry.name}.obj`] = strToU8(writeObj(geometry, source));
+        });
+        return new Blob([zipSync(files)], { type: 'application/zip' });
+    }
+
+    if (!source.boundingBox) source.computeBoundingBox();
+    const diagonal = source.boundingBox!.getSize(new THREE.Vector3()).length();
+    const keyFrames = selectAnimationKeyframes(frames, options.tolerance ?? ANIMATION_KEY_TOLERANCE * diagonal, options.maxMorphTargets)
+        .map(i => frames[i]);
+
+    const frameGeometries = keyFrames.map(frame => buildFrameGeometry(source, frame, transferNormals));
+    const geometry = source.clone();
+    geometry.morphAttributes.position = frameGeometries.map(frameGeometry => frameGeometry.attributes.position);
+    if (source.attributes.normal) {
+        geometry.morphAttributes.normal = frameGeometries.map(frameGeometry => frameGeometry.attributes.normal);
+    }
+    geometry.name = baseName;
+
+    const mesh = toExportMesh(geometry);
+    mesh.updateMorphTargets();
+    // Key i is fully target i; the sampler blends linearly between neighbouring keys, which is what the selection assumed.
+    const times = keyFrames.map(frame => frame.time);
+    const weights = new Float32Array(keyFrames.length * keyFrames.length);
+    keyFrames.forEach((_, i) => { weights[i * keyFrames.length + i] = 1; });
+    const track = new THREE.NumberKeyframeTrack(`${mesh.name}.morphTargetInfluences`, times, weights);
+    const clip = new THREE.AnimationClip(`${baseName}_deformation`, times[times.length - 1] - times[0], [track]);
+
+    const data = await new GLTFExporter().parseAsync(mesh, { binary: true, animations: [clip] });
+    return new Blob([data as ArrayBuffer], { type: MIME_TYPES.glb });
+}
+
+export const getAnimationExportFileName = (sourceName: string, format: AnimationExportFormat) => {
+    const baseName = sourceName.replace(/\.[^./\\]+$/, '') || 'model';
+    return format === 'glb' ? `${baseName}_animation.glb` : `${baseName}_frames.zip`;
+};
@@ -0,0 +1,175 @@
+// src/utils/meshImport.ts
+
+import * as THREE from 'three';
+import * as BufferGeometryUtils from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+export const SUPPORTED_MODEL_EXTENSIONS = ['obj', 'ply', 'stl', 'gltf', 'glb'] as const;
+export type ModelFormat = typeof SUPPORTED_MODEL_EXTENSIONS[number];
+
+/** Accept string for file inputs, e.g. ".obj,.ply,.stl,.gltf,.glb" */
+export const MODEL_FILE_ACCEPT = SUPPORTED_MODEL_EXTENSIONS.map(ext => `.${ext}`).join(',');
+
+// Only the attributes the deformer and the exporters understand survive the import.
+const KEPT_ATTRIBUTES = ['position', 'normal', 'uv'];
+
+export class MeshImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MeshImportError';
+    }
+}
+
+/**
+ * OBJ 文件中按文件顺序排列的 v / vt / vn 值。OBJLoader 把每个三角形展开成独立的顶点，
+ * 导出时按值把顶点对应回这些列表，从而保持原文件的顶点顺序和数量（见 writeObj）。
+ */
+export type ObjLayout = {
+    positions: Float32Array;
+    uvs: Float32Array;
+    normals: Float32Array;
+};
+
+const readObjLayout = (text: string): ObjLayout => {
+    const positions: number[] = [];
+    const uvs: number[] = [];
+    const normals: number[] = [];
+    for (const line of text.split('\n')) {
+        const [keyword, ...values] = line.trim().split(/\s+/);
+        const numbers = values.map(parseFloat);
+        switch (keyword) {
+            case 'v': positions.push(...numbers.slice(0, 3)); break;
+            case 'vt': uvs.push(...numbers.slice(0, 2)); break;
+            case 'vn': normals.push(...numbers.slice(0, 3)); break;
+        }
+    }
+    return { positions: new Float32Array(positions), uvs: new Float32Array(uvs), normals: new Float32Array(normals) };
+};
+
+export const getModelFormat = (fileName: string): ModelFormat | null => {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    return SUPPORTED_MODEL_EXTENSIONS.find(format => format === ext) ?? null;
+};
+
+/**
+ * 把一个场景里所有三角网格合并成一个 BufferGeometry（已应用各自的世界矩阵）。
+ */
+const collectGeometry = (root: THREE.Object3D): THREE.BufferGeometry => {
+    root.updateMatrixWorld(true);
+
+    const geometries: THREE.BufferGeometry[] = [];
+    root.traverse((child) => {
+        if (!(child instanceof THREE.Mesh) || !child.geometry?.attributes.position) return;
+        const geometry = (child.geometry as THREE.BufferGeometry).clone();
+        geometry.applyMatrix4(child.matrixWorld);
+        geometries.push(geometry);
+    });
+
+    if (geometries.length === 0) {
+        throw new MeshImportError('The file does not contain any triangle mesh.');
+    }
+    if (geometries.length === 1) return geometries[0];
+
+    // mergeGeometries needs identical attribute sets and a consistent index layout.
+    const shared = KEPT_ATTRIBUTES.filter(name => geometries.every(g => g.attributes[name]));
+    const allIndexed = geometries.every(g => g.index);
+    const normalized = geometries.map(g => {
+        const source = allIndexed ? g : (g.index ? g.toNonIndexed() : g);
+        const result = new THREE.BufferGeometry();
+        shared.forEach(name => result.setAttribute(name, source.attributes[name]));
+        if (source.index) result.setIndex(source.index);
+        return result;
+    });
+
+    const merged = BufferGeometryUtils.mergeGeometries(normalized);
+    if (!merged) {
+        throw new MeshImportError('The meshes in this file could not be combined.');
+    }
+    return merged;
+};
+
+const sanitizeGeometry = (geometry: THREE.BufferGeometry, name: string): THREE.BufferGeometry => {
+    const result = new THREE.BufferGeometry();
+    KEPT_ATTRIBUTES.forEach(attributeName => {
+        const attribute = geometry.attributes[attributeName];
+        if (attribute) result.setAttribute(attributeName, attribute);
+    });
+    if (geometry.index) result.setIndex(geometry.index);
+    result.name = name;
+
+    const position = result.attributes.position;
+    if (!position || position.count < 3) {
+        throw new MeshImportError('The mesh has no usable vertices.');
+    }
+    const triangleCount = (result.index ? result.index.count : position.count) / 3;
+    if (!Number.isInteger(triangleCount) || triangleCount < 1) {
+        throw new MeshImportError('The mesh does not consist of triangles.');
+    }
+    for (let i = 0; i < position.array.length; i++) {
+        if (!isFinite(position.array[i])) {
+            throw new MeshImportError('The mesh contains invalid (NaN or Infinity) coordinates.');
+        }
+    }
+    return result;
+};
+
+/**
+ * 解析一个模型文件的内容并返回单个三角网格。格式由文件扩展名决定。
+ */
+export async function parseMeshData(data: ArrayBuffer, fileName: string): Promise<THREE.BufferGeometry> {
+    const format = getModelFormat(fileName);
+    if (!format) {
+        throw new MeshImportError(`Unsupported file type. Supported formats: ${SUPPORTED_MODEL_EXTENSIONS.join(', ').toUpperCase()}.`);
+    }
+
+    let geometry: THREE.BufferGeometry;
+    let objLayout: ObjLayout | null = null;
+    try {
+        switch (format) {
+            case 'obj': {
+                const text = new TextDecoder().decode(data);
+                geometry = collectGeometry(new OBJLoader().parse(text));
+                objLayout = readObjLayout(text);
+                break;
+            }
+            case 'ply':
+                geometry = new PLYLoader().parse(data);
+                break;
+            case 'stl':
+                geometry = new STLLoader().parse(data);
+                break;
+            case 'gltf':
+            case 'glb': {
+                const gltf = await new GLTFLoader().parseAsync(data, '');
+                geometry = collectGeometry(gltf.scene);
+                break;
+            }
+        }
+    } catch (error) {
+        if (error instanceof MeshImportError) throw error;
+        console.error(`Failed to parse ${fileName}:`, error);
+        throw new MeshImportError(`"${fileName}" could not be parsed as ${format.toUpperCase()}.`);
+    }
+
+    const result = sanitizeGeometry(geometry, fileName);
+    if (objLayout) result.userData.objLayout = objLayout;
+    return result;
+}
+
+export async function importMeshFile(file: File): Promise<THREE.BufferGeometry> {
+    return parseMeshData(await file.arrayBuffer(), file.name);
+}
+
+export async function importMeshUrl(url: string): Promise<THREE.BufferGeometry> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new MeshImportError(`Failed to download ${url} (${response.status}).`);
+    }
+    const geometry = await parseMeshData(await response.arrayBuffer(), url.split('/').pop() ?? url);
+    // Lets a saved project reference the model by URL instead of embedding it.
+    geometry.userData.sourceUrl = url;
+    return geometry;
+}
@@ -0,0 +1,68 @@
+// src/utils/meshRepair.test.ts
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { diagnoseMesh, hasMeshIssues } from '../geometry/meshDiagnostics';
+import { repairGeometry, type MeshRepairOptions } from './meshRepair';
+import { buildSolverMesh } from './vertexMapping';
+
+const ALL_REPAIRS: MeshRepairOptions = { removeDegenerateFaces: true, splitNonManifoldVertices: true, removeUnreferencedVertices: true };
+
+const createGeometry = (positions: number[], index: number[]) => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(Array.from({ length: positions.length / 3 }, (_, i) => [i, i + 10]).flat(), 2));
+    geometry.setIndex(index);
+    return geometry;
+};
+
+const diagnose = (geometry: THREE.BufferGeometry) => {
+    const { vertices, faces } = buildSolverMesh(geometry);
+    return diagnoseMesh(vertices, faces);
+};
+
+describe('repairGeometry', () => {
+    it('removes degenerate and duplicate faces and unreferenced vertices, keeping attributes and groups', () => {
+        // Face 1 is a sliver, face 2 repeats face 0 and vertex 4 is unused.
+        const geometry = createGeometry([0, 0, 0, 1, 0, 0, 0, 1, 0, 2, 0, 0, 5, 5, 5, 1, 1, 0], [0, 1, 2, 0, 1, 3, 2, 1, 0, 1, 5, 2]);
+        geometry.addGroup(0, 6, 0);
+        geometry.addGroup(6, 6, 1);
+        geometry.userData = { sourceUrl: 'model.obj', objLayout: {}, note: 'kept' };
+
+        const repaired = repairGeometry(geometry, ALL_REPAIRS);
+
+        expect(Array.from(repaired.index!.array)).toEqual([0, 1, 2, 1, 3, 2]);
+        expect(Array.from(repaired.attributes.position.array)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0]);
+        expect(Array.from(repaired.attributes.uv.array)).toEqual([0, 10, 1, 11, 2, 12, 5, 15]);
+        expect(repaired.groups).toEqual([{ start: 0, count: 3, materialIndex: 0 }, { start: 3, count: 3, materialIndex: 1 }]);
+        expect(repaired.userData).toEqual({ note: 'kept' });
+        expect(hasMeshIssues(diagnose(repaired))).toBe(false);
+        // The source geometry is left alone.
+        expect(geometry.index!.count).toBe(12);
+    });
+
+    it('only applies the repairs that are asked for', () => {
+        const geometry = createGeometry([0, 0, 0, 1, 0, 0, 0, 1, 0, 5, 5, 5], [0, 1, 2, 2, 1, 0]);
+        const repaired = repairGeometry(geometry, { ...ALL_REPAIRS, removeDegenerateFaces: false });
+
+        expect(repaired.index!.count).toBe(6);
+        expect(repaired.attributes.position.count).toBe(3);
+    });
+
+    it('gives every extra fan of a non-manifold vertex its own welded vertex', () => {
+        // Two triangles that touch only at vertex 0.
+        const geometry = createGeometry([0, 0, 0, 1, 0, 0, 1, 1, 0, -1, 0, 0, -1, -1, 0], [0, 1, 2, 0, 3, 4]);
+        const repaired = repairGeometry(geometry, ALL_REPAIRS);
+        const diagnostics = diagnose(repaired);
+
+        expect(diagnostics.vertexCount).toBe(6);
+        expect(diagnostics.nonManifoldVertices).toEqual([]);
+        // The copy moved only slightly, towards its own triangle.
+        const copy = new THREE.Vector3().fromBufferAttribute(repaired.attributes.position as THREE.BufferAttribute, repaired.index!.getX(3));
+        expect(copy.length()).toBeGreaterThan(0);
+        expect(copy.length()).toBeLessThan(0.05);
+        expect(copy.x).toBeLessThan(0);
+        expect(copy.y).toBeLessThan(0);
+    });
+});
@@ -0,0 +1,159 @@
+// src/utils/meshRepair.ts
+
+import * as THREE from 'three';
+
+import { computeVertexFans } from '../geometry/meshDiagnostics';
+import { faceKey, getDegenerateAreaThreshold, isDegenerateFace } from '../geometry/meshFaces';
+import { buildSolverMesh, WELD_TOLERANCE } from './vertexMapping';
+
+export type MeshRepairOptions = {
+    // Also removes repeated copies of a face.
+    removeDegenerateFaces: boolean;
+    splitNonManifoldVertices: boolean;
+    removeUnreferencedVertices: boolean;
+};
+
+// A split vertex moves this fraction of the way towards its fan, but at least far enough not to be welded back.
+const SPLIT_OFFSET_RATIO = 0.01;
+const MIN_SPLIT_OFFSET = 4 * WELD_TOLERANCE;
+
+/**
+ * 在渲染几何体上修复诊断出的问题，返回新的（带索引的）几何体，原几何体不变。
+ *
+ * 求解器网格按位置焊接，所以拆分非流形顶点时，除第一个扇以外的每个扇都会得到一份顶点副本，
+ * 副本朝该扇的中心移动一个很小的距离，保证重新焊接后仍是独立的求解器顶点。
+ * 修复后的几何体不再与原始文件对应，因此会去掉 userData.sourceUrl 和 userData.objLayout。
+ */
+export function repairGeometry(geometry: THREE.BufferGeometry, options: MeshRepairOptions): THREE.BufferGeometry {
+    const { vertices, mapping } = buildSolverMesh(geometry);
+    const position = geometry.attributes.position;
+    const index = geometry.index;
+    const cornerCount = index ? index.count - index.count % 3 : position.count - position.count % 3;
+    const corners = new Int32Array(cornerCount);
+    for (let i = 0; i < cornerCount; i++) corners[i] = index ? index.getX(i) : i;
+    const faceCount = cornerCount / 3;
+    const solverCorner = (i: number) => mapping.renderToSolver[corners[i]];
+
+    const keep = new Uint8Array(faceCount).fill(1);
+    if (options.removeDegenerateFaces) {
+        const minArea = getDegenerateAreaThreshold(vertices);
+        const seen = new Set<string>();
+        for (let f = 0; f < faceCount; f++) {
+            const a = solverCorner(f * 3), b = solverCorner(f * 3 + 1), c = solverCorner(f * 3 + 2);
+            const key = faceKey(a, b, c);
+            if (isDegenerateFace(vertices, a, b, c, minArea) || seen.has(key)) keep[f] = 0;
+            seen.add(key);
+        }
+    }
+
+    // Copies of render vertices for split fans: source render vertex and its new position.
+    const copies: { source: number; position: THREE.Vector3 }[] = [];
+    if (options.splitNonManifoldVertices) {
+        // Fans are computed on the faces the solver sees, i.e. the kept faces without collapsed corners.
+        const solverFaces: number[] = [];
+        const renderFaces: number[] = [];
+        for (let f = 0; f < faceCount; f++) {
+            const a = solverCorner(f * 3), b = solverCorner(f * 3 + 1), c = solverCorner(f * 3 + 2);
+            if (!keep[f] || a === b || b === c || c === a) continue;
+            solverFaces.push(a, b, c);
+            renderFaces.push(f);
+        }
+
+        const vertex = new THREE.Vector3();
+        const centroid = new THREE.Vector3();
+        computeVertexFans(mapping.solverVertexCount, solverFaces).forEach((fans, v) => {
+            vertex.fromArray(vertices, v * 3);
+            fans.slice(1).forEach(fan => {
+                // Average of the fan's other corners; the copy is pulled towards it.
+                centroid.set(0, 0, 0);
+                let count = 0;
+                fan.forEach(s => {
+                    for (let k = 0; k < 3; k++) {
+                        const w = solverFaces[s * 3 + k];
+                        if (w === v) continue;
+                        centroid.x += vertices[w * 3];
+                        centroid.y += vertices[w * 3 + 1];
+                        centroid.z += vertices[w * 3 + 2];
+                        count++;
+                    }
+                });
+                centroid.divideScalar(count);
+                const distance = centroid.distanceTo(vertex);
+                const offset = Math.min(Math.max(distance * SPLIT_OFFSET_RATIO, MIN_SPLIT_OFFSET), distance / 2);
+                const moved = vertex.clone().lerp(centroid, distance > 0 ? offset / distance : 0);
+
+                // Render vertices of v in this fan (several at UV seams) each get one copy at the same moved position.
+                const fanCopies = new Map<number, number>();
+                fan.forEach(s => {
+                    const f = renderFaces[s];
+                    for (let k = 0; k < 3; k++) {
+                        const corner = f * 3 + k;
+                        if (solverCorner(corner) !== v) continue;
+                        const source = corners[corner];
+                        let copy = fanCopies.get(source);
+                        if (copy === undefined) {
+                            copy = position.count + copies.length;
+                            copies.push({ source, position: moved });
+                            fanCopies.set(source, copy);
+                        }
+                        corners[corner] = copy;
+                    }
+                });
+            });
+        });
+    }
+
+    // Old render vertex (including copies) -> new one; unreferenced vertices are left out if requested.
+    const totalCount = position.count + copies.length;
+    const remap = new Int32Array(totalCount).fill(-1);
+    if (options.removeUnreferencedVertices) {
+        for (let f = 0; f < faceCount; f++) {
+            if (keep[f]) for (let k = 0; k < 3; k++) remap[corners[f * 3 + k]] = 0;
+        }
+    } else {
+        remap.fill(0);
+    }
+    let nextIndex = 0;
+    remap.forEach((used, i) => {
+        if (used === 0) remap[i] = nextIndex++;
+    });
+
+    const repaired = new THREE.BufferGeometry();
+    const sourceOf = (i: number) => i < position.count ? i : copies[i - position.count].source;
+    Object.entries(geometry.attributes).forEach(([name, attribute]) => {
+        const ArrayType = attribute.array.constructor as new (length: number) => THREE.TypedArray;
+        const target = new THREE.BufferAttribute(new ArrayType(nextIndex * attribute.itemSize), attribute.itemSize, attribute.normalized);
+        for (let i = 0; i < totalCount; i++) {
+            if (remap[i] < 0) continue;
+            for (let c = 0; c < attribute.itemSize; c++) {
+                target.setComponent(remap[i], c, attribute.getComponent(sourceOf(i), c));
+            }
+            if (name === 'position' && i >= position.count) {
+                const { position: moved } = copies[i - position.count];
+                target.setXYZ(remap[i], moved.x, moved.y, moved.z);
+            }
+        }
+        repaired.setAttribute(name, target);
+    });
+
+    const newIndex: number[] = [];
+    const keptBefore = new Int32Array(faceCount + 1);
+    for (let f = 0; f < faceCount; f++) {
+        keptBefore[f + 1] = keptBefore[f] + keep[f];
+        if (keep[f]) for (let k = 0; k < 3; k++) newIndex.push(remap[corners[f * 3 + k]]);
+    }
+    repaired.setIndex(newIndex);
+    // Material groups keep their faces, which stay in order.
+    geometry.groups.forEach(group => {
+        const startFace = Math.min(Math.floor(group.start / 3), faceCount);
+        const endFace = Math.min(Math.floor((group.start + group.count) / 3), faceCount);
+        const count = (keptBefore[endFace] - keptBefore[startFace]) * 3;
+        if (count > 0) repaired.addGroup(keptBefore[startFace] * 3, count, group.materialIndex);
+    });
+
+    repaired.name = geometry.name;
+    repaired.userData = { ...geometry.userData };
+    delete repaired.userData.sourceUrl;
+    delete repaired.userData.objLayout;
+    return repaired;
+}
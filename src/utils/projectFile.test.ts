@@ -0,0 +1,125 @@
+// src/utils/projectFile.test.ts
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { DEFAULT_SOLVER_SETTINGS } from '../services/WasmSolverService';
+import { createHandleGroup } from './handleGroups';
+import {
+    parseProjectFile,
+    PROJECT_FORMAT,
+    PROJECT_VERSION,
+    ProjectFileError,
+    restoreProjectState,
+    serializeProject,
+    type ProjectFile,
+    type ProjectState,
+} from './projectFile';
+
+// A unit square: four vertices, two triangles.
+const geometry = new THREE.BufferGeometry();
+geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]), 3));
+geometry.setIndex([0, 1, 2, 0, 2, 3]);
+geometry.name = 'square';
+
+const createState = (): ProjectState => {
+    const positions = [new THREE.Vector3(0, 0, 0), new THREE.Vector3(1, 0, 0), new THREE.Vector3(1, 1, 0.5), new THREE.Vector3(0, 1, 0.5)];
+    return {
+        anchorIndices: [0, 1],
+        handleIndices: [2, 3],
+        constraintPositions: new Map(positions.map((position, index) => [index, position])),
+        constraintWeights: new Map([[3, 0.25]]),
+        handleGroups: [createHandleGroup('top', [2, 3], positions.slice(2))],
+        modelMatrix: new THREE.Matrix4().makeTranslation(1, 2, 3),
+        solverSettings: { ...DEFAULT_SOLVER_SETTINGS, model: 'sr-arap' },
+        vertices: new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0.5, 0, 1, 0.5]),
+        stiffness: new Float32Array([1, 1, 2, 2]),
+    };
+};
+
+// A project as the current version writes it, as a plain object that the tests can edit.
+const createProject = (): Record<string, unknown> => JSON.parse(serializeProject(geometry, 4, createState()));
+
+const parse = (project: Record<string, unknown>) => parseProjectFile(JSON.stringify(project));
+
+// Restores an edited project, skipping the structural checks so restoreProjectState sees the bad data.
+const restore = (edit: (project: ProjectFile) => void, solverVertexCount = 4) => {
+    const project = parse(createProject());
+    edit(project);
+    return () => restoreProjectState(project, solverVertexCount);
+};
+
+describe('parseProjectFile', () => {
+    it('restores what serializeProject wrote', () => {
+        const state = restoreProjectState(parse(createProject()), 4);
+        const expected = createState();
+
+        expect(state.anchorIndices).toEqual(expected.anchorIndices);
+        expect(state.handleIndices).toEqual(expected.handleIndices);
+        expect(state.constraintPositions).toEqual(expected.constraintPositions);
+        expect(state.constraintWeights).toEqual(expected.constraintWeights);
+        expect(state.handleGroups.map(group => [group.name, group.members])).toEqual([['top', expected.handleGroups[0].members]]);
+        expect(state.modelMatrix.equals(expected.modelMatrix)).toBe(true);
+        expect(state.solverSettings).toEqual(expected.solverSettings);
+        expect(state.vertices).toEqual(expected.vertices);
+        expect(state.stiffness).toEqual(expected.stiffness);
+    });
+
+    it('migrates a v1 project to plain ARAP without stiffness', () => {
+        const project = createProject();
+        const { tolerance, computeEnergy } = DEFAULT_SOLVER_SETTINGS;
+        delete project.stiffness;
+        const parsed = parse({ ...project, version: 1, solverSettings: { maxIterations: 20, tolerance, computeEnergy } });
+
+        expect(parsed.version).toBe(PROJECT_VERSION);
+        expect(parsed.solverSettings).toEqual({ ...DEFAULT_SOLVER_SETTINGS, maxIterations: 20 });
+        expect(parsed.stiffness).toBeNull();
+    });
+
+    it('keeps the solver settings of a v2 project and adds empty stiffness', () => {
+        const project = createProject();
+        delete project.stiffness;
+        const parsed = parse({ ...project, version: 2 });
+
+        expect(parsed.solverSettings).toEqual(createState().solverSettings);
+        expect(parsed.stiffness).toBeNull();
+    });
+
+    it('rejects files that are not projects of a known version', () => {
+        expect(() => parseProjectFile('{')).toThrow(/not valid JSON/);
+        expect(() => parse({ ...createProject(), format: 'something-else' })).toThrow(/not an ARAP deformer project/);
+        expect(() => parse({ ...createProject(), version: PROJECT_VERSION + 1 })).toThrow(/newer version/);
+        expect(() => parse({ format: PROJECT_FORMAT })).toThrow(/no valid schema version/);
+        expect(() => parse({ ...createProject(), version: 0 })).toThrow(/no valid schema version/);
+        expect(() => parse({ ...createProject(), version: '3' })).toThrow(ProjectFileError);
+    });
+
+    it('names the malformed field', () => {
+        const project = createProject();
+        expect(() => parse({ ...project, mesh: { ...(project.mesh as object), source: 'ftp' } })).toThrow('(mesh.source)');
+        expect(() => parse({ ...project, anchorIndices: [0, -1] })).toThrow('(anchorIndices)');
+        expect(() => parse({ ...project, constraintPositions: [{ index: 0, position: [0, 0, 0], weight: 2 }] })).toThrow('(constraintPositions)');
+        expect(() => parse({ ...project, modelTransform: [1, 0, 0] })).toThrow('(modelTransform)');
+        expect(() => parse({ ...project, solverSettings: { ...DEFAULT_SOLVER_SETTINGS, model: 'fem' } })).toThrow('(solverSettings)');
+        expect(() => parse({ ...project, stiffness: 1 })).toThrow('(stiffness)');
+    });
+});
+
+describe('restoreProjectState', () => {
+    it('rejects a project made for a different mesh', () => {
+        expect(restore(() => {}, 5)).toThrow(/mesh with 4 vertices, but the loaded mesh has 5/);
+        expect(restore(project => { project.anchorIndices = [0, 4]; })).toThrow(/anchors refer to vertices that do not exist/);
+        expect(restore(project => { project.deformedVertices = btoa('\0'.repeat(8)); })).toThrow(/deformed vertices/);
+        expect(restore(project => { project.stiffness = btoa('\0'.repeat(16)); })).toThrow(/stiffness/);
+    });
+
+    it('rejects inconsistent constraints', () => {
+        expect(restore(project => { project.handleIndices = [2, 2]; })).toThrow(/handles contain duplicates/);
+        expect(restore(project => { project.constraintPositions = project.constraintPositions.slice(1); })).toThrow(/1 anchor or handle positions are missing/);
+        expect(restore(project => { project.handleGroups[0].members[0].index = 1; })).toThrow(/"top" contains vertices that are not handles/);
+    });
+
+    it('rejects corrupted binary data', () => {
+        expect(restore(project => { project.deformedVertices = '@@@'; })).toThrow(/corrupted binary data/);
+    });
+});
@@ -0,0 +1,337 @@
+// src/utils/projectFile.ts
+
+import * as THREE from 'three';
+
+import { DEFAULT_SOLVER_SETTINGS, DEFORMATION_MODELS, type DeformationModel, type SolverSettings } from '../services/WasmSolverService';
+import { createHandleGroupId, type HandleGroup } from './handleGroups';
+import { importMeshUrl } from './meshImport';
+
+export const PROJECT_FORMAT = 'arap-deformer-project';
+export const PROJECT_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = '.arap.json';
+
+export class ProjectFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProjectFileError';
+    }
+}
+
+type Vec3 = [number, number, number];
+type Mat4 = number[];
+
+type EmbeddedMesh = {
+    source: 'embedded';
+    name: string;
+    // Base64-encoded little-endian Float32 arrays; the index (if any) is Uint32.
+    attributes: { position: string; normal?: string; uv?: string };
+    index?: string;
+};
+
+type ReferencedMesh = {
+    source: 'url';
+    name: string;
+    url: string;
+};
+
+/**
+ * 项目文件（第 3 版）。所有位置都在模型的局部坐标系（求解器坐标系）中，与模型变换无关；
+ * 索引都是焊接后的求解器顶点索引，solverVertexCount 用来确认它们属于同一个网格。
+ */
+export type ProjectFile = {
+    format: typeof PROJECT_FORMAT;
+    version: typeof PROJECT_VERSION;
+    mesh: EmbeddedMesh | ReferencedMesh;
+    solverVertexCount: number;
+    anchorIndices: number[];
+    handleIndices: number[];
+    // Target position of every anchor and handle; soft constraints also store their weight (older files have none).
+    constraintPositions: { index: number; position: Vec3; weight?: number }[];
+    handleGroups: { name: string; members: { index: number; offset: Vec3 }[]; transform: Mat4 }[];
+    modelTransform: Mat4;
+    solverSettings: SolverSettings;
+    // Deformed solver vertices (base64 Float32), or null for the rest pose.
+    deformedVertices: string | null;
+    // Per-vertex stiffness (base64 Float32), or null when it was never painted.
+    stiffness: string | null;
+};
+
+/** 项目在编辑器中的状态，由 App 提供（保存）或接收（打开）。 */
+export type ProjectState = {
+    anchorIndices: number[];
+    handleIndices: number[];
+    constraintPositions: Map<number, THREE.Vector3>;
+    // Weights of the soft constraints; the others are hard.
+    constraintWeights: Map<number, number>;
+    handleGroups: HandleGroup[];
+    modelMatrix: THREE.Matrix4;
+    solverSettings: SolverSettings;
+    vertices: Float32Array | null;
+    stiffness: Float32Array | null;
+};
+
+const toBase64 = (array: ArrayBufferView): string => {
+    const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+    let binary = '';
+    // String.fromCharCode cannot take millions of arguments at once.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (data: string): ArrayBuffer => {
+    let binary: string;
+    try {
+        binary = atob(data);
+    } catch {
+        throw new ProjectFileError('The project file contains corrupted binary data.');
+    }
+    const buffer = new ArrayBuffer(binary.length);
+    const bytes = new Uint8Array(buffer);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    if (buffer.byteLength % 4 !== 0) {
+        throw new ProjectFileError('The project file contains corrupted binary data.');
+    }
+    return buffer;
+};
+
+const attributeToFloat32 = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): Float32Array => {
+    const array = new Float32Array(attribute.count * attribute.itemSize);
+    for (let i = 0; i < attribute.count; i++) {
+        for (let c = 0; c < attribute.itemSize; c++) array[i * attribute.itemSize + c] = attribute.getComponent(i, c);
+    }
+    return array;
+};
+
+const embedMesh = (geometry: THREE.BufferGeometry): EmbeddedMesh => {
+    const attributes: EmbeddedMesh['attributes'] = { position: toBase64(attributeToFloat32(geometry.attributes.position)) };
+    if (geometry.attributes.normal) attributes.normal = toBase64(attributeToFloat32(geometry.attributes.normal));
+    if (geometry.attributes.uv) attributes.uv = toBase64(attributeToFloat32(geometry.attributes.uv));
+    return {
+        source: 'embedded',
+        name: geometry.name,
+        attributes,
+        index: geometry.index ? toBase64(Uint32Array.from(geometry.index.array)) : undefined,
+    };
+};
+
+/**
+ * 把编辑器状态写成项目 JSON。embed 为 false 且模型来自 URL 时只记录 URL，否则把网格嵌入文件。
+ */
+export function serializeProject(geometry: THREE.BufferGeometry, solverVertexCount: number, state: ProjectState, embed = true): string {
+    const sourceUrl: unknown = geometry.userData.sourceUrl;
+    const project: ProjectFile = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        mesh: !embed && typeof sourceUrl === 'string'
+            ? { source: 'url', name: geometry.name, url: sourceUrl }
+            : embedMesh(geometry),
+        solverVertexCount,
+        anchorIndices: state.anchorIndices,
+        handleIndices: state.handleIndices,
+        constraintPositions: Array.from(state.constraintPositions, ([index, position]) => ({
+            index,
+            position: position.toArray() as Vec3,
+            weight: state.constraintWeights.get(index),
+        })),
+        handleGroups: state.handleGroups.map(group => ({
+            name: group.name,
+            members: group.members.map(member => ({ index: member.index, offset: member.offset.toArray() as Vec3 })),
+            transform: group.transform.toArray(),
+        })),
+        modelTransform: state.modelMatrix.toArray(),
+        solverSettings: state.solverSettings,
+        deformedVertices: state.vertices ? toBase64(state.vertices) : null,
+        stiffness: state.stiffness ? toBase64(state.stiffness) : null,
+    };
+    return JSON.stringify(project);
+}
+
+// Upgrades a project of the given version to the next one. Add an entry whenever PROJECT_VERSION is bumped.
+const MIGRATIONS: Record<number, (project: Record<string, unknown>) => Record<string, unknown>> = {
+    // v2 added the deformation model; older projects were always solved with plain ARAP.
+    1: project => ({
+        ...project,
+        solverSettings: {
+            model: DEFAULT_SOLVER_SETTINGS.model,
+            rotationSmoothness: DEFAULT_SOLVER_SETTINGS.rotationSmoothness,
+            volumeWeight: DEFAULT_SOLVER_SETTINGS.volumeWeight,
+            ...(isObject(project.solverSettings) ? project.solverSettings : {}),
+        },
+    }),
+    // v3 added painted stiffness.
+    2: project => ({ ...project, stiffness: null }),
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberArray = (value: unknown, length?: number): value is number[] =>
+    Array.isArray(value) && (length === undefined || value.length === length) && value.every(v => typeof v === 'number' && isFinite(v));
+
+const isIndexArray = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.every(v => Number.isInteger(v) && v >= 0);
+
+const migrateProject = (raw: Record<string, unknown>): Record<string, unknown> => {
+    let project = raw;
+    let version = project.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new ProjectFileError('The project file has no valid schema version.');
+    }
+    if (version > PROJECT_VERSION) {
+        throw new ProjectFileError(`The project was saved by a newer version of the editor (schema v${version}).`);
+    }
+    while (version < PROJECT_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new ProjectFileError(`Project schema v${version} can no longer be opened.`);
+        project = migrate(project);
+        version++;
+    }
+    return { ...project, version };
+};
+
+const checkStructure = (project: Record<string, unknown>): ProjectFile => {
+    const fail = (field: string): never => {
+        throw new ProjectFileError(`The project file is malformed (${field}).`);
+    };
+
+    const mesh = project.mesh;
+    if (!isObject(mesh) || typeof mesh.name !== 'string') fail('mesh');
+    const meshRecord = mesh as Record<string, unknown>;
+    if (meshRecord.source === 'url') {
+        if (typeof meshRecord.url !== 'string') fail('mesh.url');
+    } else if (meshRecord.source === 'embedded') {
+        if (!isObject(meshRecord.attributes) || typeof meshRecord.attributes.position !== 'string') fail('mesh.attributes');
+    } else {
+        fail('mesh.source');
+    }
+
+    if (!Number.isInteger(project.solverVertexCount)) fail('solverVertexCount');
+    if (!isIndexArray(project.anchorIndices)) fail('anchorIndices');
+    if (!isIndexArray(project.handleIndices)) fail('handleIndices');
+    if (!Array.isArray(project.constraintPositions) || !project.constraintPositions.every(entry =>
+        isObject(entry) && Number.isInteger(entry.index) && isNumberArray(entry.position, 3) &&
+        (entry.weight === undefined || (typeof entry.weight === 'number' && entry.weight > 0 && entry.weight <= 1))
+    )) fail('constraintPositions');
+    if (!Array.isArray(project.handleGroups) || !project.handleGroups.every(group =>
+        isObject(group) && typeof group.name === 'string' && isNumberArray(group.transform, 16) &&
+        Array.isArray(group.members) && group.members.every(member =>
+            isObject(member) && Number.isInteger(member.index) && isNumberArray(member.offset, 3)
+        )
+    )) fail('handleGroups');
+    if (!isNumberArray(project.modelTransform, 16)) fail('modelTransform');
+    const settings = project.solverSettings;
+    if (!isObject(settings) || !Number.isInteger(settings.maxIterations) || typeof settings.tolerance !== 'number' ||
+        typeof settings.computeEnergy !== 'boolean' || !DEFORMATION_MODELS.includes(settings.model as DeformationModel) ||
+        typeof settings.rotationSmoothness !== 'number' || typeof settings.volumeWeight !== 'number') fail('solverSettings');
+    if (project.deformedVertices !== null && typeof project.deformedVertices !== 'string') fail('deformedVertices');
+    if (project.stiffness !== null && typeof project.stiffness !== 'string') fail('stiffness');
+
+    return project as ProjectFile;
+};
+
+/** 解析项目 JSON：检查格式标识，把旧版本迁移到当前版本，并检查结构。 */
+export function parseProjectFile(text: string): ProjectFile {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new ProjectFileError('The file is not valid JSON.');
+    }
+    if (!isObject(raw) || raw.format !== PROJECT_FORMAT) {
+        throw new ProjectFileError('The file is not an ARAP deformer project.');
+    }
+    return checkStructure(migrateProject(raw));
+}
+
+/** 取回项目引用或嵌入的源网格。 */
+export async function loadProjectGeometry(project: ProjectFile): Promise<THREE.BufferGeometry> {
+    if (project.mesh.source === 'url') {
+        return importMeshUrl(project.mesh.url);
+    }
+
+    const { attributes, index, name } = project.mesh;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(fromBase64(attributes.position)), 3));
+    if (attributes.normal) geometry.setAttribute('normal', new THREE.BufferAttribute(new Float32Array(fromBase64(attributes.normal)), 3));
+    if (attributes.uv) geometry.setAttribute('uv', new THREE.BufferAttribute(new Float32Array(fromBase64(attributes.uv)), 2));
+    if (index) geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(fromBase64(index)), 1));
+    geometry.name = name;
+    return geometry;
+}
+
+/**
+ * 把项目中的约束恢复成编辑器状态。solverVertexCount 是实际载入的网格焊接后的顶点数；
+ * 与项目记录的不一致，或有任何索引越界、重复、缺少目标位置时，抛出 ProjectFileError。
+ */
+export function restoreProjectState(project: ProjectFile, solverVertexCount: number): ProjectState {
+    if (project.solverVertexCount !== solverVertexCount) {
+        throw new ProjectFileError(
+            `The project was made for a mesh with ${project.solverVertexCount} vertices, but the loaded mesh has ${solverVertexCount}.`
+        );
+    }
+
+    const checkIndices = (indices: number[], label: string) => {
+        if (indices.some(index => index >= solverVertexCount)) {
+            throw new ProjectFileError(`The project's ${label} refer to vertices that do not exist in the mesh.`);
+        }
+        if (new Set(indices).size !== indices.length) {
+            throw new ProjectFileError(`The project's ${label} contain duplicates.`);
+        }
+    };
+    checkIndices(project.anchorIndices, 'anchors');
+    checkIndices(project.handleIndices, 'handles');
+
+    const constraintPositions = new Map(project.constraintPositions.map(entry =>
+        [entry.index, new THREE.Vector3().fromArray(entry.position)] as const
+    ));
+    const constraintWeights = new Map(project.constraintPositions
+        .filter(entry => entry.weight !== undefined && entry.weight < 1)
+        .map(entry => [entry.index, entry.weight!] as const));
+    const missing = [...project.anchorIndices, ...project.handleIndices].filter(index => !constraintPositions.has(index));
+    if (missing.length > 0) {
+        throw new ProjectFileError(`${missing.length} anchor or handle positions are missing from the project.`);
+    }
+
+    const handles = new Set(project.handleIndices);
+    const handleGroups = project.handleGroups.map(group => {
+        if (group.members.some(member => !handles.has(member.index))) {
+            throw new ProjectFileError(`Handle group "${group.name}" contains vertices that are not handles.`);
+        }
+        return {
+            id: createHandleGroupId(),
+            name: group.name,
+            members: group.members.map(member => ({ index: member.index, offset: new THREE.Vector3().fromArray(member.offset) })),
+            transform: new THREE.Matrix4().fromArray(group.transform),
+        };
+    });
+
+    let vertices: Float32Array | null = null;
+    if (project.deformedVertices) {
+        vertices = new Float32Array(fromBase64(project.deformedVertices));
+        if (vertices.length !== solverVertexCount * 3) {
+            throw new ProjectFileError('The deformed vertices in the project do not match the mesh.');
+        }
+    }
+
+    let stiffness: Float32Array | null = null;
+    if (project.stiffness) {
+        stiffness = new Float32Array(fromBase64(project.stiffness));
+        if (stiffness.length !== solverVertexCount || stiffness.some(value => !(value > 0) || !isFinite(value))) {
+            throw new ProjectFileError('The stiffness in the project does not match the mesh.');
+        }
+    }
+
+    return {
+        anchorIndices: project.anchorIndices,
+        handleIndices: project.handleIndices,
+        constraintPositions,
+        constraintWeights,
+        handleGroups,
+        modelMatrix: new THREE.Matrix4().fromArray(project.modelTransform),
+        solverSettings: project.solverSettings,
+        vertices,
+        stiffness,
+    };
+}
@@ -0,0 +1,69 @@
+// src/utils/qualityOverlay.ts
+
+import * as THREE from 'three';
+
+import type { QualityField, QualityMetric } from '../geometry/deformationQuality';
+
+export type QualityOverlay = QualityMetric | 'none';
+
+type OverlayInfo = {
+    label: string;
+    // Colour ramp from the low to the high end of the legend.
+    stops: string[];
+    // Diverging overlays are centred on 0 and span [-m, m]; the others span [0, max].
+    diverging: boolean;
+    format: (value: number) => string;
+};
+
+export const QUALITY_OVERLAYS: Record<QualityMetric, OverlayInfo> = {
+    displacement: {
+        label: 'Displacement',
+        stops: ['#f0f5ff', '#597ef7', '#061178'],
+        diverging: false,
+        format: value => value.toPrecision(3),
+    },
+    'area-change': {
+        label: 'Area change',
+        stops: ['#13c2c2', '#f5f5f5', '#eb2f96'],
+        diverging: true,
+        // Values are log2 area ratios.
+        format: value => `${value >= 0 ? '+' : ''}${((2 ** value - 1) * 100).toFixed(1)}%`,
+    },
+    rigidity: {
+        label: 'Rigidity error',
+        stops: ['#f0f5ff', '#597ef7', '#061178'],
+        diverging: false,
+        format: value => value.toExponential(2),
+    },
+};
+
+/** 图例两端对应的数值。 */
+export function getLegendRange(field: QualityField): [number, number] {
+    if (QUALITY_OVERLAYS[field.metric].diverging) {
+        const extent = Math.max(Math.abs(field.min), Math.abs(field.max));
+        return [-extent, extent];
+    }
+    return [0, field.max];
+}
+
+export const getLegendGradient = (metric: QualityMetric) =>
+    `linear-gradient(to right, ${QUALITY_OVERLAYS[metric].stops.join(', ')})`;
+
+/** 按图例把每个顶点的值映射成颜色，结果为每个求解器顶点的 rgb。 */
+export function getQualityColors(field: QualityField): Float32Array {
+    const stops = QUALITY_OVERLAYS[field.metric].stops.map(stop => new THREE.Color(stop));
+    const [low, high] = getLegendRange(field);
+    const span = high - low;
+    const colors = new Float32Array(field.values.length * 3);
+    const color = new THREE.Color();
+
+    field.values.forEach((value, i) => {
+        // A flat field (e.g. the rest pose) sits in the middle of a diverging ramp and at the start of the others.
+        const t = span > 0 ? THREE.MathUtils.clamp((value - low) / span, 0, 1) : (QUALITY_OVERLAYS[field.metric].diverging ? 0.5 : 0);
+        const scaled = t * (stops.length - 1);
+        const k = Math.min(Math.floor(scaled), stops.length - 2);
+        color.copy(stops[k]).lerp(stops[k + 1], scaled - k);
+        color.toArray(colors, i * 3);
+    });
+    return colors;
+}
@@ -0,0 +1,111 @@
+// src/utils/regionSelection.ts
+
+import * as THREE from 'three';
+
+export type SelectionTool = 'click' | 'brush' | 'lasso' | 'box';
+export type SelectionTarget = 'anchor' | 'handle';
+
+export type ScreenPoint = { x: number; y: number };
+
+export type SelectionShape =
+    | { tool: 'box'; start: ScreenPoint; end: ScreenPoint }
+    | { tool: 'lasso'; points: ScreenPoint[] }
+    | { tool: 'brush'; center: ScreenPoint; radius: number };
+
+/**
+ * 把求解器顶点（局部坐标）投影到画布像素坐标，结果为 [x0, y0, x1, y1, ...]。
+ * 位于相机后方的顶点，以及在 frontFacingOnly 时法线背对相机的顶点，坐标为 NaN，不会被任何形状选中。
+ */
+export function projectVertices(
+    positions: Float32Array,
+    normals: Float32Array | null,
+    localFrame: THREE.Object3D,
+    camera: THREE.Camera,
+    width: number,
+    height: number,
+    frontFacingOnly: boolean
+): Float32Array {
+    const count = positions.length / 3;
+    const projected = new Float32Array(count * 2);
+    const world = new THREE.Vector3();
+    const ndc = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    const toCamera = new THREE.Vector3();
+    const cameraPosition = camera.getWorldPosition(new THREE.Vector3());
+    localFrame.updateWorldMatrix(true, false);
+    const normalMatrix = new THREE.Matrix3().getNormalMatrix(localFrame.matrixWorld);
+
+    for (let i = 0; i < count; i++) {
+        world.fromArray(positions, i * 3).applyMatrix4(localFrame.matrixWorld);
+
+        if (frontFacingOnly && normals) {
+            normal.fromArray(normals, i * 3).applyMatrix3(normalMatrix);
+            toCamera.subVectors(cameraPosition, world);
+            if (normal.dot(toCamera) <= 0) {
+                projected[i * 2] = projected[i * 2 + 1] = NaN;
+                continue;
+            }
+        }
+
+        ndc.copy(world).project(camera);
+        if (ndc.z < -1 || ndc.z > 1) {
+            projected[i * 2] = projected[i * 2 + 1] = NaN;
+            continue;
+        }
+        projected[i * 2] = (ndc.x + 1) / 2 * width;
+        projected[i * 2 + 1] = (1 - ndc.y) / 2 * height;
+    }
+    return projected;
+}
+
+// Even-odd ray casting test.
+const isInsidePolygon = (x: number, y: number, polygon: ScreenPoint[]) => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/** 返回投影落在选择形状内的顶点索引。 */
+export function verticesInShape(projected: Float32Array, shape: SelectionShape): number[] {
+    const result: number[] = [];
+    const count = projected.length / 2;
+
+    if (shape.tool === 'box') {
+        const minX = Math.min(shape.start.x, shape.end.x);
+        const maxX = Math.max(shape.start.x, shape.end.x);
+        const minY = Math.min(shape.start.y, shape.end.y);
+        const maxY = Math.max(shape.start.y, shape.end.y);
+        for (let i = 0; i < count; i++) {
+            const x = projected[i * 2];
+            const y = projected[i * 2 + 1];
+            if (x >= minX && x <= maxX && y >= minY && y <= maxY) result.push(i);
+        }
+    } else if (shape.tool === 'lasso') {
+        if (shape.points.length < 3) return result;
+        let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+        shape.points.forEach(p => {
+            minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+            minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+        });
+        for (let i = 0; i < count; i++) {
+            const x = projected[i * 2];
+            const y = projected[i * 2 + 1];
+            if (!(x >= minX && x <= maxX && y >= minY && y <= maxY)) continue;
+            if (isInsidePolygon(x, y, shape.points)) result.push(i);
+        }
+    } else {
+        const radiusSq = shape.radius * shape.radius;
+        for (let i = 0; i < count; i++) {
+            const dx = projected[i * 2] - shape.center.x;
+            const dy = projected[i * 2 + 1] - shape.center.y;
+            if (dx * dx + dy * dy <= radiusSq) result.push(i);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,148 @@
+// src/utils/skeleton.ts
+
+import * as THREE from 'three';
+
+export type BoneMember = {
+    index: number;
+    // Position in the bone's rest frame, i.e. before any bone of the chain is rotated (model local frame).
+    position: THREE.Vector3;
+};
+
+/**
+ * 骨架中的一根骨骼。head / tail 是静止姿态下的关节位置（模型局部坐标），
+ * rotation 是绕 head 的姿态旋转（相对于父骨骼）。
+ * 骨骼的姿态矩阵 = 父骨骼的姿态矩阵 * T(head) * R(rotation) * T(-head)，成员的目标位置 = 姿态矩阵 * position。
+ */
+export type Bone = {
+    id: string;
+    name: string;
+    parentId: string | null;
+    head: THREE.Vector3;
+    tail: THREE.Vector3;
+    rotation: THREE.Quaternion;
+    members: BoneMember[];
+};
+
+// Vertices whose projection falls this close (as a fraction of the bone length) to a joint shared with another bone
+// stay free, so ARAP bends the skin around the joint instead of tearing it between two rigid bones.
+const JOINT_MARGIN = 0.2;
+
+let nextBoneId = 1;
+
+export function createBone(name: string, head: THREE.Vector3, tail: THREE.Vector3, parentId: string | null): Bone {
+    return {
+        id: `bone-${nextBoneId++}`,
+        name,
+        parentId,
+        head: head.clone(),
+        tail: tail.clone(),
+        rotation: new THREE.Quaternion(),
+        members: [],
+    };
+}
+
+export function cloneBones(bones: Bone[]): Bone[] {
+    return bones.map(bone => ({
+        ...bone,
+        head: bone.head.clone(),
+        tail: bone.tail.clone(),
+        rotation: bone.rotation.clone(),
+        members: bone.members.map(member => ({ index: member.index, position: member.position.clone() })),
+    }));
+}
+
+/** 按前向运动学计算每根骨骼的姿态矩阵（模型局部坐标系）。 */
+export function computeBoneMatrices(bones: Bone[]): Map<string, THREE.Matrix4> {
+    const byId = new Map(bones.map(bone => [bone.id, bone]));
+    const matrices = new Map<string, THREE.Matrix4>();
+    const resolve = (bone: Bone): THREE.Matrix4 => {
+        const cached = matrices.get(bone.id);
+        if (cached) return cached;
+        const parent = bone.parentId ? byId.get(bone.parentId) : undefined;
+        const matrix = parent ? resolve(parent).clone() : new THREE.Matrix4();
+        matrix
+            .multiply(new THREE.Matrix4().makeTranslation(bone.head.x, bone.head.y, bone.head.z))
+            .multiply(new THREE.Matrix4().makeRotationFromQuaternion(bone.rotation))
+            .multiply(new THREE.Matrix4().makeTranslation(-bone.head.x, -bone.head.y, -bone.head.z));
+        matrices.set(bone.id, matrix);
+        return matrix;
+    };
+    bones.forEach(resolve);
+    return matrices;
+}
+
+/** 父骨骼的姿态矩阵；根骨骼为单位矩阵。 */
+export const getParentMatrix = (bone: Bone, matrices: Map<string, THREE.Matrix4>): THREE.Matrix4 =>
+    (bone.parentId ? matrices.get(bone.parentId) : undefined) ?? new THREE.Matrix4();
+
+/** 所有被绑定的顶点在当前姿态下的目标位置（模型局部坐标）。 */
+export function computeSkeletonTargets(bones: Bone[], matrices = computeBoneMatrices(bones)): Map<number, THREE.Vector3> {
+    const targets = new Map<number, THREE.Vector3>();
+    bones.forEach(bone => {
+        const matrix = matrices.get(bone.id)!;
+        bone.members.forEach(member => targets.set(member.index, member.position.clone().applyMatrix4(matrix)));
+    });
+    return targets;
+}
+
+/**
+ * 把 radius 以内、离某根骨骼最近的顶点绑定到该骨骼上（关节附近的顶点除外），返回新的骨骼数组。
+ * vertices 为当前姿态下的求解器顶点（模型局部坐标）；excluded 中的顶点（锚定点、手柄组成员）不会被绑定。
+ */
+export function bindBones(bones: Bone[], vertices: Float32Array, radius: number, excluded: Set<number>): Bone[] {
+    const matrices = computeBoneMatrices(bones);
+    const segments = bones.map(bone => {
+        const matrix = matrices.get(bone.id)!;
+        return {
+            head: bone.head.clone().applyMatrix4(matrix),
+            tail: bone.tail.clone().applyMatrix4(matrix),
+            // Free ends (the root's start, the tips of the chains) are bound all the way.
+            minT: bone.parentId || bones.some(other => other !== bone && other.head.equals(bone.head)) ? JOINT_MARGIN : 0,
+            maxT: bones.some(other => other.parentId === bone.id) ? 1 - JOINT_MARGIN : 1,
+        };
+    });
+    const inverses = bones.map(bone => matrices.get(bone.id)!.clone().invert());
+    const members: BoneMember[][] = bones.map(() => []);
+    const point = new THREE.Vector3();
+    const axis = new THREE.Vector3();
+    const closest = new THREE.Vector3();
+
+    for (let i = 0; i < vertices.length / 3; i++) {
+        if (excluded.has(i)) continue;
+        point.fromArray(vertices, i * 3);
+        let best = -1;
+        let bestDistance = radius;
+        let bestT = 0;
+        segments.forEach(({ head, tail }, b) => {
+            axis.subVectors(tail, head);
+            const lengthSq = axis.lengthSq();
+            const t = lengthSq > 0 ? THREE.MathUtils.clamp(point.clone().sub(head).dot(axis) / lengthSq, 0, 1) : 0;
+            const distance = closest.copy(head).addScaledVector(axis, t).distanceTo(point);
+            if (distance < bestDistance) {
+                best = b;
+                bestDistance = distance;
+                bestT = t;
+            }
+        });
+        if (best < 0 || bestT < segments[best].minT || bestT > segments[best].maxT) continue;
+        members[best].push({ index: i, position: point.clone().applyMatrix4(inverses[best]) });
+    }
+
+    return bones.map((bone, b) => ({ ...bone, members: members[b] }));
+}
+
+export function getSkeletonIndices(bones: Bone[]): Set<number> {
+    const indices = new Set<number>();
+    bones.forEach(bone => bone.members.forEach(member => indices.add(member.index)));
+    return indices;
+}
+
+/** 删除一根骨骼及其所有子骨骼。 */
+export function removeBoneSubtree(bones: Bone[], id: string): Bone[] {
+    const removed = new Set([id]);
+    // Bones are stored parents-first, so one pass finds every descendant.
+    bones.forEach(bone => {
+        if (bone.parentId && removed.has(bone.parentId)) removed.add(bone.id);
+    });
+    return bones.filter(bone => !removed.has(bone.id));
+}
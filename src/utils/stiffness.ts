@@ -0,0 +1,43 @@
+// src/utils/stiffness.ts
+
+import * as THREE from 'three';
+
+export const DEFAULT_STIFFNESS = 1;
+export const MIN_STIFFNESS = 0.1;
+export const MAX_STIFFNESS = 10;
+
+const SOFT_COLOR = new THREE.Color('#95de64');
+const RIGID_COLOR = new THREE.Color('#2f54eb');
+
+/**
+ * 把 indices 处的刚度设为 value，返回新数组（不修改 current）。
+ * current 为 null 表示所有顶点都是默认刚度；结果全部回到默认值时也返回 null。
+ */
+export function paintStiffness(
+    current: Float32Array | null, vertexCount: number, indices: number[], value: number
+): Float32Array | null {
+    const next = current ? current.slice() : new Float32Array(vertexCount).fill(DEFAULT_STIFFNESS);
+    const clamped = THREE.MathUtils.clamp(value, MIN_STIFFNESS, MAX_STIFFNESS);
+    indices.forEach(index => {
+        next[index] = clamped;
+    });
+    return next.every(s => s === DEFAULT_STIFFNESS) ? null : next;
+}
+
+/**
+ * 热力图颜色（每个求解器顶点的 rgb）：在对数刻度上，柔软（MIN_STIFFNESS）为绿色，默认刚度为 base，刚硬（MAX_STIFFNESS）为蓝色。
+ */
+export function getStiffnessColors(stiffness: Float32Array, base: THREE.Color): Float32Array {
+    const colors = new Float32Array(stiffness.length * 3);
+    const color = new THREE.Color();
+    stiffness.forEach((value, i) => {
+        const ratio = Math.log(value / DEFAULT_STIFFNESS);
+        if (ratio < 0) {
+            color.copy(base).lerp(SOFT_COLOR, Math.min(ratio / Math.log(MIN_STIFFNESS / DEFAULT_STIFFNESS), 1));
+        } else {
+            color.copy(base).lerp(RIGID_COLOR, Math.min(ratio / Math.log(MAX_STIFFNESS / DEFAULT_STIFFNESS), 1));
+        }
+        color.toArray(colors, i * 3);
+    });
+    return colors;
+}
@@ -0,0 +1,73 @@
+// src/utils/symmetry.test.ts
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { buildMirrorMap, detectSymmetry, getAxisPlane, reflectPoint, withMirrors } from './symmetry';
+
+// Deterministic points in [0, 1), so the clouds below have no accidental symmetry.
+const random = (() => {
+    let seed = 12345;
+    return () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+})();
+
+// 100 random points with x > 0.6 and their mirror images across x = 0.5, then 4 points on that plane.
+const half = Array.from({ length: 100 }, () => [0.6 + random() * 2, random(), random() * 3]);
+const cloud = new Float32Array([
+    ...half.flat(),
+    ...half.flatMap(([x, y, z]) => [1 - x, y, z]),
+    ...Array.from({ length: 4 }, () => [0.5, random(), random() * 3]).flat(),
+]);
+
+describe('getAxisPlane', () => {
+    it('passes through the centre of the bounding box', () => {
+        expect(getAxisPlane(cloud, 'x').offset).toBeCloseTo(0.5, 5);
+        expect(getAxisPlane(new Float32Array([0, -1, 4, 2, 3, 6]), 'y')).toEqual({ axis: 'y', offset: 1 });
+        expect(reflectPoint(new THREE.Vector3(1, 2, 3), { axis: 'z', offset: 1 })).toEqual(new THREE.Vector3(1, 2, -1));
+    });
+});
+
+describe('buildMirrorMap', () => {
+    it('pairs every vertex with its mirror image and maps vertices on the plane to themselves', () => {
+        const map = buildMirrorMap(cloud, getAxisPlane(cloud, 'x'), 1e-4);
+
+        expect(map.matchedRatio).toBe(1);
+        for (let i = 0; i < 100; i++) {
+            expect(map.mirrors[i]).toBe(i + 100);
+            expect(map.mirrors[i + 100]).toBe(i);
+        }
+        for (let i = 200; i < 204; i++) expect(map.mirrors[i]).toBe(i);
+    });
+
+    it('leaves vertices without a mirror within the tolerance unmatched', () => {
+        const moved = cloud.slice();
+        moved[1] += 0.01;
+        const map = buildMirrorMap(moved, { axis: 'x', offset: 0.5 }, 1e-3);
+
+        expect(map.mirrors[0]).toBe(-1);
+        expect(map.mirrors[100]).toBe(-1);
+        expect(map.matchedRatio).toBeCloseTo(202 / 204, 10);
+        expect(buildMirrorMap(moved, { axis: 'x', offset: 0.5 }, 0.02).mirrors[0]).toBe(100);
+    });
+});
+
+describe('detectSymmetry', () => {
+    it('finds the plane the model is symmetric about', () => {
+        // Turn the cloud so its plane of symmetry is y = 0.5.
+        const turned = Float32Array.from(cloud, (_, i) => cloud[i % 3 === 0 ? i + 1 : i % 3 === 1 ? i - 1 : i]);
+        expect(detectSymmetry(turned, 1e-4)?.plane).toEqual({ axis: 'y', offset: expect.closeTo(0.5, 5) });
+    });
+
+    it('returns null when no coordinate plane mirrors most vertices', () => {
+        expect(detectSymmetry(new Float32Array(half.flat()), 1e-3)).toBeNull();
+    });
+});
+
+describe('withMirrors', () => {
+    it('appends the mirrors of the given vertices once', () => {
+        const mirrors = Int32Array.from([2, -1, 0, 3]);
+        expect(withMirrors([0, 1, 2, 3], mirrors)).toEqual([0, 1, 2, 3]);
+        expect(withMirrors([3, 0, 1], mirrors)).toEqual([3, 0, 1, 2]);
+        expect(withMirrors([1], null)).toEqual([1]);
+    });
+});
@@ -0,0 +1,116 @@
+// src/utils/symmetry.ts
+
+import * as THREE from 'three';
+
+export type SymmetryAxis = 'x' | 'y' | 'z';
+export type SymmetryMode = 'off' | SymmetryAxis | 'auto';
+
+/** 对称平面：与 axis 垂直、位于 axis 坐标 offset 处（模型局部坐标）。 */
+export type SymmetryPlane = { axis: SymmetryAxis; offset: number };
+
+export type MirrorMap = {
+    plane: SymmetryPlane;
+    // Mirror vertex of every solver vertex, -1 if none lies within the tolerance. Vertices on the plane map to themselves.
+    mirrors: Int32Array;
+    // Fraction of vertices that found a mirror.
+    matchedRatio: number;
+};
+
+// Tolerance of the mirror lookup as a fraction of the model's bounding-box diagonal.
+export const DEFAULT_SYMMETRY_TOLERANCE = 0.005;
+
+// Auto-detection gives up when no plane mirrors at least this fraction of the vertices.
+const MIN_DETECTED_RATIO = 0.5;
+
+const AXES: SymmetryAxis[] = ['x', 'y', 'z'];
+const AXIS_OFFSET = { x: 0, y: 1, z: 2 };
+
+/** 沿 axis 穿过包围盒中心的对称平面。 */
+export function getAxisPlane(vertices: Float32Array, axis: SymmetryAxis): SymmetryPlane {
+    const box = new THREE.Box3().setFromArray(vertices);
+    return { axis, offset: (box.min[axis] + box.max[axis]) / 2 };
+}
+
+/** 把 point 关于 plane 镜像（原地修改并返回 point）。 */
+export function reflectPoint(point: THREE.Vector3, plane: SymmetryPlane): THREE.Vector3 {
+    point[plane.axis] = 2 * plane.offset - point[plane.axis];
+    return point;
+}
+
+/**
+ * 为每个顶点找到镜像顶点：把顶点关于平面镜像后，在 tolerance（绝对距离）以内找最近的顶点。
+ * 查找使用边长为 tolerance 的空间哈希网格，所以每个顶点只需检查相邻的 27 个格子。
+ */
+export function buildMirrorMap(vertices: Float32Array, plane: SymmetryPlane, tolerance: number): MirrorMap {
+    const count = vertices.length / 3;
+    const cellSize = Math.max(tolerance, 1e-9);
+    const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+    const grid = new Map<string, number[]>();
+    for (let i = 0; i < count; i++) {
+        const key = cellKey(
+            Math.floor(vertices[i * 3] / cellSize),
+            Math.floor(vertices[i * 3 + 1] / cellSize),
+            Math.floor(vertices[i * 3 + 2] / cellSize)
+        );
+        const cell = grid.get(key);
+        if (cell) cell.push(i);
+        else grid.set(key, [i]);
+    }
+
+    const mirrors = new Int32Array(count).fill(-1);
+    const axisOffset = AXIS_OFFSET[plane.axis];
+    const reflected = [0, 0, 0];
+    const toleranceSq = tolerance * tolerance;
+    let matched = 0;
+    for (let i = 0; i < count; i++) {
+        for (let k = 0; k < 3; k++) reflected[k] = vertices[i * 3 + k];
+        reflected[axisOffset] = 2 * plane.offset - reflected[axisOffset];
+        const cx = Math.floor(reflected[0] / cellSize);
+        const cy = Math.floor(reflected[1] / cellSize);
+        const cz = Math.floor(reflected[2] / cellSize);
+
+        let best = -1;
+        let bestDistanceSq = toleranceSq;
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dz = -1; dz <= 1; dz++) {
+                    grid.get(cellKey(cx + dx, cy + dy, cz + dz))?.forEach(j => {
+                        const ex = vertices[j * 3] - reflected[0];
+                        const ey = vertices[j * 3 + 1] - reflected[1];
+                        const ez = vertices[j * 3 + 2] - reflected[2];
+                        const distanceSq = ex * ex + ey * ey + ez * ez;
+                        if (distanceSq <= bestDistanceSq) {
+                            best = j;
+                            bestDistanceSq = distanceSq;
+                        }
+                    });
+                }
+            }
+        }
+        mirrors[i] = best;
+        if (best >= 0) matched++;
+    }
+
+    return { plane, mirrors, matchedRatio: count > 0 ? matched / count : 0 };
+}
+
+/** 依次尝试三个穿过包围盒中心的坐标平面，返回镜像匹配率最高的一个；都不够对称时返回 null。 */
+export function detectSymmetry(vertices: Float32Array, tolerance: number): MirrorMap | null {
+    let best: MirrorMap | null = null;
+    for (const axis of AXES) {
+        const map = buildMirrorMap(vertices, getAxisPlane(vertices, axis), tolerance);
+        if (!best || map.matchedRatio > best.matchedRatio) best = map;
+    }
+    return best && best.matchedRatio >= MIN_DETECTED_RATIO ? best : null;
+}
+
+/** indices 加上它们的镜像顶点（去重，保持原顺序在前）。 */
+export function withMirrors(indices: number[], mirrors: Int32Array | null): number[] {
+    if (!mirrors) return indices;
+    const result = new Set(indices);
+    indices.forEach(index => {
+        const mirror = mirrors[index];
+        if (mirror >= 0) result.add(mirror);
+    });
+    return [...result];
+}
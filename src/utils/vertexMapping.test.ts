@@ -0,0 +1,108 @@
+// src/utils/vertexMapping.test.ts
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+
+import { buildSolverMesh } from './vertexMapping';
+
+// BoxGeometry splits every corner into three render vertices (one per face) because of the UV / normal seams.
+const seamedCube = () => new THREE.BoxGeometry(2, 2, 2);
+
+const renderPosition = (geometry: THREE.BufferGeometry, index: number) =>
+    new THREE.Vector3().fromBufferAttribute(geometry.attributes.position, index);
+
+describe('buildSolverMesh', () => {
+    it('welds the seamed cube into 8 solver vertices and keeps all 12 faces', () => {
+        const geometry = seamedCube();
+        const { vertices, faces, mapping } = buildSolverMesh(geometry);
+
+        expect(geometry.attributes.position.count).toBe(24);
+        expect(mapping.renderVertexCount).toBe(24);
+        expect(mapping.solverVertexCount).toBe(8);
+        expect(vertices.length).toBe(8 * 3);
+        expect(faces.length).toBe(12 * 3);
+        for (let s = 0; s < 8; s++) {
+            expect(mapping.getRenderIndices(s).length).toBe(3);
+        }
+    });
+
+    it('keeps the faces pointing at the same positions as the render triangles', () => {
+        const geometry = seamedCube();
+        const { vertices, faces } = buildSolverMesh(geometry);
+        const index = geometry.index!;
+
+        for (let corner = 0; corner < index.count; corner++) {
+            const solverPosition = new THREE.Vector3().fromArray(vertices, faces[corner] * 3);
+            expect(solverPosition.distanceTo(renderPosition(geometry, index.getX(corner)))).toBe(0);
+        }
+    });
+
+    it('drops triangles that collapse when welded', () => {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute([
+            0, 0, 0, 1, 0, 0, 0, 1, 0,
+            0, 0, 0, 1e-6, 0, 0, 0, 1, 0,
+        ], 3));
+        const { faces, mapping } = buildSolverMesh(geometry);
+
+        expect(mapping.solverVertexCount).toBe(3);
+        expect(Array.from(faces)).toEqual([0, 1, 2]);
+    });
+});
+
+describe('VertexMapping', () => {
+    it('maps every copy of a seamed corner to the same solver vertex', () => {
+        const geometry = seamedCube();
+        const { vertices, mapping } = buildSolverMesh(geometry);
+
+        for (let r = 0; r < mapping.renderVertexCount; r++) {
+            const s = mapping.toSolverIndex(r);
+            expect(Array.from(mapping.getRenderIndices(s))).toContain(r);
+            expect(new THREE.Vector3().fromArray(vertices, s * 3).distanceTo(renderPosition(geometry, r))).toBe(0);
+        }
+        expect(mapping.toSolverIndex(mapping.renderVertexCount)).toBe(-1);
+        expect(mapping.toSolverIndex(mapping.toRenderIndex(5))).toBe(5);
+    });
+
+    it('gathers the welded rest pose from the render geometry', () => {
+        const geometry = seamedCube();
+        const { vertices, mapping } = buildSolverMesh(geometry);
+
+        expect(Array.from(mapping.gatherSolverPositions(geometry.attributes.position as THREE.BufferAttribute))).toEqual(Array.from(vertices));
+    });
+
+    it('writes solver positions to every seam copy and reads them back unchanged', () => {
+        const geometry = seamedCube();
+        const { vertices, mapping } = buildSolverMesh(geometry);
+        const position = geometry.attributes.position as THREE.BufferAttribute;
+
+        const moved = vertices.slice();
+        for (let i = 0; i < moved.length; i += 3) {
+            moved[i] += 0.5;
+            moved[i + 2] *= 2;
+        }
+        const moveCorner = 3;
+        moved.set([7, 8, 9], moveCorner * 3);
+
+        const version = position.version;
+        mapping.applySolverPositions(moved, position);
+        expect(position.version).toBeGreaterThan(version);
+
+        for (const r of mapping.getRenderIndices(moveCorner)) {
+            expect(renderPosition(geometry, r).toArray()).toEqual([7, 8, 9]);
+        }
+        for (let r = 0; r < mapping.renderVertexCount; r++) {
+            const s = mapping.toSolverIndex(r);
+            expect(renderPosition(geometry, r).toArray()).toEqual(Array.from(moved.subarray(s * 3, s * 3 + 3)));
+        }
+        expect(Array.from(mapping.gatherSolverPositions(position))).toEqual(Array.from(moved));
+    });
+
+    it('rejects solver positions of the wrong length', () => {
+        const geometry = seamedCube();
+        const { mapping } = buildSolverMesh(geometry);
+
+        expect(() => mapping.applySolverPositions(new Float32Array(24 * 3), geometry.attributes.position as THREE.BufferAttribute))
+            .toThrow(/Expected 24 solver coordinates/);
+    });
+});
@@ -0,0 +1,132 @@
+// src/utils/vertexMapping.ts
+
+import * as THREE from 'three';
+
+/**
+ * 渲染几何体与求解器网格之间的顶点映射。
+ *
+ * 渲染几何体在 UV / 法线接缝处会把同一个位置拆成多个顶点，而 ARAP 求解器需要一个
+ * 按位置焊接的流形网格。拾取、上传约束和回写顶点位置都必须经过这层映射。
+ */
+export class VertexMapping {
+    /** renderToSolver[renderIndex] = solverIndex */
+    public readonly renderToSolver: Int32Array;
+    public readonly solverVertexCount: number;
+    // CSR layout: render vertices of solver vertex i are renderIndices[offsets[i] .. offsets[i + 1]).
+    private readonly offsets: Int32Array;
+    private readonly renderIndices: Int32Array;
+
+    constructor(renderToSolver: Int32Array, solverVertexCount: number) {
+        this.renderToSolver = renderToSolver;
+        this.solverVertexCount = solverVertexCount;
+
+        this.offsets = new Int32Array(solverVertexCount + 1);
+        for (let i = 0; i < renderToSolver.length; i++) {
+            this.offsets[renderToSolver[i] + 1]++;
+        }
+        for (let i = 0; i < solverVertexCount; i++) {
+            this.offsets[i + 1] += this.offsets[i];
+        }
+
+        const cursor = this.offsets.slice(0, solverVertexCount);
+        this.renderIndices = new Int32Array(renderToSolver.length);
+        for (let i = 0; i < renderToSolver.length; i++) {
+            this.renderIndices[cursor[renderToSolver[i]]++] = i;
+        }
+    }
+
+    public get renderVertexCount(): number {
+        return this.renderToSolver.length;
+    }
+
+    public toSolverIndex(renderIndex: number): number {
+        return this.renderToSolver[renderIndex] ?? -1;
+    }
+
+    public getRenderIndices(solverIndex: number): Int32Array {
+        return this.renderIndices.subarray(this.offsets[solverIndex], this.offsets[solverIndex + 1]);
+    }
+
+    /** 返回某个求解器顶点对应的任意一个渲染顶点（用于读取位置）。 */
+    public toRenderIndex(solverIndex: number): number {
+        return this.offsets[solverIndex] < this.offsets[solverIndex + 1] ? this.renderIndices[this.offsets[solverIndex]] : -1;
+    }
+
+    /** 把求解器输出的位置 (solverVertexCount * 3) 展开写入渲染几何体的每一个副本顶点。 */
+    public applySolverPositions(solverPositions: ArrayLike<number>, target: THREE.BufferAttribute): void {
+        if (solverPositions.length !== this.solverVertexCount * 3) {
+            throw new Error(`Expected ${this.solverVertexCount * 3} solver coordinates, got ${solverPositions.length}.`);
+        }
+        for (let r = 0; r < this.renderToSolver.length; r++) {
+            const s = this.renderToSolver[r] * 3;
+            target.setXYZ(r, solverPositions[s], solverPositions[s + 1], solverPositions[s + 2]);
+        }
+        target.needsUpdate = true;
+    }
+
+    /** 从渲染几何体收集求解器空间的位置（每个焊接顶点取第一个副本）。 */
+    public gatherSolverPositions(source: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): Float32Array {
+        const positions = new Float32Array(this.solverVertexCount * 3);
+        for (let s = 0; s < this.solverVertexCount; s++) {
+            const r = this.toRenderIndex(s);
+            positions[s * 3] = source.getX(r);
+            positions[s * 3 + 1] = source.getY(r);
+            positions[s * 3 + 2] = source.getZ(r);
+        }
+        return positions;
+    }
+}
+
+// Positions closer than this are welded into one solver vertex.
+export const WELD_TOLERANCE = 1e-4;
+
+export interface SolverMesh {
+    vertices: Float32Array;
+    faces: Int32Array;
+    mapping: VertexMapping;
+}
+
+/**
+ * 只按位置焊接渲染几何体，得到求解器网格和对应的映射。
+ * 与 BufferGeometryUtils.mergeVertices 不同，这里忽略 UV / 法线，所以接缝会被缝合。
+ * 焊接后退化的三角形会被丢弃。
+ */
+export function buildSolverMesh(geometry: THREE.BufferGeometry, tolerance = WELD_TOLERANCE): SolverMesh {
+    const position = geometry.attributes.position;
+    const shiftMultiplier = 1 / tolerance;
+    const lookup = new Map<string, number>();
+    const renderToSolver = new Int32Array(position.count);
+    const vertices: number[] = [];
+
+    for (let i = 0; i < position.count; i++) {
+        const x = position.getX(i);
+        const y = position.getY(i);
+        const z = position.getZ(i);
+        const hash = `${Math.round(x * shiftMultiplier)},${Math.round(y * shiftMultiplier)},${Math.round(z * shiftMultiplier)}`;
+
+        let solverIndex = lookup.get(hash);
+        if (solverIndex === undefined) {
+            solverIndex = vertices.length / 3;
+            lookup.set(hash, solverIndex);
+            vertices.push(x, y, z);
+        }
+        renderToSolver[i] = solverIndex;
+    }
+
+    const index = geometry.index;
+    const cornerCount = index ? index.count : position.count;
+    const faces: number[] = [];
+    for (let i = 0; i + 2 < cornerCount; i += 3) {
+        const a = renderToSolver[index ? index.getX(i) : i];
+        const b = renderToSolver[index ? index.getX(i + 1) : i + 1];
+        const c = renderToSolver[index ? index.getX(i + 2) : i + 2];
+        if (a === b || b === c || c === a) continue;
+        faces.push(a, b, c);
+    }
+
+    return {
+        vertices: new Float32Array(vertices),
+        faces: new Int32Array(faces),
+        mapping: new VertexMapping(renderToSolver, vertices.length / 3),
+    };
+}
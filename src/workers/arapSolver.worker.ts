@@ -0,0 +1,124 @@
+// src/workers/arapSolver.worker.ts
+
+import { loadArapModuleFromUrl, type ArapModule } from '../deformer/arapModule';
+import { CageDeformer } from '../deformer/CageDeformer';
+import { Deformer } from '../deformer/Deformer';
+import { ProxyDeformer } from '../deformer/ProxyDeformer';
+import { SolverError } from '../deformer/solverTypes';
+import type { SolverRequest, SolverResponse, SolverResult } from './solverMessages';
+
+// The Deformer (and its wasm ArapController) lives here, off the main thread. WasmSolverService is the only client.
+let arapModule: ArapModule | null = null;
+let deformer: Deformer | null = null;
+// Rest vertices of the loaded mesh (owned by the Deformer), needed to bind a cage to it.
+let meshVertices: Float32Array | null = null;
+let meshFaces: Int32Array | null = null;
+let cageDeformer: CageDeformer | null = null;
+let proxyDeformer: ProxyDeformer | null = null;
+
+const requireDeformer = (): Deformer => {
+    if (!deformer) throw new Error('Controller not created. Call loadMesh() first.');
+    return deformer;
+};
+
+const handleRequest = async (request: SolverRequest): Promise<SolverResult | undefined> => {
+    switch (request.type) {
+        case 'init':
+            if (arapModule) return;
+            arapModule = await loadArapModuleFromUrl(request.scriptUrl, request.wasmUrl);
+            return;
+        case 'loadMesh':
+            if (!arapModule) {
+                throw new Error('WasmSolverService is not initialized. Call init() first.');
+            }
+            deformer ??= await Deformer.create(arapModule);
+            deformer.setMesh(request.vertices, request.faces);
+            meshVertices = request.vertices;
+            meshFaces = request.faces;
+            // A cage or a proxy is bound to the mesh it was built for.
+            cageDeformer?.dispose();
+            cageDeformer = null;
+            proxyDeformer?.dispose();
+            proxyDeformer = null;
+            return;
+        case 'restore':
+            requireDeformer().restoreVertices(request.vertices);
+            cageDeformer?.reset();
+            proxyDeformer?.reset();
+            return;
+        case 'setStiffness':
+            requireDeformer().setStiffness(request.stiffness);
+            return;
+        case 'deform': {
+            return requireDeformer().deform({
+                anchorIndices: Array.from(request.anchorIndices),
+                handleIndices: Array.from(request.handleIndices),
+                positions: request.positions,
+                weights: request.weights,
+                collision: request.collision,
+            }, request.settings);
+        }
+        case 'loadCage':
+            if (!arapModule || !meshVertices) throw new Error('Controller not created. Call loadMesh() first.');
+            cageDeformer ??= await CageDeformer.create(arapModule);
+            cageDeformer.setCage(request.cageVertices, request.cageFaces, meshVertices);
+            return;
+        case 'clearCage':
+            cageDeformer?.dispose();
+            cageDeformer = null;
+            return;
+        case 'deformCage': {
+            if (!cageDeformer) throw new Error('No cage loaded. Call loadCage() first.');
+            return cageDeformer.deform({
+                anchorIndices: Array.from(request.anchorIndices),
+                handleIndices: Array.from(request.handleIndices),
+                positions: request.positions,
+            }, request.settings);
+        }
+        case 'loadProxy':
+            if (!arapModule || !meshVertices || !meshFaces) throw new Error('Controller not created. Call loadMesh() first.');
+            proxyDeformer ??= await ProxyDeformer.create(arapModule);
+            proxyDeformer.setMesh(meshVertices, meshFaces, request.levels);
+            return { proxyVertexCount: proxyDeformer.proxyVertexCount };
+        case 'clearProxy':
+            proxyDeformer?.dispose();
+            proxyDeformer = null;
+            return;
+        case 'deformProxy':
+            // The full-resolution pose is left alone; the refinement solve after the drag continues from it.
+            if (!proxyDeformer) throw new Error('No proxy built. Call loadProxy() first.');
+            return proxyDeformer.deform({
+                anchorIndices: Array.from(request.anchorIndices),
+                handleIndices: Array.from(request.handleIndices),
+                positions: request.positions,
+                weights: request.weights,
+            }, request.settings);
+        case 'getVertices':
+            return { vertices: requireDeformer().getVertices() };
+    }
+};
+
+const respond = async (request: SolverRequest) => {
+    const { id } = request;
+    let response: SolverResponse;
+    try {
+        const result = await handleRequest(request);
+        response = { id, ok: true, ...result };
+    } catch (error) {
+        response = {
+            id,
+            ok: false,
+            error: error instanceof Error ? error.message : String(error),
+            code: error instanceof SolverError ? error.code : 'internal',
+        };
+    }
+    // Results are always copies of the wasm heap, so their buffers can be transferred.
+    const transfer = response.ok ? [response.vertices?.buffer, response.cageVertices?.buffer].filter(buffer => buffer !== undefined) : [];
+    self.postMessage(response, { transfer });
+};
+
+// Requests are handled strictly in order, so e.g. 'setStiffness' cannot overtake a 'loadMesh' that is still awaiting the module.
+let queue = Promise.resolve();
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+    queue = queue.then(() => respond(event.data));
+};
@@ -0,0 +1,58 @@
+// src/workers/solverMessages.ts
+
+import type { SolverErrorCode, SolverSettings, SolveStats } from '../deformer/solverTypes';
+import type { CollisionOptions } from '../geometry/collision';
+
+// Message protocol between WasmSolverService (main thread) and arapSolver.worker.ts.
+
+export type SolverRequest =
+    | { id: number; type: 'init'; scriptUrl: string; wasmUrl: string }
+    | { id: number; type: 'loadMesh'; vertices: Float32Array; faces: Int32Array }
+    | {
+        id: number;
+        type: 'deform';
+        anchorIndices: Int32Array;
+        handleIndices: Int32Array;
+        // Targets for [...anchorIndices, ...handleIndices].
+        positions: Float32Array;
+        // Weight of each target in (0, 1], or null when all constraints are hard.
+        weights: Float32Array | null;
+        // Clip plane and self-intersection handling, or null to solve without collisions.
+        collision: CollisionOptions | null;
+        settings: SolverSettings;
+    }
+    // Per-vertex stiffness for the loaded mesh, or null for uniform stiffness.
+    | { id: number; type: 'setStiffness'; stiffness: Float32Array | null }
+    // Cage around the loaded mesh, in its rest pose and frame.
+    | { id: number; type: 'loadCage'; cageVertices: Float32Array; cageFaces: Int32Array }
+    | { id: number; type: 'clearCage' }
+    // Like 'deform', but the indices refer to cage vertices and the whole mesh follows the cage.
+    | {
+        id: number;
+        type: 'deformCage';
+        anchorIndices: Int32Array;
+        handleIndices: Int32Array;
+        positions: Float32Array;
+        settings: SolverSettings;
+    }
+    // Simplified proxy of the loaded mesh for previews while dragging; it ignores the stiffness.
+    | { id: number; type: 'loadProxy'; levels: number }
+    | { id: number; type: 'clearProxy' }
+    // Like 'deform' (same mesh indices), but solved on the proxy and carried back to the mesh.
+    | {
+        id: number;
+        type: 'deformProxy';
+        anchorIndices: Int32Array;
+        handleIndices: Int32Array;
+        positions: Float32Array;
+        weights: Float32Array | null;
+        settings: SolverSettings;
+    }
+    | { id: number; type: 'getVertices' }
+    | { id: number; type: 'restore'; vertices: Float32Array | null };
+
+export type SolverResult = { vertices?: Float32Array; stats?: SolveStats; cageVertices?: Float32Array; proxyVertexCount?: number };
+
+export type SolverResponse =
+    | ({ id: number; ok: true } & SolverResult)
+    | { id: number; ok: false; error: string; code: SolverErrorCode };
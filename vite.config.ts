@@ -1,7 +1,18 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-})
+  build: {
+    // The CLI (`npm run build:cli`) loads the wasm straight from public/, so it is not copied next to it.
+    copyPublicDir: !isSsrBuild,
+    // embed.html hosts a bare <arap-deformer> for iframes (see src/embed/frame.ts).
+    rollupOptions: isSsrBuild ? undefined : { input: { main: 'index.html', embed: 'embed.html' } },
+  },
+  test: {
+    // three-mesh-halfedge's main entry is a UMD bundle that expects a global THREE; inlining lets Vite pick its ES module.
+    server: { deps: { inline: ['three-mesh-halfedge'] } },
+  },
+}))